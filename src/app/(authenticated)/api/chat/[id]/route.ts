@@ -0,0 +1,29 @@
+import {
+  ChatAPIResume,
+  ChatAPIStop,
+} from "@/features/chat-page/chat-services/chat-api/chat-api";
+
+interface ChatRunParams {
+  params: {
+    id: string;
+  };
+}
+
+export async function GET(req: Request, { params }: ChatRunParams) {
+  const searchParams = new URL(req.url).searchParams;
+  const lastEventId =
+    searchParams.get("lastEventId") ?? req.headers.get("Last-Event-ID");
+
+  return await ChatAPIResume(
+    {
+      threadId: params.id,
+      runId: searchParams.get("runId") ?? undefined,
+      lastEventId: lastEventId ? Number(lastEventId) : -1,
+    },
+    req.signal
+  );
+}
+
+export async function DELETE(req: Request, { params }: ChatRunParams) {
+  return await ChatAPIStop(params.id);
+}
@@ -0,0 +1,11 @@
+import { DocumentAPIEntry } from "@/features/chat-page/chat-services/document-api";
+
+interface DocumentParams {
+  params: {
+    id: string;
+  };
+}
+
+export async function GET(req: Request, { params }: DocumentParams) {
+  return await DocumentAPIEntry(params.id);
+}
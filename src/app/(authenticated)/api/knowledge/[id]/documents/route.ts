@@ -0,0 +1,11 @@
+import { DocumentProgressAPIEntry } from "@/features/chat-page/chat-services/document-api";
+
+interface DocumentProgressParams {
+  params: {
+    id: string;
+  };
+}
+
+export async function GET(req: Request, { params }: DocumentProgressParams) {
+  return await DocumentProgressAPIEntry({ libraryId: params.id });
+}
@@ -0,0 +1,5 @@
+import { ChatCompletionsAPIEntry } from "@/features/chat-page/chat-services/chat-api/chat-completions-api";
+
+export async function POST(req: Request) {
+  return await ChatCompletionsAPIEntry(req);
+}
@@ -1,8 +1,11 @@
 import { ChatPage } from "@/features/chat-page/chat-page";
 import { FindAllChatDocuments } from "@/features/chat-page/chat-services/chat-document-service";
+import { FindAllChatFeedbackForCurrentUser } from "@/features/chat-page/chat-services/chat-feedback-service";
 import { FindAllChatMessagesForCurrentUser } from "@/features/chat-page/chat-services/chat-message-service";
 import { FindChatThreadForCurrentUser } from "@/features/chat-page/chat-services/chat-thread-service";
 import { FindAllExtensionForCurrentUser } from "@/features/extensions-page/extension-services/extension-service";
+import { FindAllKnowledgeLibrariesForCurrentUser } from "@/features/knowledge-page/knowledge-services/knowledge-service";
+import { FindAllModelDeployments } from "@/features/model-page/model-services/model-service";
 import { AI_NAME } from "@/features/theme/theme-config";
 import { DisplayError } from "@/features/ui/error/display-error";
 
@@ -19,13 +22,23 @@ interface HomeParams {
 
 export default async function Home(props: HomeParams) {
   const { id } = props.params;
-  const [chatResponse, chatThreadResponse, docsResponse, extensionResponse] =
-    await Promise.all([
-      FindAllChatMessagesForCurrentUser(id),
-      FindChatThreadForCurrentUser(id),
-      FindAllChatDocuments(id),
-      FindAllExtensionForCurrentUser(),
-    ]);
+  const [
+    chatResponse,
+    chatThreadResponse,
+    docsResponse,
+    extensionResponse,
+    modelsResponse,
+    feedbackResponse,
+    librariesResponse,
+  ] = await Promise.all([
+    FindAllChatMessagesForCurrentUser(id),
+    FindChatThreadForCurrentUser(id),
+    FindAllChatDocuments(id),
+    FindAllExtensionForCurrentUser(),
+    FindAllModelDeployments(),
+    FindAllChatFeedbackForCurrentUser(id),
+    FindAllKnowledgeLibrariesForCurrentUser(),
+  ]);
 
   if (docsResponse.status !== "OK") {
     return <DisplayError errors={docsResponse.errors} />;
@@ -43,12 +56,27 @@ export default async function Home(props: HomeParams) {
     return <DisplayError errors={chatThreadResponse.errors} />;
   }
 
+  if (modelsResponse.status !== "OK") {
+    return <DisplayError errors={modelsResponse.errors} />;
+  }
+
+  if (feedbackResponse.status !== "OK") {
+    return <DisplayError errors={feedbackResponse.errors} />;
+  }
+
+  if (librariesResponse.status !== "OK") {
+    return <DisplayError errors={librariesResponse.errors} />;
+  }
+
   return (
     <ChatPage
       messages={chatResponse.response}
       chatThread={chatThreadResponse.response}
       chatDocuments={docsResponse.response}
       extensions={extensionResponse.response}
+      models={modelsResponse.response}
+      feedback={feedbackResponse.response}
+      libraries={librariesResponse.response}
     />
   );
 }
@@ -0,0 +1,17 @@
+import { CitationViewerPage } from "@/features/chat-page/citation/citation-viewer-page";
+import { AI_NAME } from "@/features/theme/theme-config";
+
+export const metadata = {
+  title: AI_NAME,
+  description: AI_NAME,
+};
+
+interface Props {
+  params: {
+    id: string;
+  };
+}
+
+export default async function Home(props: Props) {
+  return <CitationViewerPage citationId={props.params.id} />;
+}
@@ -0,0 +1,38 @@
+import { getCurrentUser, userHashedId } from "@/features/auth-page/helpers";
+import { KnowledgePage } from "@/features/knowledge-page/knowledge-page";
+import {
+  FindAllKnowledgeLibrariesForCurrentUser,
+  FindAllKnowledgeLibraryDocuments,
+} from "@/features/knowledge-page/knowledge-services/knowledge-service";
+import { DisplayError } from "@/features/ui/error/display-error";
+
+export default async function Home() {
+  const [librariesResponse, user, userId] = await Promise.all([
+    FindAllKnowledgeLibrariesForCurrentUser(),
+    getCurrentUser(),
+    userHashedId(),
+  ]);
+
+  if (librariesResponse.status !== "OK") {
+    return <DisplayError errors={librariesResponse.errors} />;
+  }
+
+  const libraries = librariesResponse.response;
+  const documentsResponse = await FindAllKnowledgeLibraryDocuments(
+    libraries.map((l) => l.id)
+  );
+
+  if (documentsResponse.status !== "OK") {
+    return <DisplayError errors={documentsResponse.errors} />;
+  }
+
+  return (
+    <KnowledgePage
+      libraries={libraries}
+      documents={documentsResponse.response}
+      editableLibraryIds={libraries
+        .filter((l) => user.isAdmin || l.userId === userId)
+        .map((l) => l.id)}
+    />
+  );
+}
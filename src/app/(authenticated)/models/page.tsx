@@ -0,0 +1,5 @@
+import { ModelPage } from "@/features/model-page/model-page";
+
+export default async function Home() {
+  return <ModelPage />;
+}
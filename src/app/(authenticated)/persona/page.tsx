@@ -1,11 +1,34 @@
+import { FindAllExtensionForCurrentUser } from "@/features/extensions-page/extension-services/extension-service";
+import { FindAllKnowledgeLibrariesForCurrentUser } from "@/features/knowledge-page/knowledge-services/knowledge-service";
 import { ChatPersonaPage } from "@/features/persona-page/persona-page";
 import { FindAllPersonaForCurrentUser } from "@/features/persona-page/persona-services/persona-service";
 import { DisplayError } from "@/features/ui/error/display-error";
 
 export default async function Home() {
-  const personasResponse = await FindAllPersonaForCurrentUser();
+  const [personasResponse, extensionsResponse, librariesResponse] =
+    await Promise.all([
+      FindAllPersonaForCurrentUser(),
+      FindAllExtensionForCurrentUser(),
+      FindAllKnowledgeLibrariesForCurrentUser(),
+    ]);
+
   if (personasResponse.status !== "OK") {
     return <DisplayError errors={personasResponse.errors} />;
   }
-  return <ChatPersonaPage personas={personasResponse.response} />;
+
+  if (extensionsResponse.status !== "OK") {
+    return <DisplayError errors={extensionsResponse.errors} />;
+  }
+
+  if (librariesResponse.status !== "OK") {
+    return <DisplayError errors={librariesResponse.errors} />;
+  }
+
+  return (
+    <ChatPersonaPage
+      personas={personasResponse.response}
+      extensions={extensionsResponse.response}
+      libraries={librariesResponse.response}
+    />
+  );
 }
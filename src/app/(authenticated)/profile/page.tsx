@@ -0,0 +1,13 @@
+import { FindAllApiKeysForCurrentUser } from "@/features/profile-page/api-key-services/api-key-service";
+import { ProfilePage } from "@/features/profile-page/profile-page";
+import { DisplayError } from "@/features/ui/error/display-error";
+
+export default async function Home() {
+  const apiKeysResponse = await FindAllApiKeysForCurrentUser();
+
+  if (apiKeysResponse.status !== "OK") {
+    return <DisplayError errors={apiKeysResponse.errors} />;
+  }
+
+  return <ProfilePage apiKeys={apiKeysResponse.response} />;
+}
@@ -1,5 +1,8 @@
 import ReportingChatPage from "@/features/reporting-page/reporting-chat-page";
-import { FindAllChatMessagesForAdmin } from "@/features/reporting-page/reporting-services/reporting-service";
+import {
+  FindAllChatMessagesForAdmin,
+  FindRetrievalDiagnosticsForAdmin,
+} from "@/features/reporting-page/reporting-services/reporting-service";
 import { DisplayError } from "@/features/ui/error/display-error";
 
 interface HomeParams {
@@ -9,15 +12,24 @@ interface HomeParams {
 }
 
 export default async function Home(props: HomeParams) {
-  const [chatResponse] = await Promise.all([
+  const [chatResponse, diagnosticsResponse] = await Promise.all([
     FindAllChatMessagesForAdmin(props.params.id),
+    FindRetrievalDiagnosticsForAdmin(props.params.id),
   ]);
 
   if (chatResponse.status !== "OK") {
     return <DisplayError errors={chatResponse.errors} />;
   }
 
+  if (diagnosticsResponse.status !== "OK") {
+    return <DisplayError errors={diagnosticsResponse.errors} />;
+  }
+
   return (
-    <ReportingChatPage chatDocuments={[]} messages={chatResponse.response} />
+    <ReportingChatPage
+      chatDocuments={[]}
+      messages={chatResponse.response}
+      retrievalDiagnostics={diagnosticsResponse.response}
+    />
   );
 }
@@ -0,0 +1,16 @@
+import { ContentFilterReportingPage } from "@/features/reporting-page/content-filter-report-page";
+
+interface Props {
+  params: {};
+  searchParams: {
+    pageNumber?: string;
+  };
+}
+
+export default async function Home(props: Props) {
+  return (
+    <ContentFilterReportingPage
+      page={Number(props.searchParams.pageNumber ?? 0)}
+    />
+  );
+}
@@ -0,0 +1,24 @@
+import {
+  FeedbackReportingPage,
+  ParseFeedbackFilter,
+} from "@/features/reporting-page/feedback-report-page";
+
+interface Props {
+  params: {};
+  searchParams: {
+    pageNumber?: string;
+    rating?: string;
+    persona?: string;
+    from?: string;
+    to?: string;
+  };
+}
+
+export default async function Home(props: Props) {
+  return (
+    <FeedbackReportingPage
+      page={Number(props.searchParams.pageNumber ?? 0)}
+      filter={ParseFeedbackFilter(props.searchParams)}
+    />
+  );
+}
@@ -0,0 +1,16 @@
+import { PromptInjectionReportingPage } from "@/features/reporting-page/prompt-injection-report-page";
+
+interface Props {
+  params: {};
+  searchParams: {
+    pageNumber?: string;
+  };
+}
+
+export default async function Home(props: Props) {
+  return (
+    <PromptInjectionReportingPage
+      page={Number(props.searchParams.pageNumber ?? 0)}
+    />
+  );
+}
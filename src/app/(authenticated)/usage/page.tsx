@@ -0,0 +1,17 @@
+import { UsageMonth } from "@/features/usage-page/usage-services/models";
+import { UsagePage } from "@/features/usage-page/usage-page";
+
+interface Props {
+  params: {};
+  searchParams: {
+    month?: string;
+  };
+}
+
+export default async function Home(props: Props) {
+  const month = /^\d{4}-\d{2}$/.test(props.searchParams.month ?? "")
+    ? props.searchParams.month!
+    : UsageMonth();
+
+  return <UsagePage month={month} />;
+}
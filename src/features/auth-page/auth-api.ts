@@ -56,9 +56,11 @@ const configureIdentityProvider = () => {
             `https://graph.microsoft.com/v1.0/me/photos/48x48/$value`,
             tokens.access_token
           );
+          const businessUnit = await fetchDepartment(tokens.access_token);
           const newProfile = {
             ...profile,
             email,
+            businessUnit,
             id: profile.sub,
             isAdmin:
               adminEmails?.includes(profile.email?.toLowerCase()) ||
@@ -139,6 +141,33 @@ export const fetchProfilePicture = async (
   return image;
 };
 
+// the department of the Entra ID user is used as the business unit for usage charge back
+const fetchDepartment = async (
+  accessToken: any
+): Promise<string | undefined> => {
+  try {
+    const response = await fetch(
+      "https://graph.microsoft.com/v1.0/me?$select=department",
+      {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      }
+    );
+
+    if (response.ok) {
+      const user = await response.json();
+      return user.department || undefined;
+    }
+
+    console.error("Failed to fetch department:", response.statusText);
+  } catch (error) {
+    console.error("Failed to fetch department:", error);
+  }
+
+  return undefined;
+};
+
 export const options: NextAuthOptions = {
   secret: process.env.NEXTAUTH_SECRET,
   providers: [...configureIdentityProvider()],
@@ -147,10 +176,14 @@ export const options: NextAuthOptions = {
       if (user?.isAdmin) {
         token.isAdmin = user.isAdmin;
       }
+      if (user?.businessUnit) {
+        token.businessUnit = user.businessUnit;
+      }
       return token;
     },
     async session({ session, token, user }) {
       session.user.isAdmin = token.isAdmin as boolean;
+      session.user.businessUnit = token.businessUnit as string | undefined;
       return session;
     },
   },
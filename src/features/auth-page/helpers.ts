@@ -1,9 +1,23 @@
+import { AsyncLocalStorage } from "async_hooks";
 import { createHash } from "crypto";
 import { getServerSession } from "next-auth";
 import { RedirectToPage } from "../common/navigation-helpers";
 import { options } from "./auth-api";
 
+// user of a request authenticated with an API key instead of a session
+const apiUser = new AsyncLocalStorage<UserModel>();
+
+// Runs the action, and everything it starts, as the owner of an API key
+export const runAsApiUser = <T>(user: UserModel, action: () => Promise<T>) => {
+  return apiUser.run(user, action);
+};
+
 export const userSession = async (): Promise<UserModel | null> => {
+  const user = apiUser.getStore();
+  if (user) {
+    return user;
+  }
+
   const session = await getServerSession(options);
   if (session && session.user) {
     return {
@@ -11,6 +25,7 @@ export const userSession = async (): Promise<UserModel | null> => {
       image: session.user.image!,
       email: session.user.email!,
       isAdmin: session.user.isAdmin!,
+      businessUnit: session.user.businessUnit,
     };
   }
 
@@ -52,4 +67,5 @@ export type UserModel = {
   image: string;
   email: string;
   isAdmin: boolean;
+  businessUnit?: string;
 };
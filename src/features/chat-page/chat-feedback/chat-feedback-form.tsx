@@ -0,0 +1,126 @@
+"use client";
+
+import { FC } from "react";
+import { useFormState, useFormStatus } from "react-dom";
+import { ServerActionResponse } from "../../common/server-action-response";
+import { Button } from "../../ui/button";
+import { Label } from "../../ui/label";
+import { LoadingIndicator } from "../../ui/loading";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "../../ui/sheet";
+import { Textarea } from "../../ui/textarea";
+import { FEEDBACK_REASONS } from "../chat-services/models";
+import {
+  chatFeedbackStore,
+  updateChatFeedback,
+  useChatFeedbackState,
+} from "./chat-feedback-store";
+
+interface Props {}
+
+export const ChatFeedbackForm: FC<Props> = (props) => {
+  const initialState: ServerActionResponse | undefined = undefined;
+
+  const { isOpened, feedback, messageId } = useChatFeedbackState();
+  const current = feedback[messageId];
+
+  const [formState, formAction] = useFormState(
+    updateChatFeedback,
+    initialState
+  );
+
+  return (
+    <Sheet
+      open={isOpened}
+      onOpenChange={(value) => {
+        chatFeedbackStore.updateOpened(value);
+      }}
+    >
+      <SheetContent className="min-w-[480px] sm:w-[540px] flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Feedback</SheetTitle>
+          <SheetDescription>
+            Thanks for rating the answer. Tell us more so we can improve it.
+          </SheetDescription>
+        </SheetHeader>
+        {current && (
+          <form
+            // the form is recreated for every rating so that the default values are applied
+            key={`${current.messageId}-${current.rating}`}
+            action={formAction}
+            className="flex-1 flex flex-col gap-8 py-6"
+          >
+            <input type="hidden" name="messageId" value={current.messageId} />
+            <input type="hidden" name="threadId" value={current.threadId} />
+            <input type="hidden" name="rating" value={current.rating} />
+            {formState && formState.status === "OK" ? null : (
+              <>
+                {formState &&
+                  formState.errors.map((error, index) => (
+                    <div key={index} className="text-red-500">
+                      {error.message}
+                    </div>
+                  ))}
+              </>
+            )}
+            <div className="grid gap-2">
+              <Label>
+                {current.rating === "up"
+                  ? "What was good about the answer?"
+                  : "What was wrong with the answer?"}
+              </Label>
+              <Select name="reason" defaultValue={current.reason || undefined}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {FEEDBACK_REASONS[current.rating].map((reason) => (
+                    <SelectItem key={reason.value} value={reason.value}>
+                      {reason.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label>Comment</Label>
+              <Textarea
+                className="min-h-[150px]"
+                name="comment"
+                maxLength={2000}
+                placeholder="Optional, e.g. what the correct answer would be"
+                defaultValue={current.comment}
+              />
+            </div>
+            <SheetFooter className="py-2 flex sm:justify-end flex-row">
+              <Submit />
+            </SheetFooter>
+          </form>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+function Submit() {
+  const status = useFormStatus();
+  return (
+    <Button disabled={status.pending} className="gap-2">
+      <LoadingIndicator isLoading={status.pending} />
+      Send feedback
+    </Button>
+  );
+}
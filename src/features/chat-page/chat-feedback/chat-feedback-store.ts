@@ -0,0 +1,91 @@
+import { showError } from "@/features/globals/global-message-store";
+import { proxy, useSnapshot } from "valtio";
+import { ServerActionResponse } from "../../common/server-action-response";
+import {
+  DeleteChatFeedback,
+  UpsertChatFeedback,
+} from "../chat-services/chat-feedback-service";
+import {
+  ChatFeedbackModel,
+  ChatMessageModel,
+  FeedbackRating,
+} from "../chat-services/models";
+
+class ChatFeedbackState {
+  public isOpened: boolean = false;
+  public feedback: Record<string, ChatFeedbackModel> = {}; // by message id
+  public messageId: string = ""; // message the details form is open for
+
+  public initFeedback(feedback: Array<ChatFeedbackModel>) {
+    this.feedback = Object.fromEntries(feedback.map((f) => [f.messageId, f]));
+    this.isOpened = false;
+  }
+
+  public updateOpened(value: boolean) {
+    this.isOpened = value;
+  }
+
+  // The rating is saved right away, the form asks for the reason and a comment.
+  // Choosing the current rating again removes the feedback.
+  public async rate(message: ChatMessageModel, rating: FeedbackRating) {
+    const previous = this.feedback[message.id];
+
+    if (previous?.rating === rating) {
+      delete this.feedback[message.id];
+      const response = await DeleteChatFeedback(message.id);
+      if (response.status !== "OK" && response.status !== "NOT_FOUND") {
+        this.feedback[message.id] = previous;
+        showError(response.errors[0].message);
+      }
+      return;
+    }
+
+    const response = await UpsertChatFeedback({
+      messageId: message.id,
+      threadId: message.threadId,
+      rating,
+      // a reason only applies to the rating it was given for
+      reason: "",
+      comment: previous?.comment ?? "",
+    });
+
+    if (response.status !== "OK") {
+      showError(response.errors[0].message);
+      return;
+    }
+
+    this.feedback[message.id] = response.response;
+    this.messageId = message.id;
+    this.isOpened = true;
+  }
+
+  public updateFeedback(feedback: ChatFeedbackModel) {
+    this.feedback[feedback.messageId] = feedback;
+    this.isOpened = false;
+  }
+}
+
+export const chatFeedbackStore = proxy(new ChatFeedbackState());
+
+export const useChatFeedbackState = () => {
+  return useSnapshot(chatFeedbackStore, { sync: true });
+};
+
+export const updateChatFeedback = async (
+  previous: any,
+  formData: FormData
+): Promise<ServerActionResponse<ChatFeedbackModel>> => {
+  const response = await UpsertChatFeedback({
+    messageId: formData.get("messageId") as string,
+    threadId: formData.get("threadId") as string,
+    rating: formData.get("rating") as FeedbackRating,
+    reason: (formData.get("reason") as string) ?? "",
+    comment: (formData.get("comment") as string) ?? "",
+  });
+
+  if (response.status === "OK") {
+    chatFeedbackStore.updateFeedback(response.response);
+  }
+
+  return response;
+};
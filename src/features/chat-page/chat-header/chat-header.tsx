@@ -1,16 +1,22 @@
 import { ExtensionModel } from "@/features/extensions-page/extension-services/models";
+import { KnowledgeLibraryModel } from "@/features/knowledge-page/knowledge-services/models";
+import { ModelDeploymentModel } from "@/features/model-page/model-services/models";
 import { CHAT_DEFAULT_PERSONA } from "@/features/theme/theme-config";
 import { VenetianMask } from "lucide-react";
 import { FC } from "react";
 import { ChatDocumentModel, ChatThreadModel } from "../chat-services/models";
 import { DocumentDetail } from "./document-detail";
 import { ExtensionDetail } from "./extension-detail";
+import { KnowledgeDetail } from "./knowledge-detail";
+import { ModelSelector } from "./model-selector";
 import { PersonaDetail } from "./persona-detail";
 
 interface Props {
   chatThread: ChatThreadModel;
   chatDocuments: Array<ChatDocumentModel>;
   extensions: Array<ExtensionModel>;
+  models: Array<ModelDeploymentModel>;
+  libraries: Array<KnowledgeLibraryModel>;
 }
 
 export const ChatHeader: FC<Props> = (props) => {
@@ -30,10 +36,20 @@ export const ChatHeader: FC<Props> = (props) => {
           </span>
         </div>
         <div className="flex gap-2">
+          <ModelSelector
+            models={props.models}
+            selectedModelId={props.chatThread.modelId}
+          />
           <PersonaDetail chatThread={props.chatThread} />
-          <DocumentDetail chatDocuments={props.chatDocuments} />
+          <DocumentDetail
+            chatThreadId={props.chatThread.id}
+            chatDocuments={props.chatDocuments}
+          />
+          <KnowledgeDetail
+            libraries={props.libraries}
+            attachedLibraryIds={props.chatThread.libraryIds}
+          />
           <ExtensionDetail
-            disabled={props.chatDocuments.length !== 0}
             extensions={props.extensions}
             installedExtensionIds={props.chatThread.extension}
             chatThreadId={props.chatThread.id}
@@ -1,3 +1,5 @@
+"use client";
+
 import { Button } from "@/features/ui/button";
 import { ScrollArea } from "@/features/ui/scroll-area";
 import {
@@ -8,14 +10,28 @@ import {
   SheetTrigger,
 } from "@/features/ui/sheet";
 import { File } from "lucide-react";
-import { FC } from "react";
+import { FC, useEffect } from "react";
+import { fileStore } from "../chat-input/file/file-store";
 import { ChatDocumentModel } from "../chat-services/models";
+import { DocumentList } from "./document-list";
 
 interface Props {
+  chatThreadId: string;
   chatDocuments: Array<ChatDocumentModel>;
 }
 
 export const DocumentDetail: FC<Props> = (props) => {
+  const isProcessing = props.chatDocuments.some(
+    (d) => d.status === "processing"
+  );
+
+  // keeps track of files still being indexed, e.g. after a page reload
+  useEffect(() => {
+    if (isProcessing) {
+      fileStore.watchProgress({ chatThreadId: props.chatThreadId });
+    }
+  }, [isProcessing, props.chatThreadId]);
+
   return (
     <Sheet>
       <SheetTrigger asChild>
@@ -28,14 +44,8 @@ export const DocumentDetail: FC<Props> = (props) => {
           <SheetTitle>Documents</SheetTitle>
         </SheetHeader>
         <ScrollArea className="flex-1 -mx-6 flex" type="always">
-          <div className="pb-6 px-6 flex gap-2 flex-col  flex-1">
-            {props.chatDocuments.map((doc) => {
-              return (
-                <div className="flex gap-2 items-center" key={doc.id}>
-                  <File size={16} /> <div>{doc.name}</div>
-                </div>
-              );
-            })}
+          <div className="pb-6 px-6 flex gap-4 flex-col  flex-1">
+            <DocumentList documents={props.chatDocuments} />
           </div>
         </ScrollArea>
       </SheetContent>
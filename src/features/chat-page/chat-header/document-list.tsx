@@ -0,0 +1,112 @@
+"use client";
+
+import { Button } from "@/features/ui/button";
+import { LoadingIndicator } from "@/features/ui/loading";
+import { Switch } from "@/features/ui/switch";
+import { File, RefreshCw, Trash } from "lucide-react";
+import { FC } from "react";
+import { fileStore, useFileStore } from "../chat-input/file/file-store";
+import { ChatDocumentModel } from "../chat-services/models";
+
+interface Props {
+  documents: Array<ChatDocumentModel>;
+  readOnly?: boolean; // documents of a library shared with the user
+}
+
+const STATUS_LABELS = {
+  processing: "Processing",
+  ready: "Ready",
+  failed: "Failed",
+};
+
+// Uploaded files with their status, listed by chats and knowledge libraries
+export const DocumentList: FC<Props> = (props) => {
+  const { pendingDocumentId, progress } = useFileStore();
+
+  return (
+    <>
+      {props.documents.map((doc) => {
+        // documents uploaded before the file was kept can only be removed
+        const isManaged = !!doc.contentType;
+        const status = doc.status ?? "ready";
+        const isPending = pendingDocumentId === doc.id;
+        const docProgress = progress[doc.id];
+
+        return (
+          <div
+            className="flex gap-2 p-4 items-center justify-between border rounded-md"
+            key={doc.id}
+          >
+            <div className="flex flex-col gap-2 flex-1 min-w-0">
+              <div className="flex gap-2 items-center">
+                <File size={16} className="shrink-0" />
+                <div className="truncate">{doc.name}</div>
+              </div>
+              <div className="text-sm text-muted-foreground">
+                {[
+                  STATUS_LABELS[status],
+                  status === "processing" &&
+                    docProgress?.totalChunks &&
+                    `${docProgress.indexedChunks}/${docProgress.totalChunks} chunks indexed`,
+                  doc.pageCount !== undefined && `${doc.pageCount} pages`,
+                  doc.chunkCount !== undefined && `${doc.chunkCount} chunks`,
+                  doc.size !== undefined && FormatSize(doc.size),
+                ]
+                  .filter((d) => d)
+                  .join(" · ")}
+              </div>
+              {status === "failed" && docProgress?.error && (
+                <div className="text-sm text-red-500">{docProgress.error}</div>
+              )}
+            </div>
+            {!props.readOnly && (
+              <div className="flex gap-2 items-center">
+                <Switch
+                  defaultChecked={doc.isEnabled !== false}
+                  disabled={!isManaged || isPending}
+                  onCheckedChange={(e) =>
+                    fileStore.updateDocumentEnabled(doc.id, e)
+                  }
+                  aria-label="Use for answers"
+                  title="Use for answers"
+                />
+                <Button
+                  variant={"ghost"}
+                  size={"icon"}
+                  disabled={!isManaged || isPending || status === "processing"}
+                  onClick={() => fileStore.reindexDocument(doc.id)}
+                  aria-label="Re-index"
+                  title="Re-index"
+                >
+                  {isPending ? (
+                    <LoadingIndicator isLoading={true} />
+                  ) : (
+                    <RefreshCw size={16} />
+                  )}
+                </Button>
+                <Button
+                  variant={"ghost"}
+                  size={"icon"}
+                  disabled={isPending}
+                  onClick={() => fileStore.deleteDocument(doc.id)}
+                  aria-label="Remove"
+                  title="Remove"
+                >
+                  <Trash size={16} />
+                </Button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+};
+
+const FormatSize = (bytes: number) => {
+  if (bytes < 1024 * 1024) {
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  }
+
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -17,7 +17,6 @@ interface Props {
   extensions: Array<ExtensionModel>;
   chatThreadId: string;
   installedExtensionIds: Array<string> | undefined;
-  disabled: boolean;
 }
 
 export const ExtensionDetail: FC<Props> = (props) => {
@@ -35,7 +34,7 @@ export const ExtensionDetail: FC<Props> = (props) => {
   return (
     <Sheet>
       <SheetTrigger asChild>
-        <Button variant={"outline"} className="gap-2" disabled={props.disabled} aria-label="Current Chat Extensions Menu">
+        <Button variant={"outline"} className="gap-2" aria-label="Current Chat Extensions Menu">
           <PocketKnife size={16} /> {installedCount} ({totalCount})
         </Button>
       </SheetTrigger>
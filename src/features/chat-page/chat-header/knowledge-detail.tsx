@@ -0,0 +1,80 @@
+import { KnowledgeLibraryModel } from "@/features/knowledge-page/knowledge-services/models";
+import { Button } from "@/features/ui/button";
+import { ScrollArea } from "@/features/ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/features/ui/sheet";
+import { Switch } from "@/features/ui/switch";
+import { Library } from "lucide-react";
+import { FC } from "react";
+import { chatStore } from "../chat-store";
+
+interface Props {
+  libraries: Array<KnowledgeLibraryModel>;
+  attachedLibraryIds: Array<string> | undefined;
+}
+
+export const KnowledgeDetail: FC<Props> = (props) => {
+  const toggleAttach = async (isChecked: boolean, libraryId: string) => {
+    if (isChecked) {
+      await chatStore.AddLibraryToChatThread(libraryId);
+    } else {
+      await chatStore.RemoveLibraryFromChatThread(libraryId);
+    }
+  };
+
+  // libraries that were deleted or are no longer shared are not counted
+  const attachedCount = props.libraries.filter((l) =>
+    props.attachedLibraryIds?.includes(l.id)
+  ).length;
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button
+          variant={"outline"}
+          className="gap-2"
+          aria-label="Current Chat Knowledge Libraries Menu"
+        >
+          <Library size={16} /> {attachedCount} ({props.libraries.length})
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="min-w-[480px] sm:w-[540px] flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Knowledge libraries</SheetTitle>
+        </SheetHeader>
+        <ScrollArea className="flex-1 -mx-6 flex" type="always">
+          <div className="pb-6 px-6 flex gap-4 flex-col  flex-1">
+            {props.libraries.map((library) => {
+              const isAttached =
+                props.attachedLibraryIds?.includes(library.id) ?? false;
+              return (
+                <div
+                  className="flex gap-2 p-4 items-center justify-between border rounded-md"
+                  key={library.id}
+                >
+                  <div className="flex flex-col gap-2 flex-1">
+                    <div>{library.name}</div>
+                    <div className="text-muted-foreground">
+                      {library.description}
+                    </div>
+                  </div>
+                  <div>
+                    <Switch
+                      defaultChecked={isAttached}
+                      onCheckedChange={(e) => toggleAttach(e, library.id)}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+};
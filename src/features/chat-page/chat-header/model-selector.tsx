@@ -0,0 +1,45 @@
+import { ModelDeploymentModel } from "@/features/model-page/model-services/models";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/features/ui/select";
+import { FC } from "react";
+import { chatStore } from "../chat-store";
+
+interface Props {
+  models: Array<ModelDeploymentModel>;
+  selectedModelId: string | undefined;
+}
+
+export const ModelSelector: FC<Props> = (props) => {
+  // nothing to choose from when the admin has not registered any model
+  if (props.models.length === 0) return null;
+
+  const selected =
+    props.models.find((m) => m.id === props.selectedModelId) ??
+    props.models.find((m) => m.isDefault) ??
+    props.models[0];
+
+  return (
+    <Select
+      defaultValue={selected.id}
+      onValueChange={async (value) =>
+        await chatStore.UpdateChatThreadModel(value)
+      }
+    >
+      <SelectTrigger className="w-[180px]" aria-label="Select the chat model">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {props.models.map((model) => (
+          <SelectItem value={model.id} key={model.id}>
+            {model.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
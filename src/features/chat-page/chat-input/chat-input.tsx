@@ -8,6 +8,7 @@ import {
 } from "@/features/chat-page/chat-input/use-chat-input-dynamic-height";
 
 import { AttachFile } from "@/features/ui/chat/chat-input-area/attach-file";
+import { ChatModeSelector } from "@/features/ui/chat/chat-input-area/chat-mode-selector";
 import {
   ChatInputActionArea,
   ChatInputForm,
@@ -15,11 +16,13 @@ import {
   ChatInputSecondaryActionArea,
 } from "@/features/ui/chat/chat-input-area/chat-input-area";
 import { ChatTextInput } from "@/features/ui/chat/chat-input-area/chat-text-input";
+import { EditingMessage } from "@/features/ui/chat/chat-input-area/editing-message";
 import { ImageInput } from "@/features/ui/chat/chat-input-area/image-input";
 import { Microphone } from "@/features/ui/chat/chat-input-area/microphone";
 import { StopChat } from "@/features/ui/chat/chat-input-area/stop-chat";
 import { SubmitChat } from "@/features/ui/chat/chat-input-area/submit-chat";
 import React, { useRef } from "react";
+import { DOCUMENT_ACCEPT } from "../chat-services/models";
 import { chatStore, useChat } from "../chat-store";
 import { fileStore, useFileStore } from "./file/file-store";
 import { PromptSlider } from "./prompt/prompt-slider";
@@ -33,7 +36,8 @@ import {
 } from "./speech/use-text-to-speech";
 
 export const ChatInput = () => {
-  const { loading, input, chatThreadId } = useChat();
+  const { loading, input, chatThreadId, chatMode, editingMessage } =
+    useChat();
   const { uploadButtonLabel } = useFileStore();
   const { isPlaying } = useTextToSpeech();
   const { isMicrophoneReady } = useSpeechToText();
@@ -57,6 +61,9 @@ export const ChatInput = () => {
       }}
       status={uploadButtonLabel}
     >
+      {editingMessage && (
+        <EditingMessage onCancel={() => chatStore.cancelEdit()} />
+      )}
       <ChatTextInput
         onBlur={(e) => {
           if (e.currentTarget.value.replace(/\s/g, "").length === 0) {
@@ -78,11 +85,16 @@ export const ChatInput = () => {
       <ChatInputActionArea>
         <ChatInputSecondaryActionArea>
           <AttachFile
+            accept={DOCUMENT_ACCEPT}
             onClick={(formData) =>
               fileStore.onFileChange({ formData, chatThreadId })
             }
           />
           <PromptSlider />
+          <ChatModeSelector
+            chatMode={chatMode}
+            onChange={(value) => chatStore.updateChatMode(value)}
+          />
         </ChatInputSecondaryActionArea>
         <ChatInputPrimaryActionArea>
           <ImageInput />
@@ -1,97 +1,160 @@
 "use client";
 
-import { ServerActionResponse } from "@/features/common/server-action-response";
+import { RevalidateCache } from "@/features/common/navigation-helpers";
 import {
   showError,
   showSuccess,
 } from "@/features/globals/global-message-store";
 import { proxy, useSnapshot } from "valtio";
-import { IndexDocuments } from "../../chat-services/azure-ai-search/azure-ai-search";
 import {
-  CrackDocument,
-  CreateChatDocument,
+  DeleteChatDocument,
+  ReindexChatDocument,
+  UpdateChatDocumentEnabled,
+  UploadChatDocument,
 } from "../../chat-services/chat-document-service";
+import {
+  DocumentIngestionProgress,
+  DocumentScope,
+} from "../../chat-services/models";
 import { chatStore } from "../../chat-store";
 
+const PROGRESS_INTERVAL_MS = 2000;
+
 class FileStore {
   public uploadButtonLabel: string = "";
+  public pendingDocumentId: string = ""; // document being deleted or re-indexed
+  public progress: Record<string, DocumentIngestionProgress> = {}; // by document id
+  private watchedScope: string = ""; // progress path of the chat or library
 
-  public async onFileChange(props: {
-    formData: FormData;
-    chatThreadId: string;
-  }) {
-    const { formData, chatThreadId } = props;
+  // The file is ingested on the server, the upload returns once it is stored.
+  // Files are uploaded to a chat or to a knowledge library.
+  public async onFileChange(props: { formData: FormData } & DocumentScope) {
+    const { formData, ...scope } = props;
 
     try {
       chatStore.updateLoading("file upload");
 
-      formData.append("id", chatThreadId);
-      const file: File | null = formData.get("file") as unknown as File;
+      if ("libraryId" in scope) {
+        formData.append("libraryId", scope.libraryId);
+      } else {
+        formData.append("id", scope.chatThreadId);
+      }
+
+      this.uploadButtonLabel = "Uploading document";
+      const response = await UploadChatDocument(formData);
+
+      if (response.status === "OK") {
+        showSuccess({
+          title: "File upload",
+          description: `${response.response.name} uploaded, it can be used once it is indexed.`,
+        });
+      } else {
+        showError(response.errors.map((e) => e.message).join("\n"));
+      }
+    } catch (error) {
+      showError("" + error);
+    } finally {
+      this.uploadButtonLabel = "";
+      chatStore.updateLoading("idle");
+    }
 
-      this.uploadButtonLabel = "Processing document";
-      const crackingResponse = await CrackDocument(formData);
+    this.watchProgress(scope);
+  }
 
-      if (crackingResponse.status === "OK") {
-        let index = 0;
+  // Polls the progress of the files of the chat or library until none is processing.
+  // The page is refreshed when a file is done so that its status is updated.
+  public async watchProgress(scope: DocumentScope) {
+    const path =
+      "libraryId" in scope
+        ? `knowledge/${scope.libraryId}`
+        : `chat/${scope.chatThreadId}`;
 
-        const documentIndexResponses: Array<ServerActionResponse<boolean>> = [];
+    if (this.watchedScope === path) {
+      return;
+    }
 
-        for (const doc of crackingResponse.response) {
-          this.uploadButtonLabel = `Indexing document [${index + 1}]/[${
-            crackingResponse.response.length
-          }]`;
+    this.watchedScope = path;
 
-          // index one document at a time
-          const indexResponses = await IndexDocuments(
-            file.name,
-            [doc],
-            chatThreadId
-          );
+    try {
+      while (this.watchedScope === path) {
+        const response = await fetch(`/api/${path}/documents`);
 
-          documentIndexResponses.push(...indexResponses);
-          index++;
+        if (!response.ok) {
+          return;
         }
 
-        const allDocumentsIndexed = documentIndexResponses.every(
-          (r) => r.status === "OK"
+        const items: Array<DocumentIngestionProgress> = await response.json();
+        const processing = items.filter((i) => i.status === "processing");
+        const isDone = items.some(
+          (i) =>
+            i.status !== "processing" &&
+            this.progress[i.documentId]?.status === "processing"
         );
 
-        if (allDocumentsIndexed) {
-          // Update state
-          this.uploadButtonLabel = file.name + " loaded";
-          // Update history DB with doc on chat thread
-          const response = await CreateChatDocument(file.name, chatThreadId);
-
-          if (response.status === "OK") {
-            showSuccess({
-              title: "File upload",
-              description: `${file.name} uploaded successfully.`,
-            });
-          } else {
-            showError(response.errors.map((e) => e).join("\n"));
-          }
-        } else {
-          const errors: Array<string> = [];
-
-          documentIndexResponses.forEach((r) => {
-            if (r.status === "ERROR") {
-              errors.push(...r.errors.map((e) => e.message));
-            }
-          });
-
-          showError(
-            "Looks like not all documents were indexed" +
-              errors.map((e) => e).join("\n")
+        this.progress = Object.fromEntries(
+          items.map((i) => [i.documentId, i])
+        );
+        this.uploadButtonLabel = processing
+          .map(
+            (i) => `Indexing ${i.name} [${i.indexedChunks}/${i.totalChunks}]`
+          )
+          .join(", ");
+
+        if (isDone) {
+          RevalidateCache(
+            "libraryId" in scope
+              ? { page: "knowledge" }
+              : { page: "chat", params: scope.chatThreadId }
           );
         }
-      } else {
-        showError(crackingResponse.errors.map((e) => e.message).join("\n"));
+
+        if (processing.length === 0) {
+          return;
+        }
+
+        await new Promise((resolve) =>
+          setTimeout(resolve, PROGRESS_INTERVAL_MS)
+        );
       }
     } catch (error) {
-      showError("" + error);
+      console.error("Error on document progress:", error);
     } finally {
-      this.uploadButtonLabel = "";
-      chatStore.updateLoading("idle");
+      if (this.watchedScope === path) {
+        this.watchedScope = "";
+        this.uploadButtonLabel = "";
+      }
+    }
+  }
+
+  // the page is revalidated by the actions so the document list is refreshed
+  public async deleteDocument(documentId: string) {
+    this.pendingDocumentId = documentId;
+    const response = await DeleteChatDocument(documentId);
+    this.pendingDocumentId = "";
+
+    if (response.status !== "OK") {
+      showError(response.errors.map((e) => e.message).join("\n"));
+    }
+  }
+
+  public async reindexDocument(documentId: string) {
+    this.pendingDocumentId = documentId;
+    const response = await ReindexChatDocument(documentId);
+    this.pendingDocumentId = "";
+
+    if (response.status === "OK") {
+      const { chatThreadId, libraryId } = response.response;
+      this.watchProgress(libraryId ? { libraryId } : { chatThreadId });
+    } else {
+      showError(response.errors.map((e) => e.message).join("\n"));
+    }
+  }
+
+  public async updateDocumentEnabled(documentId: string, isEnabled: boolean) {
+    const response = await UpdateChatDocumentEnabled(documentId, isEnabled);
+
+    if (response.status !== "OK") {
+      showError(response.errors.map((e) => e.message).join("\n"));
     }
   }
 }
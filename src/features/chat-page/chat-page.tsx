@@ -5,16 +5,26 @@ import { ChatLoading } from "@/features/ui/chat/chat-message-area/chat-loading";
 import { ChatMessageArea } from "@/features/ui/chat/chat-message-area/chat-message-area";
 import ChatMessageContainer from "@/features/ui/chat/chat-message-area/chat-message-container";
 import ChatMessageContentArea from "@/features/ui/chat/chat-message-area/chat-message-content";
+import { FollowUpQuestions } from "@/features/ui/chat/chat-message-area/follow-up-questions";
 import { useChatScrollAnchor } from "@/features/ui/chat/chat-message-area/use-chat-scroll-anchor";
 import { useSession } from "next-auth/react";
-import { FC, useEffect, useRef } from "react";
+import { FC, useEffect, useMemo, useRef } from "react";
 import { ExtensionModel } from "../extensions-page/extension-services/models";
+import { KnowledgeLibraryModel } from "../knowledge-page/knowledge-services/models";
+import { ModelDeploymentModel } from "../model-page/model-services/models";
+import { ChatFeedbackForm } from "./chat-feedback/chat-feedback-form";
+import {
+  chatFeedbackStore,
+  useChatFeedbackState,
+} from "./chat-feedback/chat-feedback-store";
 import { ChatHeader } from "./chat-header/chat-header";
 import {
   ChatDocumentModel,
+  ChatFeedbackModel,
   ChatMessageModel,
   ChatThreadModel,
 } from "./chat-services/models";
+import { activeBranch, siblingsOf } from "./chat-services/message-tree";
 import MessageContent from "./message-content";
 
 interface ChatPageProps {
@@ -22,6 +32,9 @@ interface ChatPageProps {
   chatThread: ChatThreadModel;
   chatDocuments: Array<ChatDocumentModel>;
   extensions: Array<ExtensionModel>;
+  models: Array<ModelDeploymentModel>;
+  feedback: Array<ChatFeedbackModel>;
+  libraries: Array<KnowledgeLibraryModel>;
 }
 
 export const ChatPage: FC<ChatPageProps> = (props) => {
@@ -35,7 +48,18 @@ export const ChatPage: FC<ChatPageProps> = (props) => {
     });
   }, [props.messages, session?.user?.name, props.chatThread]);
 
-  const { messages, loading } = useChat();
+  useEffect(() => {
+    chatFeedbackStore.initFeedback(props.feedback);
+  }, [props.feedback]);
+
+  const { messages, loading, activeMessageId } = useChat();
+  const { feedback } = useChatFeedbackState();
+
+  // only the branch the user is viewing is shown, alternatives are reachable through the branch navigation
+  const branch = useMemo(
+    () => activeBranch(messages as Array<ChatMessageModel>, activeMessageId),
+    [messages, activeMessageId]
+  );
 
   const current = useRef<HTMLDivElement>(null);
 
@@ -47,10 +71,24 @@ export const ChatPage: FC<ChatPageProps> = (props) => {
         chatThread={props.chatThread}
         chatDocuments={props.chatDocuments}
         extensions={props.extensions}
+        models={props.models}
+        libraries={props.libraries}
       />
       <ChatMessageContainer ref={current}>
         <ChatMessageContentArea>
-          {messages.map((message) => {
+          {branch.map((message, messageIndex) => {
+            const siblings = siblingsOf(
+              messages as Array<ChatMessageModel>,
+              message
+            );
+            const index = siblings.findIndex((m) => m.id === message.id);
+            const idle = loading === "idle";
+            // suggestions only make sense for the answer the conversation ends with
+            const followUps =
+              idle && messageIndex === branch.length - 1
+                ? message.followUps
+                : undefined;
+
             return (
               <ChatMessageArea
                 key={message.id}
@@ -59,6 +97,35 @@ export const ChatPage: FC<ChatPageProps> = (props) => {
                 onCopy={() => {
                   navigator.clipboard.writeText(message.content);
                 }}
+                onEdit={
+                  idle && message.role === "user"
+                    ? () => chatStore.editMessage(message)
+                    : undefined
+                }
+                onRegenerate={
+                  idle && message.role === "assistant"
+                    ? () => chatStore.regenerate(message)
+                    : undefined
+                }
+                feedback={
+                  idle && message.role === "assistant"
+                    ? {
+                        rating: feedback[message.id]?.rating,
+                        onRate: (rating) =>
+                          chatFeedbackStore.rate(message, rating),
+                      }
+                    : undefined
+                }
+                branch={
+                  siblings.length > 1
+                    ? {
+                        index: index,
+                        count: siblings.length,
+                        onPrevious: () => chatStore.switchBranch(message, -1),
+                        onNext: () => chatStore.switchBranch(message, 1),
+                      }
+                    : undefined
+                }
                 profilePicture={
                   message.role === "assistant"
                     ? "/ai-icon.png"
@@ -66,6 +133,12 @@ export const ChatPage: FC<ChatPageProps> = (props) => {
                 }
               >
                 <MessageContent message={message} />
+                {followUps && followUps.length > 0 && (
+                  <FollowUpQuestions
+                    questions={followUps}
+                    onSelect={(question) => chatStore.askFollowUp(question)}
+                  />
+                )}
               </ChatMessageArea>
             );
           })}
@@ -73,6 +146,7 @@ export const ChatPage: FC<ChatPageProps> = (props) => {
         </ChatMessageContentArea>
       </ChatMessageContainer>
       <ChatInput />
+      <ChatFeedbackForm />
     </main>
   );
 };
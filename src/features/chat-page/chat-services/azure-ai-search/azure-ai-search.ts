@@ -7,13 +7,45 @@ import {
   AzureAISearchIndexClientInstance,
   AzureAISearchInstance,
 } from "@/features/common/services/ai-search";
-import { OpenAIEmbeddingInstance } from "@/features/common/services/openai";
-import { uniqueId } from "@/features/common/util";
+import {
+  OpenAIEmbeddingInstance,
+  OpenAIEmbeddingModel,
+} from "@/features/common/services/openai";
+import {
+  CheckRateLimit,
+  RateLimitMessage,
+} from "@/features/usage-page/usage-services/rate-limiter";
+import { RecordUsage } from "@/features/usage-page/usage-services/usage-recorder";
+import { RetrievalOptions } from "@/features/model-page/model-services/models";
 import {
   AzureKeyCredential,
   SearchClient,
+  SearchDocumentsResult,
   SearchIndex,
+  SearchResult,
+  VectorizedQuery,
 } from "@azure/search-documents";
+import { ContentHash } from "../content-hash";
+import {
+  DocumentChunk,
+  RetrievalCandidate,
+  SearchIndexVersion,
+} from "../models";
+import {
+  CosineSimilarity,
+  FuseRankings,
+  SelectDiverse,
+} from "./retrieval-ranking";
+import { EnsureSearchIndex } from "./search-index-migration";
+import {
+  DocumentChunksFilter,
+  SEMANTIC_CONFIGURATION_NAME,
+} from "./search-index-schema";
+import {
+  ActiveSearchIndex,
+  SearchIndexEmbeddingModel,
+  WritableSearchIndexes,
+} from "./search-index-state";
 
 const debug = process.env.DEBUG === "true";
 
@@ -24,6 +56,15 @@ export interface AzureSearchDocumentIndex {
   user: string;
   chatThreadId: string;
   metadata: string;
+  // missing on documents indexed before layout chunking
+  pageStart?: number;
+  pageEnd?: number;
+  sectionTitle?: string;
+  documentId?: string; // chat document the original file is stored for
+  regions?: string; // JSON of the DocumentRegion array
+  // knowledge library of the document, chatThreadId is empty then
+  libraryId?: string;
+  contentHash?: string; // of the chunk text, its embedding is reused
 }
 
 export type DocumentSearchResponse = {
@@ -31,13 +72,23 @@ export type DocumentSearchResponse = {
   document: AzureSearchDocumentIndex;
 };
 
+export interface RetrievalResult {
+  documents: Array<DocumentSearchResponse>; // chunks given to the model, in order
+  candidates: Array<RetrievalCandidate>;
+  semanticRanked: boolean;
+}
+
+// indexName defaults to the active index
 export const SimpleSearch = async (
   searchText?: string,
-  filter?: string
+  filter?: string,
+  indexName?: string
 ): Promise<ServerActionResponse<Array<DocumentSearchResponse>>> => {
   try {
     if (debug) console.log("Executing SimpleSearch with searchText:", searchText, "filter:", filter);
-    const instance = AzureAISearchInstance<AzureSearchDocumentIndex>();
+    const instance = AzureAISearchInstance<AzureSearchDocumentIndex>(
+      indexName ?? (await ActiveSearchIndex()).name
+    );
     const searchResults = await instance.search(searchText, { filter: filter });
 
     const results: Array<DocumentSearchResponse> = [];
@@ -66,49 +117,164 @@ export const SimpleSearch = async (
   }
 };
 
+// Candidates searched for every chunk given to the model, the ranking picks
+// among them. The semantic ranker reranks at most 50 results.
+const CANDIDATES_PER_RESULT = 3;
+const MAX_CANDIDATES = 50;
+
+// Keyword and vector searches fused by their weights, optionally reranked by
+// the semantic ranker, cut off at the minimum score and diversified. All the
+// candidates are returned with their scores and ranks for the diagnostics.
+// The question is embedded with the model of the active index.
 export const SimilaritySearch = async (
   searchText: string,
-  k: number,
+  options: RetrievalOptions,
   filter?: string
-): Promise<ServerActionResponse<Array<DocumentSearchResponse>>> => {
+): Promise<ServerActionResponse<RetrievalResult>> => {
   try {
-    if (debug) console.log("Executing SimilaritySearch with searchText:", searchText, "k:", k, "filter:", filter);
-    const openai = OpenAIEmbeddingInstance();
+    if (debug) console.log("Executing SimilaritySearch with searchText:", searchText, "options:", options, "filter:", filter);
+    const index = await ActiveSearchIndex();
+    const embeddingModel = SearchIndexEmbeddingModel(index);
+    const openai = OpenAIEmbeddingInstance(embeddingModel);
     const embeddings = await openai.embeddings.create({
       input: searchText,
-      model: "",
+      model: embeddingModel,
     });
 
     if (debug) console.log("Embeddings obtained:", embeddings);
 
-    const searchClient = AzureAISearchInstance<AzureSearchDocumentIndex>();
-    const searchResults = await searchClient.search(searchText, {
-      top: k,
-      filter: filter,
-      vectorSearchOptions: {
-        queries: [
-          {
-            vector: embeddings.data[0].embedding,
-            fields: ["embedding"],
-            kind: "vector",
-            kNearestNeighborsCount: 10,
-          },
-        ],
-      },
+    const vector = embeddings.data[0].embedding;
+    const candidateCount = Math.min(
+      MAX_CANDIDATES,
+      options.topK * CANDIDATES_PER_RESULT
+    );
+    // without any weight the vector search is used alone
+    const vectorWeight =
+      options.keywordWeight > 0
+        ? options.vectorWeight
+        : options.vectorWeight || 1;
+
+    const searchClient = AzureAISearchInstance<AzureSearchDocumentIndex>(
+      index.name
+    );
+    const [keywordResults, vectorResults] = await Promise.all([
+      options.keywordWeight > 0
+        ? ReadSearchResults(
+            searchClient.search(searchText, {
+              top: candidateCount,
+              filter,
+              searchFields: ["pageContent", "sectionTitle"],
+            })
+          )
+        : [],
+      vectorWeight > 0
+        ? ReadSearchResults(
+            searchClient.search(undefined, {
+              top: candidateCount,
+              filter,
+              vectorSearchOptions: {
+                queries: [VectorQuery(vector, candidateCount)],
+              },
+            })
+          )
+        : [],
+    ]);
+
+    const keywordRanks = RanksById(keywordResults);
+    const vectorRanks = RanksById(vectorResults);
+    const documents = new Map(
+      [...keywordResults, ...vectorResults].map((r) => [
+        r.document.id,
+        r.document,
+      ])
+    );
+
+    const fusedScores = FuseRankings([
+      { weight: options.keywordWeight, results: ToRankedResults(keywordRanks) },
+      { weight: vectorWeight, results: ToRankedResults(vectorRanks) },
+    ]);
+
+    const fused = Array.from(fusedScores.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, candidateCount);
+
+    const rerankerScores = options.semanticRanking
+      ? await SemanticRerank({
+          indexName: index.name,
+          searchText,
+          vector,
+          ids: fused.map(([id]) => id),
+          filter,
+        })
+      : new Map<string, number>();
+    const semanticRanked = rerankerScores.size > 0;
+
+    const candidates = fused.map(([id, fusedScore]) => {
+      const document = documents.get(id)!;
+      const similarity = CosineSimilarity(vector, document.embedding);
+      const rerankerScore = rerankerScores.get(id);
+
+      return {
+        document,
+        embedding: document.embedding,
+        fusedScore,
+        similarity,
+        rerankerScore,
+        // reranker scores go from 0 to 4
+        relevance: semanticRanked ? (rerankerScore ?? 0) / 4 : similarity,
+      };
     });
 
-    const results: Array<DocumentSearchResponse> = [];
-    for await (const result of searchResults.results) {
-      results.push({
-        score: result.score,
-        document: result.document,
-      });
+    if (semanticRanked) {
+      candidates.sort((a, b) => b.relevance - a.relevance);
     }
 
-    if (debug) console.log("SimilaritySearch results:", results);
+    const aboveMinScore = candidates.filter(
+      (c) =>
+        (semanticRanked ? c.rerankerScore ?? 0 : c.similarity) >=
+        options.minScore
+    );
+
+    const selected = SelectDiverse(
+      aboveMinScore.map((c) => ({ item: c, relevance: c.relevance })),
+      options.topK,
+      options.diversity
+    );
+
+    const result: RetrievalResult = {
+      documents: selected.map((c) => ({
+        score: c.rerankerScore ?? c.fusedScore,
+        document: c.document,
+      })),
+      candidates: candidates.map((c) => {
+        const rank = selected.indexOf(c);
+
+        return {
+          chunkId: c.document.id,
+          documentId: c.document.documentId ?? "",
+          fileName: c.document.metadata,
+          pageStart: c.document.pageStart,
+          keywordRank: keywordRanks.get(c.document.id),
+          vectorRank: vectorRanks.get(c.document.id),
+          fusedScore: c.fusedScore,
+          similarity: c.similarity,
+          rerankerScore: c.rerankerScore,
+          rank: rank < 0 ? undefined : rank + 1,
+          outcome:
+            rank >= 0
+              ? "selected"
+              : aboveMinScore.includes(c)
+              ? "not-selected"
+              : "below-min-score",
+        };
+      }),
+      semanticRanked,
+    };
+
+    if (debug) console.log("SimilaritySearch results:", result.candidates);
     return {
       status: "OK",
-      response: results,
+      response: result,
     };
   } catch (e) {
     console.error("SimilaritySearch error:", e);
@@ -123,6 +289,83 @@ export const SimilaritySearch = async (
   }
 };
 
+// Reranker scores by chunk id. Only the candidates are reranked, the vector
+// query makes sure that the ones without any matching keyword are part of the
+// results. An empty map is returned when the semantic ranker is unavailable.
+const SemanticRerank = async (props: {
+  indexName: string;
+  searchText: string;
+  vector: number[];
+  ids: Array<string>;
+  filter?: string;
+}): Promise<Map<string, number>> => {
+  const { indexName, searchText, vector, ids, filter } = props;
+  const scores = new Map<string, number>();
+
+  if (ids.length === 0) {
+    return scores;
+  }
+
+  try {
+    const idFilter = `search.in(id, '${ids.join(",")}', ',')`;
+    const searchClient =
+      AzureAISearchInstance<AzureSearchDocumentIndex>(indexName);
+    const results = await ReadSearchResults(
+      searchClient.search(searchText, {
+        top: ids.length,
+        filter: filter ? `(${filter}) and ${idFilter}` : idFilter,
+        queryType: "semantic",
+        semanticSearchOptions: {
+          configurationName: SEMANTIC_CONFIGURATION_NAME,
+          errorMode: "partial",
+        },
+        vectorSearchOptions: {
+          queries: [VectorQuery(vector, ids.length)],
+        },
+      })
+    );
+
+    results.forEach((r) => {
+      if (r.rerankerScore !== undefined) {
+        scores.set(r.document.id, r.rerankerScore);
+      }
+    });
+  } catch (e) {
+    console.error("SemanticRerank error:", e);
+  }
+
+  return scores;
+};
+
+const VectorQuery = (
+  vector: number[],
+  count: number
+): VectorizedQuery<AzureSearchDocumentIndex> => ({
+  vector,
+  fields: ["embedding"],
+  kind: "vector",
+  kNearestNeighborsCount: count,
+});
+
+const ReadSearchResults = async (
+  response: Promise<SearchDocumentsResult<AzureSearchDocumentIndex>>
+): Promise<Array<SearchResult<AzureSearchDocumentIndex>>> => {
+  const results: Array<SearchResult<AzureSearchDocumentIndex>> = [];
+
+  for await (const result of (await response).results) {
+    results.push(result);
+  }
+
+  return results;
+};
+
+// 1 is the best
+const RanksById = (results: Array<SearchResult<AzureSearchDocumentIndex>>) =>
+  new Map(results.map((r, index) => [r.document.id, index + 1]));
+
+const ToRankedResults = (ranks: Map<string, number>) =>
+  Array.from(ranks.entries()).map(([id, rank]) => ({ id, rank }));
+
 export const ExtensionSimilaritySearch = async (props: {
   searchText: string;
   vectors: string[];
@@ -137,7 +380,7 @@ export const ExtensionSimilaritySearch = async (props: {
 
     const embeddings = await openai.embeddings.create({
       input: searchText,
-      model: "",
+      model: OpenAIEmbeddingModel(),
     });
 
     if (debug) console.log("Embeddings obtained:", embeddings);
@@ -205,22 +448,38 @@ export const ExtensionSimilaritySearch = async (props: {
   }
 };
 
-export const IndexDocuments = async (
-  fileName: string,
-  docs: string[],
-  chatThreadId: string
-): Promise<Array<ServerActionResponse<boolean>>> => {
+export const IndexDocuments = async (props: {
+  fileName: string;
+  docs: DocumentChunk[];
+  chatThreadId: string;
+  libraryId?: string;
+  documentId: string;
+  startIndex: number; // position of the first chunk in the document
+}): Promise<Array<ServerActionResponse<boolean>>> => {
+  const { fileName, docs, chatThreadId, libraryId, documentId, startIndex } =
+    props;
+
   try {
-    if (debug) console.log("Indexing documents with fileName:", fileName, "chatThreadId:", chatThreadId);
+    if (debug) console.log("Indexing documents with fileName:", fileName, "chatThreadId:", chatThreadId, "libraryId:", libraryId);
+
     const documentsToIndex: AzureSearchDocumentIndex[] = [];
 
-    for (const doc of docs) {
+    for (let index = 0; index < docs.length; index++) {
+      const doc = docs[index];
       const docToAdd: AzureSearchDocumentIndex = {
-        id: uniqueId(),
+        // a retried batch replaces the chunks it already uploaded
+        id: `${documentId}_${startIndex + index}`,
         chatThreadId,
         user: await userHashedId(),
-        pageContent: doc,
+        pageContent: doc.content,
         metadata: fileName,
+        pageStart: doc.pageStart,
+        pageEnd: doc.pageEnd,
+        sectionTitle: doc.sectionTitle,
+        documentId,
+        regions: JSON.stringify(doc.regions),
+        libraryId,
+        contentHash: ContentHash(doc.content),
         embedding: [],
       };
 
@@ -229,38 +488,25 @@ export const IndexDocuments = async (
 
     if (debug) console.log("Documents to index:", documentsToIndex);
 
-    const instance = AzureAISearchInstance();
-    const embeddingsResponse = await EmbedDocuments(documentsToIndex);
-
-    if (embeddingsResponse.status === "OK") {
-      const uploadResponse = await instance.uploadDocuments(
-        embeddingsResponse.response
-      );
-
-      const response: Array<ServerActionResponse<boolean>> = [];
-      uploadResponse.results.forEach((r) => {
-        if (r.succeeded) {
-          response.push({
-            status: "OK",
-            response: r.succeeded,
-          });
-        } else {
-          response.push({
-            status: "ERROR",
-            errors: [
-              {
-                message: `${r.errorMessage}`,
-              },
-            ],
-          });
-        }
+    // while the search index is migrated the chunks are written to the new
+    // index as well, embedded with its model
+    const indexes = await WritableSearchIndexes();
+    const response: Array<ServerActionResponse<boolean>> = [];
+
+    for (const index of indexes) {
+      const indexResponse = await IndexChunks({
+        index,
+        documents: documentsToIndex.map((d) => ({ ...d })),
+        libraryId,
+        // only the chunks of the active index count towards the rate limit
+        checkRateLimit: index === indexes[0],
       });
 
-      if (debug) console.log("IndexDocuments response:", response);
-      return response;
+      response.push(...indexResponse);
     }
 
-    return [embeddingsResponse];
+    if (debug) console.log("IndexDocuments response:", response);
+    return response;
   } catch (e) {
     console.error("IndexDocuments error:", e);
     return [
@@ -276,46 +522,210 @@ export const IndexDocuments = async (
   }
 };
 
+// Embeds the chunks with the model of the index and uploads them to it
+const IndexChunks = async (props: {
+  index: SearchIndexVersion;
+  documents: Array<AzureSearchDocumentIndex>;
+  libraryId?: string;
+  checkRateLimit: boolean;
+}): Promise<Array<ServerActionResponse<boolean>>> => {
+  const { index, documents, libraryId } = props;
+
+  // identical chunks are embedded once, chunks that were indexed before are
+  // not embedded again
+  const embeddings = await CachedEmbeddings({
+    index,
+    contentHashes: documents.map((d) => d.contentHash!),
+    libraryId,
+  });
+  const documentsToEmbed = Array.from(
+    new Map(
+      documents
+        .filter((d) => !embeddings.has(d.contentHash!))
+        .map((d) => [d.contentHash!, { ...d }])
+    ).values()
+  );
+
+  if (documentsToEmbed.length > 0) {
+    if (props.checkRateLimit) {
+      // every chunk is one embedding request
+      const rateLimit = await CheckRateLimit(
+        "embeddings",
+        documentsToEmbed.length
+      );
+
+      if (!rateLimit.allowed) {
+        return [
+          {
+            status: "ERROR",
+            errors: [{ message: RateLimitMessage(rateLimit) }],
+          },
+        ];
+      }
+    }
+
+    const embeddingsResponse = await EmbedDocuments(
+      documentsToEmbed,
+      SearchIndexEmbeddingModel(index)
+    );
+
+    if (embeddingsResponse.status !== "OK") {
+      return [embeddingsResponse];
+    }
+
+    embeddingsResponse.response.forEach((d) =>
+      embeddings.set(d.contentHash!, d.embedding ?? [])
+    );
+  }
+
+  documents.forEach((d) => (d.embedding = embeddings.get(d.contentHash!)));
+
+  const instance = AzureAISearchInstance(index.name);
+  const uploadResponse = await instance.uploadDocuments(documents);
+
+  const response: Array<ServerActionResponse<boolean>> = [];
+  uploadResponse.results.forEach((r) => {
+    if (r.succeeded) {
+      response.push({
+        status: "OK",
+        response: r.succeeded,
+      });
+    } else {
+      response.push({
+        status: "ERROR",
+        errors: [
+          {
+            message: `${r.errorMessage}`,
+          },
+        ],
+      });
+    }
+  });
+
+  return response;
+};
+
+// Chunks of an indexed document in their order, so that an identical file can
+// be indexed again without reading it
+export const FindDocumentChunks = async (
+  documentId: string
+): Promise<ServerActionResponse<Array<DocumentChunk>>> => {
+  const response = await SimpleSearch(
+    undefined,
+    `documentId eq '${documentId}'`
+  );
+
+  if (response.status !== "OK") {
+    return response;
+  }
+
+  const chunks = response.response
+    .map((r) => r.document)
+    .sort((a, b) => ChunkIndex(a.id) - ChunkIndex(b.id))
+    .map((d) => ({
+      content: d.pageContent,
+      pageStart: d.pageStart ?? 0,
+      pageEnd: d.pageEnd ?? 0,
+      sectionTitle: d.sectionTitle ?? "",
+      regions: d.regions ? JSON.parse(d.regions) : [],
+    }));
+
+  return {
+    status: "OK",
+    response: chunks,
+  };
+};
+
+// chunk ids end with the position of the chunk in the document
+const ChunkIndex = (id: string) => Number(id.slice(id.lastIndexOf("_") + 1));
+
+// Embeddings of the chunks with the same text that the current user indexed or
+// that were indexed to the same library, the chunks of other users are not read
+const CachedEmbeddings = async (props: {
+  index: SearchIndexVersion;
+  contentHashes: Array<string>;
+  libraryId?: string;
+}): Promise<Map<string, number[]>> => {
+  const embeddings = new Map<string, number[]>();
+  const contentHashes = Array.from(new Set(props.contentHashes));
+
+  if (contentHashes.length === 0) {
+    return embeddings;
+  }
+
+  try {
+    const owner = `user eq '${await userHashedId()}'`;
+    const scope = props.libraryId
+      ? `(${owner} or libraryId eq '${props.libraryId}')`
+      : owner;
+
+    const results = await ReadSearchResults(
+      AzureAISearchInstance<AzureSearchDocumentIndex>(
+        props.index.name
+      ).search(undefined, {
+        filter: `${scope} and search.in(contentHash, '${contentHashes.join(
+          ","
+        )}', ',')`,
+      })
+    );
+
+    results.forEach(({ document }) => {
+      if (document.contentHash && document.embedding?.length) {
+        embeddings.set(document.contentHash, document.embedding);
+      }
+    });
+  } catch (e) {
+    // the chunks are embedded again
+    console.error("CachedEmbeddings error:", e);
+  }
+
+  return embeddings;
+};
+
 export const DeleteDocuments = async (
   chatThreadId: string
 ): Promise<Array<ServerActionResponse<boolean>>> => {
-  try {
-    if (debug) console.log("Deleting documents for chatThreadId:", chatThreadId);
-    const documentsInChatResponse = await SimpleSearch(
-      undefined,
-      `chatThreadId eq '${chatThreadId}'`
-    );
+  if (debug) console.log("Deleting documents for chatThreadId:", chatThreadId);
+  return await DeleteDocumentsWithFilter(`chatThreadId eq '${chatThreadId}'`);
+};
 
-    if (documentsInChatResponse.status === "OK") {
-      const instance = AzureAISearchInstance();
-      const deletedResponse = await instance.deleteDocuments(
-        documentsInChatResponse.response.map((r) => r.document)
-      );
+// Deletes the chunks of a single uploaded file. Chunks indexed before they
+// had a document id are matched by the file name.
+export const DeleteDocumentChunks = async (props: {
+  chatThreadId: string;
+  libraryId?: string;
+  documentId: string;
+  fileName: string;
+}): Promise<Array<ServerActionResponse<boolean>>> => {
+  if (debug) console.log("Deleting chunks of document:", props.documentId);
+
+  const { filter, predicate } = DocumentChunksFilter(props);
+  return await DeleteDocumentsWithFilter(filter, predicate);
+};
 
-      const response: Array<ServerActionResponse<boolean>> = [];
-      deletedResponse.results.forEach((r) => {
-        if (r.succeeded) {
-          response.push({
-            status: "OK",
-            response: r.succeeded,
-          });
-        } else {
-          response.push({
-            status: "ERROR",
-            errors: [
-              {
-                message: `${r.errorMessage}`,
-              },
-            ],
-          });
-        }
-      });
+export const DeleteLibraryDocuments = async (
+  libraryId: string
+): Promise<Array<ServerActionResponse<boolean>>> => {
+  if (debug) console.log("Deleting documents for libraryId:", libraryId);
+  return await DeleteDocumentsWithFilter(`libraryId eq '${libraryId}'`);
+};
+
+// Deletes from every index the chunks are written to, the target of a
+// migration may have copied them already
+const DeleteDocumentsWithFilter = async (
+  filter: string,
+  predicate: (document: AzureSearchDocumentIndex) => boolean = () => true
+): Promise<Array<ServerActionResponse<boolean>>> => {
+  try {
+    const response: Array<ServerActionResponse<boolean>> = [];
 
-      if (debug) console.log("DeleteDocuments response:", response);
-      return response;
+    for (const index of await WritableSearchIndexes()) {
+      response.push(
+        ...(await DeleteIndexDocuments(index.name, filter, predicate))
+      );
     }
 
-    return [documentsInChatResponse];
+    return response;
   } catch (e) {
     console.error("DeleteDocuments error:", e);
     return [
@@ -331,21 +741,79 @@ export const DeleteDocuments = async (
   }
 };
 
+const DeleteIndexDocuments = async (
+  indexName: string,
+  filter: string,
+  predicate: (document: AzureSearchDocumentIndex) => boolean
+): Promise<Array<ServerActionResponse<boolean>>> => {
+  const documentsInChatResponse = await SimpleSearch(
+    undefined,
+    filter,
+    indexName
+  );
+
+  if (documentsInChatResponse.status !== "OK") {
+    return [documentsInChatResponse];
+  }
+
+  const documents = documentsInChatResponse.response
+    .map((r) => r.document)
+    .filter(predicate);
+
+  if (documents.length === 0) {
+    return [];
+  }
+
+  const instance = AzureAISearchInstance(indexName);
+  const deletedResponse = await instance.deleteDocuments(documents);
+
+  const response: Array<ServerActionResponse<boolean>> = [];
+  deletedResponse.results.forEach((r) => {
+    if (r.succeeded) {
+      response.push({
+        status: "OK",
+        response: r.succeeded,
+      });
+    } else {
+      response.push({
+        status: "ERROR",
+        errors: [
+          {
+            message: `${r.errorMessage}`,
+          },
+        ],
+      });
+    }
+  });
+
+  if (debug) console.log("DeleteDocuments response:", response);
+  return response;
+};
+
+// model defaults to the configured embedding model
 export const EmbedDocuments = async (
-  documents: Array<AzureSearchDocumentIndex>
+  documents: Array<AzureSearchDocumentIndex>,
+  model: string = OpenAIEmbeddingModel()
 ): Promise<ServerActionResponse<Array<AzureSearchDocumentIndex>>> => {
   try {
     if (debug) console.log("Embedding documents:", documents.map((d) => d.id));
-    const openai = OpenAIEmbeddingInstance();
+    const openai = OpenAIEmbeddingInstance(model);
     const contentsToEmbed = documents.map((d) => d.pageContent);
 
     const embeddings = await openai.embeddings.create({
       input: contentsToEmbed,
-      model: process.env.AZURE_OPENAI_API_EMBEDDINGS_DEPLOYMENT_NAME,
+      model,
     });
 
     if (debug) console.log("Embeddings received:", embeddings);
 
+    await RecordUsage({
+      threadId: documents[0]?.chatThreadId ?? "",
+      kind: "embedding",
+      model,
+      embeddingTokens: embeddings.usage.prompt_tokens,
+    });
+
     embeddings.data.forEach((embedding, index) => {
       documents[index].embedding = embedding.embedding;
     });
@@ -368,108 +836,10 @@ export const EmbedDocuments = async (
   }
 };
 
+// Creates the search index, or queues the migration of an index of an older
+// schema or embedding model
 export const EnsureIndexIsCreated = async (): Promise<
   ServerActionResponse<SearchIndex>
 > => {
-  try {
-    console.log("Ensuring index is created: ", process.env.AZURE_SEARCH_INDEX_NAME);
-    const client = AzureAISearchIndexClientInstance();
-    const result = await client.getIndex(process.env.AZURE_SEARCH_INDEX_NAME);
-    console.log("Index exists: ", result);
-    return {
-      status: "OK",
-      response: result,
-    };
-  } catch (e) {
-    console.log(`Error Creating index:${e}`);
-    return await CreateSearchIndex();
-  }
-};
-
-const CreateSearchIndex = async (): Promise<
-  ServerActionResponse<SearchIndex>
-> => {
-  try {
-    console.log("Creating search index");
-    const client = AzureAISearchIndexClientInstance();
-    const result = await client.createIndex({
-      name: process.env.AZURE_SEARCH_INDEX_NAME,
-      vectorSearch: {
-        algorithms: [
-          {
-            name: "hnsw-vector",
-            kind: "hnsw",
-            parameters: {
-              m: 4,
-              efConstruction: 200,
-              efSearch: 200,
-              metric: "cosine",
-            },
-          },
-        ],
-        profiles: [
-          {
-            name: "hnsw-vector",
-            algorithmConfigurationName: "hnsw-vector",
-          },
-        ],
-      },
-
-      fields: [
-        {
-          name: "id",
-          type: "Edm.String",
-          key: true,
-          filterable: true,
-        },
-        {
-          name: "user",
-          type: "Edm.String",
-          searchable: true,
-          filterable: true,
-        },
-        {
-          name: "chatThreadId",
-          type: "Edm.String",
-          searchable: true,
-          filterable: true,
-        },
-        {
-          name: "pageContent",
-          searchable: true,
-          type: "Edm.String",
-        },
-        {
-          name: "metadata",
-          type: "Edm.String",
-        },
-        {
-          name: "embedding",
-          type: "Collection(Edm.Single)",
-          searchable: true,
-          filterable: false,
-          sortable: false,
-          facetable: false,
-          vectorSearchDimensions: 1536,
-          vectorSearchProfileName: "hnsw-vector",
-        },
-      ],
-    });
-
-    console.log("Search index created:", result);
-    return {
-      status: "OK",
-      response: result,
-    };
-  } catch (e) {
-    console.error("CreateSearchIndex error:", e);
-    return {
-      status: "ERROR",
-      errors: [
-        {
-          message: `${e}`,
-        },
-      ],
-    };
-  }
+  return await EnsureSearchIndex();
 };
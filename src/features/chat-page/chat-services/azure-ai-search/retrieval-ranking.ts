@@ -0,0 +1,87 @@
+import "server-only";
+
+// Smooths the reciprocal ranks so that the first results don't outweigh
+// everything else, the value used by Azure AI Search for its hybrid ranking
+const RANK_CONSTANT = 60;
+
+export interface RankedResult {
+  id: string;
+  rank: number; // 1 is the best
+}
+
+// Weighted reciprocal rank fusion of the keyword and the vector rankings
+export const FuseRankings = (
+  rankings: Array<{ weight: number; results: Array<RankedResult> }>
+): Map<string, number> => {
+  const scores = new Map<string, number>();
+
+  rankings.forEach(({ weight, results }) =>
+    results.forEach(({ id, rank }) =>
+      scores.set(id, (scores.get(id) ?? 0) + weight / (RANK_CONSTANT + rank))
+    )
+  );
+
+  return scores;
+};
+
+export const CosineSimilarity = (a?: number[], b?: number[]) => {
+  if (!a || !b || a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// Picks count candidates, ordered by relevance. With a diversity above 0 they
+// are picked by maximal marginal relevance, a candidate close to one already
+// picked loses ground.
+export const SelectDiverse = <T extends { embedding?: number[] }>(
+  candidates: Array<{ item: T; relevance: number }>, // 0 to 1, most relevant first
+  count: number,
+  diversity: number
+): Array<T> => {
+  if (diversity <= 0) {
+    return candidates.slice(0, count).map((c) => c.item);
+  }
+
+  const remaining = [...candidates];
+  const selected: Array<T> = [];
+
+  while (selected.length < count && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+
+    remaining.forEach((candidate, index) => {
+      const redundancy = selected.reduce(
+        (max, s) =>
+          Math.max(
+            max,
+            CosineSimilarity(candidate.item.embedding, s.embedding)
+          ),
+        0
+      );
+      const score =
+        (1 - diversity) * candidate.relevance - diversity * redundancy;
+
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    });
+
+    selected.push(remaining[bestIndex].item);
+    remaining.splice(bestIndex, 1);
+  }
+
+  return selected;
+};
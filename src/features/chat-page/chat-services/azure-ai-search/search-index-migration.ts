@@ -0,0 +1,559 @@
+import "server-only";
+
+import { ServerActionResponse } from "@/features/common/server-action-response";
+import {
+  AzureAISearchIndexClientInstance,
+  AzureAISearchInstance,
+} from "@/features/common/services/ai-search";
+import { HistoryContainer } from "@/features/common/services/cosmos";
+import {
+  OpenAIEmbeddingInstance,
+  OpenAIEmbeddingModel,
+} from "@/features/common/services/openai";
+import { SqlQuerySpec } from "@azure/cosmos";
+import { SearchIndex } from "@azure/search-documents";
+import {
+  CHAT_DOCUMENT_ATTRIBUTE,
+  ChatDocumentModel,
+  IndexMigration,
+  SearchIndexVersion,
+} from "../models";
+import { IsCosmosError, IsThrottled, Sleep } from "../background-worker";
+import type { AzureSearchDocumentIndex } from "./azure-ai-search";
+import {
+  ADDED_FIELDS,
+  DocumentChunksFilter,
+  IndexEmbeddingDimensions,
+  LEGACY_SCHEMA_VERSION,
+  SEARCH_INDEX_SCHEMA_VERSION,
+  SEMANTIC_CONFIGURATION_NAME,
+  SEMANTIC_SEARCH,
+  SearchIndexDefinition,
+} from "./search-index-schema";
+import {
+  BaseSearchIndexName,
+  CreateSearchIndexState,
+  FindSearchIndexState,
+  ReplaceSearchIndexState,
+  StoredSearchIndexState,
+  UNKNOWN_EMBEDDING_MODEL,
+} from "./search-index-state";
+
+// documents read from the chat history at a time
+const MIGRATION_DOCUMENT_BATCH_SIZE = 20;
+
+// chunks embedded in one request
+const MIGRATION_CHUNK_BATCH_SIZE = 16;
+
+const MAX_ATTEMPTS = 5;
+
+// doubled after every failed attempt, throttled requests wait longer
+const RETRY_DELAY_MS = 5 * 1000;
+const THROTTLED_RETRY_DELAY_MS = 30 * 1000;
+
+// the migration is owned by the worker that claimed it until the lease
+// expires, the lease is renewed after every document
+const LEASE_MS = 10 * 60 * 1000;
+
+// chunk batches that started before the migration was queued only write to
+// the active index, the copy starts once they have been uploaded
+const START_DELAY_MS = 60 * 1000;
+
+// longest wait before looking at the migration again
+const MAX_IDLE_MS = 60 * 1000;
+
+const debug = process.env.DEBUG === "true";
+
+// Creates the search index on the first upload. An index of an older schema
+// version, or built with another embedding model, is kept for the searches
+// while its chunks are migrated to a new index in the background.
+export const EnsureSearchIndex = async (): Promise<
+  ServerActionResponse<SearchIndex>
+> => {
+  try {
+    const state = (await FindSearchIndexState()) ?? (await AdoptSearchIndex());
+    const client = AzureAISearchIndexClientInstance();
+    const activeIndex = await client.getIndex(state.active.name);
+
+    if (state.active.schemaVersion === LEGACY_SCHEMA_VERSION) {
+      // the searches use the fields added since the index was created
+      const response = await AddMissingIndexSettings(activeIndex);
+
+      if (response.status !== "OK") {
+        return response;
+      }
+    }
+
+    try {
+      await UpdateIndexMigration(state);
+    } catch (e) {
+      // the uploads go to the active index meanwhile
+      console.error("🔴 Error on queuing index migration:", e);
+    }
+
+    return {
+      status: "OK",
+      response: activeIndex,
+    };
+  } catch (e) {
+    console.error("EnsureSearchIndex error:", e);
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `${e}`,
+        },
+      ],
+    };
+  }
+};
+
+// Queues a migration when the active index is not of the current version,
+// and makes sure a worker of this server instance processes it
+const UpdateIndexMigration = async (state: StoredSearchIndexState) => {
+  const target = await CurrentSearchIndexVersion();
+  const { migration } = state;
+
+  if (IsSameVersion(state.active, target)) {
+    if (migration) {
+      // the configuration changed back before the migration completed
+      await ReplaceSearchIndexState({ ...state, migration: undefined });
+    }
+    return;
+  }
+
+  if (!migration || !IsSameVersion(migration.target, target)) {
+    await QueueIndexMigration(state, target);
+  } else if (migration.status === "failed") {
+    // tried again from the last document that was copied
+    await ReplaceSearchIndexState({
+      ...state,
+      migration: { ...migration, status: "queued", attempts: 0 },
+    });
+  }
+
+  StartIndexMigrationWorker();
+};
+
+// Records the index of AZURE_SEARCH_INDEX_NAME, or creates it. The embedding
+// model of an existing index is unknown, so it is always migrated.
+const AdoptSearchIndex = async (): Promise<StoredSearchIndexState> => {
+  const client = AzureAISearchIndexClientInstance();
+  const name = BaseSearchIndexName();
+  let active: SearchIndexVersion;
+
+  try {
+    const index = await client.getIndex(name);
+
+    active = {
+      name,
+      schemaVersion: LEGACY_SCHEMA_VERSION,
+      dimensions: IndexEmbeddingDimensions(index),
+      embeddingModel: UNKNOWN_EMBEDDING_MODEL,
+    };
+  } catch (e) {
+    if (!IsNotFound(e)) {
+      throw e;
+    }
+
+    active = { ...(await CurrentSearchIndexVersion()), name };
+    console.log("Creating search index:", active);
+    await client.createIndex(SearchIndexDefinition(name, active.dimensions));
+  }
+
+  try {
+    return await CreateSearchIndexState(active);
+  } catch (e) {
+    // another instance recorded the index first
+    if (IsCosmosError(e, 409)) {
+      const state = await FindSearchIndexState();
+
+      if (state) {
+        return state;
+      }
+    }
+
+    throw e;
+  }
+};
+
+// version the chunks should be indexed with, the name is given when it is created
+const CurrentSearchIndexVersion = async (): Promise<SearchIndexVersion> => {
+  const embeddingModel = OpenAIEmbeddingModel();
+
+  return {
+    name: "",
+    schemaVersion: SEARCH_INDEX_SCHEMA_VERSION,
+    dimensions: await EmbeddingDimensions(embeddingModel),
+    embeddingModel,
+  };
+};
+
+const IsSameVersion = (a: SearchIndexVersion, b: SearchIndexVersion) =>
+  a.schemaVersion === b.schemaVersion &&
+  a.dimensions === b.dimensions &&
+  a.embeddingModel === b.embeddingModel;
+
+const embeddingDimensions = new Map<string, number>();
+
+// Deployments don't tell the length of their vectors, it is read from the
+// embedding of a short text once per model
+const EmbeddingDimensions = async (model: string) => {
+  let dimensions = embeddingDimensions.get(model);
+
+  if (!dimensions) {
+    const embeddings = await OpenAIEmbeddingInstance(model).embeddings.create({
+      input: "dimensions",
+      model,
+    });
+
+    dimensions = embeddings.data[0].embedding.length;
+    embeddingDimensions.set(model, dimensions);
+  }
+
+  return dimensions;
+};
+
+// Creates the index of the target version and queues the copy of the chunks,
+// a migration to another version is replaced and its index is left behind
+const QueueIndexMigration = async (
+  state: StoredSearchIndexState,
+  target: SearchIndexVersion
+) => {
+  const generation = state.generation + 1;
+  const name = `${BaseSearchIndexName()}-${generation}`;
+
+  console.log("Migrating search index:", state.active, "to:", name, target);
+
+  const client = AzureAISearchIndexClientInstance();
+  await client.createOrUpdateIndex(
+    SearchIndexDefinition(name, target.dimensions)
+  );
+
+  await ReplaceSearchIndexState({
+    ...state,
+    generation,
+    migration: {
+      target: { ...target, name },
+      status: "queued",
+      after: "",
+      migratedChunks: 0,
+      attempts: 0,
+      notBefore: Date.now() + START_DELAY_MS,
+      leaseUntil: 0,
+      error: "",
+      startedAt: new Date(),
+    },
+  });
+};
+
+let isWorkerRunning = false;
+
+// Starts the worker of this server instance unless it is running already.
+// It stops when no migration is left, a migration left by a stopped server
+// is picked up once its lease expires.
+const StartIndexMigrationWorker = () => {
+  if (isWorkerRunning) {
+    return;
+  }
+
+  isWorkerRunning = true;
+
+  RunIndexMigrationWorker()
+    .catch((error) => console.error("🔴 Error on index migration:", error))
+    .finally(() => {
+      isWorkerRunning = false;
+    });
+};
+
+const RunIndexMigrationWorker = async () => {
+  while (true) {
+    const state = await FindSearchIndexState();
+    const migration = state?.migration;
+
+    if (!state || !migration || migration.status === "failed") {
+      return;
+    }
+
+    const now = Date.now();
+    const next =
+      migration.status === "running"
+        ? migration.leaseUntil
+        : migration.notBefore;
+
+    if (next > now) {
+      await Sleep(Math.min(next - now, MAX_IDLE_MS));
+      continue;
+    }
+
+    const claimed = await SaveMigration(state, { status: "running" });
+
+    if (claimed) {
+      await ProcessIndexMigration(claimed);
+    }
+  }
+};
+
+// Copies the chunks of every document from the one after the last copied,
+// then switches the searches to the new index
+const ProcessIndexMigration = async (state: StoredSearchIndexState) => {
+  let current: StoredSearchIndexState | undefined = state;
+  const { target } = state.migration!;
+
+  try {
+    while (current) {
+      const documents = await FindDocumentsAfter(current.migration!.after);
+
+      if (documents.length === 0) {
+        break;
+      }
+
+      for (const document of documents) {
+        const count: number = await CopyDocumentChunks(
+          document,
+          current.active,
+          target
+        );
+
+        current = await SaveMigration(current, {
+          after: document.id,
+          migratedChunks: current.migration!.migratedChunks + count,
+          attempts: 0,
+          error: "",
+        });
+
+        // the migration was replaced or claimed by another instance
+        if (!current) {
+          return;
+        }
+      }
+    }
+
+    if (current) {
+      console.log("Search index migrated:", target);
+      await ReplaceSearchIndexState({
+        ...current,
+        active: target,
+        previous: current.active,
+        migration: undefined,
+      });
+    }
+  } catch (error) {
+    console.error("🔴 Error on index migration:", target.name, error);
+    await RetryOrFailIndexMigration(current ?? state, `${error}`);
+  }
+};
+
+// Documents of all the users, deleted documents have no chunks left
+const FindDocumentsAfter = async (after: string) => {
+  const querySpec: SqlQuerySpec = {
+    query:
+      "SELECT TOP @limit * FROM root r WHERE r.type=@type AND r.isDeleted=@isDeleted AND r.id > @after ORDER BY r.id",
+    parameters: [
+      {
+        name: "@limit",
+        value: MIGRATION_DOCUMENT_BATCH_SIZE,
+      },
+      {
+        name: "@type",
+        value: CHAT_DOCUMENT_ATTRIBUTE,
+      },
+      {
+        name: "@isDeleted",
+        value: false,
+      },
+      {
+        name: "@after",
+        value: after,
+      },
+    ],
+  };
+
+  const { resources } = await HistoryContainer()
+    .items.query<ChatDocumentModel>(querySpec)
+    .fetchAll();
+
+  return resources;
+};
+
+// Uploads the chunks of the document to the target index, embedded again
+// unless both indexes use the same vectors. Chunks indexed before they had a
+// document id get it.
+const CopyDocumentChunks = async (
+  document: ChatDocumentModel,
+  source: SearchIndexVersion,
+  target: SearchIndexVersion
+) => {
+  const { filter, predicate } = DocumentChunksFilter({
+    chatThreadId: document.chatThreadId,
+    libraryId: document.libraryId,
+    documentId: document.id,
+    fileName: document.name,
+  });
+
+  const searchResults = await AzureAISearchInstance<AzureSearchDocumentIndex>(
+    source.name
+  ).search(undefined, { filter });
+
+  const chunks: Array<AzureSearchDocumentIndex> = [];
+  for await (const result of searchResults.results) {
+    if (predicate(result.document)) {
+      chunks.push({ ...result.document, documentId: document.id });
+    }
+  }
+
+  // the vectors of an index of an unknown model may come from another one
+  const reuseEmbeddings =
+    source.embeddingModel !== UNKNOWN_EMBEDDING_MODEL &&
+    source.embeddingModel === target.embeddingModel &&
+    source.dimensions === target.dimensions;
+  const targetClient = AzureAISearchInstance<AzureSearchDocumentIndex>(
+    target.name
+  );
+
+  for (let i = 0; i < chunks.length; i += MIGRATION_CHUNK_BATCH_SIZE) {
+    const batch = chunks.slice(i, i + MIGRATION_CHUNK_BATCH_SIZE);
+
+    if (!reuseEmbeddings) {
+      const embeddings = await OpenAIEmbeddingInstance(
+        target.embeddingModel
+      ).embeddings.create({
+        input: batch.map((c) => c.pageContent),
+        model: target.embeddingModel,
+      });
+
+      embeddings.data.forEach((embedding, index) => {
+        batch[index].embedding = embedding.embedding;
+      });
+    }
+
+    const uploadResponse = await targetClient.uploadDocuments(batch);
+    const errors = uploadResponse.results
+      .filter((r) => !r.succeeded)
+      .map((r) => `${r.errorMessage}`);
+
+    if (errors.length > 0) {
+      throw new Error(errors.join("\n"));
+    }
+  }
+
+  if (debug) console.log("Migrated chunks of document:", document.id, chunks.length);
+  return chunks.length;
+};
+
+const RetryOrFailIndexMigration = async (
+  state: StoredSearchIndexState,
+  error: string
+) => {
+  try {
+    const attempts = state.migration!.attempts + 1;
+
+    if (attempts >= MAX_ATTEMPTS) {
+      // queued again by the next upload
+      await SaveMigration(state, { status: "failed", attempts, error });
+      return;
+    }
+
+    const delay = IsThrottled(error)
+      ? THROTTLED_RETRY_DELAY_MS
+      : RETRY_DELAY_MS;
+
+    await SaveMigration(state, {
+      status: "queued",
+      attempts,
+      error,
+      notBefore: Date.now() + delay * 2 ** (attempts - 1),
+    });
+  } catch (e) {
+    // the lease expires and the migration is picked up again
+    console.error("🔴 Error on saving index migration:", e);
+  }
+};
+
+// Saves the progress and renews the lease. Returns undefined when the state
+// changed since it was read, e.g. another instance claimed the migration.
+const SaveMigration = async (
+  state: StoredSearchIndexState,
+  changes: Partial<IndexMigration>
+): Promise<StoredSearchIndexState | undefined> => {
+  const migration = { ...state.migration!, ...changes };
+
+  try {
+    return await ReplaceSearchIndexState({
+      ...state,
+      migration: {
+        ...migration,
+        leaseUntil:
+          migration.status === "running" ? Date.now() + LEASE_MS : 0,
+      },
+    });
+  } catch (error) {
+    if (IsCosmosError(error, 412)) {
+      return undefined;
+    }
+
+    throw error;
+  }
+};
+
+// Adds the fields and the semantic configuration that the legacy index was
+// created without, they don't need a migration
+const AddMissingIndexSettings = async (
+  index: SearchIndex
+): Promise<ServerActionResponse<SearchIndex>> => {
+  const missing = ADDED_FIELDS.filter(
+    (field) => !index.fields.some((f) => f.name === field.name)
+  );
+  const hasSemanticSearch =
+    index.semanticSearch?.configurations?.some(
+      (c) => c.name === SEMANTIC_CONFIGURATION_NAME
+    ) ?? false;
+
+  if (missing.length === 0 && hasSemanticSearch) {
+    return {
+      status: "OK",
+      response: index,
+    };
+  }
+
+  try {
+    console.log(
+      "Updating search index, missing fields:",
+      missing.map((f) => f.name),
+      "semantic search:",
+      !hasSemanticSearch
+    );
+    const client = AzureAISearchIndexClientInstance();
+    const result = await client.createOrUpdateIndex({
+      ...index,
+      fields: [...index.fields, ...missing],
+      semanticSearch: hasSemanticSearch
+        ? index.semanticSearch
+        : {
+            ...index.semanticSearch,
+            configurations: [
+              ...(index.semanticSearch?.configurations ?? []),
+              ...(SEMANTIC_SEARCH.configurations ?? []),
+            ],
+          },
+    });
+
+    return {
+      status: "OK",
+      response: result,
+    };
+  } catch (e) {
+    console.error("AddMissingIndexSettings error:", e);
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `${e}`,
+        },
+      ],
+    };
+  }
+};
+
+const IsNotFound = (error: unknown) =>
+  (error as { statusCode?: number })?.statusCode === 404;
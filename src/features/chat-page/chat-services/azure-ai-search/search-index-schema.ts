@@ -0,0 +1,212 @@
+import "server-only";
+
+import {
+  SearchField,
+  SearchIndex,
+  SemanticSearch,
+} from "@azure/search-documents";
+import type { AzureSearchDocumentIndex } from "./azure-ai-search";
+
+// Raised when a field can't be added to an existing index, e.g. it becomes
+// sortable. Indexes of an older version are migrated to a new one.
+// 1: the index created before the schema was versioned
+// 2: filterable and sortable chunk ids, pages and file names
+export const SEARCH_INDEX_SCHEMA_VERSION = 2;
+
+export const LEGACY_SCHEMA_VERSION = 1;
+
+export const SEMANTIC_CONFIGURATION_NAME = "default";
+
+const VECTOR_PROFILE_NAME = "hnsw-vector";
+
+// fields added to the legacy index after it was created, existing documents keep them empty
+export const ADDED_FIELDS: Array<SearchField> = [
+  {
+    name: "pageStart",
+    type: "Edm.Int32",
+    filterable: true,
+  },
+  {
+    name: "pageEnd",
+    type: "Edm.Int32",
+    filterable: true,
+  },
+  {
+    name: "sectionTitle",
+    type: "Edm.String",
+    searchable: true,
+  },
+  {
+    name: "documentId",
+    type: "Edm.String",
+    filterable: true,
+  },
+  {
+    name: "regions",
+    type: "Edm.String",
+  },
+  {
+    name: "libraryId",
+    type: "Edm.String",
+    filterable: true,
+  },
+  {
+    name: "contentHash",
+    type: "Edm.String",
+    filterable: true,
+  },
+];
+
+// used by the semantic ranker, section titles are the closest to a title chunks have
+export const SEMANTIC_SEARCH: SemanticSearch = {
+  configurations: [
+    {
+      name: SEMANTIC_CONFIGURATION_NAME,
+      prioritizedFields: {
+        titleField: { name: "sectionTitle" },
+        contentFields: [{ name: "pageContent" }],
+      },
+    },
+  ],
+};
+
+// Index of the current schema version, dimensions are the length of the
+// vectors of the embedding model
+export const SearchIndexDefinition = (
+  name: string,
+  dimensions: number
+): SearchIndex => ({
+  name,
+  semanticSearch: SEMANTIC_SEARCH,
+  vectorSearch: {
+    algorithms: [
+      {
+        name: VECTOR_PROFILE_NAME,
+        kind: "hnsw",
+        parameters: {
+          m: 4,
+          efConstruction: 200,
+          efSearch: 200,
+          metric: "cosine",
+        },
+      },
+    ],
+    profiles: [
+      {
+        name: VECTOR_PROFILE_NAME,
+        algorithmConfigurationName: VECTOR_PROFILE_NAME,
+      },
+    ],
+  },
+  fields: [
+    {
+      name: "id",
+      type: "Edm.String",
+      key: true,
+      filterable: true,
+      sortable: true,
+    },
+    {
+      name: "user",
+      type: "Edm.String",
+      filterable: true,
+    },
+    {
+      name: "chatThreadId",
+      type: "Edm.String",
+      filterable: true,
+    },
+    {
+      name: "pageContent",
+      type: "Edm.String",
+      searchable: true,
+    },
+    {
+      // file name
+      name: "metadata",
+      type: "Edm.String",
+      filterable: true,
+      facetable: true,
+    },
+    {
+      name: "pageStart",
+      type: "Edm.Int32",
+      filterable: true,
+      sortable: true,
+    },
+    {
+      name: "pageEnd",
+      type: "Edm.Int32",
+      filterable: true,
+      sortable: true,
+    },
+    {
+      name: "sectionTitle",
+      type: "Edm.String",
+      searchable: true,
+    },
+    {
+      name: "documentId",
+      type: "Edm.String",
+      filterable: true,
+      facetable: true,
+    },
+    {
+      name: "regions",
+      type: "Edm.String",
+    },
+    {
+      name: "libraryId",
+      type: "Edm.String",
+      filterable: true,
+      facetable: true,
+    },
+    {
+      name: "contentHash",
+      type: "Edm.String",
+      filterable: true,
+    },
+    {
+      name: "embedding",
+      type: "Collection(Edm.Single)",
+      searchable: true,
+      vectorSearchDimensions: dimensions,
+      vectorSearchProfileName: VECTOR_PROFILE_NAME,
+    },
+  ],
+});
+
+// length of the vectors the index was created for
+export const IndexEmbeddingDimensions = (index: SearchIndex) => {
+  const field = index.fields.find((f) => f.name === "embedding");
+  return field && "vectorSearchDimensions" in field
+    ? field.vectorSearchDimensions ?? 0
+    : 0;
+};
+
+// Chunks of an uploaded file. Chunks indexed before they had a document id
+// are matched by the file name.
+export const DocumentChunksFilter = (props: {
+  chatThreadId: string;
+  libraryId?: string;
+  documentId: string;
+  fileName: string;
+}): {
+  filter: string;
+  predicate: (document: AzureSearchDocumentIndex) => boolean;
+} => {
+  const { chatThreadId, libraryId, documentId, fileName } = props;
+
+  // libraries were added after documents had an id
+  if (libraryId) {
+    return {
+      filter: `libraryId eq '${libraryId}' and documentId eq '${documentId}'`,
+      predicate: () => true,
+    };
+  }
+
+  return {
+    filter: `chatThreadId eq '${chatThreadId}' and (documentId eq '${documentId}' or documentId eq null)`,
+    predicate: (d) => d.documentId === documentId || d.metadata === fileName,
+  };
+};
@@ -0,0 +1,105 @@
+import "server-only";
+
+import { ConfigContainer } from "@/features/common/services/cosmos";
+import { OpenAIEmbeddingModel } from "@/features/common/services/openai";
+import {
+  SEARCH_INDEX_ATTRIBUTE,
+  SearchIndexStateModel,
+  SearchIndexVersion,
+} from "../models";
+import { LEGACY_SCHEMA_VERSION } from "./search-index-schema";
+
+// one record for all the users and server instances, in a partition of its own
+const SEARCH_INDEX_STATE_ID = "search-index";
+
+// An index created before the state was recorded doesn't tell which model its
+// vectors come from, its chunks are embedded again by the migration
+export const UNKNOWN_EMBEDDING_MODEL = "";
+
+export type StoredSearchIndexState = SearchIndexStateModel & { _etag: string };
+
+export const BaseSearchIndexName = () =>
+  process.env.AZURE_SEARCH_INDEX_NAME ?? "";
+
+// undefined until the first upload created or adopted an index
+export const FindSearchIndexState = async (): Promise<
+  StoredSearchIndexState | undefined
+> => {
+  const { resource } = await ConfigContainer()
+    .item(SEARCH_INDEX_STATE_ID, SEARCH_INDEX_ATTRIBUTE)
+    .read<SearchIndexStateModel>();
+
+  return resource;
+};
+
+// Fails with a 409 when another instance created the record first
+export const CreateSearchIndexState = async (
+  active: SearchIndexVersion
+): Promise<StoredSearchIndexState> => {
+  const { resource } =
+    await ConfigContainer().items.create<SearchIndexStateModel>({
+      id: SEARCH_INDEX_STATE_ID,
+      active,
+      generation: 0,
+      userId: SEARCH_INDEX_ATTRIBUTE,
+      createdAt: new Date(),
+      type: SEARCH_INDEX_ATTRIBUTE,
+    });
+
+  if (!resource) {
+    throw new Error("Error creating the search index state");
+  }
+
+  return resource;
+};
+
+// Fails with a 412 when the record changed since it was read
+export const ReplaceSearchIndexState = async (
+  state: StoredSearchIndexState
+): Promise<StoredSearchIndexState> => {
+  const { resource } = await ConfigContainer()
+    .item(state.id, state.userId)
+    .replace<SearchIndexStateModel>(state, {
+      accessCondition: { type: "IfMatch", condition: state._etag },
+    });
+
+  if (!resource) {
+    throw new Error("Error saving the search index state");
+  }
+
+  return resource;
+};
+
+// Index the searches read. Before the first upload it is the index of
+// AZURE_SEARCH_INDEX_NAME, built with an unknown embedding model.
+export const ActiveSearchIndex = async (): Promise<SearchIndexVersion> => {
+  const state = await FindSearchIndexState();
+  return state?.active ?? LegacySearchIndex();
+};
+
+// Indexes new chunks are written to and removed from, the active one first
+export const WritableSearchIndexes = async (): Promise<
+  Array<SearchIndexVersion>
+> => {
+  const state = await FindSearchIndexState();
+
+  if (!state) {
+    return [LegacySearchIndex()];
+  }
+
+  return state.migration
+    ? [state.active, state.migration.target]
+    : [state.active];
+};
+
+// Model the question and new chunks are embedded with. An index of an unknown
+// model is assumed to use the configured one until it is migrated.
+export const SearchIndexEmbeddingModel = (index: SearchIndexVersion) =>
+  index.embeddingModel || OpenAIEmbeddingModel();
+
+const LegacySearchIndex = (): SearchIndexVersion => ({
+  name: BaseSearchIndexName(),
+  schemaVersion: LEGACY_SCHEMA_VERSION,
+  dimensions: 1536,
+  embeddingModel: UNKNOWN_EMBEDDING_MODEL,
+});
@@ -0,0 +1,15 @@
+import "server-only";
+
+import { ErrorResponse } from "@azure/cosmos";
+
+// Shared by the workers of document ingestion and search index migration
+
+// throttled requests are tried again after a longer delay
+export const IsThrottled = (error: string) =>
+  /\b429\b|too many requests|rate limit|too quickly/i.test(error);
+
+export const IsCosmosError = (error: unknown, code: number) =>
+  (error as ErrorResponse)?.code === code;
+
+export const Sleep = (ms: number) =>
+  new Promise((resolve) => setTimeout(resolve, Math.max(ms, 0)));
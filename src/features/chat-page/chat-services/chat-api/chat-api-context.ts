@@ -0,0 +1,269 @@
+"use server";
+import "server-only";
+
+import { OpenAIInstance } from "@/features/common/services/openai";
+import { ModelDeploymentModel } from "@/features/model-page/model-services/models";
+import { RecordCompletionUsage } from "@/features/usage-page/usage-services/usage-recorder";
+import { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import {
+  FindAllChatMessagesForCurrentUser,
+  FindTopChatMessagesForCurrentUser,
+} from "../chat-message-service";
+import { UpdateChatThreadSummary } from "../chat-thread-service";
+import { activeBranch } from "../message-tree";
+import { ChatMessageModel, ChatThreadModel } from "../models";
+import { CountMessageTokens, CountTokens, TruncateToTokens } from "../token-service";
+import { completeToolTranscript, mapOpenAIChatMessages } from "../utils";
+
+// tokens kept free for the answer of the model
+const RESPONSE_TOKENS = 4096;
+// upper bound of messages loaded from the thread, anything older is only available through the summary.
+// A thread that goes on past them without a summary reaching them is read once in full to summarize them.
+const MAX_HISTORY_MESSAGES = 200;
+// share of the remaining context reserved for retrieved documents and tool results
+const CONTENT_SHARE = 0.4;
+// the summarization request itself must fit in the context window
+const SUMMARY_INPUT_SHARE = 0.5;
+
+export interface ChatContext {
+  history: ChatCompletionMessageParam[];
+  contentBudget: number; // tokens available for the RAG context block or a single tool result
+  leafId: string; // last message of the branch the history was taken from, empty for a new thread
+}
+
+// Builds the history sent to the model within the context window of the selected model.
+// The newest messages are kept, older ones are folded into a running summary stored on the thread.
+// Only the branch ending at leafId is used, other edits and regenerated answers are left out.
+// The summary belongs to the branch through its last summarized message, another branch is
+// summarized from its own messages.
+export const BuildChatContext = async (props: {
+  chatThread: ChatThreadModel;
+  model: ModelDeploymentModel;
+  systemPrompt: string;
+  userMessage: string;
+  imageBudget: number;
+  includesContent: boolean;
+  leafId?: string;
+  excludeLeaf?: boolean; // the leaf is the prompt being answered again
+}): Promise<ChatContext> => {
+  const { chatThread, model } = props;
+
+  const available =
+    model.contextWindow -
+    RESPONSE_TOKENS -
+    CountTokens(props.systemPrompt, model) -
+    CountTokens(props.userMessage, model);
+
+  const contentBudget = props.includesContent
+    ? Math.floor(Math.max(available, 0) * CONTENT_SHARE)
+    : 0;
+
+  let historyBudget = available - contentBudget;
+
+  const historyResponse = await FindTopChatMessagesForCurrentUser(
+    chatThread.id,
+    MAX_HISTORY_MESSAGES
+  );
+
+  if (historyResponse.status !== "OK") {
+    console.error("🔴 Error on getting history:", historyResponse.errors);
+    return { history: [], contentBudget, leafId: props.leafId ?? "" };
+  }
+
+  let branch = branchOf(historyResponse.response, props.leafId);
+
+  // the messages older than the loaded ones are neither in the history nor in
+  // the summary, they are summarized from the whole thread
+  const cutOff =
+    historyResponse.response.length >= MAX_HISTORY_MESSAGES &&
+    !branch.some((m) => m.id === chatThread.summarizedMessageId);
+
+  if (cutOff) {
+    const allResponse = await FindAllChatMessagesForCurrentUser(chatThread.id);
+
+    if (allResponse.status === "OK") {
+      branch = branchOf(allResponse.response, props.leafId);
+    } else {
+      console.error("🔴 Error on getting history:", allResponse.errors);
+    }
+  }
+
+  const leafId = props.leafId ?? branch[branch.length - 1]?.id ?? "";
+
+  if (props.excludeLeaf) {
+    branch.pop();
+  }
+
+  // the messages up to the last summarized one are replaced by the summary
+  const summarizedIndex = branch.findIndex(
+    (m) => m.id === chatThread.summarizedMessageId
+  );
+  let summary = summarizedIndex >= 0 ? chatThread.summary ?? "" : "";
+  branch = branch.slice(summarizedIndex + 1);
+
+  // newest first
+  const messages = branch.reverse();
+  const mapped = mapOpenAIChatMessages(messages, props.imageBudget);
+
+  historyBudget -= CountTokens(summary, model);
+
+  // after reading the whole thread the summary reaches well into the loaded
+  // messages, so that the next turns don't read it again
+  const maxKept = cutOff ? MAX_HISTORY_MESSAGES / 2 : mapped.length;
+
+  let kept = 0;
+  for (const message of mapped) {
+    const tokens = CountMessageTokens([message], model);
+    if (tokens > historyBudget || kept >= maxKept) {
+      break;
+    }
+    historyBudget -= tokens;
+    kept++;
+  }
+
+  const overflow = messages.slice(kept);
+
+  if (overflow.length > 0) {
+    summary = await summarize({
+      chatThread,
+      model,
+      summary,
+      messages: [...overflow].reverse(),
+    });
+  }
+
+  const history = completeToolTranscript(mapped.slice(0, kept).reverse());
+
+  if (summary !== "") {
+    history.unshift({
+      role: "system",
+      content: `Summary of the earlier conversation:\n${summary}`,
+    });
+  }
+
+  return { history, contentBudget, leafId };
+};
+
+// Folds the messages into the summary in batches that fit the summarization
+// request, the summary is saved up to the last batch that was summarized
+const summarize = async (props: {
+  chatThread: ChatThreadModel;
+  model: ModelDeploymentModel;
+  summary: string;
+  messages: ChatMessageModel[]; // oldest first
+}): Promise<string> => {
+  const { chatThread, model } = props;
+  let summary = props.summary;
+  let summarizedMessageId = "";
+
+  for (const batch of summaryBatches(props.messages, model)) {
+    try {
+      summary = await updateSummary({ chatThread, model, summary, batch });
+      summarizedMessageId = batch[batch.length - 1].id;
+    } catch (error) {
+      // the turn can still be answered with the newest messages only
+      console.error("🔴 Error on summarizing history:", error);
+      break;
+    }
+  }
+
+  if (summarizedMessageId !== "") {
+    const response = await UpdateChatThreadSummary({
+      chatThreadId: chatThread.id,
+      summary,
+      summarizedMessageId,
+    });
+
+    if (response.status !== "OK") {
+      console.error("🔴 Error on saving summary:", response.errors);
+    }
+  }
+
+  return summary;
+};
+
+const updateSummary = async (props: {
+  chatThread: ChatThreadModel;
+  model: ModelDeploymentModel;
+  summary: string;
+  batch: ChatMessageModel[];
+}): Promise<string> => {
+  const { chatThread, model, summary, batch } = props;
+
+  const input = TruncateToTokens(
+    `Current summary:\n${summary || "(none)"}\n\nNew messages:\n${batch
+      .map(transcriptOf)
+      .join("\n\n")}`,
+    Math.floor(model.contextWindow * SUMMARY_INPUT_SHARE),
+    model
+  );
+
+  const openAI = OpenAIInstance(model.deploymentName);
+  const completion = await openAI.chat.completions.create({
+    model: model.deploymentName,
+    messages: [
+      {
+        role: "system",
+        content:
+          "You maintain a running summary of a conversation between a user and an assistant. Update the current summary with the new messages. Keep names, figures, dates, documents and decisions. Answer with the updated summary only.",
+      },
+      {
+        role: "user",
+        content: input,
+      },
+    ],
+  });
+
+  await RecordCompletionUsage({
+    threadId: chatThread.id,
+    kind: "summary",
+    model,
+    usage: completion.usage,
+  });
+
+  return completion.choices[0].message.content ?? summary;
+};
+
+// half of the summarization request is left for the summary itself
+const summaryBatches = (
+  messages: ChatMessageModel[],
+  model: ModelDeploymentModel
+): ChatMessageModel[][] => {
+  const batchTokens = Math.floor(
+    (model.contextWindow * SUMMARY_INPUT_SHARE) / 2
+  );
+  const batches: ChatMessageModel[][] = [];
+  let batch: ChatMessageModel[] = [];
+  let tokens = 0;
+
+  for (const message of messages) {
+    const messageTokens = CountTokens(transcriptOf(message), model);
+
+    if (batch.length > 0 && tokens + messageTokens > batchTokens) {
+      batches.push(batch);
+      batch = [];
+      tokens = 0;
+    }
+
+    batch.push(message);
+    tokens += messageTokens;
+  }
+
+  if (batch.length > 0) {
+    batches.push(batch);
+  }
+
+  return batches;
+};
+
+const transcriptOf = (m: ChatMessageModel) =>
+  `${m.role} (${m.name}): ${m.content || JSON.stringify(m.toolCalls ?? [])}`;
+
+// a leaf older than the loaded messages is still a valid parent for the new message
+const branchOf = (
+  messages: ChatMessageModel[],
+  leafId?: string
+): ChatMessageModel[] =>
+  leafId === undefined || messages.some((m) => m.id === leafId)
+    ? activeBranch(messages, leafId)
+    : [];
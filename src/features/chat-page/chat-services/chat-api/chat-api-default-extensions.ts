@@ -2,8 +2,13 @@
 import "server-only";
 
 import { ServerActionResponse } from "@/features/common/server-action-response";
-import { OpenAIDALLEInstance } from "@/features/common/services/openai";
+import {
+  IsImageGenerationAvailable,
+  OpenAIDALLEInstance,
+  OpenAIImageModel,
+} from "@/features/common/services/openai";
 import { uniqueId } from "@/features/common/util";
+import { RecordUsage } from "@/features/usage-page/usage-services/usage-recorder";
 import { GetImageUrl, UploadImageToStore } from "../chat-image-service";
 import { ChatThreadModel } from "../models";
 
@@ -14,29 +19,31 @@ export const GetDefaultExtensions = async (props: {
 }): Promise<ServerActionResponse<Array<any>>> => {
   const defaultExtensions: Array<any> = [];
 
-  // Add image creation Extension
-  defaultExtensions.push({
-    type: "function",
-    function: {
-      function: async (args: any) =>
-        await executeCreateImage(
-          args,
-          props.chatThread.id,
-          props.userMessage,
-          props.signal
-        ),
-      parse: (input: string) => JSON.parse(input),
-      parameters: {
-        type: "object",
-        properties: {
-          prompt: { type: "string" },
+  // Add image creation Extension, when the LLM provider can create images
+  if (IsImageGenerationAvailable()) {
+    defaultExtensions.push({
+      type: "function",
+      function: {
+        function: async (args: any) =>
+          await executeCreateImage(
+            args,
+            props.chatThread.id,
+            props.userMessage,
+            props.signal
+          ),
+        parse: (input: string) => JSON.parse(input),
+        parameters: {
+          type: "object",
+          properties: {
+            prompt: { type: "string" },
+          },
         },
+        description:
+          "You must only use this tool if the user asks you to create an image. You must only use this tool once per message.",
+        name: "create_img",
       },
-      description:
-        "You must only use this tool if the user asks you to create an image. You must only use this tool once per message.",
-      name: "create_img",
-    },
-  });
+    });
+  }
 
   // Add any other default Extension here
 
@@ -71,7 +78,7 @@ async function executeCreateImage(
   try {
     response = await openAI.images.generate(
       {
-        model: "dall-e-3",
+        model: OpenAIImageModel(),
         prompt: userMessage,
         response_format: "b64_json",
       },
@@ -89,6 +96,13 @@ async function executeCreateImage(
     };
   }
 
+  await RecordUsage({
+    threadId: threadId,
+    kind: "image",
+    model: OpenAIImageModel(),
+    images: response.data.length,
+  });
+
   // Check the response is valid
   if (response.data[0].b64_json === undefined) {
     return {
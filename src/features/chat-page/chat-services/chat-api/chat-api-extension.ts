@@ -3,25 +3,54 @@ import "server-only";
 
 import { OpenAIInstance } from "@/features/common/services/openai";
 import { FindExtensionByID } from "@/features/extensions-page/extension-services/extension-service";
+import { ModelDeploymentModel } from "@/features/model-page/model-services/models";
 import { RunnableToolFunction } from "openai/lib/RunnableFunction";
 import { ChatCompletionStreamingRunner } from "openai/resources/beta/chat/completions";
 import { ChatCompletionMessageParam } from "openai/resources/chat/completions";
 import { ChatThreadModel } from "../models";
+import { UNTRUSTED_CONTENT_INSTRUCTIONS } from "./prompt-guard";
 export const ChatApiExtensions = async (props: {
   chatThread: ChatThreadModel;
   userMessage: string;
   history: ChatCompletionMessageParam[];
   extensions: RunnableToolFunction<any>[];
+  model: ModelDeploymentModel;
   signal: AbortSignal;
 }): Promise<ChatCompletionStreamingRunner> => {
-  const { userMessage, history, signal, chatThread, extensions } = props;
+  const { userMessage, history, signal, chatThread, extensions, model } =
+    props;
 
-  const openAI = OpenAIInstance();
-  const systemMessage = await extensionsSystemMessage(chatThread);
+  const openAI = OpenAIInstance(model.deploymentName);
+
+  // plain chat when the model has no tool support or no extension is available
+  if (!model.tools || extensions.length === 0) {
+    return openAI.beta.chat.completions.stream(
+      {
+        model: model.deploymentName,
+        stream: true,
+        stream_options: { include_usage: true },
+        messages: [
+          {
+            role: "system",
+            content: chatThread.personaMessage,
+          },
+          ...history,
+          {
+            role: "user",
+            content: userMessage,
+          },
+        ],
+      },
+      { signal: signal }
+    );
+  }
+
+  const systemMessage = await ExtensionsSystemMessage(chatThread);
   return openAI.beta.chat.completions.runTools(
     {
-      model: "",
+      model: model.deploymentName,
       stream: true,
+      stream_options: { include_usage: true },
       messages: [
         {
           role: "system",
@@ -39,8 +68,9 @@ export const ChatApiExtensions = async (props: {
   );
 };
 
-const extensionsSystemMessage = async (chatThread: ChatThreadModel) => {
-  let message = "";
+export const ExtensionsSystemMessage = async (chatThread: ChatThreadModel) => {
+  // tool results are delimited as untrusted content
+  let message = UNTRUSTED_CONTENT_INSTRUCTIONS;
 
   for (const e of chatThread.extension) {
     const extension = await FindExtensionByID(e);
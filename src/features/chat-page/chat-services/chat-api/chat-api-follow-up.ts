@@ -0,0 +1,135 @@
+import "server-only";
+
+import { OpenAIInstance } from "@/features/common/services/openai";
+import { ModelDeploymentModel } from "@/features/model-page/model-services/models";
+import { RecordCompletionUsage } from "@/features/usage-page/usage-services/usage-recorder";
+import { UpsertChatMessage } from "../chat-message-service";
+import { UpdateChatTitle } from "../chat-thread-service";
+import { ChatMessageModel, ChatThreadModel } from "../models";
+import { TruncateToTokens } from "../token-service";
+
+// the prompt and the answer are cut to this many tokens each, the start is enough to name and continue a conversation
+const EXCHANGE_TOKENS = 1000;
+const MAX_FOLLOW_UPS = 3;
+
+// Names a new thread after its first exchange, the first message is used when the model can't be reached
+export const GenerateChatTitle = async (props: {
+  chatThread: ChatThreadModel;
+  model: ModelDeploymentModel;
+  userMessage: string;
+  answer: string;
+}): Promise<string> => {
+  const { chatThread, model, userMessage, answer } = props;
+  let title = userMessage;
+
+  try {
+    const completion = await OpenAIInstance(
+      model.deploymentName
+    ).chat.completions.create({
+      model: model.deploymentName,
+      messages: [
+        {
+          role: "system",
+          content:
+            "You name conversations between a user and an assistant. Answer with a title of at most six words that describes the topic, without quotes or punctuation at the end.",
+        },
+        {
+          role: "user",
+          content: exchange(model, userMessage, answer),
+        },
+      ],
+    });
+
+    await RecordCompletionUsage({
+      threadId: chatThread.id,
+      kind: "title",
+      model,
+      usage: completion.usage,
+    });
+
+    title =
+      completion.choices[0].message.content
+        ?.trim()
+        .replace(/^["']|["'.]$/g, "") || userMessage;
+  } catch (error) {
+    console.error("🔴 Error on generating title:", error);
+  }
+
+  const response = await UpdateChatTitle(chatThread.id, title);
+
+  if (response.status !== "OK") {
+    console.error("🔴 Error on saving title:", response.errors);
+    return chatThread.name;
+  }
+
+  return response.response.name;
+};
+
+// Suggests questions the user may ask next and saves them on the answer
+export const GenerateFollowUps = async (props: {
+  message: ChatMessageModel;
+  model: ModelDeploymentModel;
+  userMessage: string;
+}): Promise<Array<string>> => {
+  const { message, model, userMessage } = props;
+
+  try {
+    const completion = await OpenAIInstance(
+      model.deploymentName
+    ).chat.completions.create({
+      model: model.deploymentName,
+      messages: [
+        {
+          role: "system",
+          content: `You suggest follow-up questions for a conversation between a user and an assistant. Write up to ${MAX_FOLLOW_UPS} short questions the user is likely to ask next, written as the user, in the language of the conversation. Answer with the questions only, one per line.`,
+        },
+        {
+          role: "user",
+          content: exchange(model, userMessage, message.content),
+        },
+      ],
+    });
+
+    await RecordCompletionUsage({
+      threadId: message.threadId,
+      messageId: message.id,
+      kind: "follow-ups",
+      model,
+      usage: completion.usage,
+    });
+
+    const followUps = (completion.choices[0].message.content ?? "")
+      .split("\n")
+      // models number or bullet the questions despite the instructions
+      .map((line) => line.replace(/^\s*(\d+[.)]|[-*•])\s*/, "").trim())
+      .filter((line) => line.length > 0)
+      .slice(0, MAX_FOLLOW_UPS);
+
+    if (followUps.length === 0) {
+      return [];
+    }
+
+    const response = await UpsertChatMessage({ ...message, followUps });
+
+    if (response.status !== "OK") {
+      console.error("🔴 Error on saving follow-up questions:", response.errors);
+    }
+
+    return followUps;
+  } catch (error) {
+    console.error("🔴 Error on generating follow-up questions:", error);
+    return [];
+  }
+};
+
+const exchange = (
+  model: ModelDeploymentModel,
+  userMessage: string,
+  answer: string
+) => {
+  return `User:\n${TruncateToTokens(
+    userMessage,
+    EXCHANGE_TOKENS,
+    model
+  )}\n\nAssistant:\n${TruncateToTokens(answer, EXCHANGE_TOKENS, model)}`;
+};
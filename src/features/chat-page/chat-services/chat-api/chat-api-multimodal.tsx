@@ -2,22 +2,27 @@
 import "server-only";
 
 import { OpenAIInstance } from "@/features/common/services/openai";
+import { ModelDeploymentModel } from "@/features/model-page/model-services/models";
 import { ChatCompletionStreamingRunner } from "openai/resources/beta/chat/completions";
+import { ChatCompletionMessageParam } from "openai/resources/chat/completions";
 import { ChatThreadModel } from "../models";
 export const ChatApiMultimodal = (props: {
   chatThread: ChatThreadModel;
   userMessage: string;
   file: string;
+  history: ChatCompletionMessageParam[];
+  model: ModelDeploymentModel;
   signal: AbortSignal;
 }): ChatCompletionStreamingRunner => {
-  const { chatThread, userMessage, signal, file } = props;
+  const { chatThread, userMessage, signal, file, history, model } = props;
 
-  const openAI = OpenAIInstance();
+  const openAI = OpenAIInstance(model.deploymentName);
 
   return openAI.beta.chat.completions.stream(
     {
-      model: "",
+      model: model.deploymentName,
       stream: true,
+      stream_options: { include_usage: true },
       max_tokens: 4096,
       messages: [
         {
@@ -26,6 +31,7 @@ export const ChatApiMultimodal = (props: {
             chatThread.personaMessage +
             "\n You are an expert in extracting insights from images that are uploaded to the chat. \n You will answer questions about the image that is provided.",
         },
+        ...history,
         {
           role: "user",
           content: [
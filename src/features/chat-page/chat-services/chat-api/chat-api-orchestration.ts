@@ -0,0 +1,182 @@
+"use server";
+import "server-only";
+
+import { OpenAIInstance } from "@/features/common/services/openai";
+import { ModelDeploymentModel } from "@/features/model-page/model-services/models";
+import { RunnableToolFunction } from "openai/lib/RunnableFunction";
+import { ChatCompletionStreamingRunner } from "openai/resources/beta/chat/completions";
+import {
+  ChatCompletionContentPart,
+  ChatCompletionMessageParam,
+} from "openai/resources/chat/completions";
+import { CitationSourceName } from "../citation-service";
+import { ChatThreadModel } from "../models";
+import { LimitToolResults } from "../token-service";
+import { ThreadRetrievalOptions } from "../retrieval-diagnostics";
+import { ExtensionsSystemMessage } from "./chat-api-extension";
+import { RewriteSearchQueries } from "./chat-api-query-rewrite";
+import { SearchChatThreadDocuments } from "./chat-api-rag";
+import { GuardUntrustedContent } from "./prompt-guard";
+
+// Runs a single turn where document retrieval is one tool among the extensions,
+// so the model can combine uploaded documents, extensions and an attached image.
+export const ChatApiOrchestration = async (props: {
+  chatThread: ChatThreadModel;
+  userMessage: string;
+  history: ChatCompletionMessageParam[];
+  extensions: RunnableToolFunction<any>[];
+  searchDocuments: boolean;
+  searchResultBudget: number;
+  file?: string;
+  model: ModelDeploymentModel;
+  signal: AbortSignal;
+  onSearch: (queries: Array<string>) => void; // shows what was searched for
+}): Promise<ChatCompletionStreamingRunner> => {
+  const { chatThread, userMessage, history, signal, model, file } = props;
+
+  const openAI = OpenAIInstance(model.deploymentName);
+
+  const userContent: string | Array<ChatCompletionContentPart> =
+    file && file.length > 0
+      ? [
+          { type: "text", text: userMessage },
+          { type: "image_url", image_url: { url: file } },
+        ]
+      : userMessage;
+
+  const tools: RunnableToolFunction<any>[] = [...props.extensions];
+
+  if (props.searchDocuments) {
+    tools.push(
+      ...LimitToolResults(
+        [documentSearchTool(chatThread, model, props.onSearch)],
+        props.searchResultBudget,
+        model
+      )
+    );
+  }
+
+  const systemMessage = await orchestrationSystemMessage(
+    chatThread,
+    props.searchDocuments
+  );
+
+  const messages: ChatCompletionMessageParam[] = [
+    {
+      role: "system",
+      content: chatThread.personaMessage + "\n" + systemMessage,
+    },
+    ...history,
+    {
+      role: "user",
+      content: userContent,
+    },
+  ];
+
+  if (!model.tools || tools.length === 0) {
+    return openAI.beta.chat.completions.stream(
+      {
+        model: model.deploymentName,
+        stream: true,
+        stream_options: { include_usage: true },
+        max_tokens: 4096,
+        messages,
+      },
+      { signal }
+    );
+  }
+
+  return openAI.beta.chat.completions.runTools(
+    {
+      model: model.deploymentName,
+      stream: true,
+      stream_options: { include_usage: true },
+      max_tokens: 4096,
+      messages,
+      tools,
+    },
+    { signal }
+  );
+};
+
+const documentSearchTool = (
+  chatThread: ChatThreadModel,
+  model: ModelDeploymentModel,
+  onSearch: (queries: Array<string>) => void
+): RunnableToolFunction<{ query: string }> => {
+  return {
+    type: "function",
+    function: {
+      function: async (args: { query: string }) => {
+        // the model already writes a standalone query, it is only expanded
+        const queries = await RewriteSearchQueries({
+          chatThreadId: chatThread.id,
+          model,
+          question: args.query,
+          history: [],
+          options: await ThreadRetrievalOptions(chatThread),
+        });
+        onSearch(queries);
+
+        const searchResponse = await SearchChatThreadDocuments(
+          chatThread,
+          queries
+        );
+
+        // fails the run, the model would answer as if the chat had no documents
+        if (searchResponse.status !== "OK") {
+          throw new Error(
+            searchResponse.errors.map((e) => e.message).join("\n")
+          );
+        }
+
+        const documents = searchResponse.response;
+
+        const guarded = await GuardUntrustedContent({
+          chatThread,
+          items: documents.map((d) => ({
+            source: "document",
+            name: CitationSourceName(d.content.document),
+            reference: d.id,
+            content: d.content.document.pageContent,
+          })),
+        });
+
+        return guarded.filter((d) => d !== undefined).join("\n");
+      },
+      parse: JSON.parse,
+      parameters: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description:
+              "A standalone search query describing the information to find in the documents",
+          },
+        },
+        required: ["query"],
+      },
+      description:
+        "Search the documents the user uploaded to this chat and the documents of the knowledge libraries attached to it. Use this tool when the question may be answered by the content of these documents.",
+      name: "search_documents",
+    },
+  };
+};
+
+const orchestrationSystemMessage = async (
+  chatThread: ChatThreadModel,
+  searchDocuments: boolean
+) => {
+  let message = await ExtensionsSystemMessage(chatThread);
+
+  if (searchDocuments) {
+    message += `
+- The user has uploaded documents to this chat or attached knowledge libraries to it, use the search_documents tool to find relevant content.
+- If you use content from the documents, you must include a citation at the end of your answer and don't include full stop after the citations.
+- Use the format for your citation {% citation items=[{name:"filename 1",id:"file id"}, {name:"filename 2",id:"file id"}] /%}, with the name and id attributes of the content blocks
+- Keep the page in the citation name exactly as it is written in the name attribute
+`;
+  }
+
+  return message;
+};
@@ -0,0 +1,150 @@
+import "server-only";
+
+import { OpenAIInstance } from "@/features/common/services/openai";
+import {
+  ModelDeploymentModel,
+  RetrievalOptions,
+} from "@/features/model-page/model-services/models";
+import { RecordCompletionUsage } from "@/features/usage-page/usage-services/usage-recorder";
+import { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { TruncateToTokens } from "../token-service";
+
+// the last messages are enough to resolve what a follow-up question refers to
+const RECENT_MESSAGES = 6;
+const MESSAGE_TOKENS = 500;
+const MAX_QUERIES = 3;
+
+// Standalone search queries for the question, rewritten with the recent
+// messages and followed by a hypothetical answer when HyDE is on. The question
+// is searched as it is when the model can't be reached.
+export const RewriteSearchQueries = async (props: {
+  chatThreadId: string;
+  model: ModelDeploymentModel;
+  question: string;
+  history: ChatCompletionMessageParam[];
+  options: RetrievalOptions;
+}): Promise<Array<string>> => {
+  const { chatThreadId, model, question, options } = props;
+  const conversation = recentConversation(props.history, model);
+
+  const queries =
+    options.queryRewriting && conversation
+      ? await rewrite(chatThreadId, model, question, conversation)
+      : [question];
+
+  if (options.hyde) {
+    const answer = await hypotheticalAnswer(chatThreadId, model, queries[0]);
+
+    if (answer) {
+      queries.push(answer);
+    }
+  }
+
+  return queries;
+};
+
+const rewrite = async (
+  chatThreadId: string,
+  model: ModelDeploymentModel,
+  question: string,
+  conversation: string
+): Promise<Array<string>> => {
+  try {
+    const completion = await OpenAIInstance(
+      model.deploymentName
+    ).chat.completions.create({
+      model: model.deploymentName,
+      messages: [
+        {
+          role: "system",
+          content: `You write search queries for a document search. Rewrite the last question of the user into up to ${MAX_QUERIES} standalone search queries, in the language of the question. Replace pronouns and references to earlier messages with the names and subjects they refer to. Use a single query unless the question asks about different subjects. Answer with the queries only, one per line.`,
+        },
+        {
+          role: "user",
+          content: `${conversation}\n\nLast question:\n${TruncateToTokens(
+            question,
+            MESSAGE_TOKENS,
+            model
+          )}`,
+        },
+      ],
+    });
+
+    await RecordCompletionUsage({
+      threadId: chatThreadId,
+      kind: "query-rewrite",
+      model,
+      usage: completion.usage,
+    });
+
+    const queries = (completion.choices[0].message.content ?? "")
+      .split("\n")
+      // models number or bullet the queries despite the instructions
+      .map((line) => line.replace(/^\s*(\d+[.)]|[-*•])\s*/, "").trim())
+      .filter((line) => line.length > 0)
+      .slice(0, MAX_QUERIES);
+
+    return queries.length > 0 ? queries : [question];
+  } catch (error) {
+    console.error("🔴 Error on rewriting the search query:", error);
+    return [question];
+  }
+};
+
+const hypotheticalAnswer = async (
+  chatThreadId: string,
+  model: ModelDeploymentModel,
+  query: string
+): Promise<string | undefined> => {
+  try {
+    const completion = await OpenAIInstance(
+      model.deploymentName
+    ).chat.completions.create({
+      model: model.deploymentName,
+      max_tokens: MESSAGE_TOKENS,
+      messages: [
+        {
+          role: "system",
+          content:
+            "Write a short passage of a document that answers the question, in the language of the question. Make up plausible details where you don't know them, the passage is only used to search for similar documents.",
+        },
+        {
+          role: "user",
+          content: query,
+        },
+      ],
+    });
+
+    await RecordCompletionUsage({
+      threadId: chatThreadId,
+      kind: "hyde",
+      model,
+      usage: completion.usage,
+    });
+
+    return completion.choices[0].message.content?.trim() || undefined;
+  } catch (error) {
+    console.error("🔴 Error on drafting a hypothetical answer:", error);
+    return undefined;
+  }
+};
+
+// Text of the last user and assistant messages, empty for a new chat
+const recentConversation = (
+  history: ChatCompletionMessageParam[],
+  model: ModelDeploymentModel
+) => {
+  return history
+    .filter((m) => m.role === "user" || m.role === "assistant")
+    .filter((m) => typeof m.content === "string" && m.content.length > 0)
+    .slice(-RECENT_MESSAGES)
+    .map(
+      (m) =>
+        `${m.role === "user" ? "User" : "Assistant"}:\n${TruncateToTokens(
+          m.content as string,
+          MESSAGE_TOKENS,
+          model
+        )}`
+    )
+    .join("\n\n");
+};
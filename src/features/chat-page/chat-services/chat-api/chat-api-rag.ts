@@ -2,58 +2,101 @@
 import "server-only";
 
 import { userHashedId } from "@/features/auth-page/helpers";
+import { ServerActionResponse } from "@/features/common/server-action-response";
 import { OpenAIInstance } from "@/features/common/services/openai";
+import { FindAllKnowledgeLibraryDocuments } from "@/features/knowledge-page/knowledge-services/knowledge-service";
+import { ModelDeploymentModel } from "@/features/model-page/model-services/models";
 import {
   ChatCompletionStreamingRunner,
   ChatCompletionStreamParams,
 } from "openai/resources/beta/chat/completions";
 import { ChatCompletionMessageParam } from "openai/resources/chat/completions";
-import { SimilaritySearch } from "../azure-ai-search/azure-ai-search";
-import { CreateCitations, FormatCitations } from "../citation-service";
-import { ChatCitationModel, ChatThreadModel } from "../models";
+import {
+  DocumentSearchResponse,
+  SimilaritySearch,
+} from "../azure-ai-search/azure-ai-search";
+import { FuseRankings } from "../azure-ai-search/retrieval-ranking";
+import { FindAllChatDocuments } from "../chat-document-service";
+import {
+  CitationSourceName,
+  CreateCitations,
+  FormatCitations,
+} from "../citation-service";
+import {
+  ChatCitationModel,
+  ChatDocumentModel,
+  ChatThreadModel,
+} from "../models";
+import {
+  RecordRetrievalDiagnostics,
+  ThreadRetrievalOptions,
+} from "../retrieval-diagnostics";
+import { CountTokens } from "../token-service";
+import { isSearchableDocument } from "../utils";
+import { RewriteSearchQueries } from "./chat-api-query-rewrite";
+import {
+  GuardUntrustedContent,
+  UNTRUSTED_CONTENT_INSTRUCTIONS,
+} from "./prompt-guard";
 
 export const ChatApiRAG = async (props: {
   chatThread: ChatThreadModel;
   userMessage: string;
   history: ChatCompletionMessageParam[];
+  contextBudget: number; // tokens available for the retrieved documents
+  model: ModelDeploymentModel;
   signal: AbortSignal;
+  onSearch: (queries: Array<string>) => void; // shows what was searched for
 }): Promise<ChatCompletionStreamingRunner> => {
-  const { chatThread, userMessage, history, signal } = props;
-
-  const openAI = OpenAIInstance();
+  const { chatThread, userMessage, history, contextBudget, model, signal } =
+    props;
 
-  const documentResponse = await SimilaritySearch(
-    userMessage,
-    10,
-    `user eq '${await userHashedId()}' and chatThreadId eq '${chatThread.id}'`
-  );
+  const openAI = OpenAIInstance(model.deploymentName);
 
-  const documents: ChatCitationModel[] = [];
+  const queries = await RewriteSearchQueries({
+    chatThreadId: chatThread.id,
+    model,
+    question: userMessage,
+    history,
+    options: await ThreadRetrievalOptions(chatThread),
+  });
+  props.onSearch(queries);
 
-  if (documentResponse.status === "OK") {
-    const withoutEmbedding = FormatCitations(documentResponse.response);
-    const citationResponse = await CreateCitations(withoutEmbedding);
+  const searchResponse = await SearchChatThreadDocuments(chatThread, queries);
 
-    citationResponse.forEach((c) => {
-      if (c.status === "OK") {
-        documents.push(c.response);
-      }
-    });
+  // the model would answer as if the chat had no documents
+  if (searchResponse.status !== "OK") {
+    throw new Error(searchResponse.errors.map((e) => e.message).join("\n"));
   }
 
-  const content = documents
-    .map((result, index) => {
-      const content = result.content.document.pageContent;
-      const context = `[${index}]. file name: ${result.content.document.metadata} \n file id: ${result.id} \n ${content}`;
-      return context;
+  const documents = searchResponse.response;
+
+  const guarded = await GuardUntrustedContent({
+    chatThread,
+    items: documents.map((result) => ({
+      source: "document",
+      name: CitationSourceName(result.content.document),
+      reference: result.id,
+      content: result.content.document.pageContent,
+    })),
+  });
+
+  // documents are ordered by relevance, keep adding them while they fit in the budget
+  let remainingTokens = contextBudget;
+  const content = guarded
+    .filter((context): context is string => context !== undefined)
+    .filter((context) => {
+      remainingTokens -= CountTokens(context, model);
+      return remainingTokens >= 0;
     })
-    .join("\n------\n");
+    .join("\n");
   // Augment the user prompt
   const _userMessage = `\n
-- Review the following content from documents uploaded by the user and create a final answer.
+- Review the following content from documents uploaded by the user or from the knowledge libraries attached to the chat and create a final answer.
 - If you don't know the answer, just say that you don't know. Don't try to make up an answer.
 - You must always include a citation at the end of your answer and don't include full stop after the citations.
-- Use the format for your citation {% citation items=[{name:"filename 1",id:"file id"}, {name:"filename 2",id:"file id"}] /%}
+- Use the format for your citation {% citation items=[{name:"filename 1",id:"file id"}, {name:"filename 2",id:"file id"}] /%}, with the name and id attributes of the content blocks
+- Keep the page in the citation name exactly as it is written in the name attribute
 ----------------
 content: 
 ${content}
@@ -64,12 +107,14 @@ ${userMessage}
 `;
 
   const stream: ChatCompletionStreamParams = {
-    model: "",
+    model: model.deploymentName,
     stream: true,
+    stream_options: { include_usage: true },
     messages: [
       {
         role: "system",
-        content: chatThread.personaMessage,
+        content:
+          chatThread.personaMessage + "\n" + UNTRUSTED_CONTENT_INSTRUCTIONS,
       },
       ...history,
       {
@@ -81,3 +126,177 @@ ${userMessage}
 
   return openAI.beta.chat.completions.stream(stream, { signal });
 };
+
+// Searches the documents uploaded to the chat thread and the documents of its
+// knowledge libraries with every query, the results are stored as citations.
+// The results of several queries are merged by their ranks, the search only
+// fails when every query failed.
+export const SearchChatThreadDocuments = async (
+  chatThread: ChatThreadModel,
+  queries: Array<string>
+): Promise<ServerActionResponse<ChatCitationModel[]>> => {
+  const options = await ThreadRetrievalOptions(chatThread);
+  const filter = await SearchFilter(chatThread);
+
+  const responses = await Promise.all(
+    queries.map((query) => SimilaritySearch(query, options, filter))
+  );
+
+  const results = responses.flatMap((r) =>
+    r.status === "OK" ? [r.response] : []
+  );
+  const errors = responses.flatMap((r) => (r.status === "OK" ? [] : r.errors));
+
+  if (results.length === 0) {
+    console.error("🔴 Error on searching documents:", errors);
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `The documents could not be searched: ${errors
+            .map((e) => e.message)
+            .join(", ")}`,
+        },
+      ],
+    };
+  }
+
+  if (errors.length > 0) {
+    console.error("🔴 Error on searching documents for some queries:", errors);
+  }
+
+  const documents = MergeSearchResults(
+    results.map((r) => r.documents),
+    options.topK
+  );
+
+  const withoutEmbedding = FormatCitations(documents);
+  const citations = (await CreateCitations(withoutEmbedding)).map((c) =>
+    c.status === "OK" ? c.response : undefined
+  );
+
+  // identical chunks share the citation they were collapsed into
+  const citationIdsByContent = new Map<string, string>();
+  withoutEmbedding.forEach((d, index) => {
+    const citation = citations[index];
+    if (citation) {
+      citationIdsByContent.set(d.document.pageContent, citation.id);
+    }
+  });
+
+  const citationIds = new Map<string, string>();
+  documents.forEach((d) => {
+    const citationId = citationIdsByContent.get(d.document.pageContent);
+    if (citationId) {
+      citationIds.set(d.document.id, citationId);
+    }
+  });
+
+  await Promise.all(
+    responses.map((response, index) =>
+      response.status === "OK"
+        ? RecordRetrievalDiagnostics({
+            chatThread,
+            query: queries[index],
+            options,
+            result: response.response,
+            citationIds,
+          })
+        : undefined
+    )
+  );
+
+  return {
+    status: "OK",
+    response: citations.filter((c): c is ChatCitationModel => c !== undefined),
+  };
+};
+
+// Chunks found by any of the queries, the ones found by several queries first
+const MergeSearchResults = (
+  results: Array<Array<DocumentSearchResponse>>,
+  topK: number
+): Array<DocumentSearchResponse> => {
+  if (results.length === 1) {
+    return results[0];
+  }
+
+  const documents = new Map(
+    results.flat().map((result) => [result.document.id, result])
+  );
+
+  const scores = FuseRankings(
+    results.map((ranked) => ({
+      weight: 1,
+      results: ranked.map((d, index) => ({
+        id: d.document.id,
+        rank: index + 1,
+      })),
+    }))
+  );
+
+  return Array.from(scores.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, topK)
+    .map(([id]) => documents.get(id)!);
+};
+
+// Documents uploaded to the chat and documents of the attached libraries the
+// user can read, e.g. a library of a persona that is not shared with them is left out
+export const FindChatThreadDocuments = async (
+  chatThread: ChatThreadModel
+): Promise<{
+  libraryIds: Array<string>;
+  documents: Array<ChatDocumentModel>;
+}> => {
+  const [docsResponse, libraryDocsResponse] = await Promise.all([
+    FindAllChatDocuments(chatThread.id),
+    FindAllKnowledgeLibraryDocuments(chatThread.libraryIds ?? []),
+  ]);
+
+  if (docsResponse.status !== "OK") {
+    console.error("🔴 Error on finding documents:", docsResponse.errors);
+  }
+
+  if (libraryDocsResponse.status !== "OK") {
+    console.error("🔴 Error on finding documents:", libraryDocsResponse.errors);
+  }
+
+  const libraryDocuments =
+    libraryDocsResponse.status === "OK" ? libraryDocsResponse.response : [];
+
+  return {
+    libraryIds: Array.from(
+      new Set(libraryDocuments.map((d) => d.libraryId ?? ""))
+    ),
+    documents: [
+      ...(docsResponse.status === "OK" ? docsResponse.response : []),
+      ...libraryDocuments,
+    ],
+  };
+};
+
+// Files that are disabled, still processing or failed are left out of the search
+const SearchFilter = async (chatThread: ChatThreadModel) => {
+  const { libraryIds, documents } = await FindChatThreadDocuments(chatThread);
+
+  const threadFilter = `user eq '${await userHashedId()}' and chatThreadId eq '${
+    chatThread.id
+  }'`;
+  const filter =
+    libraryIds.length === 0
+      ? threadFilter
+      : `((${threadFilter}) or search.in(libraryId, '${libraryIds.join(
+          ","
+        )}', ','))`;
+
+  const excluded = documents.filter((d) => !isSearchableDocument(d));
+
+  if (excluded.length === 0) {
+    return filter;
+  }
+
+  return `${filter} and not search.in(documentId, '${excluded
+    .map((d) => d.id)
+    .join(",")}', ',')`;
+};
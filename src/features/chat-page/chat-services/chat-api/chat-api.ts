@@ -1,26 +1,67 @@
 "use server";
 import "server-only";
 
-import { getCurrentUser } from "@/features/auth-page/helpers";
+import { getCurrentUser, userHashedId } from "@/features/auth-page/helpers";
+import { ResolveChatModel } from "@/features/model-page/model-services/model-service";
+import { ModelDeploymentModel } from "@/features/model-page/model-services/models";
 import { CHAT_DEFAULT_SYSTEM_PROMPT } from "@/features/theme/theme-config";
+import {
+  CheckRateLimit,
+  RateLimitMessage,
+} from "@/features/usage-page/usage-services/rate-limiter";
+import { CheckUsageQuota } from "@/features/usage-page/usage-services/usage-recorder";
 import { ChatCompletionStreamingRunner } from "openai/resources/beta/chat/completions";
-import { ChatApiRAG } from "../chat-api/chat-api-rag";
-import { FindAllChatDocuments } from "../chat-document-service";
+import { ChatApiRAG, FindChatThreadDocuments } from "../chat-api/chat-api-rag";
+import { CreateChatMessage } from "../chat-message-service";
+import {
+  DeleteChatThreadForCurrentUser,
+  EnsureChatThreadOperation,
+  UpdateChatThreadActiveMessage,
+} from "../chat-thread-service";
 import {
-  CreateChatMessage,
-  FindTopChatMessagesForCurrentUser,
-} from "../chat-message-service";
-import { EnsureChatThreadOperation } from "../chat-thread-service";
-import { ChatThreadModel, UserPrompt } from "../models";
-import { mapOpenAIChatMessages } from "../utils";
+  AzureChatCompletionRateLimit,
+  ChatMode,
+  ChatThreadModel,
+  UserPrompt,
+} from "../models";
+import { LimitToolResults } from "../token-service";
+import { isSearchableDocument } from "../utils";
+import { BuildChatContext } from "./chat-api-context";
 import { GetDefaultExtensions } from "./chat-api-default-extensions";
 import { GetDynamicExtensions } from "./chat-api-dynamic-extensions";
 import { ChatApiExtensions } from "./chat-api-extension";
 import { ChatApiMultimodal } from "./chat-api-multimodal";
+import { ChatApiOrchestration } from "./chat-api-orchestration";
+import {
+  ChatRun,
+  ChatRunStream,
+  CompleteChatRun,
+  FindChatRun,
+  OnChatRunComplete,
+  PublishChatRunEvent,
+  StartChatRun,
+} from "./chat-run";
 import { OpenAIStream } from "./open-ai-stream";
-type ChatTypes = "extensions" | "chat-with-file" | "multimodal";
+import { GuardToolResults } from "./prompt-guard";
+type ChatTypes =
+  | "extensions"
+  | "chat-with-file"
+  | "multimodal"
+  | "orchestration"
+  | "chat";
 
-export const ChatAPIEntry = async (props: UserPrompt, signal: AbortSignal) => {
+// number of images from previous messages that are sent back to a vision model
+const MAX_HISTORY_IMAGES = process.env.MAX_HISTORY_IMAGES
+  ? Number(process.env.MAX_HISTORY_IMAGES)
+  : 3;
+
+// An ephemeral thread only lives for the answer, it gets no title or follow-up
+// questions and is deleted with its messages once the run is done
+export const ChatAPIEntry = async (
+  props: UserPrompt,
+  requestSignal: AbortSignal,
+  options: { ephemeral?: boolean } = {}
+) => {
   const currentChatThreadResponse = await EnsureChatThreadOperation(props.id);
 
   if (currentChatThreadResponse.status !== "OK") {
@@ -29,10 +70,130 @@ export const ChatAPIEntry = async (props: UserPrompt, signal: AbortSignal) => {
 
   const currentChatThread = currentChatThreadResponse.response;
 
-  // promise all to get user, history and docs
-  const [user, history, docs, extension] = await Promise.all([
+  const rateLimit = await CheckRateLimit("chat");
+
+  if (!rateLimit.allowed) {
+    if (options.ephemeral) {
+      await DeleteChatThreadForCurrentUser(currentChatThread.id);
+    }
+
+    return _rateLimitResponse(
+      RateLimitMessage(rateLimit),
+      rateLimit.retryAfter
+    );
+  }
+
+  // the answer keeps being generated when the request goes away, it is only stopped through ChatAPIStop
+  const run = StartChatRun({
+    threadId: currentChatThread.id,
+    userId: await userHashedId(),
+  });
+
+  if (options.ephemeral) {
+    OnChatRunComplete(run, () => {
+      DeleteChatThreadForCurrentUser(currentChatThread.id);
+    });
+  }
+
+  try {
+    await _startRun(props, currentChatThread, run, !!options.ephemeral);
+  } catch (error) {
+    PublishChatRunEvent(run, { type: "error", response: `${error}` });
+    CompleteChatRun(run);
+  }
+
+  return _runResponse(run, -1, requestSignal);
+};
+
+// Reattaches to the answer in progress of a thread, or to a given run after a dropped connection
+export const ChatAPIResume = async (
+  props: { threadId: string; runId?: string; lastEventId: number },
+  requestSignal: AbortSignal
+) => {
+  const run = FindChatRun({
+    threadId: props.threadId,
+    userId: await userHashedId(),
+    runId: props.runId,
+  });
+
+  if (!run) {
+    return new Response(null, { status: 204 });
+  }
+
+  return _runResponse(run, props.lastEventId, requestSignal);
+};
+
+export const ChatAPIStop = async (threadId: string) => {
+  const run = FindChatRun({ threadId, userId: await userHashedId() });
+  run?.controller.abort();
+
+  return new Response(null, { status: 204 });
+};
+
+const _runResponse = (
+  run: ChatRun,
+  lastEventId: number,
+  requestSignal: AbortSignal
+) => {
+  return new Response(ChatRunStream(run, lastEventId, requestSignal), {
+    headers: {
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "Content-Type": "text/event-stream",
+    },
+  });
+};
+
+// a single event the chat can show instead of starting a run
+const _rateLimitResponse = (message: string, retryAfter: number) => {
+  const event: AzureChatCompletionRateLimit = {
+    type: "rateLimit",
+    response: { message, retryAfter },
+  };
+
+  return new Response(
+    `event: ${event.type} \ndata: ${JSON.stringify(event)} \n\n`,
+    {
+      status: 429,
+      headers: {
+        "Cache-Control": "no-cache",
+        "Content-Type": "text/event-stream",
+        "Retry-After": `${retryAfter}`,
+      },
+    }
+  );
+};
+
+const _startRun = async (
+  props: UserPrompt,
+  currentChatThread: ChatThreadModel,
+  run: ChatRun,
+  ephemeral: boolean
+) => {
+  const signal = run.controller.signal;
+
+  const quotaResponse = await CheckUsageQuota();
+
+  if (quotaResponse.status !== "OK") {
+    PublishChatRunEvent(run, {
+      type: "error",
+      response: quotaResponse.errors[0].message,
+    });
+    CompleteChatRun(run);
+    return;
+  }
+
+  const hasImage = !!props.multimodalImage && props.multimodalImage.length > 0;
+
+  // images can only be sent to a deployment with vision support
+  const model = await ResolveChatModel(
+    currentChatThread.modelId,
+    hasImage ? "vision" : undefined
+  );
+
+  // promise all to get user, docs and extensions
+  const [user, docs, extensions] = await Promise.all([
     getCurrentUser(),
-    _getHistory(currentChatThread),
     _getDocuments(currentChatThread),
     _getExtensions({
       chatThread: currentChatThread,
@@ -44,24 +205,64 @@ export const ChatAPIEntry = async (props: UserPrompt, signal: AbortSignal) => {
   // Note that the system message will also get prepended with the extension execution steps. Please see ChatApiExtensions method.
   currentChatThread.personaMessage = `${CHAT_DEFAULT_SYSTEM_PROMPT} \n\n ${currentChatThread.personaMessage}`;
 
-  let chatType: ChatTypes = "extensions";
+  const chatType = _getChatType({
+    chatMode: props.chatMode ?? "auto",
+    hasDocuments: docs.length > 0,
+    hasImage,
+  });
+
+  // history is filled up to the context window of the model, retrieved documents and tool results get their own share
+  const { history, contentBudget, leafId } = await BuildChatContext({
+    chatThread: currentChatThread,
+    model: model,
+    systemPrompt: currentChatThread.personaMessage,
+    userMessage: props.message,
+    // previous images can be referenced again without uploading them, as long as the model supports vision
+    imageBudget: model.vision ? MAX_HISTORY_IMAGES : 0,
+    includesContent: chatType !== "chat" && chatType !== "multimodal",
+    // an edited prompt starts a new branch from the parent of the original one
+    leafId: props.parentId ?? currentChatThread.activeMessageId,
+    excludeLeaf: props.regenerate,
+  });
+
+  // results are truncated before they are checked and delimited, so a cut never drops the closing delimiter
+  const extension = GuardToolResults(
+    LimitToolResults(extensions, contentBudget, model),
+    currentChatThread
+  );
+
+  // a regenerated answer becomes a sibling of the previous answers to the same prompt
+  let parentId = leafId;
 
-  if (props.multimodalImage && props.multimodalImage.length > 0) {
-    chatType = "multimodal";
-  } else if (docs.length > 0) {
-    chatType = "chat-with-file";
-  } else if (extension.length > 0) {
-    chatType = "extensions";
+  if (!props.regenerate) {
+    // save the user message
+    const userMessageResponse = await CreateChatMessage({
+      name: user.name,
+      content: props.message,
+      role: "user",
+      chatThreadId: currentChatThread.id,
+      multiModalImage: props.multimodalImage,
+      parentId: leafId,
+    });
+
+    if (userMessageResponse.status === "OK") {
+      parentId = userMessageResponse.response.id;
+      await UpdateChatThreadActiveMessage({
+        chatThreadId: currentChatThread.id,
+        messageId: parentId,
+      });
+    }
   }
 
-  // save the user message
-  await CreateChatMessage({
-    name: user.name,
-    content: props.message,
-    role: "user",
-    chatThreadId: currentChatThread.id,
-    multiModalImage: props.multimodalImage,
-  });
+  // queries of the document searches of the turn, saved with the answer
+  const searchQueries: Array<string> = [];
+  const onSearch = (queries: Array<string>) => {
+    searchQueries.push(...queries.filter((q) => !searchQueries.includes(q)));
+    PublishChatRunEvent(run, {
+      type: "searchQueries",
+      response: [...searchQueries],
+    });
+  };
 
   let runner: ChatCompletionStreamingRunner;
 
@@ -71,7 +272,10 @@ export const ChatAPIEntry = async (props: UserPrompt, signal: AbortSignal) => {
         chatThread: currentChatThread,
         userMessage: props.message,
         history: history,
+        contextBudget: contentBudget,
+        model: model,
         signal: signal,
+        onSearch: onSearch,
       });
       break;
     case "multimodal":
@@ -79,6 +283,8 @@ export const ChatAPIEntry = async (props: UserPrompt, signal: AbortSignal) => {
         chatThread: currentChatThread,
         userMessage: props.message,
         file: props.multimodalImage,
+        history: history,
+        model: model,
         signal: signal,
       });
       break;
@@ -88,49 +294,72 @@ export const ChatAPIEntry = async (props: UserPrompt, signal: AbortSignal) => {
         userMessage: props.message,
         history: history,
         extensions: extension,
+        model: model,
+        signal: signal,
+      });
+      break;
+    case "chat":
+      runner = await ChatApiExtensions({
+        chatThread: currentChatThread,
+        userMessage: props.message,
+        history: history,
+        extensions: [],
+        model: model,
+        signal: signal,
+      });
+      break;
+    case "orchestration":
+      runner = await ChatApiOrchestration({
+        chatThread: currentChatThread,
+        userMessage: props.message,
+        history: history,
+        // documents only mode keeps the document search tool but drops the extensions
+        extensions: props.chatMode === "documents" ? [] : extension,
+        searchDocuments: docs.length > 0 && props.chatMode !== "tools",
+        searchResultBudget: contentBudget,
+        file: props.multimodalImage,
+        model: model,
         signal: signal,
+        onSearch: onSearch,
       });
       break;
   }
 
-  const readableStream = OpenAIStream({
+  OpenAIStream({
     runner: runner,
     chatThread: currentChatThread,
-  });
-
-  return new Response(readableStream, {
-    headers: {
-      "Cache-Control": "no-cache",
-      Connection: "keep-alive",
-      "Content-Type": "text/event-stream"
-    },
+    parentId: parentId,
+    run: run,
+    model: model,
+    searchQueries: searchQueries,
+    ephemeral: ephemeral,
   });
 };
 
-const _getHistory = async (chatThread: ChatThreadModel) => {
-  const historyResponse = await FindTopChatMessagesForCurrentUser(
-    chatThread.id
-  );
+// Without a forced mode, any turn with documents or an image is orchestrated
+// so that document search, extensions and the image can be used together.
+const _getChatType = (props: {
+  chatMode: ChatMode;
+  hasDocuments: boolean;
+  hasImage: boolean;
+}): ChatTypes => {
+  const { chatMode, hasDocuments, hasImage } = props;
 
-  if (historyResponse.status === "OK") {
-    const historyResults = historyResponse.response;
-    return mapOpenAIChatMessages(historyResults).reverse();
+  switch (chatMode) {
+    case "documents":
+      return hasImage ? "orchestration" : "chat-with-file";
+    case "tools":
+      return hasImage ? "orchestration" : "extensions";
+    case "chat":
+      return hasImage ? "multimodal" : "chat";
+    default:
+      return hasDocuments || hasImage ? "orchestration" : "extensions";
   }
-
-  console.error("🔴 Error on getting history:", historyResponse.errors);
-
-  return [];
 };
 
 const _getDocuments = async (chatThread: ChatThreadModel) => {
-  const docsResponse = await FindAllChatDocuments(chatThread.id);
-
-  if (docsResponse.status === "OK") {
-    return docsResponse.response;
-  }
-
-  console.error("🔴 Error on AI search:", docsResponse.errors);
-  return [];
+  const { documents } = await FindChatThreadDocuments(chatThread);
+  return documents.filter(isSearchableDocument);
 };
 
 const _getExtensions = async (props: {
@@ -0,0 +1,455 @@
+import "server-only";
+
+import { UserModel, runAsApiUser } from "@/features/auth-page/helpers";
+import {
+  CreatePersonaChat,
+  FindAllPersonaForCurrentUser,
+} from "@/features/persona-page/persona-services/persona-service";
+import { PersonaModel } from "@/features/persona-page/persona-services/models";
+import { AuthenticateApiKey } from "@/features/profile-page/api-key-services/api-key-auth";
+import { uniqueId } from "@/features/common/util";
+import { AI_NAME } from "@/features/theme/theme-config";
+import { createParser } from "eventsource-parser";
+import { z } from "zod";
+import { CreateChatMessage } from "../chat-message-service";
+import {
+  EnsureChatThreadOperation,
+  UpsertChatThread,
+} from "../chat-thread-service";
+import { AzureChatCompletion, ChatThreadModel, UserPrompt } from "../models";
+import { ChatAPIEntry, ChatAPIStop } from "./chat-api";
+
+const ContentPartSchema = z.object({
+  type: z.string(),
+  text: z.string().optional(),
+  image_url: z.object({ url: z.string() }).optional(),
+});
+
+const ChatCompletionsMessageSchema = z.object({
+  role: z.enum(["system", "developer", "user", "assistant", "tool"]),
+  content: z
+    .union([z.string(), z.array(ContentPartSchema)])
+    .nullable()
+    .optional(),
+});
+
+type ChatCompletionsMessage = z.infer<typeof ChatCompletionsMessageSchema>;
+
+const ChatCompletionsRequestSchema = z.object({
+  model: z.string().min(1, "model must be the id of a persona"),
+  messages: z.array(ChatCompletionsMessageSchema).min(1),
+  stream: z.boolean().optional(),
+  // keeps the conversation as a chat thread of the owner of the API key
+  store: z.boolean().optional(),
+  // not part of the OpenAI API, continues a stored thread instead of replaying the messages
+  thread_id: z.string().optional(),
+});
+
+type ChatCompletionsRequest = z.infer<typeof ChatCompletionsRequestSchema>;
+
+interface CompletionMeta {
+  id: string;
+  created: number;
+  model: string;
+}
+
+interface RunResult {
+  content: string;
+  finishReason: "stop" | "content_filter";
+  error?: string;
+}
+
+// OpenAI compatible chat completions for tools outside the browser.
+// The model is the id of a persona, the request runs through ChatAPIEntry as the owner of the API key.
+export const ChatCompletionsAPIEntry = async (request: Request) => {
+  const user = await AuthenticateApiKey(request);
+
+  if (!user) {
+    return _errorResponse(401, "Invalid API key", "invalid_api_key");
+  }
+
+  return runAsApiUser(user, () => _chatCompletions(request, user));
+};
+
+const _chatCompletions = async (request: Request, user: UserModel) => {
+  let body: ChatCompletionsRequest;
+
+  try {
+    const parsed = ChatCompletionsRequestSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return _errorResponse(
+        400,
+        parsed.error.errors
+          .map((e) => `${e.path.join(".")}: ${e.message}`)
+          .join(", "),
+        "invalid_request_error"
+      );
+    }
+
+    body = parsed.data;
+  } catch (error) {
+    return _errorResponse(
+      400,
+      "The request body must be JSON",
+      "invalid_request_error"
+    );
+  }
+
+  const lastMessage = body.messages[body.messages.length - 1];
+
+  if (lastMessage.role !== "user") {
+    return _errorResponse(
+      400,
+      "The last message must be a user message",
+      "invalid_request_error"
+    );
+  }
+
+  const personasResponse = await FindAllPersonaForCurrentUser();
+
+  if (personasResponse.status !== "OK") {
+    return _errorResponse(
+      500,
+      personasResponse.errors.map((e) => e.message).join(", "),
+      "server_error"
+    );
+  }
+
+  const persona = personasResponse.response.find((p) => p.id === body.model);
+
+  if (!persona) {
+    return _errorResponse(
+      404,
+      `The persona ${body.model} does not exist or you do not have access to it`,
+      "model_not_found"
+    );
+  }
+
+  const threadResponse = body.thread_id
+    ? await EnsureChatThreadOperation(body.thread_id)
+    : await _createThread(persona, body.messages);
+
+  if (threadResponse.status !== "OK") {
+    return _errorResponse(
+      404,
+      threadResponse.errors.map((e) => e.message).join(", "),
+      "not_found_error"
+    );
+  }
+
+  const thread = threadResponse.response;
+
+  // a stored thread already has the history, otherwise the messages of the request are the history
+  const parentId = body.thread_id
+    ? undefined
+    : await _replayHistory(thread, body.messages.slice(0, -1), user);
+
+  const prompt: UserPrompt = {
+    id: thread.id,
+    message: _textOf(lastMessage),
+    multimodalImage: _imageOf(lastMessage),
+    parentId: parentId,
+  };
+
+  // the answer of a browser chat outlives the request, an API client that goes away does not need it
+  request.signal.addEventListener("abort", () => {
+    runAsApiUser(user, () => ChatAPIStop(thread.id));
+  });
+
+  // a thread that is not kept is deleted by the run once it is done
+  const keep = body.store || body.thread_id !== undefined;
+  const response = await ChatAPIEntry(prompt, request.signal, {
+    ephemeral: !keep,
+  });
+
+  if (response.status !== 200 || !response.body) {
+    return _entryErrorResponse(response);
+  }
+
+  const meta: CompletionMeta = {
+    id: `chatcmpl-${uniqueId()}`,
+    created: Math.floor(Date.now() / 1000),
+    model: persona.id,
+  };
+
+  const headers: Record<string, string> = keep
+    ? { "x-thread-id": thread.id }
+    : {};
+
+  if (body.stream) {
+    return new Response(_streamCompletion(response.body, meta), {
+      headers: {
+        ...headers,
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        "Content-Type": "text/event-stream",
+      },
+    });
+  }
+
+  const result = await _readRun(response.body.getReader(), () => {});
+
+  if (result.error) {
+    return _errorResponse(500, result.error, "server_error");
+  }
+
+  return Response.json(
+    {
+      id: meta.id,
+      object: "chat.completion",
+      created: meta.created,
+      model: meta.model,
+      choices: [
+        {
+          index: 0,
+          message: { role: "assistant", content: result.content },
+          finish_reason: result.finishReason,
+        },
+      ],
+    },
+    { headers }
+  );
+};
+
+// the system messages of the request are added to the persona
+const _createThread = async (
+  persona: PersonaModel,
+  messages: Array<ChatCompletionsMessage>
+) => {
+  const response = await CreatePersonaChat(persona.id);
+  const system = messages
+    .filter((m) => m.role === "system" || m.role === "developer")
+    .map(_textOf);
+
+  if (response.status !== "OK" || system.length === 0) {
+    return response;
+  }
+
+  return await UpsertChatThread({
+    ...response.response,
+    personaMessage: [response.response.personaMessage, ...system].join("\n\n"),
+  });
+};
+
+// Saves the earlier messages of the request as a branch of the thread and returns its last message
+const _replayHistory = async (
+  thread: ChatThreadModel,
+  messages: Array<ChatCompletionsMessage>,
+  user: UserModel
+) => {
+  let parentId: string | undefined = undefined;
+
+  for (const message of messages) {
+    if (message.role !== "user" && message.role !== "assistant") {
+      continue;
+    }
+
+    const response = await CreateChatMessage({
+      name: message.role === "user" ? user.name : AI_NAME,
+      content: _textOf(message),
+      role: message.role,
+      chatThreadId: thread.id,
+      parentId: parentId ?? "",
+    });
+
+    if (response.status === "OK") {
+      parentId = response.response.id;
+    }
+  }
+
+  return parentId;
+};
+
+// Translates the events of the chat run into OpenAI chat completion chunks
+const _streamCompletion = (
+  body: ReadableStream<Uint8Array>,
+  meta: CompletionMeta
+) => {
+  const encoder = new TextEncoder();
+  const reader = body.getReader();
+  let closed = false;
+
+  return new ReadableStream({
+    async start(controller) {
+      const send = (data: object | string) => {
+        // the client went away
+        if (closed) {
+          return;
+        }
+
+        const value = typeof data === "string" ? data : JSON.stringify(data);
+        controller.enqueue(encoder.encode(`data: ${value}\n\n`));
+      };
+
+      const chunk = (delta: object, finishReason: string | null) => ({
+        id: meta.id,
+        object: "chat.completion.chunk",
+        created: meta.created,
+        model: meta.model,
+        choices: [{ index: 0, delta: delta, finish_reason: finishReason }],
+      });
+
+      send(chunk({ role: "assistant", content: "" }, null));
+
+      const result = await _readRun(reader, (delta) =>
+        send(chunk({ content: delta }, null))
+      ).catch((error): RunResult => {
+        return { content: "", finishReason: "stop", error: `${error}` };
+      });
+
+      if (result.error) {
+        send({ error: { message: result.error, type: "server_error" } });
+      } else {
+        send(chunk({}, result.finishReason));
+      }
+
+      send("[DONE]");
+
+      if (!closed) {
+        closed = true;
+        controller.close();
+      }
+    },
+    cancel() {
+      closed = true;
+      // stops following the run, the run itself is stopped through the request signal
+      return reader.cancel();
+    },
+  });
+};
+
+// Reads the events of a chat run, content snapshots are turned into the text added since the last one
+const _readRun = async (
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  onDelta: (delta: string) => void
+): Promise<RunResult> => {
+  const result: RunResult = { content: "", finishReason: "stop" };
+  let snapshotId = "";
+  let snapshot = "";
+  let finished = false;
+
+  const parser = createParser((event) => {
+    if (event.type !== "event") {
+      return;
+    }
+
+    const completion = JSON.parse(event.data) as AzureChatCompletion;
+
+    switch (completion.type) {
+      case "content":
+        // every completion of a turn with tool calls starts a new snapshot
+        if (completion.response.id !== snapshotId) {
+          snapshotId = completion.response.id;
+          snapshot = "";
+        }
+
+        const content = completion.response.choices[0].message.content ?? "";
+        if (content.length > snapshot.length) {
+          onDelta(content.slice(snapshot.length));
+          result.content += content.slice(snapshot.length);
+        }
+        snapshot = content;
+        break;
+      case "finalContent":
+        // the last content event can be behind the saved answer
+        if (
+          completion.response.length > snapshot.length &&
+          completion.response.startsWith(snapshot)
+        ) {
+          onDelta(completion.response.slice(snapshot.length));
+          result.content += completion.response.slice(snapshot.length);
+          snapshot = completion.response;
+        }
+        finished = true;
+        break;
+      case "contentFilter":
+        if (completion.response.some((r) => r.filtered)) {
+          result.finishReason = "content_filter";
+        }
+        break;
+      case "error":
+        result.error = completion.response;
+        break;
+      default:
+        break;
+    }
+  });
+
+  const decoder = new TextDecoder();
+
+  while (!finished) {
+    const { value, done } = await reader.read();
+    if (done) {
+      break;
+    }
+    parser.feed(decoder.decode(value, { stream: true }));
+  }
+
+  // the title and follow-up questions sent after the answer are of no use to API clients
+  if (finished) {
+    await reader.cancel();
+  }
+
+  return result;
+};
+
+const _entryErrorResponse = async (response: Response) => {
+  if (response.status === 429 && response.body) {
+    let message = "Rate limit exceeded";
+
+    const parser = createParser((event) => {
+      if (event.type === "event") {
+        const completion = JSON.parse(event.data) as AzureChatCompletion;
+        if (completion.type === "rateLimit") {
+          message = completion.response.message;
+        }
+      }
+    });
+    parser.feed(await response.text());
+
+    return _errorResponse(429, message, "rate_limit_exceeded", {
+      "Retry-After": response.headers.get("Retry-After") ?? "60",
+    });
+  }
+
+  return _errorResponse(
+    response.status === 401 ? 404 : 500,
+    response.status === 401 ? "Chat thread not found" : "Chat failed",
+    response.status === 401 ? "not_found_error" : "server_error"
+  );
+};
+
+const _errorResponse = (
+  status: number,
+  message: string,
+  type: string,
+  headers?: Record<string, string>
+) => {
+  return Response.json(
+    { error: { message: message, type: type, code: type } },
+    { status, headers }
+  );
+};
+
+const _textOf = (message: ChatCompletionsMessage) => {
+  if (typeof message.content === "string") {
+    return message.content;
+  }
+
+  return (message.content ?? [])
+    .filter((part) => part.type === "text")
+    .map((part) => part.text ?? "")
+    .join("\n");
+};
+
+const _imageOf = (message: ChatCompletionsMessage) => {
+  if (typeof message.content === "string" || !message.content) {
+    return "";
+  }
+
+  return (
+    message.content.find((part) => part.type === "image_url")?.image_url?.url ??
+    ""
+  );
+};
@@ -0,0 +1,194 @@
+import "server-only";
+
+import { uniqueId } from "@/features/common/util";
+import { AzureChatCompletion } from "../models";
+
+// finished runs are kept for a short while so that a client that lost the connection can read the last events
+const FINISHED_RUN_RETENTION_MS = 60 * 1000;
+
+export interface ChatRunEvent {
+  id: number;
+  event: AzureChatCompletion["type"];
+  data: string;
+}
+
+type ChatRunListener = (event: ChatRunEvent | undefined) => void;
+
+export interface ChatRun {
+  id: string;
+  threadId: string;
+  userId: string;
+  events: Array<ChatRunEvent>;
+  nextEventId: number;
+  done: boolean;
+  // the answer is saved, the run only streams the title and follow-up questions
+  answered: boolean;
+  controller: AbortController; // aborts the generation, independent of the requests reading the run
+  listeners: Set<ChatRunListener>;
+}
+
+// Generations run detached from the request that started them, the events are buffered per thread
+// so that a reloaded page or a dropped connection can read the answer from the last event it received.
+// The buffer lives in the memory of the server instance, resuming on another instance is not possible.
+const runs = new Map<string, ChatRun>();
+
+export const StartChatRun = (props: {
+  threadId: string;
+  userId: string;
+}): ChatRun => {
+  // a thread only has one answer in progress
+  const existing = runs.get(props.threadId);
+  if (existing && !existing.done) {
+    existing.controller.abort();
+  }
+
+  const run: ChatRun = {
+    id: uniqueId(),
+    threadId: props.threadId,
+    userId: props.userId,
+    events: [],
+    nextEventId: 0,
+    done: false,
+    answered: false,
+    controller: new AbortController(),
+    listeners: new Set(),
+  };
+
+  runs.set(props.threadId, run);
+  PublishChatRunEvent(run, { type: "run", response: run.id });
+
+  return run;
+};
+
+export const PublishChatRunEvent = (
+  run: ChatRun,
+  response: AzureChatCompletion
+) => {
+  if (run.done) {
+    return;
+  }
+
+  const event: ChatRunEvent = {
+    id: run.nextEventId++,
+    event: response.type,
+    data: JSON.stringify(response),
+  };
+
+  // content events carry the whole answer so far, only the latest one needs to be kept
+  const last = run.events[run.events.length - 1];
+  if (response.type === "content" && last?.event === "content") {
+    run.events[run.events.length - 1] = event;
+  } else {
+    run.events.push(event);
+  }
+
+  if (response.type === "finalContent" || response.type === "error") {
+    run.answered = true;
+  }
+
+  run.listeners.forEach((listener) => listener(event));
+};
+
+export const CompleteChatRun = (run: ChatRun) => {
+  if (run.done) {
+    return;
+  }
+
+  run.done = true;
+  run.listeners.forEach((listener) => listener(undefined));
+  run.listeners.clear();
+
+  setTimeout(() => {
+    if (runs.get(run.threadId) === run) {
+      runs.delete(run.threadId);
+    }
+  }, FINISHED_RUN_RETENTION_MS);
+};
+
+// Calls back once the run is done, right away when it already is
+export const OnChatRunComplete = (run: ChatRun, callback: () => void) => {
+  if (run.done) {
+    callback();
+    return;
+  }
+
+  run.listeners.add((event) => {
+    if (!event) {
+      callback();
+    }
+  });
+};
+
+// Without a run id only an answer in progress is returned, a finished one is already saved to the thread.
+// A page reloaded after the answer was saved reads it from the thread, resuming would add it twice.
+export const FindChatRun = (props: {
+  threadId: string;
+  userId: string;
+  runId?: string;
+}): ChatRun | undefined => {
+  const run = runs.get(props.threadId);
+
+  if (!run || run.userId !== props.userId) {
+    return undefined;
+  }
+
+  if (props.runId) {
+    return run.id === props.runId ? run : undefined;
+  }
+
+  return run.done || run.answered ? undefined : run;
+};
+
+// Streams the events after lastEventId as server sent events and follows the run until it is done
+export const ChatRunStream = (
+  run: ChatRun,
+  lastEventId: number,
+  signal: AbortSignal
+) => {
+  const encoder = new TextEncoder();
+  let closed = false;
+  let listener: ChatRunListener = () => {};
+
+  const detach = () => {
+    closed = true;
+    run.listeners.delete(listener);
+  };
+
+  return new ReadableStream({
+    start(controller) {
+      const write = (event: ChatRunEvent) => {
+        controller.enqueue(encoder.encode(`id: ${event.id}\n`));
+        controller.enqueue(encoder.encode(`event: ${event.event} \n`));
+        controller.enqueue(encoder.encode(`data: ${event.data} \n\n`));
+      };
+
+      run.events.filter((e) => e.id > lastEventId).forEach(write);
+
+      if (run.done) {
+        controller.close();
+        return;
+      }
+
+      listener = (event) => {
+        if (closed) {
+          return;
+        }
+
+        if (event) {
+          write(event);
+        } else {
+          detach();
+          controller.close();
+        }
+      };
+
+      run.listeners.add(listener);
+
+      // the client went away, the run itself keeps going
+      signal.addEventListener("abort", detach);
+    },
+    cancel() {
+      detach();
+    },
+  });
+};
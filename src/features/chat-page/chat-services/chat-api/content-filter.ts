@@ -0,0 +1,93 @@
+import { ContentFilterResult } from "../models";
+
+// Azure adds the annotations to the response, they are not part of the OpenAI types
+interface ContentFilterAnnotation {
+  filtered?: boolean;
+  severity?: string;
+  detected?: boolean;
+}
+
+type ContentFilterAnnotations = Record<string, ContentFilterAnnotation>;
+
+const SEVERITIES = ["safe", "low", "medium", "high"];
+
+// Collects the content filter annotations of a streamed turn.
+// Categories that are safe are dropped, a category keeps its highest severity across the chunks.
+export const ContentFilterCollector = () => {
+  const results = new Map<string, ContentFilterResult>();
+
+  const add = (
+    source: ContentFilterResult["source"],
+    annotations: ContentFilterAnnotations | undefined
+  ) => {
+    ToContentFilterResults(source, annotations).forEach((result) => {
+      const key = `${source}-${result.category}`;
+      const current = results.get(key);
+
+      results.set(key, {
+        ...result,
+        severity:
+          current &&
+          SEVERITIES.indexOf(current.severity) >
+            SEVERITIES.indexOf(result.severity)
+            ? current.severity
+            : result.severity,
+        filtered: result.filtered || (current?.filtered ?? false),
+      });
+    });
+  };
+
+  return {
+    // chunks of a streamed completion, the first chunk carries the results of the prompt
+    addChunk: (chunk: any) => {
+      chunk?.prompt_filter_results?.forEach((prompt: any) =>
+        add("prompt", prompt.content_filter_results)
+      );
+      chunk?.choices?.forEach((choice: any) =>
+        add("completion", choice.content_filter_results)
+      );
+    },
+    addError: (error: unknown) => {
+      add("prompt", ContentFilterAnnotationsFromError(error));
+    },
+    results: () => Array.from(results.values()),
+  };
+};
+
+// a prompt blocked by the filter fails the request with the code content_filter
+export const IsContentFilterError = (error: unknown) => {
+  return (error as any)?.code === "content_filter";
+};
+
+const ContentFilterAnnotationsFromError = (
+  error: unknown
+): ContentFilterAnnotations | undefined => {
+  if (!IsContentFilterError(error)) {
+    return undefined;
+  }
+
+  return (error as any).error?.innererror?.content_filter_result;
+};
+
+const ToContentFilterResults = (
+  source: ContentFilterResult["source"],
+  annotations: ContentFilterAnnotations | undefined
+): Array<ContentFilterResult> => {
+  if (!annotations) {
+    return [];
+  }
+
+  return Object.entries(annotations)
+    .filter(
+      ([, annotation]) =>
+        annotation.filtered ||
+        annotation.detected ||
+        (annotation.severity && annotation.severity !== "safe")
+    )
+    .map(([category, annotation]) => ({
+      source,
+      category,
+      severity: annotation.severity ?? "detected",
+      filtered: annotation.filtered ?? false,
+    }));
+};
@@ -1,112 +1,276 @@
-import { AI_NAME } from "@/features/theme/theme-config";
+import { uniqueId } from "@/features/common/util";
+import { ModelDeploymentModel } from "@/features/model-page/model-services/models";
+import { AI_NAME, NEW_CHAT_NAME } from "@/features/theme/theme-config";
+import { RecordUsage } from "@/features/usage-page/usage-services/usage-recorder";
 import { ChatCompletionStreamingRunner } from "openai/resources/beta/chat/completions";
 import { CreateChatMessage } from "../chat-message-service";
+import { UpdateChatThreadActiveMessage } from "../chat-thread-service";
 import {
   AzureChatCompletion,
   AzureChatCompletionAbort,
+  ChatMessageModel,
   ChatThreadModel,
 } from "../models";
+import { CountMessageTokens, CountTokens } from "../token-service";
+import { GenerateChatTitle, GenerateFollowUps } from "./chat-api-follow-up";
+import { ChatRun, CompleteChatRun, PublishChatRunEvent } from "./chat-run";
+import { ContentFilterCollector, IsContentFilterError } from "./content-filter";
 
+// Publishes the events of the runner to the chat run and saves the messages of the turn
 export const OpenAIStream = (props: {
   runner: ChatCompletionStreamingRunner;
   chatThread: ChatThreadModel;
+  parentId: string; // prompt the messages of this turn are answering
+  run: ChatRun;
+  model: ModelDeploymentModel;
+  searchQueries: Array<string>; // filled while the runner searches the documents
+  ephemeral: boolean; // the thread is deleted after the answer, nobody sees a title
 }) => {
-  const encoder = new TextEncoder();
+  const { runner, chatThread, run, model } = props;
 
-  const { runner, chatThread } = props;
+  const streamResponse = (response: AzureChatCompletion) => {
+    PublishChatRunEvent(run, response);
+  };
 
-  const readableStream = new ReadableStream({
-    async start(controller) {
-      const streamResponse = (event: string, value: string) => {
-        controller.enqueue(encoder.encode(`event: ${event} \n`));
-        controller.enqueue(encoder.encode(`data: ${value} \n\n`));
-      };
+  const close = () => {
+    CompleteChatRun(run);
+  };
+
+  let lastMessage = "";
+  let parentId = props.parentId;
+  const toolNames = new Map<string, string>(); // tool call id to function name
+  const contentFilter = ContentFilterCollector();
+
+  // the runner does not await the handlers, so the position in the branch is taken before saving
+  const nextMessage = () => {
+    const message = { id: uniqueId(), parentId: parentId };
+    parentId = message.id;
+    return message;
+  };
+
+  const saveAnswer = async (content: string) => {
+    const message = nextMessage();
+    const contentFilterResults = contentFilter.results();
+    const response = await CreateChatMessage({
+      ...message,
+      name: AI_NAME,
+      content: content,
+      role: "assistant",
+      chatThreadId: chatThread.id,
+      contentFilter:
+        contentFilterResults.length > 0 ? contentFilterResults : undefined,
+      searchQueries:
+        props.searchQueries.length > 0 ? [...props.searchQueries] : undefined,
+    });
+    await UpdateChatThreadActiveMessage({
+      chatThreadId: chatThread.id,
+      messageId: message.id,
+    });
+    await recordUsage(message.id, content);
+
+    return response.status === "OK" ? response.response : undefined;
+  };
+
+  // the prompt of this turn, as it was sent to the model
+  const userMessage = (): string => {
+    const message = [...runner.messages]
+      .reverse()
+      .find((m) => m.role === "user");
+    const content = message?.content ?? "";
+
+    if (typeof content === "string") {
+      return content;
+    }
+
+    return content
+      .map((part) => (part.type === "text" ? part.text : ""))
+      .join("\n");
+  };
+
+  const streamTitle = async (answer: string) => {
+    if (chatThread.name !== NEW_CHAT_NAME) {
+      return;
+    }
+
+    const title = await GenerateChatTitle({
+      chatThread,
+      model,
+      userMessage: userMessage(),
+      answer,
+    });
+    streamResponse({ type: "title", response: title });
+  };
+
+  const streamFollowUps = async (message: ChatMessageModel | undefined) => {
+    if (!message || !message.content) {
+      return;
+    }
+
+    const followUps = await GenerateFollowUps({
+      message,
+      model,
+      userMessage: userMessage(),
+    });
+
+    if (followUps.length > 0) {
+      streamResponse({ type: "followUps", response: followUps });
+    }
+  };
+
+  const streamContentFilter = () => {
+    const results = contentFilter.results();
+    if (results.length > 0) {
+      streamResponse({ type: "contentFilter", response: results });
+    }
+  };
+
+  // usage of every completion of the turn, including the ones that called tools
+  const recordUsage = async (messageId: string, content: string) => {
+    const completions = runner.allChatCompletions();
+    let promptTokens = 0;
+    let completionTokens = 0;
+
+    completions.forEach((completion) => {
+      promptTokens += completion.usage?.prompt_tokens ?? 0;
+      completionTokens += completion.usage?.completion_tokens ?? 0;
+    });
+
+    // deployments that don't stream usage are estimated from the transcript
+    if (!completions.some((c) => c.usage)) {
+      promptTokens = CountMessageTokens(runner.messages.slice(0, -1), model);
+      completionTokens = CountTokens(content, model);
+    }
 
-      let lastMessage = "";
-
-      runner
-        .on("content", (content) => {
-          const completion = runner.currentChatCompletionSnapshot;
-
-          if (completion) {
-            const response: AzureChatCompletion = {
-              type: "content",
-              response: completion,
-            };
-            lastMessage = completion.choices[0].message.content ?? "";
-            streamResponse(response.type, JSON.stringify(response));
-          }
-        })
-        .on("functionCall", async (functionCall) => {
-          await CreateChatMessage({
-            name: functionCall.name,
-            content: functionCall.arguments,
-            role: "function",
-            chatThreadId: chatThread.id,
-          });
-
-          const response: AzureChatCompletion = {
-            type: "functionCall",
-            response: functionCall,
-          };
-          streamResponse(response.type, JSON.stringify(response));
-        })
-        .on("functionCallResult", async (functionCallResult) => {
-          const response: AzureChatCompletion = {
-            type: "functionCallResult",
-            response: functionCallResult,
-          };
-          await CreateChatMessage({
-            name: "tool",
-            content: functionCallResult,
-            role: "function",
-            chatThreadId: chatThread.id,
-          });
-          streamResponse(response.type, JSON.stringify(response));
-        })
-        .on("abort", (error) => {
-          const response: AzureChatCompletionAbort = {
-            type: "abort",
-            response: "Chat aborted",
-          };
-          streamResponse(response.type, JSON.stringify(response));
-          controller.close();
-        })
-        .on("error", async (error) => {
-          console.log("🔴 error", error);
-          const response: AzureChatCompletion = {
-            type: "error",
-            response: error.message,
-          };
-
-          // if there is an error still save the last message even though it is not complete
-          await CreateChatMessage({
-            name: AI_NAME,
-            content: lastMessage,
-            role: "assistant",
-            chatThreadId: props.chatThread.id,
-          });
-
-          streamResponse(response.type, JSON.stringify(response));
-          controller.close();
-        })
-        .on("finalContent", async (content: string) => {
-          await CreateChatMessage({
-            name: AI_NAME,
-            content: content,
-            role: "assistant",
-            chatThreadId: props.chatThread.id,
-          });
-
-          const response: AzureChatCompletion = {
-            type: "finalContent",
-            response: content,
-          };
-          streamResponse(response.type, JSON.stringify(response));
-          controller.close();
+    await RecordUsage({
+      threadId: chatThread.id,
+      messageId: messageId,
+      kind: "chat",
+      model: model.deploymentName,
+      promptTokens: promptTokens,
+      completionTokens: completionTokens,
+      cost:
+        (promptTokens / 1000) * model.inputCost +
+        (completionTokens / 1000) * model.outputCost,
+    });
+  };
+
+  runner
+    .on("chunk", (chunk) => {
+      contentFilter.addChunk(chunk);
+    })
+    .on("content", (content) => {
+      const completion = runner.currentChatCompletionSnapshot;
+
+      if (completion) {
+        const response: AzureChatCompletion = {
+          type: "content",
+          response: completion,
+        };
+        lastMessage = completion.choices[0].message.content ?? "";
+        streamResponse(response);
+      }
+    })
+    .on("message", async (message) => {
+      // tool calls and their results are saved as they are sent to the model,
+      // the final answer is saved once it is complete
+      if (message.role === "assistant" && message.tool_calls?.length) {
+        message.tool_calls.forEach((call) =>
+          toolNames.set(call.id, call.function.name)
+        );
+
+        await CreateChatMessage({
+          ...nextMessage(),
+          name: AI_NAME,
+          content:
+            typeof message.content === "string" ? message.content : "",
+          role: "assistant",
+          toolCalls: message.tool_calls,
+          chatThreadId: chatThread.id,
+        });
+      }
+
+      if (message.role === "tool") {
+        await CreateChatMessage({
+          ...nextMessage(),
+          name: toolNames.get(message.tool_call_id) ?? "tool",
+          content: message.content as string,
+          role: "tool",
+          toolCallId: message.tool_call_id,
+          chatThreadId: chatThread.id,
         });
-    },
-  });
+      }
+    })
+    .on("functionCall", (functionCall) => {
+      const response: AzureChatCompletion = {
+        type: "functionCall",
+        response: functionCall,
+      };
+      streamResponse(response);
+    })
+    .on("functionCallResult", (functionCallResult) => {
+      const response: AzureChatCompletion = {
+        type: "functionCallResult",
+        response: functionCallResult,
+      };
+      streamResponse(response);
+    })
+    .on("abort", async (error) => {
+      const response: AzureChatCompletionAbort = {
+        type: "abort",
+        response: "Chat aborted",
+      };
+
+      // the tokens of a stopped answer are still billed, to the part that was
+      // generated or to the prompt when nothing was
+      if (lastMessage) {
+        await saveAnswer(lastMessage);
+      } else {
+        await recordUsage(props.parentId, lastMessage);
+      }
+
+      streamResponse(response);
+      close();
+    })
+    .on("error", async (error) => {
+      // a blocked prompt is an answer of the filter rather than a failure
+      if (IsContentFilterError(error)) {
+        contentFilter.addError(error);
+        await saveAnswer(lastMessage);
+
+        streamContentFilter();
+        streamResponse({ type: "finalContent", response: lastMessage });
+        close();
+        return;
+      }
+
+      console.log("🔴 error", error);
+      const response: AzureChatCompletion = {
+        type: "error",
+        response: error.message,
+      };
+
+      // if there is an error still save the last message even though it is not complete
+      await saveAnswer(lastMessage);
+
+      streamContentFilter();
+      streamResponse(response);
+      close();
+    })
+    .on("finalContent", async (content: string) => {
+      const message = await saveAnswer(content);
+
+      streamContentFilter();
+      const response: AzureChatCompletion = {
+        type: "finalContent",
+        response: content,
+      };
+      streamResponse(response);
 
-  return readableStream;
+      // the run stays open until the title and the follow-up questions are
+      // generated, only the client reading it receives them
+      if (!props.ephemeral) {
+        await Promise.all([streamTitle(content), streamFollowUps(message)]);
+      }
+      close();
+    });
 };
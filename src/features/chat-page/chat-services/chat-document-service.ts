@@ -1,53 +1,161 @@
 "use server";
 import "server-only";
 
-import { userHashedId } from "@/features/auth-page/helpers";
+import { getCurrentUser, userHashedId } from "@/features/auth-page/helpers";
 import { HistoryContainer } from "@/features/common/services/cosmos";
 
+import {
+  EnsureKnowledgeLibraryOperation,
+  FindKnowledgeLibraryByID,
+} from "@/features/knowledge-page/knowledge-services/knowledge-service";
 import { RevalidateCache } from "@/features/common/navigation-helpers";
 import { ServerActionResponse } from "@/features/common/server-action-response";
-import { DocumentIntelligenceInstance } from "@/features/common/services/document-intelligence";
+import {
+  DeleteBlob,
+  GetBlob,
+  UploadBlob,
+} from "@/features/common/services/azure-storage";
 import { uniqueId } from "@/features/common/util";
+import {
+  CheckRateLimit,
+  RateLimitMessage,
+} from "@/features/usage-page/usage-services/rate-limiter";
 import { SqlQuerySpec } from "@azure/cosmos";
-import { EnsureIndexIsCreated } from "./azure-ai-search/azure-ai-search";
+import {
+  DeleteDocumentChunks,
+  EnsureIndexIsCreated,
+} from "./azure-ai-search/azure-ai-search";
+import {
+  CancelDocumentIngestion,
+  DOCUMENT_CONTAINER_NAME,
+  DocumentBlobPath,
+  QueueDocumentIngestion,
+} from "./document-ingestion";
+import {
+  ResolveDocumentType,
+  UnsupportedDocumentMessage,
+} from "./document-loaders/document-loaders";
+import { ContentHash } from "./content-hash";
 import { CHAT_DOCUMENT_ATTRIBUTE, ChatDocumentModel } from "./models";
 
 const MAX_UPLOAD_DOCUMENT_SIZE: number = 20000000;
-const CHUNK_SIZE = 2300;
-const CHUNK_OVERLAP = CHUNK_SIZE * 0.25;
 
 const debug = process.env.DEBUG === "true";
 
-export const CrackDocument = async (
+// Stores the uploaded file and queues its ingestion, the document is listed
+// as processing until the ingestion worker has indexed all its chunks.
+// Files are added to the chat thread "id" or to the knowledge library "libraryId".
+export const UploadChatDocument = async (
   formData: FormData
-): Promise<ServerActionResponse<string[]>> => {
+): Promise<ServerActionResponse<ChatDocumentModel>> => {
   try {
-    if (debug) console.log("CrackDocument: Ensuring index is created.");
+    const rateLimit = await CheckRateLimit("documents");
+
+    if (!rateLimit.allowed) {
+      return {
+        status: "ERROR",
+        errors: [{ message: RateLimitMessage(rateLimit) }],
+      };
+    }
+
+    if (debug) console.log("UploadChatDocument: Ensuring index is created.");
     const response = await EnsureIndexIsCreated();
-    if (response.status === "OK") {
-      if (debug) console.log("CrackDocument: Index is created, loading file.");
-      const fileResponse = await LoadFile(formData);
-      if (fileResponse.status === "OK") {
-        if (debug) console.log("CrackDocument: File loaded successfully, splitting documents.");
-        const splitDocuments = await ChunkDocumentWithOverlap(
-          fileResponse.response.join("\n")
-        );
-
-        if (debug) console.log("CrackDocument: Documents split successfully.");
-        return {
-          status: "OK",
-          response: splitDocuments,
-        };
+    if (response.status !== "OK") {
+      console.error("UploadChatDocument: Index creation failed.", response.errors);
+      return response;
+    }
+
+    const file: File | null = formData.get("file") as unknown as File;
+    const libraryId = (formData.get("libraryId") as string | null) ?? undefined;
+    const chatThreadId = libraryId ? "" : (formData.get("id") as string);
+
+    if (libraryId) {
+      const libraryResponse = await EnsureKnowledgeLibraryOperation(libraryId);
+
+      if (libraryResponse.status !== "OK") {
+        return libraryResponse;
       }
+    }
+
+    const fileSize = process.env.MAX_UPLOAD_DOCUMENT_SIZE
+      ? Number(process.env.MAX_UPLOAD_DOCUMENT_SIZE)
+      : MAX_UPLOAD_DOCUMENT_SIZE;
+
+    if (!file || file.size >= fileSize) {
+      console.error("UploadChatDocument: File size is too large.");
+      return {
+        status: "ERROR",
+        errors: [
+          {
+            message: `File is too large and must be less than ${MAX_UPLOAD_DOCUMENT_SIZE} bytes.`,
+          },
+        ],
+      };
+    }
+
+    const contentType = ResolveDocumentType(file.name, file.type);
+
+    if (!contentType) {
+      console.error("UploadChatDocument: Unsupported file type.", file.type);
+      return {
+        status: "ERROR",
+        errors: [{ message: UnsupportedDocumentMessage(file.name) }],
+      };
+    }
+
+    const content = Buffer.from(await file.arrayBuffer());
+    const contentHash = ContentHash(content);
+
+    // the chunks of the same file would be indexed and cited twice
+    const duplicate = await FindIdenticalDocument({
+      chatThreadId,
+      libraryId,
+      contentHash,
+    });
+
+    if (duplicate) {
+      return {
+        status: "ERROR",
+        errors: [
+          {
+            message: `${file.name} was already uploaded as ${duplicate.name}.`,
+          },
+        ],
+      };
+    }
+
+    const documentId = uniqueId();
+    const uploadResponse = await UploadBlob(
+      DOCUMENT_CONTAINER_NAME,
+      DocumentBlobPath({ chatThreadId, libraryId, id: documentId }),
+      content
+    );
+
+    if (uploadResponse.status !== "OK") {
+      console.error("UploadChatDocument: File upload failed.", uploadResponse.errors);
+      return uploadResponse;
+    }
 
-      console.error("CrackDocument: File loading failed.", fileResponse.errors);
-      return fileResponse;
+    const documentResponse = await CreateChatDocument({
+      id: documentId,
+      name: file.name,
+      chatThreadId,
+      libraryId,
+      contentType,
+      size: file.size,
+      contentHash,
+    });
+
+    if (documentResponse.status === "OK") {
+      await QueueDocumentIngestion(
+        documentResponse.response,
+        await getCurrentUser()
+      );
     }
 
-    console.error("CrackDocument: Index creation failed.", response.errors);
-    return response;
+    return documentResponse;
   } catch (e) {
-    console.error("CrackDocument error:", e);
+    console.error("UploadChatDocument error:", e);
     return {
       status: "ERROR",
       errors: [
@@ -59,56 +167,86 @@ export const CrackDocument = async (
   }
 };
 
-const LoadFile = async (
-  formData: FormData
-): Promise<ServerActionResponse<string[]>> => {
-  try {
-    if (debug) console.log("LoadFile: Loading file from form data.");
-    const file: File | null = formData.get("file") as unknown as File;
+// Original file of a document of the current user or of a library they can read
+export const GetChatDocumentFile = async (
+  documentId: string
+): Promise<
+  ServerActionResponse<{ document: ChatDocumentModel; file: ReadableStream }>
+> => {
+  const documentResponse = await FindChatDocumentByID(documentId);
 
-    const fileSize = process.env.MAX_UPLOAD_DOCUMENT_SIZE
-      ? Number(process.env.MAX_UPLOAD_DOCUMENT_SIZE)
-      : MAX_UPLOAD_DOCUMENT_SIZE;
+  if (documentResponse.status !== "OK") {
+    return documentResponse;
+  }
 
-    if (file && file.size < fileSize) {
-      if (debug) console.log("LoadFile: File size is within the acceptable limit.");
-      const client = DocumentIntelligenceInstance();
+  const document = documentResponse.response;
+  const fileResponse = await GetBlob(
+    DOCUMENT_CONTAINER_NAME,
+    DocumentBlobPath(document)
+  );
 
-      const blob = new Blob([file], { type: file.type });
+  if (fileResponse.status !== "OK") {
+    return fileResponse;
+  }
 
-      if (debug) console.log("LoadFile: Beginning document analysis.");
-      const poller = await client.beginAnalyzeDocument(
-        "prebuilt-read",
-        await blob.arrayBuffer()
-      );
-      const { paragraphs } = await poller.pollUntilDone();
+  return {
+    status: "OK",
+    response: { document, file: fileResponse.response },
+  };
+};
+
+// Documents of the current user and of the knowledge libraries they can read
+export const FindChatDocumentByID = async (
+  documentId: string
+): Promise<ServerActionResponse<ChatDocumentModel>> => {
+  try {
+    const querySpec: SqlQuerySpec = {
+      query:
+        "SELECT * FROM root r WHERE r.type=@type AND r.id=@id AND r.isDeleted=@isDeleted",
+      parameters: [
+        {
+          name: "@type",
+          value: CHAT_DOCUMENT_ATTRIBUTE,
+        },
+        {
+          name: "@id",
+          value: documentId,
+        },
+        {
+          name: "@isDeleted",
+          value: false,
+        },
+      ],
+    };
 
-      const docs: Array<string> = [];
+    const { resources } = await HistoryContainer()
+      .items.query<ChatDocumentModel>(querySpec)
+      .fetchAll();
 
-      if (paragraphs) {
-        for (const paragraph of paragraphs) {
-          docs.push(paragraph.content);
-        }
-        if (debug) console.log("LoadFile: Document analysis completed successfully.");
-      }
+    const document = resources[0];
+    const canRead =
+      document !== undefined &&
+      (document.libraryId
+        ? (await FindKnowledgeLibraryByID(document.libraryId)).status === "OK"
+        : document.userId === (await userHashedId()));
 
+    if (!canRead) {
       return {
-        status: "OK",
-        response: docs,
-      };
-    } else {
-      console.error("LoadFile: File size is too large.");
-      return {
-        status: "ERROR",
+        status: "NOT_FOUND",
         errors: [
           {
-            message: `File is too large and must be less than ${MAX_UPLOAD_DOCUMENT_SIZE} bytes.`,
+            message: "Document not found",
           },
         ],
       };
     }
+
+    return {
+      status: "OK",
+      response: document,
+    };
   } catch (e) {
-    console.error("LoadFile error:", e);
+    console.error("FindChatDocumentByID error:", e);
     return {
       status: "ERROR",
       errors: [
@@ -120,6 +258,32 @@ const LoadFile = async (
   }
 };
 
+// Documents of a library are changed by the owner of the library and admins,
+// other documents by their owner only
+const EnsureChatDocumentOperation = async (
+  documentId: string
+): Promise<ServerActionResponse<ChatDocumentModel>> => {
+  const documentResponse = await FindChatDocumentByID(documentId);
+
+  if (documentResponse.status !== "OK") {
+    return documentResponse;
+  }
+
+  const document = documentResponse.response;
+
+  if (document.libraryId) {
+    const libraryResponse = await EnsureKnowledgeLibraryOperation(
+      document.libraryId
+    );
+
+    if (libraryResponse.status !== "OK") {
+      return libraryResponse;
+    }
+  }
+
+  return documentResponse;
+};
+
 export const FindAllChatDocuments = async (
   chatThreadID: string
 ): Promise<ServerActionResponse<ChatDocumentModel[]>> => {
@@ -178,47 +342,197 @@ export const FindAllChatDocuments = async (
   }
 };
 
-export const CreateChatDocument = async (
-  fileName: string,
-  chatThreadID: string
+// Same file in a chat thread of the user or in the library, a failed one can be replaced
+const FindIdenticalDocument = async (props: {
+  chatThreadId: string;
+  libraryId?: string;
+  contentHash: string;
+}): Promise<ChatDocumentModel | undefined> => {
+  const querySpec: SqlQuerySpec = {
+    query: `SELECT * FROM root r WHERE r.type=@type AND r.contentHash=@contentHash AND r.isDeleted=@isDeleted AND r.status!=@failed AND ${
+      props.libraryId
+        ? "r.libraryId=@libraryId"
+        : "r.chatThreadId=@threadId AND r.userId=@userId"
+    }`,
+    parameters: [
+      {
+        name: "@type",
+        value: CHAT_DOCUMENT_ATTRIBUTE,
+      },
+      {
+        name: "@contentHash",
+        value: props.contentHash,
+      },
+      {
+        name: "@isDeleted",
+        value: false,
+      },
+      {
+        name: "@failed",
+        value: "failed",
+      },
+      {
+        name: "@libraryId",
+        value: props.libraryId ?? "",
+      },
+      {
+        name: "@threadId",
+        value: props.chatThreadId,
+      },
+      {
+        name: "@userId",
+        value: await userHashedId(),
+      },
+    ],
+  };
+
+  const { resources } = await HistoryContainer()
+    .items.query<ChatDocumentModel>(querySpec)
+    .fetchAll();
+
+  return resources[0];
+};
+
+const CreateChatDocument = async (props: {
+  id: string;
+  name: string;
+  chatThreadId: string;
+  libraryId?: string;
+  contentType: string;
+  size: number;
+  contentHash: string;
+}): Promise<ServerActionResponse<ChatDocumentModel>> => {
+  if (debug) console.log("CreateChatDocument: Creating document with fileName:", props.name, "chatThreadID:", props.chatThreadId);
+  return await UpsertChatDocument({
+    ...props,
+    userId: await userHashedId(),
+    createdAt: new Date(),
+    type: CHAT_DOCUMENT_ATTRIBUTE,
+    isDeleted: false,
+    status: "processing",
+    isEnabled: true,
+  });
+};
+
+// Disabled documents stay in the chat but are not searched
+export const UpdateChatDocumentEnabled = async (
+  documentId: string,
+  isEnabled: boolean
+): Promise<ServerActionResponse<ChatDocumentModel>> => {
+  const documentResponse = await EnsureChatDocumentOperation(documentId);
+
+  if (documentResponse.status !== "OK") {
+    return documentResponse;
+  }
+
+  return await UpsertChatDocument({ ...documentResponse.response, isEnabled });
+};
+
+// Removes a single file from the chat with its chunks and its stored file
+export const DeleteChatDocument = async (
+  documentId: string
 ): Promise<ServerActionResponse<ChatDocumentModel>> => {
   try {
-    if (debug) console.log("CreateChatDocument: Creating document with fileName:", fileName, "chatThreadID:", chatThreadID);
-    const modelToSave: ChatDocumentModel = {
-      chatThreadId: chatThreadID,
-      id: uniqueId(),
-      userId: await userHashedId(),
-      createdAt: new Date(),
-      type: CHAT_DOCUMENT_ATTRIBUTE,
-      isDeleted: false,
-      name: fileName,
-    };
+    const documentResponse = await EnsureChatDocumentOperation(documentId);
+
+    if (documentResponse.status !== "OK") {
+      return documentResponse;
+    }
+
+    const document = documentResponse.response;
+    await CancelDocumentIngestion(document);
 
-    const { resource } = await HistoryContainer().items.upsert<ChatDocumentModel>(modelToSave);
-    RevalidateCache({
-      page: "chat",
-      params: chatThreadID,
+    const deleteResponses = await DeleteDocumentChunks({
+      chatThreadId: document.chatThreadId,
+      libraryId: document.libraryId,
+      documentId: document.id,
+      fileName: document.name,
     });
 
-    if (resource) {
-      if (debug) console.log("CreateChatDocument: Document created successfully.");
+    const errors = deleteResponses.flatMap((r) =>
+      r.status === "OK" ? [] : r.errors
+    );
+
+    if (errors.length > 0) {
       return {
-        status: "OK",
-        response: resource,
+        status: "ERROR",
+        errors,
       };
     }
 
-    console.error("CreateChatDocument: Unable to save chat document.");
+    if (document.contentType) {
+      const blobResponse = await DeleteBlob(
+        DOCUMENT_CONTAINER_NAME,
+        DocumentBlobPath(document)
+      );
+
+      if (blobResponse.status !== "OK") {
+        return blobResponse;
+      }
+    }
+
+    return await UpsertChatDocument({ ...document, isDeleted: true });
+  } catch (e) {
+    console.error("DeleteChatDocument error:", e);
     return {
       status: "ERROR",
       errors: [
         {
-          message: "Unable to save chat document",
+          message: `${e}`,
+        },
+      ],
+    };
+  }
+};
+
+// Queues the stored file to be analysed again, its chunks are replaced in the index
+export const ReindexChatDocument = async (
+  documentId: string
+): Promise<ServerActionResponse<ChatDocumentModel>> => {
+  const documentResponse = await EnsureChatDocumentOperation(documentId);
+
+  if (documentResponse.status !== "OK") {
+    return documentResponse;
+  }
+
+  const document = documentResponse.response;
+
+  if (!document.contentType) {
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `The original file of ${document.name} is not stored, upload it again to re-index it.`,
         },
       ],
     };
+  }
+
+  const rateLimit = await CheckRateLimit("documents");
+
+  if (!rateLimit.allowed) {
+    return {
+      status: "ERROR",
+      errors: [{ message: RateLimitMessage(rateLimit) }],
+    };
+  }
+
+  try {
+    const updateResponse = await UpsertChatDocument({
+      ...document,
+      status: "processing",
+    });
+
+    if (updateResponse.status === "OK") {
+      await QueueDocumentIngestion(
+        updateResponse.response,
+        await getCurrentUser()
+      );
+    }
+
+    return updateResponse;
   } catch (e) {
-    console.error("CreateChatDocument error:", e);
+    console.error("ReindexChatDocument error:", e);
     return {
       status: "ERROR",
       errors: [
@@ -230,27 +544,47 @@ export const CreateChatDocument = async (
   }
 };
 
-export async function ChunkDocumentWithOverlap(
-  document: string
-): Promise<string[]> {
-  if (debug) console.log("ChunkDocumentWithOverlap: Starting chunking process.");
-  const chunks: string[] = [];
+const UpsertChatDocument = async (
+  modelToSave: ChatDocumentModel
+): Promise<ServerActionResponse<ChatDocumentModel>> => {
+  try {
+    const { resource } =
+      await HistoryContainer().items.upsert<ChatDocumentModel>(modelToSave);
 
-  if (document.length <= CHUNK_SIZE) {
-    if (debug) console.log("ChunkDocumentWithOverlap: Document length is within single chunk size.");
-    chunks.push(document);
-    return chunks;
-  }
+    if (modelToSave.libraryId) {
+      RevalidateCache({ page: "knowledge" });
+    } else {
+      RevalidateCache({
+        page: "chat",
+        params: modelToSave.chatThreadId,
+      });
+    }
 
-  let startIndex = 0;
+    if (resource) {
+      return {
+        status: "OK",
+        response: resource,
+      };
+    }
 
-  while (startIndex < document.length) {
-    const endIndex = startIndex + CHUNK_SIZE;
-    const chunk = document.substring(startIndex, endIndex);
-    chunks.push(chunk);
-    startIndex = endIndex - CHUNK_OVERLAP;
+    console.error("UpsertChatDocument: Unable to save chat document.");
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: "Unable to save chat document",
+        },
+      ],
+    };
+  } catch (e) {
+    console.error("UpsertChatDocument error:", e);
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `${e}`,
+        },
+      ],
+    };
   }
-
-  if (debug) console.log("ChunkDocumentWithOverlap: Chunking completed.", chunks);
-  return chunks;
-}
+};
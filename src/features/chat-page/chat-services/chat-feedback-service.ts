@@ -0,0 +1,239 @@
+"use server";
+import "server-only";
+
+import { getCurrentUser, userHashedId } from "@/features/auth-page/helpers";
+import {
+  ServerActionResponse,
+  zodErrorsToServerActionErrors,
+} from "@/features/common/server-action-response";
+import { HistoryContainer } from "@/features/common/services/cosmos";
+import { uniqueId } from "@/features/common/util";
+import { SqlQuerySpec } from "@azure/cosmos";
+import { FindChatThreadForCurrentUser } from "./chat-thread-service";
+import {
+  CHAT_FEEDBACK_ATTRIBUTE,
+  ChatFeedbackModel,
+  ChatFeedbackModelSchema,
+  FeedbackRating,
+  MESSAGE_ATTRIBUTE,
+} from "./models";
+
+export const FindAllChatFeedbackForCurrentUser = async (
+  chatThreadID: string
+): Promise<ServerActionResponse<Array<ChatFeedbackModel>>> => {
+  try {
+    const querySpec: SqlQuerySpec = {
+      query:
+        "SELECT * FROM root r WHERE r.type=@type AND r.threadId=@threadId AND r.userId=@userId",
+      parameters: [
+        {
+          name: "@type",
+          value: CHAT_FEEDBACK_ATTRIBUTE,
+        },
+        {
+          name: "@threadId",
+          value: chatThreadID,
+        },
+        {
+          name: "@userId",
+          value: await userHashedId(),
+        },
+      ],
+    };
+
+    const { resources } = await HistoryContainer()
+      .items.query<ChatFeedbackModel>(querySpec)
+      .fetchAll();
+
+    return {
+      status: "OK",
+      response: resources,
+    };
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [{ message: `${error}` }],
+    };
+  }
+};
+
+// Creates or replaces the feedback of the current user for an assistant message
+export const UpsertChatFeedback = async (props: {
+  messageId: string;
+  threadId: string;
+  rating: FeedbackRating;
+  reason: string;
+  comment: string;
+}): Promise<ServerActionResponse<ChatFeedbackModel>> => {
+  try {
+    const threadResponse = await FindChatThreadForCurrentUser(props.threadId);
+
+    if (threadResponse.status !== "OK") {
+      return threadResponse;
+    }
+
+    const messageResponse = await EnsureAssistantMessage(
+      props.messageId,
+      props.threadId
+    );
+
+    if (messageResponse.status !== "OK") {
+      return messageResponse;
+    }
+
+    const [user, existing] = await Promise.all([
+      getCurrentUser(),
+      FindChatFeedback(props.messageId),
+    ]);
+
+    const feedbackToSave: ChatFeedbackModel = {
+      id: existing?.id ?? uniqueId(),
+      messageId: props.messageId,
+      threadId: props.threadId,
+      rating: props.rating,
+      reason: props.reason,
+      comment: props.comment.trim(),
+      personaMessageTitle: threadResponse.response.personaMessageTitle,
+      userId: await userHashedId(),
+      useName: user.name,
+      createdAt: new Date(),
+      type: CHAT_FEEDBACK_ATTRIBUTE,
+    };
+
+    const validatedFields = ChatFeedbackModelSchema.safeParse(feedbackToSave);
+
+    if (!validatedFields.success) {
+      return {
+        status: "ERROR",
+        errors: zodErrorsToServerActionErrors(validatedFields.error.errors),
+      };
+    }
+
+    const { resource } =
+      await HistoryContainer().items.upsert<ChatFeedbackModel>(feedbackToSave);
+
+    if (resource) {
+      return {
+        status: "OK",
+        response: resource,
+      };
+    }
+
+    return {
+      status: "ERROR",
+      errors: [{ message: "Error saving feedback" }],
+    };
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [{ message: `Error saving feedback: ${error}` }],
+    };
+  }
+};
+
+export const DeleteChatFeedback = async (
+  messageId: string
+): Promise<ServerActionResponse<ChatFeedbackModel>> => {
+  try {
+    const existing = await FindChatFeedback(messageId);
+
+    if (!existing) {
+      return {
+        status: "NOT_FOUND",
+        errors: [{ message: "Feedback not found" }],
+      };
+    }
+
+    await HistoryContainer().item(existing.id, existing.userId).delete();
+
+    return {
+      status: "OK",
+      response: existing,
+    };
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [{ message: `Error deleting feedback: ${error}` }],
+    };
+  }
+};
+
+const FindChatFeedback = async (messageId: string) => {
+  const querySpec: SqlQuerySpec = {
+    query:
+      "SELECT * FROM root r WHERE r.type=@type AND r.messageId=@messageId AND r.userId=@userId",
+    parameters: [
+      {
+        name: "@type",
+        value: CHAT_FEEDBACK_ATTRIBUTE,
+      },
+      {
+        name: "@messageId",
+        value: messageId,
+      },
+      {
+        name: "@userId",
+        value: await userHashedId(),
+      },
+    ],
+  };
+
+  const { resources } = await HistoryContainer()
+    .items.query<ChatFeedbackModel>(querySpec)
+    .fetchAll();
+
+  return resources.length > 0 ? resources[0] : undefined;
+};
+
+// only answers of the assistant in a thread of the current user can be rated
+const EnsureAssistantMessage = async (
+  messageId: string,
+  threadId: string
+): Promise<ServerActionResponse> => {
+  const querySpec: SqlQuerySpec = {
+    query:
+      "SELECT VALUE COUNT(1) FROM root r WHERE r.type=@type AND r.id=@id AND r.threadId=@threadId AND r.userId=@userId AND r.role=@role AND r.isDeleted=@isDeleted",
+    parameters: [
+      {
+        name: "@type",
+        value: MESSAGE_ATTRIBUTE,
+      },
+      {
+        name: "@id",
+        value: messageId,
+      },
+      {
+        name: "@threadId",
+        value: threadId,
+      },
+      {
+        name: "@userId",
+        value: await userHashedId(),
+      },
+      {
+        name: "@role",
+        value: "assistant",
+      },
+      {
+        name: "@isDeleted",
+        value: false,
+      },
+    ],
+  };
+
+  const { resources } = await HistoryContainer()
+    .items.query<number>(querySpec)
+    .fetchAll();
+
+  if (resources[0] > 0) {
+    return {
+      status: "OK",
+      response: messageId,
+    };
+  }
+
+  return {
+    status: "NOT_FOUND",
+    errors: [{ message: "Message not found" }],
+  };
+};
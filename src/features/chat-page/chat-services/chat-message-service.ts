@@ -5,8 +5,14 @@ import { userHashedId } from "@/features/auth-page/helpers";
 import { ServerActionResponse } from "@/features/common/server-action-response";
 import { uniqueId } from "@/features/common/util";
 import { SqlQuerySpec } from "@azure/cosmos";
+import { ChatCompletionMessageToolCall } from "openai/resources/chat/completions";
 import { HistoryContainer } from "../../common/services/cosmos";
-import { ChatMessageModel, ChatRole, MESSAGE_ATTRIBUTE } from "./models";
+import {
+  ChatMessageModel,
+  ChatRole,
+  ContentFilterResult,
+  MESSAGE_ATTRIBUTE,
+} from "./models";
 
 export const FindTopChatMessagesForCurrentUser = async (
   chatThreadID: string,
@@ -108,21 +114,33 @@ export const FindAllChatMessagesForCurrentUser = async (
 };
 
 export const CreateChatMessage = async ({
+  id,
   name,
   content,
   role,
   chatThreadId,
   multiModalImage,
+  parentId,
+  toolCalls,
+  toolCallId,
+  contentFilter,
+  searchQueries,
 }: {
+  id?: string;
   name: string;
   role: ChatRole;
   content: string;
   chatThreadId: string;
   multiModalImage?: string;
+  parentId?: string;
+  toolCalls?: Array<ChatCompletionMessageToolCall>;
+  toolCallId?: string;
+  contentFilter?: Array<ContentFilterResult>;
+  searchQueries?: Array<string>;
 }): Promise<ServerActionResponse<ChatMessageModel>> => {
   const userId = await userHashedId();
   const modelToSave: ChatMessageModel = {
-    id: uniqueId(),
+    id: id ?? uniqueId(),
     createdAt: new Date(),
     type: MESSAGE_ATTRIBUTE,
     isDeleted: false,
@@ -132,6 +150,11 @@ export const CreateChatMessage = async ({
     threadId: chatThreadId,
     userId: userId,
     multiModalImage: multiModalImage,
+    parentId: parentId ?? "",
+    toolCalls: toolCalls,
+    toolCallId: toolCallId,
+    contentFilter: contentFilter,
+    searchQueries: searchQueries,
   };
   return await UpsertChatMessage(modelToSave);
 };
@@ -142,8 +165,8 @@ export const UpsertChatMessage = async (
   try {
     const modelToSave: ChatMessageModel = {
       ...chatModel,
-      id: uniqueId(),
-      createdAt: new Date(),
+      id: chatModel.id || uniqueId(),
+      createdAt: chatModel.createdAt ?? new Date(),
       type: MESSAGE_ATTRIBUTE,
       isDeleted: false,
     };
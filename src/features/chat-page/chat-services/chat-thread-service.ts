@@ -13,6 +13,7 @@ import {
   CHAT_DEFAULT_PERSONA,
   NEW_CHAT_NAME,
 } from "@/features/theme/theme-config";
+import { FindKnowledgeLibraryByID } from "@/features/knowledge-page/knowledge-services/knowledge-service";
 import { SqlQuerySpec } from "@azure/cosmos";
 import { HistoryContainer } from "../../common/services/cosmos";
 import { DeleteDocuments } from "./azure-ai-search/azure-ai-search";
@@ -171,6 +172,54 @@ export const SoftDeleteChatThreadForCurrentUser = async (
   }
 };
 
+// Removes the thread with its messages and documents instead of marking them
+// deleted, for threads that are not kept such as the ones of API requests
+export const DeleteChatThreadForCurrentUser = async (
+  chatThreadID: string
+): Promise<ServerActionResponse<ChatThreadModel>> => {
+  try {
+    const chatThreadResponse = await FindChatThreadForCurrentUser(chatThreadID);
+
+    if (chatThreadResponse.status !== "OK") {
+      return chatThreadResponse;
+    }
+
+    const chatResponse = await FindAllChatMessagesForCurrentUser(chatThreadID);
+
+    if (chatResponse.status !== "OK") {
+      return chatResponse;
+    }
+
+    const chatDocumentsResponse = await FindAllChatDocuments(chatThreadID);
+
+    if (chatDocumentsResponse.status !== "OK") {
+      return chatDocumentsResponse;
+    }
+
+    const chatDocuments = chatDocumentsResponse.response;
+
+    if (chatDocuments.length !== 0) {
+      await DeleteDocuments(chatThreadID);
+    }
+
+    await Promise.all(
+      [...chatResponse.response, ...chatDocuments].map((item) =>
+        HistoryContainer().item(item.id, item.userId).delete()
+      )
+    );
+
+    const chatThread = chatThreadResponse.response;
+    await HistoryContainer().item(chatThread.id, chatThread.userId).delete();
+
+    return chatThreadResponse;
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [{ message: `${error}` }],
+    };
+  }
+};
+
 export const EnsureChatThreadOperation = async (
   chatThreadID: string
 ): Promise<ServerActionResponse<ChatThreadModel>> => {
@@ -237,6 +286,125 @@ export const RemoveExtensionFromChatThread = async (props: {
   return response;
 };
 
+// Knowledge libraries are searched with the documents of the chat
+export const AddLibraryToChatThread = async (props: {
+  chatThreadId: string;
+  libraryId: string;
+}): Promise<ServerActionResponse<ChatThreadModel>> => {
+  try {
+    const libraryResponse = await FindKnowledgeLibraryByID(props.libraryId);
+
+    if (libraryResponse.status !== "OK") {
+      return libraryResponse;
+    }
+
+    const response = await FindChatThreadForCurrentUser(props.chatThreadId);
+    if (response.status === "OK") {
+      const chatThread = response.response;
+      const libraryIds = chatThread.libraryIds ?? [];
+
+      if (!libraryIds.includes(props.libraryId)) {
+        chatThread.libraryIds = [...libraryIds, props.libraryId];
+        return await UpsertChatThread(chatThread);
+      }
+
+      return {
+        status: "OK",
+        response: chatThread,
+      };
+    }
+
+    return response;
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [{ message: `${error}` }],
+    };
+  }
+};
+
+export const RemoveLibraryFromChatThread = async (props: {
+  chatThreadId: string;
+  libraryId: string;
+}): Promise<ServerActionResponse<ChatThreadModel>> => {
+  const response = await FindChatThreadForCurrentUser(props.chatThreadId);
+  if (response.status === "OK") {
+    const chatThread = response.response;
+    chatThread.libraryIds = (chatThread.libraryIds ?? []).filter(
+      (l) => l !== props.libraryId
+    );
+
+    return await UpsertChatThread(chatThread);
+  }
+
+  return response;
+};
+
+export const UpdateChatThreadModel = async (props: {
+  chatThreadId: string;
+  modelId: string;
+}): Promise<ServerActionResponse<ChatThreadModel>> => {
+  try {
+    const response = await FindChatThreadForCurrentUser(props.chatThreadId);
+    if (response.status === "OK") {
+      const chatThread = response.response;
+      chatThread.modelId = props.modelId;
+      return await UpsertChatThread(chatThread);
+    }
+
+    return response;
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [{ message: `${error}` }],
+    };
+  }
+};
+
+export const UpdateChatThreadActiveMessage = async (props: {
+  chatThreadId: string;
+  messageId: string;
+}): Promise<ServerActionResponse<ChatThreadModel>> => {
+  try {
+    const response = await FindChatThreadForCurrentUser(props.chatThreadId);
+    if (response.status === "OK") {
+      const chatThread = response.response;
+      chatThread.activeMessageId = props.messageId;
+      return await UpsertChatThread(chatThread);
+    }
+
+    return response;
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [{ message: `${error}` }],
+    };
+  }
+};
+
+export const UpdateChatThreadSummary = async (props: {
+  chatThreadId: string;
+  summary: string;
+  summarizedMessageId: string;
+}): Promise<ServerActionResponse<ChatThreadModel>> => {
+  try {
+    const response = await FindChatThreadForCurrentUser(props.chatThreadId);
+    if (response.status === "OK") {
+      const chatThread = response.response;
+      chatThread.summary = props.summary;
+      chatThread.summarizedMessageId = props.summarizedMessageId;
+      return await UpsertChatThread(chatThread);
+    }
+
+    return response;
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [{ message: `${error}` }],
+    };
+  }
+};
+
 export const UpsertChatThread = async (
   chatThread: ChatThreadModel
 ): Promise<ServerActionResponse<ChatThreadModel>> => {
@@ -321,8 +489,8 @@ export const UpdateChatTitle = async (
     const response = await FindChatThreadForCurrentUser(chatThreadId);
     if (response.status === "OK") {
       const chatThread = response.response;
-      // take the first 30 characters
-      chatThread.name = title.substring(0, 30);
+      // take the first 50 characters
+      chatThread.name = title.substring(0, 50);
       return await UpsertChatThread(chatThread);
     }
     return response;
@@ -3,8 +3,15 @@ import { ServerActionResponse } from "@/features/common/server-action-response";
 import { HistoryContainer } from "@/features/common/services/cosmos";
 import { uniqueId } from "@/features/common/util";
 import { SqlQuerySpec } from "@azure/cosmos";
-import { DocumentSearchResponse } from "./azure-ai-search/azure-ai-search";
-import { CHAT_CITATION_ATTRIBUTE, ChatCitationModel } from "./models";
+import {
+  AzureSearchDocumentIndex,
+  DocumentSearchResponse,
+} from "./azure-ai-search/azure-ai-search";
+import {
+  CHAT_CITATION_ATTRIBUTE,
+  ChatCitationModel,
+  DocumentRegion,
+} from "./models";
 
 export const CreateCitation = async (
   model: ChatCitationModel
@@ -100,15 +107,34 @@ export const FindCitationByID = async (
   }
 };
 
+// Identical chunks, e.g. of the same file in a chat and in a library, are cited
+// once. The results are ordered by relevance so the first one is kept.
 export const FormatCitations = (citation: DocumentSearchResponse[]) => {
   const withoutEmbedding: DocumentSearchResponse[] = [];
+  const contents = new Set<string>();
+
   citation.forEach((d) => {
+    const content = d.document.pageContent;
+
+    if (content) {
+      if (contents.has(content)) {
+        return;
+      }
+
+      contents.add(content);
+    }
+
     withoutEmbedding.push({
       score: d.score,
       document: {
         metadata: d.document.metadata,
         pageContent: d.document.pageContent,
         chatThreadId: d.document.chatThreadId,
+        pageStart: d.document.pageStart,
+        pageEnd: d.document.pageEnd,
+        sectionTitle: d.document.sectionTitle,
+        documentId: d.document.documentId,
+        regions: d.document.regions,
         id: "",
         user: "",
       },
@@ -117,3 +143,31 @@ export const FormatCitations = (citation: DocumentSearchResponse[]) => {
 
   return withoutEmbedding;
 };
+
+// "p. 3" or "pp. 3-4", empty for documents indexed without page numbers
+export const PageLabel = (pageStart?: number, pageEnd?: number) => {
+  if (!pageStart) {
+    return "";
+  }
+
+  return pageEnd && pageEnd !== pageStart
+    ? `pp. ${pageStart}-${pageEnd}`
+    : `p. ${pageStart}`;
+};
+
+// Name the model cites a document chunk with, the page lets readers trace the quote
+export const CitationSourceName = (document: AzureSearchDocumentIndex) => {
+  const pages = PageLabel(document.pageStart, document.pageEnd);
+  return pages ? `${document.metadata}, ${pages}` : document.metadata;
+};
+
+// Regions of the cited passage, empty for documents indexed without them
+export const CitationRegions = (
+  document: AzureSearchDocumentIndex
+): Array<DocumentRegion> => {
+  try {
+    return document.regions ? JSON.parse(document.regions) : [];
+  } catch {
+    return [];
+  }
+};
@@ -0,0 +1,8 @@
+import "server-only";
+
+import { createHash } from "crypto";
+
+// SHA-256 of an uploaded file or of the text of a chunk, identical content
+// has the same hash whoever uploaded it
+export const ContentHash = (content: Buffer | string) =>
+  createHash("sha256").update(content).digest("hex");
@@ -0,0 +1,76 @@
+import { userHashedId } from "@/features/auth-page/helpers";
+import { FindAllKnowledgeLibraryDocuments } from "@/features/knowledge-page/knowledge-services/knowledge-service";
+import {
+  FindAllChatDocuments,
+  GetChatDocumentFile,
+} from "./chat-document-service";
+import {
+  FindIngestionJobsForLibrary,
+  FindIngestionJobsForThread,
+  StartIngestionWorker,
+} from "./document-ingestion";
+import { DocumentIngestionProgress, DocumentScope } from "./models";
+
+// Streams the original file of an uploaded document to the document viewer
+export const DocumentAPIEntry = async (
+  documentId: string
+): Promise<Response> => {
+  const response = await GetChatDocumentFile(documentId);
+
+  if (response.status !== "OK") {
+    return new Response(response.errors[0].message, { status: 404 });
+  }
+
+  const { document, file } = response.response;
+
+  return new Response(file, {
+    headers: {
+      "content-type": document.contentType || "application/octet-stream",
+      "content-disposition": `inline; filename="${encodeURIComponent(
+        document.name
+      )}"`,
+    },
+  });
+};
+
+// Ingestion progress of the files of a chat or of a knowledge library,
+// polled by the page while files are processing
+export const DocumentProgressAPIEntry = async (
+  scope: DocumentScope
+): Promise<Response> => {
+  // resumes the jobs left by a restarted server
+  StartIngestionWorker();
+
+  const [docsResponse, jobs, userId] = await Promise.all([
+    "libraryId" in scope
+      ? FindAllKnowledgeLibraryDocuments([scope.libraryId])
+      : FindAllChatDocuments(scope.chatThreadId),
+    "libraryId" in scope
+      ? FindIngestionJobsForLibrary(scope.libraryId)
+      : FindIngestionJobsForThread(scope.chatThreadId),
+    userHashedId(),
+  ]);
+
+  if (docsResponse.status !== "OK") {
+    return new Response(docsResponse.errors[0].message, { status: 500 });
+  }
+
+  const progress: Array<DocumentIngestionProgress> = docsResponse.response
+    // the files of a library are shared, the files of a chat are the user's
+    .filter((document) => "libraryId" in scope || document.userId === userId)
+    .map((document) => {
+      const job = jobs.find((j) => j.documentId === document.id);
+
+      return {
+        documentId: document.id,
+        name: document.name,
+        status: document.status ?? "ready",
+        stage: job?.stage,
+        indexedChunks: job?.indexedChunks ?? document.chunkCount ?? 0,
+        totalChunks: job?.totalChunks ?? document.chunkCount ?? 0,
+        error: job?.error ?? "",
+      };
+    });
+
+  return Response.json(progress);
+};
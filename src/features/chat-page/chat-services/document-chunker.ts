@@ -0,0 +1,341 @@
+import "server-only";
+
+import {
+  AnalyzeResult,
+  BoundingRegion,
+  DocumentPage,
+  DocumentTable,
+} from "@azure/ai-form-recognizer";
+import { DocumentChunk, DocumentRegion } from "./models";
+import { CountEmbeddingTokens } from "./token-service";
+
+// leases and rent rolls read best when a clause or a block of table rows stays together,
+// a chunk is closed at every heading or when the next block doesn't fit anymore
+const CHUNK_MAX_TOKENS = Number(process.env.CHUNK_MAX_TOKENS) || 600;
+
+// repeated on every page, they only add noise to the chunks
+const SKIPPED_ROLES = ["pageHeader", "pageFooter", "pageNumber"];
+const HEADING_ROLES = ["title", "sectionHeading"];
+
+// Heading, paragraph or table of a document, in reading order
+export interface DocumentBlock {
+  kind: "heading" | "paragraph" | "table";
+  content: string;
+  pageStart: number;
+  pageEnd: number;
+  regions: Array<DocumentRegion>;
+  tableHeader?: string; // markdown header of a table, repeated when its rows are split
+  tableRows?: Array<string>;
+}
+
+interface ChunkPart {
+  content: string;
+  pageStart: number;
+  pageEnd: number;
+  regions: Array<DocumentRegion>;
+}
+
+// Splits the result of the prebuilt-layout model into chunks that follow the structure of the document
+export const ChunkDocumentLayout = (
+  result: AnalyzeResult
+): Array<DocumentChunk> => ChunkDocumentBlocks(LayoutBlocks(result));
+
+// Groups the blocks into chunks, a chunk is closed at every heading
+export const ChunkDocumentBlocks = (
+  blocks: Array<DocumentBlock>
+): Array<DocumentChunk> => {
+  const chunks: Array<DocumentChunk> = [];
+
+  let sectionTitle = "";
+  let heading = ""; // markdown heading every chunk of the section starts with
+  let parts: Array<ChunkPart> = [];
+  let tokens = 0;
+
+  const flush = () => {
+    if (parts.length > 0) {
+      chunks.push({
+        content: [heading, ...parts.map((p) => p.content)]
+          .filter((p) => p)
+          .join("\n\n"),
+        pageStart: Math.min(...parts.map((p) => p.pageStart)),
+        pageEnd: Math.max(...parts.map((p) => p.pageEnd)),
+        sectionTitle,
+        regions: parts.flatMap((p) => p.regions),
+      });
+    }
+
+    parts = [];
+    tokens = heading ? CountEmbeddingTokens(heading) : 0;
+  };
+
+  for (const block of blocks) {
+    if (block.kind === "heading") {
+      flush();
+      sectionTitle = block.content;
+      heading = `## ${block.content}`;
+      tokens = CountEmbeddingTokens(heading);
+      continue;
+    }
+
+    const budget = CHUNK_MAX_TOKENS - CountEmbeddingTokens(heading);
+
+    for (const part of SplitBlock(block, budget)) {
+      const partTokens = CountEmbeddingTokens(part.content);
+
+      if (parts.length > 0 && tokens + partTokens > CHUNK_MAX_TOKENS) {
+        flush();
+      }
+
+      parts.push(part);
+      tokens += partTokens;
+    }
+  }
+
+  flush();
+
+  return chunks;
+};
+
+// Paragraphs and tables in reading order. The paragraphs of a table are replaced by the table as markdown.
+const LayoutBlocks = (result: AnalyzeResult): Array<DocumentBlock> => {
+  const tables = (result.tables ?? [])
+    .filter((table) => table.rowCount > 0 && table.spans.length > 0)
+    .map((table) => ({
+      table,
+      start: Math.min(...table.spans.map((s) => s.offset)),
+      end: Math.max(...table.spans.map((s) => s.offset + s.length)),
+    }));
+
+  const isInTable = (offset: number) =>
+    tables.some((t) => offset >= t.start && offset < t.end);
+
+  const toRegions = (regions: Array<BoundingRegion> | undefined) =>
+    ToDocumentRegions(regions, result.pages ?? []);
+
+  // offset is the position of the block in the reading order
+  const blocks: Array<DocumentBlock & { offset: number }> = [];
+
+  for (const paragraph of result.paragraphs ?? []) {
+    const offset = paragraph.spans[0]?.offset ?? 0;
+    const role = paragraph.role ?? "";
+
+    if (SKIPPED_ROLES.includes(role) || isInTable(offset)) {
+      continue;
+    }
+
+    blocks.push({
+      kind: HEADING_ROLES.includes(role) ? "heading" : "paragraph",
+      content: paragraph.content,
+      ...PageRange(paragraph.boundingRegions),
+      regions: toRegions(paragraph.boundingRegions),
+      offset,
+    });
+  }
+
+  for (const { table, start } of tables) {
+    const { header, rows } = TableToMarkdown(table);
+
+    blocks.push({
+      kind: "table",
+      content: [header, ...rows].join("\n"),
+      ...PageRange(table.boundingRegions),
+      regions: toRegions(table.boundingRegions),
+      offset: start,
+      tableHeader: header,
+      tableRows: rows,
+    });
+  }
+
+  return blocks
+    .sort((a, b) => a.offset - b.offset)
+    .map(({ offset, ...block }) => block);
+};
+
+// Blocks of files read without Document Intelligence have no pages or regions
+export const TextBlock = (
+  kind: "heading" | "paragraph",
+  content: string
+): DocumentBlock => ({
+  kind,
+  content,
+  pageStart: 0,
+  pageEnd: 0,
+  regions: [],
+});
+
+export const TableBlock = (
+  grid: Array<Array<string>>,
+  headerRowCount: number
+): DocumentBlock => {
+  const { header, rows } = GridToMarkdown(grid, headerRowCount);
+
+  return {
+    kind: "table",
+    content: [header, ...rows].join("\n"),
+    pageStart: 0,
+    pageEnd: 0,
+    regions: [],
+    tableHeader: header,
+    tableRows: rows,
+  };
+};
+
+// Splits a block that doesn't fit in a chunk: tables by rows with the header repeated, text by sentences
+const SplitBlock = (
+  block: DocumentBlock,
+  maxTokens: number
+): Array<ChunkPart> => {
+  if (CountEmbeddingTokens(block.content) <= maxTokens) {
+    return [block];
+  }
+
+  // the parts of a split block point to the whole block on the page
+  const pages = {
+    pageStart: block.pageStart,
+    pageEnd: block.pageEnd,
+    regions: block.regions,
+  };
+
+  if (block.kind === "table" && block.tableHeader && block.tableRows) {
+    const header = block.tableHeader;
+    return Pack(
+      block.tableRows,
+      maxTokens - CountEmbeddingTokens(header),
+      "\n"
+    ).map((rows) => ({ content: `${header}\n${rows}`, ...pages }));
+  }
+
+  const sentences = block.content
+    .split(/(?<=[.!?;:])\s+/)
+    .flatMap((sentence) =>
+      CountEmbeddingTokens(sentence) > maxTokens
+        ? Pack(sentence.split(/\s+/), maxTokens, " ")
+        : [sentence]
+    );
+
+  return Pack(sentences, maxTokens, " ").map((content) => ({
+    content,
+    ...pages,
+  }));
+};
+
+// Joins the items into as few groups as possible without exceeding maxTokens per group
+const Pack = (
+  items: Array<string>,
+  maxTokens: number,
+  separator: string
+): Array<string> => {
+  const groups: Array<string> = [];
+  let current: Array<string> = [];
+  let tokens = 0;
+
+  for (const item of items) {
+    const itemTokens = CountEmbeddingTokens(item + separator);
+
+    if (current.length > 0 && tokens + itemTokens > maxTokens) {
+      groups.push(current.join(separator));
+      current = [];
+      tokens = 0;
+    }
+
+    current.push(item);
+    tokens += itemTokens;
+  }
+
+  if (current.length > 0) {
+    groups.push(current.join(separator));
+  }
+
+  return groups;
+};
+
+// Column headers become the markdown header, tables without them use their first row
+const TableToMarkdown = (table: DocumentTable) => {
+  const grid: Array<Array<string>> = Array.from(
+    { length: table.rowCount },
+    () => Array.from({ length: table.columnCount }, () => "")
+  );
+
+  let headerRowCount = 0;
+
+  for (const cell of table.cells) {
+    grid[cell.rowIndex][cell.columnIndex] = cell.content;
+
+    if (cell.kind === "columnHeader") {
+      headerRowCount = Math.max(
+        headerRowCount,
+        cell.rowIndex + (cell.rowSpan ?? 1)
+      );
+    }
+  }
+
+  return GridToMarkdown(grid, headerRowCount);
+};
+
+const GridToMarkdown = (
+  grid: Array<Array<string>>,
+  headerRowCount: number
+) => {
+  const columnCount = grid.reduce((max, row) => Math.max(max, row.length), 1);
+  const cells = grid.map((row) =>
+    Array.from({ length: columnCount }, (_, column) =>
+      (row[column] ?? "").replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ")
+    )
+  );
+
+  const toRow = (cells: Array<string>) => `| ${cells.join(" | ")} |`;
+  const headerRows = cells.slice(0, Math.max(headerRowCount, 1));
+
+  // markdown has a single header row, stacked headers are merged per column
+  const header = headerRows[0].map((_, column) =>
+    headerRows
+      .map((row) => row[column])
+      .filter((c, index, all) => c && all.indexOf(c) === index)
+      .join(" ")
+  );
+
+  return {
+    header: [toRow(header), toRow(header.map(() => "---"))].join("\n"),
+    rows: cells.slice(headerRows.length).map(toRow),
+  };
+};
+
+const PageRange = (regions: Array<BoundingRegion> | undefined) => {
+  const pages = (regions ?? []).map((r) => r.pageNumber);
+
+  return {
+    pageStart: pages.length > 0 ? Math.min(...pages) : 1,
+    pageEnd: pages.length > 0 ? Math.max(...pages) : 1,
+  };
+};
+
+// Bounding boxes of the polygons, relative to the size of their page.
+// Pages without a size (e.g. Word documents) have no regions to show.
+const ToDocumentRegions = (
+  regions: Array<BoundingRegion> | undefined,
+  pages: Array<DocumentPage>
+): Array<DocumentRegion> => {
+  return (regions ?? []).flatMap((region) => {
+    const page = pages.find((p) => p.pageNumber === region.pageNumber);
+    const polygon = region.polygon ?? [];
+
+    if (!page?.width || !page?.height || polygon.length === 0) {
+      return [];
+    }
+
+    const xs = polygon.map((p) => p.x / page.width!);
+    const ys = polygon.map((p) => p.y / page.height!);
+    const round = (value: number) => Math.round(value * 10000) / 10000;
+
+    return [
+      {
+        pageNumber: region.pageNumber,
+        left: round(Math.min(...xs)),
+        top: round(Math.min(...ys)),
+        width: round(Math.max(...xs) - Math.min(...xs)),
+        height: round(Math.max(...ys) - Math.min(...ys)),
+        pageRatio: round(page.width / page.height),
+      },
+    ];
+  });
+};
@@ -0,0 +1,568 @@
+import "server-only";
+
+import {
+  UserModel,
+  runAsApiUser,
+  userHashedId,
+} from "@/features/auth-page/helpers";
+import {
+  DeleteBlob,
+  DownloadBlob,
+  UploadBlob,
+} from "@/features/common/services/azure-storage";
+import { HistoryContainer } from "@/features/common/services/cosmos";
+import { uniqueId } from "@/features/common/util";
+import { SqlQuerySpec } from "@azure/cosmos";
+import {
+  DeleteDocumentChunks,
+  FindDocumentChunks,
+  IndexDocuments,
+} from "./azure-ai-search/azure-ai-search";
+import { IsCosmosError, IsThrottled, Sleep } from "./background-worker";
+import { LoadFile } from "./document-loaders/document-loaders";
+import {
+  CHAT_DOCUMENT_ATTRIBUTE,
+  ChatDocumentModel,
+  DocumentChunk,
+  INGESTION_JOB_ATTRIBUTE,
+  IngestionJobModel,
+} from "./models";
+
+// original files, kept so that citations can be checked against the source
+export const DOCUMENT_CONTAINER_NAME = "documents";
+
+// chunks embedded in one request
+const INGESTION_BATCH_SIZE = 16;
+
+const MAX_ATTEMPTS = 5;
+
+// doubled after every failed attempt, throttled requests wait longer
+const RETRY_DELAY_MS = 5 * 1000;
+const THROTTLED_RETRY_DELAY_MS = 30 * 1000;
+
+// a job is owned by the worker that claimed it until the lease expires,
+// the lease is renewed after every stage and batch
+const LEASE_MS = 10 * 60 * 1000;
+
+// longest wait before looking for due jobs again
+const MAX_IDLE_MS = 60 * 1000;
+
+const debug = process.env.DEBUG === "true";
+
+export const DocumentBlobPath = (document: {
+  chatThreadId: string;
+  libraryId?: string;
+  id: string;
+}) =>
+  document.libraryId
+    ? `libraries/${document.libraryId}/${document.id}`
+    : `${document.chatThreadId}/${document.id}`;
+
+// chunks of the analyze stage, read by the index stage
+const ChunksBlobPath = (job: IngestionJobModel) =>
+  `${JobDocumentBlobPath(job)}.${job.id}.chunks.json`;
+
+const JobDocumentBlobPath = (job: IngestionJobModel) =>
+  DocumentBlobPath({
+    chatThreadId: job.chatThreadId,
+    libraryId: job.libraryId,
+    id: job.documentId,
+  });
+
+// Adds a job for the stored file of the document and starts the worker
+export const QueueDocumentIngestion = async (
+  document: ChatDocumentModel,
+  user: UserModel
+): Promise<IngestionJobModel> => {
+  // a document is ingested by a single job
+  await CancelDocumentIngestion(document);
+
+  const job: IngestionJobModel = {
+    id: uniqueId(),
+    documentId: document.id,
+    chatThreadId: document.chatThreadId,
+    libraryId: document.libraryId,
+    fileName: document.name,
+    contentType: document.contentType ?? "",
+    userId: document.userId,
+    user,
+    status: "queued",
+    stage: "analyze",
+    totalChunks: 0,
+    indexedChunks: 0,
+    attempts: 0,
+    notBefore: 0,
+    leaseUntil: 0,
+    error: "",
+    createdAt: new Date(),
+    type: INGESTION_JOB_ATTRIBUTE,
+  };
+
+  const { resource } =
+    await HistoryContainer().items.create<IngestionJobModel>(job);
+
+  StartIngestionWorker();
+
+  return resource ?? job;
+};
+
+// Removes the jobs of the document, a worker processing one of them stops at its next checkpoint
+export const CancelDocumentIngestion = async (document: ChatDocumentModel) => {
+  const querySpec: SqlQuerySpec = {
+    query:
+      "SELECT * FROM root r WHERE r.type=@type AND r.documentId=@documentId AND r.userId=@userId",
+    parameters: [
+      {
+        name: "@type",
+        value: INGESTION_JOB_ATTRIBUTE,
+      },
+      {
+        name: "@documentId",
+        value: document.id,
+      },
+      {
+        name: "@userId",
+        value: document.userId,
+      },
+    ],
+  };
+
+  const { resources } = await HistoryContainer()
+    .items.query<IngestionJobModel>(querySpec)
+    .fetchAll();
+
+  await Promise.all(
+    resources.map((job) => HistoryContainer().item(job.id, job.userId).delete())
+  );
+};
+
+export const FindIngestionJobsForThread = async (
+  chatThreadId: string
+): Promise<Array<IngestionJobModel>> => {
+  const querySpec: SqlQuerySpec = {
+    query:
+      "SELECT * FROM root r WHERE r.type=@type AND r.chatThreadId=@threadId AND r.userId=@userId",
+    parameters: [
+      {
+        name: "@type",
+        value: INGESTION_JOB_ATTRIBUTE,
+      },
+      {
+        name: "@threadId",
+        value: chatThreadId,
+      },
+      {
+        name: "@userId",
+        value: await userHashedId(),
+      },
+    ],
+  };
+
+  const { resources } = await HistoryContainer()
+    .items.query<IngestionJobModel>(querySpec)
+    .fetchAll();
+
+  return resources;
+};
+
+// Jobs of the documents of a library, whoever uploaded them
+export const FindIngestionJobsForLibrary = async (
+  libraryId: string
+): Promise<Array<IngestionJobModel>> => {
+  const querySpec: SqlQuerySpec = {
+    query:
+      "SELECT * FROM root r WHERE r.type=@type AND r.libraryId=@libraryId",
+    parameters: [
+      {
+        name: "@type",
+        value: INGESTION_JOB_ATTRIBUTE,
+      },
+      {
+        name: "@libraryId",
+        value: libraryId,
+      },
+    ],
+  };
+
+  const { resources } = await HistoryContainer()
+    .items.query<IngestionJobModel>(querySpec)
+    .fetchAll();
+
+  return resources;
+};
+
+let isWorkerRunning = false;
+
+// Starts the worker of this server instance unless it is running already, when
+// the server starts (instrumentation.ts) and when a job is queued.
+// It processes the due jobs of all users one at a time and stops when no job is left,
+// jobs left by a stopped server are picked up once their lease expires.
+export const StartIngestionWorker = () => {
+  if (isWorkerRunning) {
+    return;
+  }
+
+  isWorkerRunning = true;
+
+  RunIngestionWorker()
+    .catch((error) => console.error("🔴 Error on ingestion worker:", error))
+    .finally(() => {
+      isWorkerRunning = false;
+    });
+};
+
+const RunIngestionWorker = async () => {
+  while (true) {
+    const jobs = await FindPendingIngestionJobs();
+
+    if (jobs.length === 0) {
+      return;
+    }
+
+    const now = Date.now();
+    const due = jobs.find((job) => NextRunAt(job) <= now);
+
+    if (!due) {
+      const next = Math.min(...jobs.map(NextRunAt));
+      await Sleep(Math.min(next - now, MAX_IDLE_MS));
+      continue;
+    }
+
+    const job = await ClaimIngestionJob(due);
+
+    if (job) {
+      await runAsApiUser(job.user, () => ProcessIngestionJob(job));
+    }
+  }
+};
+
+const NextRunAt = (job: IngestionJobModel) =>
+  job.status === "running" ? job.leaseUntil : job.notBefore;
+
+const FindPendingIngestionJobs = async () => {
+  const querySpec: SqlQuerySpec = {
+    query:
+      "SELECT * FROM root r WHERE r.type=@type AND (r.status=@queued OR r.status=@running)",
+    parameters: [
+      {
+        name: "@type",
+        value: INGESTION_JOB_ATTRIBUTE,
+      },
+      {
+        name: "@queued",
+        value: "queued",
+      },
+      {
+        name: "@running",
+        value: "running",
+      },
+    ],
+  };
+
+  const { resources } = await HistoryContainer()
+    .items.query<IngestionJobModel & { _etag: string }>(querySpec)
+    .fetchAll();
+
+  return resources;
+};
+
+// Another instance may claim the same job, only the first replace succeeds
+const ClaimIngestionJob = async (
+  job: IngestionJobModel & { _etag: string }
+): Promise<IngestionJobModel | undefined> => {
+  try {
+    const { resource } = await HistoryContainer()
+      .item(job.id, job.userId)
+      .replace<IngestionJobModel>(
+        { ...job, status: "running", leaseUntil: Date.now() + LEASE_MS },
+        { accessCondition: { type: "IfMatch", condition: job._etag } }
+      );
+
+    return resource;
+  } catch (error) {
+    if (IsCosmosError(error, 412) || IsCosmosError(error, 404)) {
+      return undefined;
+    }
+
+    throw error;
+  }
+};
+
+const ProcessIngestionJob = async (job: IngestionJobModel) => {
+  if (debug) console.log("ProcessIngestionJob:", job.id, job.stage);
+
+  try {
+    if (job.stage === "analyze") {
+      job = await AnalyzeStage(job);
+    }
+
+    if (job.status !== "failed") {
+      await IndexStage(job);
+    }
+  } catch (error) {
+    // the job was cancelled, its document was removed or queued again
+    if (IsCosmosError(error, 404)) {
+      await DeleteDocumentChunks({
+        chatThreadId: job.chatThreadId,
+        libraryId: job.libraryId,
+        documentId: job.documentId,
+        fileName: job.fileName,
+      });
+      await DeleteBlob(DOCUMENT_CONTAINER_NAME, ChunksBlobPath(job));
+      return;
+    }
+
+    console.error("🔴 Error on ingestion job:", job.id, error);
+    await RetryOrFailIngestionJob(job, `${error}`);
+  }
+};
+
+// Reads the stored file with the loader of its type and saves its chunks.
+// The chunks of an identical file that was indexed before are reused.
+const AnalyzeStage = async (
+  job: IngestionJobModel
+): Promise<IngestionJobModel> => {
+  const known = await FindKnownDocumentChunks(job);
+  let chunks: Array<DocumentChunk>;
+  let pageCount: number | undefined;
+
+  if (known) {
+    ({ chunks, pageCount } = known);
+  } else {
+    const fileResponse = await DownloadBlob(
+      DOCUMENT_CONTAINER_NAME,
+      JobDocumentBlobPath(job)
+    );
+
+    if (fileResponse.status !== "OK") {
+      throw new Error(fileResponse.errors[0].message);
+    }
+
+    const loadResponse = await LoadFile(
+      fileResponse.response,
+      job.fileName,
+      job.contentType
+    );
+
+    if (loadResponse.status !== "OK") {
+      // the file won't be read on a retry either
+      return await FailIngestionJob(
+        job,
+        loadResponse.errors.map((e) => e.message).join("\n")
+      );
+    }
+
+    ({ chunks, pageCount } = loadResponse.response);
+  }
+
+  // chunks of an earlier ingestion of the file are replaced
+  await DeleteDocumentChunks({
+    chatThreadId: job.chatThreadId,
+    libraryId: job.libraryId,
+    documentId: job.documentId,
+    fileName: job.fileName,
+  });
+
+  const uploadResponse = await UploadBlob(
+    DOCUMENT_CONTAINER_NAME,
+    ChunksBlobPath(job),
+    Buffer.from(JSON.stringify(chunks))
+  );
+
+  if (uploadResponse.status !== "OK") {
+    throw new Error(uploadResponse.errors[0].message);
+  }
+
+  await UpdateChatDocument(job, { pageCount, chunkCount: chunks.length });
+
+  return await SaveIngestionJob({
+    ...job,
+    stage: "index",
+    totalChunks: chunks.length,
+    indexedChunks: 0,
+    attempts: 0,
+    error: "",
+  });
+};
+
+// Embeds and uploads the saved chunks in batches, from the last batch that succeeded
+const IndexStage = async (job: IngestionJobModel) => {
+  const chunksResponse = await DownloadBlob(
+    DOCUMENT_CONTAINER_NAME,
+    ChunksBlobPath(job)
+  );
+
+  if (chunksResponse.status !== "OK") {
+    throw new Error(chunksResponse.errors[0].message);
+  }
+
+  const chunks: Array<DocumentChunk> = JSON.parse(
+    chunksResponse.response.toString()
+  );
+
+  for (let i = job.indexedChunks; i < chunks.length; i += INGESTION_BATCH_SIZE) {
+    const responses = await IndexDocuments({
+      fileName: job.fileName,
+      docs: chunks.slice(i, i + INGESTION_BATCH_SIZE),
+      chatThreadId: job.chatThreadId,
+      libraryId: job.libraryId,
+      documentId: job.documentId,
+      startIndex: i,
+    });
+
+    const errors = responses.flatMap((r) =>
+      r.status === "OK" ? [] : r.errors.map((e) => e.message)
+    );
+
+    if (errors.length > 0) {
+      throw new Error(errors.join("\n"));
+    }
+
+    job = await SaveIngestionJob({
+      ...job,
+      indexedChunks: Math.min(i + INGESTION_BATCH_SIZE, chunks.length),
+      attempts: 0,
+      error: "",
+    });
+  }
+
+  await SaveIngestionJob({ ...job, status: "completed" });
+  await UpdateChatDocument(job, { status: "ready" });
+  await DeleteBlob(DOCUMENT_CONTAINER_NAME, ChunksBlobPath(job));
+};
+
+// Chunks of a ready document with the same file that the user of the job
+// uploaded, or that was uploaded to the same library
+const FindKnownDocumentChunks = async (
+  job: IngestionJobModel
+): Promise<
+  { chunks: Array<DocumentChunk>; pageCount?: number } | undefined
+> => {
+  const { resource: document } = await HistoryContainer()
+    .item(job.documentId, job.userId)
+    .read<ChatDocumentModel>();
+
+  if (!document?.contentHash) {
+    return undefined;
+  }
+
+  const querySpec: SqlQuerySpec = {
+    query: `SELECT * FROM root r WHERE r.type=@type AND r.contentHash=@contentHash AND r.id!=@id AND r.isDeleted=@isDeleted AND r.status=@ready AND (r.userId=@userId${
+      job.libraryId ? " OR r.libraryId=@libraryId" : ""
+    })`,
+    parameters: [
+      {
+        name: "@type",
+        value: CHAT_DOCUMENT_ATTRIBUTE,
+      },
+      {
+        name: "@contentHash",
+        value: document.contentHash,
+      },
+      {
+        name: "@id",
+        value: document.id,
+      },
+      {
+        name: "@isDeleted",
+        value: false,
+      },
+      {
+        name: "@ready",
+        value: "ready",
+      },
+      {
+        name: "@userId",
+        value: job.userId,
+      },
+      {
+        name: "@libraryId",
+        value: job.libraryId ?? "",
+      },
+    ],
+  };
+
+  const { resources } = await HistoryContainer()
+    .items.query<ChatDocumentModel>(querySpec)
+    .fetchAll();
+
+  for (const known of resources) {
+    const chunksResponse = await FindDocumentChunks(known.id);
+
+    // documents indexed before they had an id have no chunks to find
+    if (chunksResponse.status === "OK" && chunksResponse.response.length > 0) {
+      if (debug) console.log("Reusing the chunks of document:", known.id);
+
+      return {
+        chunks: chunksResponse.response,
+        pageCount: known.pageCount,
+      };
+    }
+  }
+
+  return undefined;
+};
+
+const RetryOrFailIngestionJob = async (
+  job: IngestionJobModel,
+  error: string
+) => {
+  try {
+    const attempts = job.attempts + 1;
+
+    if (attempts >= MAX_ATTEMPTS) {
+      await FailIngestionJob({ ...job, attempts }, error);
+      return;
+    }
+
+    const delay = IsThrottled(error) ? THROTTLED_RETRY_DELAY_MS : RETRY_DELAY_MS;
+
+    await SaveIngestionJob({
+      ...job,
+      status: "queued",
+      attempts,
+      error,
+      notBefore: Date.now() + delay * 2 ** (attempts - 1),
+    });
+  } catch (e) {
+    // the lease expires and the job is picked up again
+    console.error("🔴 Error on saving ingestion job:", job.id, e);
+  }
+};
+
+const FailIngestionJob = async (job: IngestionJobModel, error: string) => {
+  const failed = await SaveIngestionJob({ ...job, status: "failed", error });
+  await UpdateChatDocument(job, { status: "failed" });
+  return failed;
+};
+
+// Saves the progress and renews the lease, fails with a 404 when the job was cancelled
+const SaveIngestionJob = async (
+  job: IngestionJobModel
+): Promise<IngestionJobModel> => {
+  const { resource } = await HistoryContainer()
+    .item(job.id, job.userId)
+    .replace<IngestionJobModel>({
+      ...job,
+      leaseUntil: job.status === "running" ? Date.now() + LEASE_MS : 0,
+    });
+
+  return resource ?? job;
+};
+
+// The worker has no request to revalidate, the chat reads the status from the progress API
+const UpdateChatDocument = async (
+  job: IngestionJobModel,
+  changes: Partial<ChatDocumentModel>
+) => {
+  const { resource } = await HistoryContainer()
+    .item(job.documentId, job.userId)
+    .read<ChatDocumentModel>();
+
+  if (resource && !resource.isDeleted) {
+    await HistoryContainer().items.upsert<ChatDocumentModel>({
+      ...resource,
+      ...changes,
+    });
+  }
+};
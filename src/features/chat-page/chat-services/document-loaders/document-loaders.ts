@@ -0,0 +1,125 @@
+import "server-only";
+
+import { ServerActionResponse } from "@/features/common/server-action-response";
+import { DocumentIntelligenceInstance } from "@/features/common/services/document-intelligence";
+import {
+  ChunkDocumentBlocks,
+  ChunkDocumentLayout,
+  DocumentBlock,
+} from "../document-chunker";
+import { DOCUMENT_TYPES, DocumentChunk, DocumentType } from "../models";
+import { DocxBlocks } from "./docx-loader";
+import { CsvBlocks, MarkdownBlocks, TextBlocks } from "./text-loaders";
+import { XlsxBlocks } from "./xlsx-loader";
+
+export interface LoadedDocument {
+  chunks: Array<DocumentChunk>;
+  pageCount?: number; // files without pages, e.g. text or spreadsheets, have none
+}
+
+type DocumentLoader =
+  // read on the server, a file that can't be read won't be read on a retry either
+  | { kind: "local"; load: (file: Buffer) => Array<DocumentBlock> }
+  // scanned pages need Azure Document Intelligence, which may be unavailable for a while
+  | { kind: "layout" };
+
+const DOCUMENT_LOADERS: Record<DocumentType, DocumentLoader> = {
+  "application/pdf": { kind: "layout" },
+  "image/jpeg": { kind: "layout" },
+  "image/png": { kind: "layout" },
+  "image/bmp": { kind: "layout" },
+  "image/tiff": { kind: "layout" },
+  "text/plain": { kind: "local", load: TextBlocks },
+  "text/markdown": { kind: "local", load: MarkdownBlocks },
+  "text/csv": { kind: "local", load: CsvBlocks },
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": {
+    kind: "local",
+    load: DocxBlocks,
+  },
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": {
+    kind: "local",
+    load: XlsxBlocks,
+  },
+};
+
+const debug = process.env.DEBUG === "true";
+
+// Type of an uploaded file by its extension, then by the type sent by the browser. Browsers send
+// no type or a generic one for many files, e.g. CSV files are sent as Excel files on Windows.
+export const ResolveDocumentType = (
+  fileName: string,
+  contentType: string
+): DocumentType | undefined => {
+  const extension = fileName.includes(".")
+    ? fileName.slice(fileName.lastIndexOf(".")).toLowerCase()
+    : "";
+
+  const type = (Object.keys(DOCUMENT_TYPES) as Array<DocumentType>).find(
+    (type) => DOCUMENT_TYPES[type].includes(extension)
+  );
+
+  if (type) {
+    return type;
+  }
+
+  return contentType in DOCUMENT_TYPES
+    ? (contentType as DocumentType)
+    : undefined;
+};
+
+export const UnsupportedDocumentMessage = (fileName: string) =>
+  `${fileName} is not supported, upload a ${Object.values(DOCUMENT_TYPES)
+    .flat()
+    .join(", ")} file.`;
+
+// Reads the chunks of a file with the loader of its type. Errors of Document Intelligence
+// are thrown so that the ingestion is retried, files that can't be read return an error.
+export const LoadFile = async (
+  file: Buffer,
+  fileName: string,
+  contentType: string
+): Promise<ServerActionResponse<LoadedDocument>> => {
+  const type = ResolveDocumentType(fileName, contentType);
+
+  if (!type) {
+    console.error("LoadFile: Unsupported file type.", fileName, contentType);
+    return {
+      status: "ERROR",
+      errors: [{ message: UnsupportedDocumentMessage(fileName) }],
+    };
+  }
+
+  const loader = DOCUMENT_LOADERS[type];
+
+  if (loader.kind === "layout") {
+    return { status: "OK", response: await LoadLayout(file) };
+  }
+
+  try {
+    if (debug) console.log("LoadFile: Reading file as", type);
+    return {
+      status: "OK",
+      response: { chunks: ChunkDocumentBlocks(loader.load(file)) },
+    };
+  } catch (e) {
+    console.error("LoadFile error:", e);
+    return {
+      status: "ERROR",
+      errors: [{ message: `${fileName} could not be read. ${e}` }],
+    };
+  }
+};
+
+const LoadLayout = async (file: Buffer): Promise<LoadedDocument> => {
+  const client = DocumentIntelligenceInstance();
+
+  if (debug) console.log("LoadLayout: Beginning document analysis.");
+  const poller = await client.beginAnalyzeDocument("prebuilt-layout", file);
+  const result = await poller.pollUntilDone();
+
+  if (debug) console.log("LoadLayout: Document analysis completed successfully.");
+  return {
+    chunks: ChunkDocumentLayout(result),
+    pageCount: result.pages?.length ?? 0,
+  };
+};
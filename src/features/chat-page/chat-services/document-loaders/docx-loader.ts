@@ -0,0 +1,104 @@
+import "server-only";
+
+import { DocumentBlock, TableBlock, TextBlock } from "../document-chunker";
+import {
+  OpenOfficeFile,
+  ReadPart,
+  XmlAttribute,
+  XmlElements,
+  XmlText,
+} from "./office-file";
+
+// Paragraphs and tables of the body of a Word document, in order.
+// Paragraphs with a heading style start a section and list items keep their bullet.
+export const DocxBlocks = (file: Buffer): Array<DocumentBlock> => {
+  const officeFile = OpenOfficeFile(file);
+  const headingStyles = HeadingStyles(ReadPart(officeFile, "word/styles.xml"));
+  const body = XmlElements(
+    ReadPart(officeFile, "word/document.xml"),
+    "w:body"
+  )[0];
+
+  if (!body) {
+    throw new Error("The file is not a valid Word document.");
+  }
+
+  const blocks: Array<DocumentBlock> = [];
+
+  for (const element of XmlElements(body, "w:p|w:tbl")) {
+    if (element.startsWith("<w:tbl")) {
+      const rows = XmlElements(element, "w:tr");
+
+      if (rows.length > 0) {
+        blocks.push(TableBlock(rows.map(TableRowCells), HeaderRowCount(rows)));
+      }
+
+      continue;
+    }
+
+    const text = ParagraphText(element).trim();
+
+    if (!text) {
+      continue;
+    }
+
+    const properties = XmlElements(element, "w:pPr")[0] ?? "";
+    const style = XmlElements(properties, "w:pStyle")[0];
+    const isHeading =
+      /<w:outlineLvl\b/.test(properties) ||
+      (style !== undefined &&
+        headingStyles.includes(XmlAttribute(style, "w:val") ?? ""));
+
+    if (isHeading) {
+      blocks.push(TextBlock("heading", text));
+    } else if (/<w:numPr\b/.test(properties)) {
+      blocks.push(TextBlock("paragraph", `- ${text}`));
+    } else {
+      blocks.push(TextBlock("paragraph", text));
+    }
+  }
+
+  return blocks;
+};
+
+// Ids of the paragraph styles that are headings, their names don't depend on the language of Word
+const HeadingStyles = (styles: string) =>
+  XmlElements(styles, "w:style")
+    .filter((style) => {
+      const name = XmlAttribute(XmlElements(style, "w:name")[0] ?? "", "w:val");
+      return (
+        /^(heading \d|title)$/i.test(name ?? "") ||
+        /<w:outlineLvl\b/.test(style)
+      );
+    })
+    .map((style) => XmlAttribute(style, "w:styleId") ?? "");
+
+const ParagraphText = (paragraph: string) =>
+  XmlText(
+    paragraph
+      // tab stops of the paragraph properties are not tabs
+      .replace(/<w:pPr\b[\s\S]*?<\/w:pPr>/, "")
+      .replace(/<w:tab\b[^>]*\/>/g, "<w:t>\t</w:t>")
+      .replace(/<w:(br|cr)\b[^>]*\/>/g, "<w:t>\n</w:t>"),
+    "w:t"
+  );
+
+// Merged cells are followed by empty ones so that the columns stay aligned
+const TableRowCells = (row: string) =>
+  XmlElements(row, "w:tc").flatMap((cell) => {
+    const text = XmlElements(cell, "w:p")
+      .map((p) => ParagraphText(p).trim())
+      .filter((p) => p)
+      .join(" ");
+    const span = Number(
+      XmlAttribute(XmlElements(cell, "w:gridSpan")[0] ?? "", "w:val") ?? 1
+    );
+
+    return [text, ...Array.from({ length: span - 1 }, () => "")];
+  });
+
+// Rows repeated on every page of the table are its header
+const HeaderRowCount = (rows: Array<string>) => {
+  const count = rows.findIndex((row) => !/<w:tblHeader\b/.test(row));
+  return count < 0 ? rows.length : Math.max(count, 1);
+};
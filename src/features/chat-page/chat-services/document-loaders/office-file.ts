@@ -0,0 +1,204 @@
+import "server-only";
+
+import { inflateRawSync } from "zlib";
+
+// Word and Excel files are zip archives of XML parts.
+// Only what the loaders need is read: stored or deflated entries, no zip64.
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const INVALID_FILE_MESSAGE = "The file is not a valid Office document.";
+
+// Parts are inflated in memory, a small archive can expand to gigabytes.
+// Larger parts and files are refused.
+const MAX_PART_SIZE = 50 * 1024 * 1024;
+const MAX_UNCOMPRESSED_SIZE = 200 * 1024 * 1024;
+
+const TOO_LARGE_MESSAGE =
+  "The content of the Office document is too large to be read.";
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number; // as declared by the archive, checked when inflated
+  headerOffset: number;
+}
+
+export interface OfficeFile {
+  data: Buffer;
+  entries: Record<string, ZipEntry>; // by part name, e.g. word/document.xml
+  bytesRead: number; // uncompressed size of the parts read so far
+}
+
+export const OpenOfficeFile = (data: Buffer): OfficeFile => {
+  const end = FindEndOfCentralDirectory(data);
+  const entryCount = data.readUInt16LE(end + 10);
+  const entries: Record<string, ZipEntry> = {};
+
+  let offset = data.readUInt32LE(end + 16);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (data.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error(INVALID_FILE_MESSAGE);
+    }
+
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const name = data.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    entries[name] = {
+      method: data.readUInt16LE(offset + 10),
+      compressedSize: data.readUInt32LE(offset + 20),
+      uncompressedSize: data.readUInt32LE(offset + 24),
+      headerOffset: data.readUInt32LE(offset + 42),
+    };
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return { data, entries, bytesRead: 0 };
+};
+
+// Content of an XML part, empty when the file doesn't have it
+export const ReadPart = (file: OfficeFile, name: string) => {
+  const entry = file.entries[name];
+
+  if (!entry) {
+    return "";
+  }
+
+  file.bytesRead += entry.uncompressedSize;
+
+  if (
+    entry.uncompressedSize > MAX_PART_SIZE ||
+    file.bytesRead > MAX_UNCOMPRESSED_SIZE
+  ) {
+    throw new Error(TOO_LARGE_MESSAGE);
+  }
+
+  return ReadEntry(file.data, entry).toString("utf8");
+};
+
+// Elements of the XML with one of the tags, e.g. "w:p|w:tbl", in document order.
+// Elements nested in one with the same tag are part of it, e.g. a table in a table cell.
+export const XmlElements = (xml: string, tags: string): Array<string> => {
+  const elements: Array<string> = [];
+  const open = new RegExp(`<(${tags})(?=[\\s/>])`, "g");
+
+  let match: RegExpExecArray | null;
+
+  while ((match = open.exec(xml))) {
+    const end = XmlElementEnd(xml, match.index, match[1]);
+    elements.push(xml.slice(match.index, end));
+    open.lastIndex = end;
+  }
+
+  return elements;
+};
+
+export const XmlAttribute = (element: string, name: string) => {
+  const tagEnd = element.indexOf(">");
+  const match = element
+    .slice(0, tagEnd < 0 ? undefined : tagEnd)
+    .match(new RegExp(`\\s${name}="([^"]*)"`));
+
+  return match ? DecodeXml(match[1]) : undefined;
+};
+
+// Text of the <t> elements of a Word run or an Excel string, in order
+export const XmlText = (xml: string, tag: string) =>
+  XmlElements(xml, tag)
+    .map((element) => DecodeXml(element.replace(/^<[^>]*>|<\/[^>]*>$/g, "")))
+    .join("");
+
+export const DecodeXml = (text: string) =>
+  text
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) =>
+      String.fromCodePoint(parseInt(code, 16))
+    )
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+
+const XmlElementEnd = (xml: string, start: number, tag: string) => {
+  const open = new RegExp(`<${tag}(?=[\\s/>])`, "g");
+  const close = `</${tag}>`;
+
+  let depth = 0;
+  let position = start;
+
+  do {
+    open.lastIndex = position;
+    const nextOpen = open.exec(xml);
+    const nextClose = xml.indexOf(close, position);
+
+    if (nextOpen && (nextClose < 0 || nextOpen.index < nextClose)) {
+      const tagEnd = xml.indexOf(">", nextOpen.index);
+
+      if (tagEnd < 0) {
+        return xml.length;
+      }
+
+      // self-closing elements have no content
+      depth += xml[tagEnd - 1] === "/" ? 0 : 1;
+      position = tagEnd + 1;
+    } else if (nextClose >= 0) {
+      depth--;
+      position = nextClose + close.length;
+    } else {
+      return xml.length;
+    }
+  } while (depth > 0);
+
+  return position;
+};
+
+const FindEndOfCentralDirectory = (data: Buffer) => {
+  // the record is followed by a comment of at most 64 KB
+  const min = Math.max(0, data.length - 22 - 0xffff);
+
+  for (let offset = data.length - 22; offset >= min; offset--) {
+    if (data.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+
+  throw new Error(INVALID_FILE_MESSAGE);
+};
+
+const ReadEntry = (data: Buffer, entry: ZipEntry) => {
+  const { headerOffset, compressedSize, uncompressedSize, method } = entry;
+
+  if (data.readUInt32LE(headerOffset) !== LOCAL_FILE_HEADER) {
+    throw new Error(INVALID_FILE_MESSAGE);
+  }
+
+  const nameLength = data.readUInt16LE(headerOffset + 26);
+  const extraLength = data.readUInt16LE(headerOffset + 28);
+  const start = headerOffset + 30 + nameLength + extraLength;
+  const content = data.subarray(start, start + compressedSize);
+
+  switch (method) {
+    case 0:
+      return content.subarray(0, uncompressedSize);
+    case 8:
+      try {
+        // an entry that inflates past its declared size is refused
+        return inflateRawSync(content, {
+          maxOutputLength: Math.max(uncompressedSize, 1),
+        });
+      } catch (e) {
+        throw new Error(
+          e instanceof RangeError ? TOO_LARGE_MESSAGE : INVALID_FILE_MESSAGE
+        );
+      }
+    default:
+      throw new Error(`Unsupported compression method ${method}.`);
+  }
+};
@@ -0,0 +1,152 @@
+import "server-only";
+
+import { DocumentBlock, TableBlock, TextBlock } from "../document-chunker";
+
+// Paragraphs are separated by blank lines
+export const TextBlocks = (file: Buffer): Array<DocumentBlock> =>
+  Paragraphs(DecodeText(file)).map((p) => TextBlock("paragraph", p));
+
+// Headings, pipe tables and paragraphs. Code blocks are kept whole so that
+// their comments are not read as headings.
+export const MarkdownBlocks = (file: Buffer): Array<DocumentBlock> => {
+  const blocks: Array<DocumentBlock> = [];
+  const lines = DecodeText(file).split(/\r?\n/);
+
+  let text: Array<string> = [];
+
+  const flushText = () => {
+    blocks.push(
+      ...Paragraphs(text.join("\n")).map((p) => TextBlock("paragraph", p))
+    );
+    text = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const heading = line.match(/^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/);
+
+    if (heading) {
+      flushText();
+      blocks.push(TextBlock("heading", heading[1]));
+      continue;
+    }
+
+    const fence = line.match(/^\s{0,3}(```|~~~)/);
+
+    if (fence) {
+      flushText();
+      const end = lines.findIndex(
+        (l, index) => index > i && l.trim().startsWith(fence[1])
+      );
+      const last = end < 0 ? lines.length - 1 : end;
+
+      blocks.push(TextBlock("paragraph", lines.slice(i, last + 1).join("\n")));
+      i = last;
+      continue;
+    }
+
+    if (IsTableRow(line) && IsTableSeparator(lines[i + 1] ?? "")) {
+      flushText();
+      const rows = [line];
+      i += 2;
+
+      while (i < lines.length && IsTableRow(lines[i])) {
+        rows.push(lines[i]);
+        i++;
+      }
+
+      i--;
+      blocks.push(TableBlock(rows.map(TableRowCells), 1));
+      continue;
+    }
+
+    text.push(line);
+  }
+
+  flushText();
+
+  return blocks;
+};
+
+// The first row is the header, the delimiter is the one of the header row
+export const CsvBlocks = (file: Buffer): Array<DocumentBlock> => {
+  const text = DecodeText(file);
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length
+      ? candidate
+      : best
+  );
+
+  const rows = ParseCsv(text, delimiter).filter((row) =>
+    row.some((cell) => cell.trim())
+  );
+
+  return rows.length > 0 ? [TableBlock(rows, 1)] : [];
+};
+
+// UTF-8 with or without a byte order mark
+const DecodeText = (file: Buffer) =>
+  file.toString("utf8").replace(/^\uFEFF/, "");
+
+const Paragraphs = (text: string) =>
+  text
+    .split(/\r?\n\s*\r?\n/)
+    .map((p) => p.trim())
+    .filter((p) => p);
+
+const IsTableRow = (line: string) => /^\s*\|.*\|\s*$/.test(line);
+
+const IsTableSeparator = (line: string) =>
+  /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/.test(line);
+
+const TableRowCells = (line: string) =>
+  line
+    .trim()
+    .replace(/^\||\|$/g, "")
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim().replace(/\\\|/g, "|"));
+
+// Quoted fields may contain delimiters, line breaks and "" for a quote
+const ParseCsv = (text: string, delimiter: string): Array<Array<string>> => {
+  const rows: Array<Array<string>> = [];
+  let row: Array<string> = [];
+  let field = "";
+  let isQuoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (isQuoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        isQuoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      isQuoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+
+      rows.push([...row, field]);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    rows.push([...row, field]);
+  }
+
+  return rows;
+};
@@ -0,0 +1,115 @@
+import "server-only";
+
+import { DocumentBlock, TableBlock, TextBlock } from "../document-chunker";
+import {
+  OpenOfficeFile,
+  ReadPart,
+  XmlAttribute,
+  XmlElements,
+  XmlText,
+} from "./office-file";
+
+// Every visible sheet of an Excel workbook becomes a section with its cells as a table,
+// the first row being the header. Cells keep the value Excel saved, formulas are not computed.
+export const XlsxBlocks = (file: Buffer): Array<DocumentBlock> => {
+  const officeFile = OpenOfficeFile(file);
+  const workbook = ReadPart(officeFile, "xl/workbook.xml");
+  const relations = XmlElements(
+    ReadPart(officeFile, "xl/_rels/workbook.xml.rels"),
+    "Relationship"
+  );
+  const sharedStrings = XmlElements(
+    ReadPart(officeFile, "xl/sharedStrings.xml"),
+    "si"
+  ).map((item) => XmlText(item, "t"));
+
+  if (!workbook) {
+    throw new Error("The file is not a valid Excel workbook.");
+  }
+
+  const blocks: Array<DocumentBlock> = [];
+
+  for (const sheet of XmlElements(workbook, "sheet")) {
+    // generators write state="visible" on every sheet
+    const state = XmlAttribute(sheet, "state");
+    if (state === "hidden" || state === "veryHidden") {
+      continue;
+    }
+
+    const relationId = XmlAttribute(sheet, "r:id");
+    const relation = relations.find(
+      (r) => XmlAttribute(r, "Id") === relationId
+    );
+    const target = XmlAttribute(relation ?? "", "Target") ?? "";
+    // targets are relative to the workbook or absolute in the package
+    const path = target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+
+    const grid = SheetGrid(ReadPart(officeFile, path), sharedStrings);
+
+    if (grid.length > 0) {
+      blocks.push(TextBlock("heading", XmlAttribute(sheet, "name") ?? ""));
+      blocks.push(TableBlock(grid, 1));
+    }
+  }
+
+  return blocks;
+};
+
+// Cells by row and column, without the empty rows and columns around the data
+const SheetGrid = (
+  sheet: string,
+  sharedStrings: Array<string>
+): Array<Array<string>> => {
+  const grid: Array<Array<string>> = [];
+
+  for (const row of XmlElements(sheet, "row")) {
+    const rowIndex = Number(XmlAttribute(row, "r") ?? grid.length + 1) - 1;
+    let columnIndex = 0;
+
+    for (const cell of XmlElements(row, "c")) {
+      const reference = XmlAttribute(cell, "r");
+      columnIndex = reference ? ColumnIndex(reference) : columnIndex;
+
+      const value = CellValue(cell, sharedStrings);
+
+      if (value) {
+        grid[rowIndex] = grid[rowIndex] ?? [];
+        grid[rowIndex][columnIndex] = value;
+      }
+
+      columnIndex++;
+    }
+  }
+
+  const rows = Array.from(grid, (row) => Array.from(row ?? [], (c) => c ?? ""));
+  const firstColumn = rows.reduce((min, row) => {
+    const index = row.findIndex((c) => c);
+    return index < 0 ? min : Math.min(min, index);
+  }, Infinity);
+
+  return rows
+    .filter((row) => row.some((c) => c))
+    .map((row) => row.slice(firstColumn));
+};
+
+const CellValue = (cell: string, sharedStrings: Array<string>) => {
+  const type = XmlAttribute(cell, "t");
+  const value = XmlText(cell, "v");
+
+  switch (type) {
+    case "s":
+      return sharedStrings[Number(value)] ?? "";
+    case "inlineStr":
+      return XmlText(XmlElements(cell, "is")[0] ?? "", "t");
+    case "b":
+      return value === "1" ? "TRUE" : "FALSE";
+    default:
+      return value;
+  }
+};
+
+// "C12" is the third column
+const ColumnIndex = (reference: string) =>
+  (reference.match(/^[A-Z]+/)?.[0] ?? "A")
+    .split("")
+    .reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
@@ -1,9 +1,22 @@
+import {
+  CheckRateLimit,
+  RateLimitMessage,
+} from "@/features/usage-page/usage-services/rate-limiter";
 import {
   GetImageFromStore,
   GetThreadAndImageFromUrl,
 } from "./chat-image-service";
 
 export const ImageAPIEntry = async (request: Request): Promise<Response> => {
+  const rateLimit = await CheckRateLimit("images");
+
+  if (!rateLimit.allowed) {
+    return new Response(RateLimitMessage(rateLimit), {
+      status: 429,
+      headers: { "Retry-After": `${rateLimit.retryAfter}` },
+    });
+  }
+
   const urlPath = request.url;
 
   const response = GetThreadAndImageFromUrl(urlPath);
@@ -0,0 +1,79 @@
+import { ChatMessageModel } from "./models";
+
+// Messages form a tree through parentId, editing or regenerating a message creates a sibling branch.
+// Messages saved before parentId existed are chained to the previous message by creation date.
+export const normalizeMessageTree = (
+  messages: ChatMessageModel[]
+): ChatMessageModel[] => {
+  const sorted = [...messages].sort(byCreatedAt);
+
+  return sorted.map((message, index) => {
+    if (message.parentId !== undefined) {
+      return message;
+    }
+
+    return {
+      ...message,
+      parentId: index === 0 ? "" : sorted[index - 1].id,
+    };
+  });
+};
+
+// Returns the messages from the root to the leaf, oldest first.
+// Without a leaf the most recent message is used, an empty leaf id is the root of the thread.
+export const activeBranch = (
+  messages: ChatMessageModel[],
+  leafId?: string
+): ChatMessageModel[] => {
+  if (leafId === "") {
+    return [];
+  }
+
+  const normalized = normalizeMessageTree(messages);
+  const byId = new Map(normalized.map((m) => [m.id, m]));
+
+  let current: ChatMessageModel | undefined =
+    (leafId !== undefined ? byId.get(leafId) : undefined) ??
+    normalized[normalized.length - 1];
+
+  const branch: ChatMessageModel[] = [];
+  const visited = new Set<string>();
+
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    branch.unshift(current);
+    current = byId.get(current.parentId ?? "");
+  }
+
+  return branch;
+};
+
+// All alternatives of a message, including the message itself, oldest first
+export const siblingsOf = (
+  messages: ChatMessageModel[],
+  message: ChatMessageModel
+): ChatMessageModel[] => {
+  return normalizeMessageTree(messages).filter(
+    (m) => m.parentId === message.parentId
+  );
+};
+
+// Follows the most recent child from the message down to the end of its branch
+export const latestLeaf = (
+  messages: ChatMessageModel[],
+  messageId: string
+): string => {
+  const normalized = normalizeMessageTree(messages);
+  let leafId = messageId;
+  let children = normalized.filter((m) => m.parentId === leafId);
+
+  while (children.length > 0) {
+    leafId = children[children.length - 1].id;
+    children = normalized.filter((m) => m.parentId === leafId);
+  }
+
+  return leafId;
+};
+
+const byCreatedAt = (a: ChatMessageModel, b: ChatMessageModel) =>
+  new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
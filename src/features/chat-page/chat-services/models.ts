@@ -1,10 +1,24 @@
+import type { UserModel } from "@/features/auth-page/helpers";
+import type {
+  RetrievalOptions,
+  RetrievalOverrides,
+} from "@/features/model-page/model-services/models";
 import { ChatCompletionSnapshot } from "openai/lib/ChatCompletionStream";
-import { ChatCompletionMessage } from "openai/resources/chat/completions";
+import {
+  ChatCompletionMessage,
+  ChatCompletionMessageToolCall,
+} from "openai/resources/chat/completions";
+import { z } from "zod";
 
 export const CHAT_DOCUMENT_ATTRIBUTE = "CHAT_DOCUMENT";
 export const CHAT_THREAD_ATTRIBUTE = "CHAT_THREAD";
 export const MESSAGE_ATTRIBUTE = "CHAT_MESSAGE";
 export const CHAT_CITATION_ATTRIBUTE = "CHAT_CITATION";
+export const CHAT_FEEDBACK_ATTRIBUTE = "CHAT_FEEDBACK";
+export const PROMPT_INJECTION_ATTRIBUTE = "PROMPT_INJECTION";
+export const INGESTION_JOB_ATTRIBUTE = "INGESTION_JOB";
+export const RETRIEVAL_DIAGNOSTICS_ATTRIBUTE = "RETRIEVAL_DIAGNOSTICS";
+export const SEARCH_INDEX_ATTRIBUTE = "SEARCH_INDEX";
 
 export interface ChatMessageModel {
   id: string;
@@ -16,9 +30,122 @@ export interface ChatMessageModel {
   role: ChatRole;
   name: string;
   multiModalImage?: string;
+  parentId?: string; // previous message in the branch, empty for the first message of the thread
+  toolCalls?: Array<ChatCompletionMessageToolCall>; // tools the assistant called in this message
+  toolCallId?: string; // for tool messages, the call this message is the result of
+  contentFilter?: Array<ContentFilterResult>; // annotations of the Azure content filter for this turn
+  followUps?: Array<string>; // questions suggested after an answer
+  searchQueries?: Array<string>; // queries the documents were searched with for an answer
   type: typeof MESSAGE_ATTRIBUTE;
 }
 
+// one category the Azure content filter flagged, for the prompt or the completion
+export interface ContentFilterResult {
+  source: "prompt" | "completion";
+  category: string; // hate, sexual, violence, self_harm, jailbreak, protected_material_text, ...
+  severity: string; // safe, low, medium or high, detected for the categories without a severity
+  filtered: boolean; // the content was blocked, not only annotated
+}
+
+export type PromptInjectionAction = "drop" | "quarantine";
+
+// retrieved document content or a tool result that was flagged as a possible prompt injection
+export interface PromptInjectionModel {
+  id: string;
+  threadId: string;
+  source: "document" | "tool";
+  name: string; // file name or tool name
+  reference: string; // citation id of the document, empty for tools
+  detector: "heuristics" | "prompt-shields";
+  reasons: Array<string>; // heuristics that matched
+  action: PromptInjectionAction;
+  content: string; // flagged content, only kept when it is quarantined
+  userId: string;
+  useName: string;
+  createdAt: Date;
+  type: typeof PROMPT_INJECTION_ATTRIBUTE;
+}
+
+// A chunk found by a document search and what became of it
+export interface RetrievalCandidate {
+  chunkId: string;
+  documentId: string;
+  fileName: string;
+  pageStart?: number;
+  keywordRank?: number; // 1 is the best, missing when the keyword search didn't find it
+  vectorRank?: number; // 1 is the best, missing when the vector search didn't find it
+  fusedScore: number; // weighted reciprocal rank of the keyword and vector ranks
+  similarity: number; // cosine similarity of the chunk and the question
+  rerankerScore?: number; // 0 to 4, when the semantic ranker was used
+  rank?: number; // position in the answer context, missing when the chunk was left out
+  outcome: "selected" | "below-min-score" | "not-selected";
+  // missing when the chunk was not given to the model, e.g. selected for a
+  // query but left out when the results of several queries were merged
+  citationId?: string;
+}
+
+// Scores and ranks of a document search, kept so that the retrieval settings can be tuned
+export interface RetrievalDiagnosticsModel {
+  id: string;
+  threadId: string;
+  query: string;
+  options: RetrievalOptions; // settings of the admin with the overrides of the persona
+  semanticRanked: boolean; // false when the semantic ranker was off or failed
+  candidates: Array<RetrievalCandidate>;
+  userId: string;
+  createdAt: Date;
+  type: typeof RETRIEVAL_DIAGNOSTICS_ATTRIBUTE;
+}
+
+export type FeedbackRating = "up" | "down";
+
+// reason categories offered for each rating, "other" asks the user to explain in the comment
+export const FEEDBACK_REASONS: Record<
+  FeedbackRating,
+  Array<{ value: string; label: string }>
+> = {
+  up: [
+    { value: "accurate", label: "Accurate" },
+    { value: "helpful", label: "Helpful" },
+    { value: "well_sourced", label: "Well sourced" },
+    { value: "other", label: "Other" },
+  ],
+  down: [
+    { value: "incorrect", label: "Incorrect" },
+    { value: "incomplete", label: "Incomplete" },
+    { value: "outdated", label: "Outdated" },
+    { value: "not_relevant", label: "Not relevant" },
+    { value: "unsafe", label: "Harmful or unsafe" },
+    { value: "other", label: "Other" },
+  ],
+};
+
+export type ChatFeedbackModel = z.infer<typeof ChatFeedbackModelSchema>;
+
+// rating of one assistant message, a user has at most one feedback per message
+export const ChatFeedbackModelSchema = z
+  .object({
+    id: z.string(),
+    messageId: z.string().min(1, "Message is required"),
+    threadId: z.string().min(1, "Chat thread is required"),
+    rating: z.enum(["up", "down"]),
+    reason: z.string(), // empty until the user picks a category
+    comment: z.string().max(2000, "Comment must be 2000 characters or less"),
+    personaMessageTitle: z.string(), // persona of the thread, for filtering the report
+    userId: z.string(),
+    useName: z.string(),
+    createdAt: z.date(),
+    type: z.literal(CHAT_FEEDBACK_ATTRIBUTE),
+  })
+  .refine(
+    (feedback) =>
+      feedback.reason === "" ||
+      FEEDBACK_REASONS[feedback.rating].some(
+        (r) => r.value === feedback.reason
+      ),
+    "Select a reason that matches the rating"
+  );
+
 export type ChatRole = "system" | "user" | "assistant" | "function" | "tool";
 
 export interface ChatThreadModel {
@@ -33,23 +160,173 @@ export interface ChatThreadModel {
   personaMessage: string;
   personaMessageTitle: string;
   extension: string[];
+  libraryIds?: string[]; // knowledge libraries searched with the documents of the chat
+  retrieval?: RetrievalOverrides; // retrieval settings of the persona the chat was started from
+  modelId?: string; // id of the selected model deployment, the default model is used when empty
+  summary?: string; // running summary of the messages that no longer fit in the context window
+  // last message of the summarized branch, the summary is only used for the branches through it
+  summarizedMessageId?: string;
+  activeMessageId?: string; // last message of the branch the user is currently viewing
   type: typeof CHAT_THREAD_ATTRIBUTE;
 }
 
+// auto lets the model combine documents, extensions and images in a single turn
+export type ChatMode = "auto" | "documents" | "tools" | "chat";
+
 export interface UserPrompt {
   id: string; // thread id
   message: string;
   multimodalImage: string;
+  chatMode?: ChatMode;
+  parentId?: string; // message the prompt follows, defaults to the active branch of the thread
+  regenerate?: boolean; // answer the user message in parentId again instead of adding a new prompt
+}
+
+// part of an uploaded document that is embedded and indexed on its own
+export interface DocumentChunk {
+  content: string;
+  pageStart: number; // 1-based, 0 for files without pages, e.g. text or spreadsheets
+  pageEnd: number;
+  sectionTitle: string; // heading the chunk belongs to, empty before the first heading
+  regions: Array<DocumentRegion>;
+}
+
+// Area of a page the chunk was read from, as fractions of the page size so
+// that it can be drawn over the page at any zoom
+export interface DocumentRegion {
+  pageNumber: number;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  pageRatio: number; // width / height of the page
 }
 
 export interface ChatDocumentModel {
   id: string;
   name: string;
-  chatThreadId: string;
+  chatThreadId: string; // empty for the documents of a knowledge library
+  libraryId?: string;
   userId: string;
   isDeleted: boolean;
   createdAt: Date;
   type: typeof CHAT_DOCUMENT_ATTRIBUTE;
+  // missing on documents uploaded before files were kept and managed one by one
+  contentType?: string;
+  size?: number; // bytes
+  pageCount?: number;
+  chunkCount?: number;
+  status?: ChatDocumentStatus;
+  isEnabled?: boolean; // disabled documents are kept but not searched
+  contentHash?: string; // SHA-256 of the file, identical uploads are detected with it
+}
+
+export type ChatDocumentStatus = "processing" | "ready" | "failed";
+
+// documents are uploaded to a chat thread or to a knowledge library
+export type DocumentScope = { chatThreadId: string } | { libraryId: string };
+
+// Files that can be uploaded to a chat by MIME type. The extensions are used
+// when the browser doesn't know the type, e.g. for Markdown on most systems.
+export const DOCUMENT_TYPES = {
+  "application/pdf": [".pdf"],
+  "image/jpeg": [".jpg", ".jpeg"],
+  "image/png": [".png"],
+  "image/bmp": [".bmp"],
+  "image/tiff": [".tif", ".tiff"],
+  "text/plain": [".txt"],
+  "text/markdown": [".md", ".markdown"],
+  "text/csv": [".csv"],
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": [
+    ".docx",
+  ],
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [
+    ".xlsx",
+  ],
+};
+
+export type DocumentType = keyof typeof DOCUMENT_TYPES;
+
+// accept attribute of the file input
+export const DOCUMENT_ACCEPT = Object.entries(DOCUMENT_TYPES)
+  .flatMap(([type, extensions]) => [type, ...extensions])
+  .join(",");
+
+export type IngestionJobStatus = "queued" | "running" | "completed" | "failed";
+
+// analyze reads the stored file and saves its chunks, index embeds and uploads them
+export type IngestionStage = "analyze" | "index";
+
+// Ingestion of an uploaded file, processed on the server by the ingestion worker.
+// Every stage is saved so that a restarted server continues where it stopped.
+export interface IngestionJobModel {
+  id: string;
+  documentId: string;
+  chatThreadId: string;
+  libraryId?: string;
+  fileName: string;
+  contentType: string;
+  userId: string;
+  user: UserModel; // the worker runs the job as the user that started it
+  status: IngestionJobStatus;
+  stage: IngestionStage;
+  totalChunks: number;
+  indexedChunks: number;
+  attempts: number; // failed attempts of the current stage
+  notBefore: number; // epoch ms, a retried job waits for its backoff
+  leaseUntil: number; // epoch ms, a running job past its lease was left by a stopped worker
+  error: string;
+  createdAt: Date;
+  type: typeof INGESTION_JOB_ATTRIBUTE;
+}
+
+// Search index the chunks are stored in, with the schema it was created with
+// and the embedding model its vectors come from
+export interface SearchIndexVersion {
+  name: string;
+  schemaVersion: number;
+  dimensions: number;
+  embeddingModel: string; // empty for an index adopted with an unknown model
+}
+
+export type IndexMigrationStatus = "queued" | "running" | "failed";
+
+// Copy of the chunks to an index of the current schema and embedding model.
+// The documents are copied in the order of their id, from the one after "after".
+export interface IndexMigration {
+  target: SearchIndexVersion;
+  status: IndexMigrationStatus;
+  after: string; // id of the last document copied
+  migratedChunks: number;
+  attempts: number;
+  notBefore: number; // epoch ms
+  leaseUntil: number; // epoch ms
+  error: string;
+  startedAt: Date;
+}
+
+// Single record in the config container. Searches read the active index,
+// chunks are written to the target of the migration as well.
+export interface SearchIndexStateModel {
+  id: string;
+  active: SearchIndexVersion;
+  migration?: IndexMigration;
+  previous?: SearchIndexVersion; // no longer read, kept until it is deleted by hand
+  generation: number; // numbers the names of the migrated indexes
+  userId: string;
+  createdAt: Date;
+  type: typeof SEARCH_INDEX_ATTRIBUTE;
+}
+
+// returned by the progress API for each file of a chat
+export interface DocumentIngestionProgress {
+  documentId: string;
+  name: string;
+  status: ChatDocumentStatus;
+  stage?: IngestionStage;
+  indexedChunks: number;
+  totalChunks: number;
+  error: string;
 }
 
 export interface ToolsInterface {
@@ -101,7 +378,52 @@ export type AzureChatCompletionAbort = {
   response: string;
 };
 
+// first event of every generation, identifies the run to resume after a dropped connection
+export type AzureChatCompletionRun = {
+  type: "run";
+  response: string;
+};
+
+// the request was rejected by the rate limiter, retryAfter is in seconds
+export type AzureChatCompletionRateLimit = {
+  type: "rateLimit";
+  response: {
+    message: string;
+    retryAfter: number;
+  };
+};
+
+// the content filter blocked or annotated the turn, sent before the event that ends the run
+export type AzureChatCompletionContentFilter = {
+  type: "contentFilter";
+  response: Array<ContentFilterResult>;
+};
+
+// sent after finalContent, once the title of a new thread is generated
+export type AzureChatCompletionTitle = {
+  type: "title";
+  response: string;
+};
+
+// sent after finalContent, questions the user may ask about the answer
+export type AzureChatCompletionFollowUps = {
+  type: "followUps";
+  response: Array<string>;
+};
+
+// sent when the documents are searched, every query of the turn so far
+export type AzureChatCompletionSearchQueries = {
+  type: "searchQueries";
+  response: Array<string>;
+};
+
 export type AzureChatCompletion =
+  | AzureChatCompletionSearchQueries
+  | AzureChatCompletionRun
+  | AzureChatCompletionTitle
+  | AzureChatCompletionFollowUps
+  | AzureChatCompletionContentFilter
+  | AzureChatCompletionRateLimit
   | AzureChatCompletionError
   | AzureChatCompletionFunctionCall
   | AzureChatCompletionFunctionCallResult
@@ -0,0 +1,111 @@
+import "server-only";
+
+import { userHashedId } from "@/features/auth-page/helpers";
+import { HistoryContainer } from "@/features/common/services/cosmos";
+import { uniqueId } from "@/features/common/util";
+import {
+  DEFAULT_RETRIEVAL_OPTIONS,
+  RetrievalOptions,
+} from "@/features/model-page/model-services/models";
+import { FindRetrievalSettings } from "@/features/model-page/model-services/retrieval-service";
+import { RetrievalResult } from "./azure-ai-search/azure-ai-search";
+import {
+  ChatThreadModel,
+  RETRIEVAL_DIAGNOSTICS_ATTRIBUTE,
+  RetrievalDiagnosticsModel,
+} from "./models";
+
+// the settings are read from the config at most once a minute per instance
+const CONFIG_CACHE_MS = 60 * 1000;
+
+let cachedOptions: { options: RetrievalOptions; expiresAt: number } = {
+  options: DEFAULT_RETRIEVAL_OPTIONS,
+  expiresAt: 0,
+};
+
+// Settings of the admin with the overrides of the persona of the chat
+export const ThreadRetrievalOptions = async (
+  chatThread: ChatThreadModel
+): Promise<RetrievalOptions> => {
+  const overrides = Object.fromEntries(
+    Object.entries(chatThread.retrieval ?? {}).filter(
+      ([, value]) => value !== undefined && value !== null
+    )
+  );
+
+  return { ...(await AdminRetrievalOptions()), ...overrides };
+};
+
+// Stores the scores and ranks of a search, failing to store them never fails
+// the turn
+export const RecordRetrievalDiagnostics = async (props: {
+  chatThread: ChatThreadModel;
+  query: string;
+  options: RetrievalOptions;
+  result: RetrievalResult;
+  // citation ids by chunk id, for the chunks given to the model
+  citationIds: Map<string, string>;
+}) => {
+  const { chatThread, query, options, result, citationIds } = props;
+
+  try {
+    const model: RetrievalDiagnosticsModel = {
+      id: uniqueId(),
+      threadId: chatThread.id,
+      query,
+      options,
+      semanticRanked: result.semanticRanked,
+      candidates: result.candidates.map((c) => ({
+        ...c,
+        citationId: citationIds.get(c.chunkId),
+      })),
+      userId: await userHashedId(),
+      createdAt: new Date(),
+      type: RETRIEVAL_DIAGNOSTICS_ATTRIBUTE,
+    };
+
+    await HistoryContainer().items.create<RetrievalDiagnosticsModel>(model);
+  } catch (error) {
+    console.error("🔴 Error on recording retrieval diagnostics:", error);
+  }
+};
+
+const AdminRetrievalOptions = async (): Promise<RetrievalOptions> => {
+  if (cachedOptions.expiresAt > Date.now()) {
+    return cachedOptions.options;
+  }
+
+  const response = await FindRetrievalSettings();
+
+  if (response.status !== "OK") {
+    console.error("🔴 Error on reading retrieval settings:", response.errors);
+    return cachedOptions.options;
+  }
+
+  const {
+    topK,
+    keywordWeight,
+    vectorWeight,
+    semanticRanking,
+    minScore,
+    diversity,
+    queryRewriting,
+    hyde,
+  } = response.response;
+
+  cachedOptions = {
+    options: {
+      topK,
+      keywordWeight,
+      vectorWeight,
+      semanticRanking,
+      minScore,
+      diversity,
+      queryRewriting,
+      hyde,
+    },
+    expiresAt: Date.now() + CONFIG_CACHE_MS,
+  };
+
+  return cachedOptions.options;
+};
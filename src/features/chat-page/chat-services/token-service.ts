@@ -0,0 +1,125 @@
+import "server-only";
+
+import { ModelDeploymentModel } from "@/features/model-page/model-services/models";
+import {
+  Tiktoken,
+  TiktokenModel,
+  encodingForModel,
+  getEncoding,
+} from "js-tiktoken";
+import { RunnableToolFunction } from "openai/lib/RunnableFunction";
+import { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+
+// approximate cost of a high detail image for gpt-4o class models
+const IMAGE_TOKENS = 765;
+// every message carries a few tokens for the role and separators
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const EMBEDDING_ENCODING = "cl100k_base";
+
+const encoders = new Map<string, Tiktoken>();
+
+// deployment names usually follow the model name (gpt-4o, gpt-35-turbo),
+// anything unknown falls back to the gpt-4o encoding
+const encoder = (model: ModelDeploymentModel): Tiktoken => {
+  const cached = encoders.get(model.deploymentName);
+  if (cached) {
+    return cached;
+  }
+
+  let encoding: Tiktoken;
+  try {
+    encoding = encodingForModel(
+      model.deploymentName.replace("gpt-35", "gpt-3.5") as TiktokenModel
+    );
+  } catch {
+    encoding = getEncoding("o200k_base");
+  }
+
+  encoders.set(model.deploymentName, encoding);
+  return encoding;
+};
+
+export const CountTokens = (
+  text: string,
+  model: ModelDeploymentModel
+): number => {
+  return encoder(model).encode(text).length;
+};
+
+// embedding models (text-embedding-ada-002, text-embedding-3-*) share the cl100k_base encoding
+export const CountEmbeddingTokens = (text: string): number => {
+  let encoding = encoders.get(EMBEDDING_ENCODING);
+  if (!encoding) {
+    encoding = getEncoding(EMBEDDING_ENCODING);
+    encoders.set(EMBEDDING_ENCODING, encoding);
+  }
+
+  return encoding.encode(text).length;
+};
+
+export const CountMessageTokens = (
+  messages: ChatCompletionMessageParam[],
+  model: ModelDeploymentModel
+): number => {
+  return messages.reduce((total, message) => {
+    let tokens = MESSAGE_OVERHEAD_TOKENS;
+
+    if (typeof message.content === "string") {
+      tokens += CountTokens(message.content, model);
+    } else if (Array.isArray(message.content)) {
+      message.content.forEach((part) => {
+        if (part.type === "text") {
+          tokens += CountTokens(part.text, model);
+        } else if (part.type === "image_url") {
+          tokens += IMAGE_TOKENS;
+        }
+      });
+    }
+
+    if (message.role === "assistant" && message.tool_calls) {
+      message.tool_calls.forEach((call) => {
+        tokens += CountTokens(call.function.name, model);
+        tokens += CountTokens(call.function.arguments, model);
+      });
+    }
+
+    return total + tokens;
+  }, 0);
+};
+
+export const TruncateToTokens = (
+  text: string,
+  maxTokens: number,
+  model: ModelDeploymentModel
+): string => {
+  const encoding = encoder(model);
+  const tokens = encoding.encode(text);
+
+  if (tokens.length <= maxTokens) {
+    return text;
+  }
+
+  return (
+    encoding.decode(tokens.slice(0, Math.max(maxTokens, 0))) +
+    "\n[truncated to fit the context window]"
+  );
+};
+
+// Wraps the tools so that a single result can never take more than maxTokens of the context window
+export const LimitToolResults = (
+  tools: RunnableToolFunction<any>[],
+  maxTokens: number,
+  model: ModelDeploymentModel
+): RunnableToolFunction<any>[] => {
+  return tools.map((tool) => ({
+    ...tool,
+    function: {
+      ...tool.function,
+      function: async (args: any, runner: any) => {
+        const result = await tool.function.function(args, runner);
+        const text = typeof result === "string" ? result : JSON.stringify(result);
+        return TruncateToTokens(text, maxTokens, model);
+      },
+    },
+  }));
+};
@@ -1,26 +1,88 @@
 import {
   ChatCompletionAssistantMessageParam,
-  ChatCompletionFunctionMessageParam,
   ChatCompletionMessageParam,
+  ChatCompletionMessageToolCall,
+  ChatCompletionToolMessageParam,
+  ChatCompletionUserMessageParam,
 } from "openai/resources/chat/completions";
-import { ChatMessageModel } from "./models";
+import { ChatDocumentModel, ChatMessageModel } from "./models";
 
+// imageBudget is the number of the most recent images from the history to send back to the model,
+// older images are replaced by their text content
 export const mapOpenAIChatMessages = (
-  messages: ChatMessageModel[]
+  messages: ChatMessageModel[],
+  imageBudget: number = 0
 ): ChatCompletionMessageParam[] => {
+  const imageMessageIds = messages
+    .filter((m) => m.role === "user" && m.multiModalImage)
+    .sort(
+      (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    )
+    .slice(0, Math.max(imageBudget, 0))
+    .map((m) => m.id);
+
+  const legacyToolCallIds = mapLegacyToolCallIds(messages);
+
   return messages.map((message) => {
     switch (message.role) {
       case "function":
+        // saved before tool calls were persisted, the call and its result were two function messages
+        if (message.name === "tool") {
+          return {
+            role: "tool",
+            tool_call_id: legacyToolCallIds.get(message.id)!,
+            content: message.content,
+          } as ChatCompletionToolMessageParam;
+        }
+
+        return {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            {
+              id: legacyToolCallIds.get(message.id)!,
+              type: "function",
+              function: { name: message.name, arguments: message.content },
+            },
+          ],
+        } as ChatCompletionAssistantMessageParam;
+      case "tool":
         return {
           role: message.role,
-          name: message.name,
+          tool_call_id: message.toolCallId,
           content: message.content,
-        } as ChatCompletionFunctionMessageParam;
+        } as ChatCompletionToolMessageParam;
       case "assistant":
+        if (message.toolCalls && message.toolCalls.length > 0) {
+          return {
+            role: message.role,
+            content: message.content || null,
+            tool_calls: message.toolCalls,
+          } as ChatCompletionAssistantMessageParam;
+        }
+
         return {
           role: message.role,
           content: message.content,
         } as ChatCompletionAssistantMessageParam;
+      case "user":
+        if (imageMessageIds.includes(message.id)) {
+          return {
+            role: message.role,
+            content: [
+              { type: "text", text: message.content },
+              {
+                type: "image_url",
+                image_url: { url: message.multiModalImage! },
+              },
+            ],
+          } as ChatCompletionUserMessageParam;
+        }
+
+        return {
+          role: message.role,
+          content: message.content,
+        } as ChatCompletionUserMessageParam;
       default:
         return {
           role: message.role,
@@ -29,3 +91,115 @@ export const mapOpenAIChatMessages = (
     }
   });
 };
+
+// Legacy function messages have no call id, each result is paired with the oldest call without a result
+const mapLegacyToolCallIds = (messages: ChatMessageModel[]) => {
+  const ids = new Map<string, string>();
+  const pending: string[] = [];
+
+  const oldestFirst = [...messages].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+
+  oldestFirst.forEach((message) => {
+    if (message.role !== "function") {
+      return;
+    }
+
+    if (message.name === "tool") {
+      ids.set(message.id, pending.shift() ?? `call_${message.id}`);
+    } else {
+      const id = `call_${message.id}`;
+      ids.set(message.id, id);
+      pending.push(id);
+    }
+  });
+
+  return ids;
+};
+
+// The API rejects tool calls without results and results without a call. A history cut by the
+// context budget, an aborted answer or legacy parallel calls can leave either behind.
+export const completeToolTranscript = (
+  messages: ChatCompletionMessageParam[]
+): ChatCompletionMessageParam[] => {
+  const result: ChatCompletionMessageParam[] = [];
+  let index = 0;
+
+  while (index < messages.length) {
+    const message = messages[index];
+
+    if (message.role === "tool") {
+      // a result whose call is not directly before it
+      index++;
+      continue;
+    }
+
+    if (message.role !== "assistant" || !message.tool_calls?.length) {
+      result.push(message);
+      index++;
+      continue;
+    }
+
+    // calls saved as separate messages are merged into a single assistant message
+    const toolCalls: ChatCompletionMessageToolCall[] = [...message.tool_calls];
+    let content = message.content;
+    index++;
+    while (
+      index < messages.length &&
+      isToolCallMessage(messages[index]) &&
+      !content
+    ) {
+      const next = messages[index] as ChatCompletionAssistantMessageParam;
+      toolCalls.push(...next.tool_calls!);
+      content = next.content;
+      index++;
+    }
+
+    const results: ChatCompletionToolMessageParam[] = [];
+    while (index < messages.length && messages[index].role === "tool") {
+      results.push(messages[index] as ChatCompletionToolMessageParam);
+      index++;
+    }
+
+    const answered = toolCalls.filter((call) =>
+      results.some((r) => r.tool_call_id === call.id)
+    );
+
+    if (answered.length > 0) {
+      result.push({
+        role: "assistant",
+        content: content ?? null,
+        tool_calls: answered,
+      });
+      result.push(
+        ...results.filter((r) => answered.some((c) => c.id === r.tool_call_id))
+      );
+    } else if (content) {
+      result.push({ role: "assistant", content });
+    }
+  }
+
+  return result;
+};
+
+const isToolCallMessage = (message: ChatCompletionMessageParam) =>
+  message.role === "assistant" && !!message.tool_calls?.length;
+
+// Tool results are stored as the model saw them, delimited and escaped by the prompt guard.
+// Returns the original result for display.
+export const unwrapUntrustedContent = (content: string) => {
+  const match = content.match(
+    /^<untrusted_content[^>]*>\n([\s\S]*)\n<\/untrusted_content>$/
+  );
+
+  if (!match) {
+    return content;
+  }
+
+  return match[1].replace(/&lt;/g, "<").replace(/&gt;/g, ">");
+};
+
+// documents uploaded before the status was tracked are ready and enabled
+export const isSearchableDocument = (document: ChatDocumentModel) =>
+  (document.status ?? "ready") === "ready" && document.isEnabled !== false;
@@ -1,12 +1,8 @@
 "use client";
 import { uniqueId } from "@/features/common/util";
 import { showError } from "@/features/globals/global-message-store";
-import { AI_NAME, NEW_CHAT_NAME } from "@/features/theme/theme-config";
-import {
-  ParsedEvent,
-  ReconnectInterval,
-  createParser,
-} from "eventsource-parser";
+import { AI_NAME } from "@/features/theme/theme-config";
+import { ParsedEvent, createParser } from "eventsource-parser";
 import { FormEvent } from "react";
 import { proxy, useSnapshot } from "valtio";
 import { RevalidateCache } from "../common/navigation-helpers";
@@ -15,15 +11,27 @@ import { textToSpeechStore } from "./chat-input/speech/use-text-to-speech";
 import { ResetInputRows } from "./chat-input/use-chat-input-dynamic-height";
 import {
   AddExtensionToChatThread,
+  AddLibraryToChatThread,
   RemoveExtensionFromChatThread,
-  UpdateChatTitle,
+  RemoveLibraryFromChatThread,
+  UpdateChatThreadActiveMessage,
+  UpdateChatThreadModel,
 } from "./chat-services/chat-thread-service";
+import {
+  activeBranch,
+  latestLeaf,
+  normalizeMessageTree,
+  siblingsOf,
+} from "./chat-services/message-tree";
 import {
   AzureChatCompletion,
   ChatMessageModel,
+  ChatMode,
   ChatThreadModel,
 } from "./chat-services/models";
-let abortController: AbortController = new AbortController();
+// a dropped connection is resumed a few times before the answer is given up
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_DELAY_MS = 1000;
 
 type chatStatus = "idle" | "loading" | "file upload";
 
@@ -35,25 +43,40 @@ class ChatState {
   public autoScroll: boolean = false;
   public userName: string = "";
   public chatThreadId: string = "";
+  public chatMode: ChatMode = "auto";
+  public activeMessageId: string | undefined = undefined;
+  public editingMessage: ChatMessageModel | undefined = undefined;
+
+  private runId: string = "";
+  private lastEventId: number = -1;
+  private searchQueries: Array<string> = []; // of the answer being generated
 
   private chatThread: ChatThreadModel | undefined;
 
+  // new messages are appended to the end of the branch the user is viewing
   private addToMessages(message: ChatMessageModel) {
     const currentMessage = this.messages.find((el) => el.id === message.id);
     if (currentMessage) {
       currentMessage.content = message.content;
     } else {
-      this.messages.push(message);
+      this.messages.push({ ...message, parentId: this.leafId() });
+      this.activeMessageId = message.id;
     }
   }
 
   private removeMessage(id: string) {
     const index = this.messages.findIndex((el) => el.id === id);
     if (index > -1) {
+      this.activeMessageId = this.messages[index].parentId;
       this.messages.splice(index, 1);
     }
   }
 
+  private leafId() {
+    const branch = activeBranch(this.messages, this.activeMessageId);
+    return branch.length > 0 ? branch[branch.length - 1].id : "";
+  }
+
   public updateLoading(value: chatStatus) {
     this.loading = value;
   }
@@ -69,8 +92,75 @@ class ChatState {
   }) {
     this.chatThread = chatThread;
     this.chatThreadId = chatThread.id;
-    this.messages = messages;
+    this.messages = normalizeMessageTree(messages);
+    this.activeMessageId = chatThread.activeMessageId;
+    this.editingMessage = undefined;
     this.userName = userName;
+
+    if (this.loading === "idle") {
+      this.resumeRun();
+    }
+  }
+
+  public async switchBranch(message: ChatMessageModel, offset: number) {
+    const siblings = siblingsOf(this.messages, message);
+    const index = siblings.findIndex((m) => m.id === message.id);
+    const target = siblings[index + offset];
+
+    if (!target || this.loading !== "idle") {
+      return;
+    }
+
+    this.activeMessageId = latestLeaf(this.messages, target.id);
+
+    const response = await UpdateChatThreadActiveMessage({
+      chatThreadId: this.chatThreadId,
+      messageId: this.activeMessageId,
+    });
+
+    if (response.status !== "OK") {
+      showError(response.errors[0].message);
+    }
+  }
+
+  public editMessage(message: ChatMessageModel) {
+    this.editingMessage = message;
+    this.input = message.content;
+  }
+
+  public cancelEdit() {
+    this.editingMessage = undefined;
+    this.reset();
+  }
+
+  // answers the prompt of an assistant message again, the new answer becomes a sibling of the old one
+  public regenerate(message: ChatMessageModel) {
+    if (this.loading !== "idle") {
+      return;
+    }
+
+    const branch = activeBranch(this.messages, message.id);
+    const prompt = branch.reverse().find((m) => m.role === "user");
+
+    if (!prompt) {
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append("image-base64", prompt.multiModalImage ?? "");
+    formData.append(
+      "content",
+      JSON.stringify({
+        id: this.chatThreadId,
+        message: prompt.content,
+        chatMode: this.chatMode,
+        parentId: prompt.id,
+        regenerate: true,
+      })
+    );
+
+    this.activeMessageId = prompt.id;
+    this.chat(formData);
   }
 
   public async AddExtensionToChatThread(extensionId: string) {
@@ -111,12 +201,76 @@ class ChatState {
     this.loading = "idle";
   }
 
+  public async AddLibraryToChatThread(libraryId: string) {
+    this.loading = "loading";
+
+    const response = await AddLibraryToChatThread({
+      libraryId,
+      chatThreadId: this.chatThreadId,
+    });
+
+    RevalidateCache({
+      page: "chat",
+      type: "layout",
+    });
+
+    if (response.status !== "OK") {
+      showError(response.errors[0].message);
+    }
+
+    this.loading = "idle";
+  }
+
+  public async RemoveLibraryFromChatThread(libraryId: string) {
+    this.loading = "loading";
+
+    const response = await RemoveLibraryFromChatThread({
+      libraryId,
+      chatThreadId: this.chatThreadId,
+    });
+
+    RevalidateCache({
+      page: "chat",
+      type: "layout",
+    });
+
+    if (response.status !== "OK") {
+      showError(response.errors[0].message);
+    }
+
+    this.loading = "idle";
+  }
+
+  public async UpdateChatThreadModel(modelId: string) {
+    this.loading = "loading";
+
+    const response = await UpdateChatThreadModel({
+      modelId: modelId,
+      chatThreadId: this.chatThreadId,
+    });
+
+    RevalidateCache({
+      page: "chat",
+    });
+
+    if (response.status !== "OK") {
+      showError(response.errors[0].message);
+    }
+
+    this.loading = "idle";
+  }
+
+  public updateChatMode(value: ChatMode) {
+    this.chatMode = value;
+  }
+
   public updateInput(value: string) {
     this.input = value;
   }
 
-  public stopGeneratingMessages() {
-    abortController.abort();
+  // the answer is generated independently of the request, so it is stopped on the server
+  public async stopGeneratingMessages() {
+    await fetch(`/api/chat/${this.chatThreadId}`, { method: "DELETE" });
   }
 
   public updateAutoScroll(value: boolean) {
@@ -129,30 +283,15 @@ class ChatState {
     InputImageStore.Reset();
   }
 
-  private async chat(formData: FormData) {
+  private async chat(formData: FormData, newUserMessage?: ChatMessageModel) {
     this.updateAutoScroll(true);
     this.loading = "loading";
 
-    const multimodalImage = formData.get("image-base64") as unknown as string;
-
-    const newUserMessage: ChatMessageModel = {
-      id: uniqueId(),
-      role: "user",
-      content: this.input,
-      name: this.userName,
-      multiModalImage: multimodalImage,
-      createdAt: new Date(),
-      isDeleted: false,
-      threadId: this.chatThreadId,
-      type: "CHAT_MESSAGE",
-      userId: "",
-    };
-
-    this.messages.push(newUserMessage);
-    this.reset();
-
-    const controller = new AbortController();
-    abortController = controller;
+    if (newUserMessage) {
+      this.messages.push(newUserMessage);
+      this.activeMessageId = newUserMessage.id;
+      this.reset();
+    }
 
     try {
       if (this.chatThreadId === "" || this.chatThreadId === undefined) {
@@ -160,112 +299,249 @@ class ChatState {
         return;
       }
 
+      this.runId = "";
+      this.lastEventId = -1;
+      this.searchQueries = [];
+
       const response = await fetch("/api/chat", {
         method: "POST",
         body: formData,
-        signal: controller.signal,
       });
 
-      const onParse = (event: ParsedEvent | ReconnectInterval) => {
-        if (event.type === "event") {
-          const responseType = JSON.parse(event.data) as AzureChatCompletion;
-          switch (responseType.type) {
-            case "functionCall":
-              const mappedFunction: ChatMessageModel = {
-                id: uniqueId(),
-                content: responseType.response.arguments,
-                name: responseType.response.name,
-                role: "function",
-                createdAt: new Date(),
-                isDeleted: false,
-                threadId: this.chatThreadId,
-                type: "CHAT_MESSAGE",
-                userId: "",
-                multiModalImage: "",
-              };
-              this.addToMessages(mappedFunction);
-              break;
-            case "functionCallResult":
-              const mappedFunctionResult: ChatMessageModel = {
-                id: uniqueId(),
-                content: responseType.response,
-                name: "tool",
-                role: "tool",
-                createdAt: new Date(),
-                isDeleted: false,
-                threadId: this.chatThreadId,
-                type: "CHAT_MESSAGE",
-                userId: "",
-                multiModalImage: "",
-              };
-              this.addToMessages(mappedFunctionResult);
-              break;
-            case "content":
-              const mappedContent: ChatMessageModel = {
-                id: responseType.response.id,
-                content: responseType.response.choices[0].message.content || "",
-                name: AI_NAME,
-                role: "assistant",
-                createdAt: new Date(),
-                isDeleted: false,
-                threadId: this.chatThreadId,
-                type: "CHAT_MESSAGE",
-                userId: "",
-                multiModalImage: "",
-              };
-
-              this.addToMessages(mappedContent);
-              this.lastMessage = mappedContent.content;
-
-              break;
-            case "abort":
-              this.removeMessage(newUserMessage.id);
-              this.loading = "idle";
-              break;
-            case "error":
-              showError(responseType.response);
-              this.loading = "idle";
-              break;
-            case "finalContent":
-              this.loading = "idle";
-              this.completed(this.lastMessage);
-              this.updateTitle();
-              break;
-            default:
-              break;
+      await this.readRun(response, newUserMessage);
+    } catch (error) {
+      showError("" + error);
+      this.loading = "idle";
+    }
+  }
+
+  // reattaches to an answer that is still being generated, e.g. after the page was reloaded
+  private async resumeRun() {
+    const chatThreadId = this.chatThreadId;
+
+    try {
+      const response = await fetch(`/api/chat/${chatThreadId}`);
+
+      if (
+        response.status !== 200 ||
+        this.loading !== "idle" ||
+        chatThreadId !== this.chatThreadId
+      ) {
+        return;
+      }
+
+      this.updateAutoScroll(true);
+      this.loading = "loading";
+      this.runId = "";
+      this.lastEventId = -1;
+      this.searchQueries = [];
+
+      await this.readRun(response);
+    } catch (error) {
+      // nothing to resume
+    }
+  }
+
+  // Reads the events of a run, a dropped connection is resumed from the last event received
+  private async readRun(response: Response, newUserMessage?: ChatMessageModel) {
+    let attempts = 0;
+
+    while (true) {
+      let finished = false;
+
+      try {
+        if (response.body) {
+          const parser = createParser((event) => {
+            if (event.type === "event") {
+              this.lastEventId = event.id ? Number(event.id) : this.lastEventId;
+              finished = this.onRunEvent(event, newUserMessage) || finished;
+            }
+          });
+
+          const reader = response.body.getReader();
+          const decoder = new TextDecoder();
+          let done = false;
+          while (!done) {
+            const { value, done: doneReading } = await reader.read();
+            done = doneReading;
+
+            const chunkValue = decoder.decode(value);
+            parser.feed(chunkValue);
           }
         }
-      };
+      } catch (error) {
+        // the connection dropped, the run is resumed below
+      }
 
-      if (response.body) {
-        const parser = createParser(onParse);
+      if (
+        finished ||
+        this.runId === "" ||
+        attempts >= MAX_RECONNECT_ATTEMPTS
+      ) {
+        this.loading = "idle";
+        return;
+      }
 
-        const reader = response.body.getReader();
-        const decoder = new TextDecoder();
-        let done = false;
-        while (!done) {
-          const { value, done: doneReading } = await reader.read();
-          done = doneReading;
+      attempts++;
+      await new Promise((resolve) =>
+        setTimeout(resolve, RECONNECT_DELAY_MS * attempts)
+      );
+
+      try {
+        response = await fetch(
+          `/api/chat/${this.chatThreadId}?runId=${this.runId}&lastEventId=${this.lastEventId}`
+        );
+      } catch (error) {
+        continue;
+      }
 
-          const chunkValue = decoder.decode(value);
-          parser.feed(chunkValue);
-        }
+      // the run is no longer available, the saved messages are the final state
+      if (response.status === 204) {
         this.loading = "idle";
+        this.reloadMessages();
+        return;
       }
-    } catch (error) {
-      showError("" + error);
-      this.loading = "idle";
     }
   }
 
-  private async updateTitle() {
-    if (this.chatThread && this.chatThread.name === NEW_CHAT_NAME) {
-      await UpdateChatTitle(this.chatThreadId, this.messages[0].content);
-      RevalidateCache({
-        page: "chat",
-        type: "layout",
-      });
+  // returns true when the run has finished
+  private onRunEvent(
+    event: ParsedEvent,
+    newUserMessage?: ChatMessageModel
+  ): boolean {
+    const responseType = JSON.parse(event.data) as AzureChatCompletion;
+    switch (responseType.type) {
+      case "run":
+        this.runId = responseType.response;
+        break;
+      case "functionCall":
+        const mappedFunction: ChatMessageModel = {
+          id: uniqueId(),
+          content: responseType.response.arguments,
+          name: responseType.response.name,
+          role: "function",
+          createdAt: new Date(),
+          isDeleted: false,
+          threadId: this.chatThreadId,
+          type: "CHAT_MESSAGE",
+          userId: "",
+          multiModalImage: "",
+        };
+        this.addToMessages(mappedFunction);
+        break;
+      case "functionCallResult":
+        const mappedFunctionResult: ChatMessageModel = {
+          id: uniqueId(),
+          content: responseType.response,
+          name: "tool",
+          role: "tool",
+          createdAt: new Date(),
+          isDeleted: false,
+          threadId: this.chatThreadId,
+          type: "CHAT_MESSAGE",
+          userId: "",
+          multiModalImage: "",
+        };
+        this.addToMessages(mappedFunctionResult);
+        break;
+      case "content":
+        const mappedContent: ChatMessageModel = {
+          id: responseType.response.id,
+          content: responseType.response.choices[0].message.content || "",
+          name: AI_NAME,
+          role: "assistant",
+          createdAt: new Date(),
+          isDeleted: false,
+          threadId: this.chatThreadId,
+          type: "CHAT_MESSAGE",
+          userId: "",
+          multiModalImage: "",
+          searchQueries:
+            this.searchQueries.length > 0 ? this.searchQueries : undefined,
+        };
+
+        this.addToMessages(mappedContent);
+        this.lastMessage = mappedContent.content;
+
+        break;
+      case "contentFilter":
+        // a blocked prompt has no answer to attach the results to
+        const answer = this.messages.find((m) => m.id === this.leafId());
+        if (answer && answer.role === "assistant") {
+          answer.contentFilter = responseType.response;
+        } else {
+          this.addToMessages({
+            id: uniqueId(),
+            content: "",
+            name: AI_NAME,
+            role: "assistant",
+            createdAt: new Date(),
+            isDeleted: false,
+            threadId: this.chatThreadId,
+            type: "CHAT_MESSAGE",
+            userId: "",
+            multiModalImage: "",
+            contentFilter: responseType.response,
+          });
+        }
+        break;
+      case "rateLimit":
+        showError(responseType.response.message);
+        // the message was not sent, it is put back so it can be sent again later
+        if (newUserMessage) {
+          this.removeMessage(newUserMessage.id);
+          this.input = newUserMessage.content;
+        }
+        this.loading = "idle";
+        return true;
+      case "abort":
+        if (newUserMessage) {
+          this.removeMessage(newUserMessage.id);
+        }
+        this.loading = "idle";
+        return true;
+      case "error":
+        showError(responseType.response);
+        this.loading = "idle";
+        this.reloadMessages();
+        return true;
+      case "finalContent":
+        this.loading = "idle";
+        this.completed(this.lastMessage);
+        this.reloadMessages();
+        return true;
+      case "title":
+        if (this.chatThread) {
+          this.chatThread.name = responseType.response;
+        }
+        RevalidateCache({
+          page: "chat",
+          type: "layout",
+        });
+        break;
+      case "searchQueries":
+        // shown on the answer once it starts streaming
+        this.searchQueries = responseType.response;
+        break;
+      case "followUps":
+        const lastAnswer = this.messages.find((m) => m.id === this.leafId());
+        if (lastAnswer && lastAnswer.role === "assistant") {
+          lastAnswer.followUps = responseType.response;
+        }
+        break;
+      default:
+        break;
     }
+
+    return false;
+  }
+
+  // replaces the streamed messages with the saved ones so that they can be edited and regenerated
+  private reloadMessages() {
+    RevalidateCache({
+      page: "chat",
+      params: this.chatThreadId,
+    });
   }
 
   private completed(message: string) {
@@ -279,15 +555,52 @@ class ChatState {
     }
 
     // get form data from e
-    const formData = new FormData(e.currentTarget);
+    this.send(this.input, new FormData(e.currentTarget));
+  }
+
+  // a suggested question is sent as it is, it continues the active branch
+  public askFollowUp(question: string) {
+    if (this.loading !== "idle") {
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append("image-base64", "");
+
+    this.editingMessage = undefined;
+    this.send(question, formData);
+  }
+
+  private send(message: string, formData: FormData) {
+    // an edited message starts a new branch next to the original one,
+    // any other message continues the active branch stored on the thread
+    const editedParentId = this.editingMessage?.parentId;
+    const parentId = editedParentId ?? this.leafId();
+    this.editingMessage = undefined;
 
     const body = JSON.stringify({
       id: this.chatThreadId,
-      message: this.input,
+      message: message,
+      chatMode: this.chatMode,
+      parentId: editedParentId,
     });
     formData.append("content", body);
 
-    this.chat(formData);
+    const newUserMessage: ChatMessageModel = {
+      id: uniqueId(),
+      role: "user",
+      content: message,
+      name: this.userName,
+      multiModalImage: formData.get("image-base64") as unknown as string,
+      createdAt: new Date(),
+      isDeleted: false,
+      threadId: this.chatThreadId,
+      type: "CHAT_MESSAGE",
+      userId: "",
+      parentId: parentId,
+    };
+
+    this.chat(formData, newUserMessage);
   }
 }
 
@@ -1,8 +1,13 @@
 "use server";
 
+import { Button } from "@/features/ui/button";
 import { DisplayError } from "@/features/ui/error/display-error";
 import { RecursiveUI } from "@/features/ui/recursive-ui";
-import { FindCitationByID } from "../chat-services/citation-service";
+import { FileSearch } from "lucide-react";
+import {
+  FindCitationByID,
+  PageLabel,
+} from "../chat-services/citation-service";
 
 export const CitationAction = async (
   previousState: any,
@@ -15,11 +20,37 @@ export const CitationAction = async (
   }
 
   if (searchResponse.status === "OK") {
-    const document = searchResponse.response;
+    const citation = searchResponse.response;
+    // the regions are shown by the document viewer
+    const { regions, ...document } = citation.content.document ?? {};
+    const pages = PageLabel(document.pageStart, document.pageEnd);
 
     return (
       <div className="flex flex-col gap-4 text-sm max-w-[430px]">
-        <RecursiveUI documentField={document.content} />
+        {pages && (
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-semibold">
+              {document.metadata}, {pages}
+            </span>
+            {document.documentId && (
+              <Button
+                asChild
+                variant={"outline"}
+                size={"sm"}
+                className="gap-2"
+              >
+                <a
+                  href={`/citation/${citation.id}`}
+                  target="_blank"
+                  rel="noreferrer"
+                >
+                  <FileSearch size={16} /> View in document
+                </a>
+              </Button>
+            )}
+          </div>
+        )}
+        <RecursiveUI documentField={{ ...citation.content, document }} />
       </div>
     );
   }
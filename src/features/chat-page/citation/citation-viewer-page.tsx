@@ -0,0 +1,74 @@
+import { DisplayError } from "@/features/ui/error/display-error";
+import { ScrollArea } from "@/features/ui/scroll-area";
+import { FC } from "react";
+import { AzureSearchDocumentIndex } from "../chat-services/azure-ai-search/azure-ai-search";
+import { FindChatDocumentByID } from "../chat-services/chat-document-service";
+import {
+  CitationRegions,
+  FindCitationByID,
+  PageLabel,
+} from "../chat-services/citation-service";
+import { DocumentViewer } from "./document-viewer";
+
+interface Props {
+  citationId: string;
+}
+
+// Original document of a citation, opened on the cited page with the passage highlighted
+export const CitationViewerPage: FC<Props> = async (props) => {
+  const citationResponse = await FindCitationByID(props.citationId);
+
+  if (citationResponse.status !== "OK") {
+    return <DisplayError errors={citationResponse.errors} />;
+  }
+
+  const document = citationResponse.response.content
+    .document as AzureSearchDocumentIndex;
+
+  const documentResponse = document.documentId
+    ? await FindChatDocumentByID(document.documentId)
+    : undefined;
+
+  const pageStart = document.pageStart ?? 1;
+
+  return (
+    <ScrollArea className="flex-1">
+      <main className="container max-w-6xl py-6 flex flex-col gap-6">
+        <div className="flex flex-col gap-1">
+          <h1 className="text-2xl font-bold">{document.metadata}</h1>
+          <div className="text-sm text-muted-foreground">
+            {[
+              PageLabel(document.pageStart, document.pageEnd),
+              document.sectionTitle,
+            ]
+              .filter((l) => l)
+              .join(" · ")}
+          </div>
+        </div>
+        <div className="grid gap-6 lg:grid-cols-[3fr_2fr]">
+          {documentResponse?.status === "OK" &&
+          documentResponse.response.contentType ? (
+            <DocumentViewer
+              fileUrl={`/api/document/${documentResponse.response.id}`}
+              contentType={documentResponse.response.contentType}
+              pageStart={pageStart}
+              pageEnd={document.pageEnd ?? pageStart}
+              regions={CitationRegions(document)}
+            />
+          ) : (
+            <div className="border rounded-md p-6 text-sm text-muted-foreground">
+              The original file is not available, it was uploaded before files
+              were kept or it was removed from the chat.
+            </div>
+          )}
+          <div className="flex flex-col gap-2">
+            <div className="font-semibold text-sm">Cited passage</div>
+            <div className="border rounded-md p-4 text-sm whitespace-pre-wrap">
+              {document.pageContent}
+            </div>
+          </div>
+        </div>
+      </main>
+    </ScrollArea>
+  );
+};
@@ -0,0 +1,106 @@
+"use client";
+
+import { Button } from "@/features/ui/button";
+import { ChevronLeft, ChevronRight, ExternalLink } from "lucide-react";
+import { FC, useState } from "react";
+import { DocumentRegion } from "../chat-services/models";
+
+interface Props {
+  fileUrl: string;
+  contentType: string;
+  pageStart: number;
+  pageEnd: number;
+  regions: Array<DocumentRegion>;
+}
+
+// US letter, used for pages without a region to take the size from
+const DEFAULT_PAGE_RATIO = 8.5 / 11;
+
+export const DocumentViewer: FC<Props> = (props) => {
+  const { fileUrl, contentType, pageStart, pageEnd, regions } = props;
+  const [page, setPage] = useState(pageStart);
+
+  const pageRegions = regions.filter((r) => r.pageNumber === page);
+  const pageRatio =
+    regions.find((r) => r.pageNumber === page)?.pageRatio ??
+    regions[0]?.pageRatio ??
+    DEFAULT_PAGE_RATIO;
+
+  const isPdf = contentType === "application/pdf";
+  // browsers don't render tiff
+  const isImage =
+    contentType.startsWith("image/") && contentType !== "image/tiff";
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button
+            size={"icon"}
+            variant={"outline"}
+            disabled={page <= pageStart}
+            onClick={() => setPage(page - 1)}
+            aria-label="Previous cited page"
+          >
+            <ChevronLeft size={16} />
+          </Button>
+          <span className="text-sm">Page {page}</span>
+          <Button
+            size={"icon"}
+            variant={"outline"}
+            disabled={page >= pageEnd}
+            onClick={() => setPage(page + 1)}
+            aria-label="Next cited page"
+          >
+            <ChevronRight size={16} />
+          </Button>
+        </div>
+        <Button asChild variant={"outline"} className="gap-2">
+          <a href={fileUrl} target="_blank" rel="noreferrer">
+            <ExternalLink size={16} /> Open original
+          </a>
+        </Button>
+      </div>
+      {isPdf || isImage ? (
+        // the frame has the aspect ratio of the page, so the page fitted by the
+        // viewer lines up with the highlighted regions
+        <div
+          className="relative w-full border rounded-md overflow-hidden bg-white"
+          style={{ aspectRatio: pageRatio }}
+        >
+          {isPdf ? (
+            <iframe
+              key={page}
+              title={`Page ${page}`}
+              src={`${fileUrl}#page=${page}&view=Fit&toolbar=0&navpanes=0&scrollbar=0`}
+              className="absolute inset-0 w-full h-full"
+            />
+          ) : (
+            <img
+              src={fileUrl}
+              alt={`Page ${page}`}
+              className="absolute inset-0 w-full h-full"
+            />
+          )}
+          {pageRegions.map((region, index) => (
+            <div
+              key={index}
+              className="absolute pointer-events-none border-2 border-yellow-500 bg-yellow-300/30"
+              style={{
+                left: `${region.left * 100}%`,
+                top: `${region.top * 100}%`,
+                width: `${region.width * 100}%`,
+                height: `${region.height * 100}%`,
+              }}
+            />
+          ))}
+        </div>
+      ) : (
+        <div className="border rounded-md p-6 text-sm text-muted-foreground">
+          A preview is not available for this type of file, open the original
+          to check the cited passage.
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import { Markdown } from "@/features/ui/markdown/markdown";
-import { FunctionSquare } from "lucide-react";
+import { FunctionSquare, Search, ShieldAlert } from "lucide-react";
+import { ChatCompletionMessageToolCall } from "openai/resources/chat/completions";
 import React from "react";
 import {
   Accordion,
@@ -8,6 +9,8 @@ import {
   AccordionTrigger,
 } from "../ui/accordion";
 import { RecursiveUI } from "../ui/recursive-ui";
+import { ContentFilterResult } from "./chat-services/models";
+import { unwrapUntrustedContent } from "./chat-services/utils";
 import { CitationAction } from "./citation/citation-action";
 
 interface MessageContentProps {
@@ -16,6 +19,9 @@ interface MessageContentProps {
     content: string;
     name: string;
     multiModalImage?: string;
+    toolCalls?: Array<ChatCompletionMessageToolCall>;
+    contentFilter?: Array<ContentFilterResult>;
+    searchQueries?: Array<string>;
   };
 }
 
@@ -23,46 +29,139 @@ const MessageContent: React.FC<MessageContentProps> = ({ message }) => {
   if (message.role === "assistant" || message.role === "user") {
     return (
       <>
+        {message.searchQueries && message.searchQueries.length > 0 && (
+          <SearchQueries queries={message.searchQueries} />
+        )}
         <Markdown
           content={message.content}
           onCitationClick={CitationAction}
         ></Markdown>
         {message.multiModalImage && <img src={message.multiModalImage} />}
+        {message.toolCalls?.map((call) => (
+          <ToolContent
+            key={call.id}
+            name={call.function.name}
+            label="function"
+            content={call.function.arguments}
+          />
+        ))}
+        {message.contentFilter && message.contentFilter.length > 0 && (
+          <ContentFilterNotice results={message.contentFilter} />
+        )}
       </>
     );
   }
 
   if (message.role === "tool" || message.role === "function") {
+    // legacy function messages stored the result with the name "tool"
+    const isResult = message.role === "tool" || message.name === "tool";
+
     return (
-      <div className="py-3">
-        <Accordion
-          type="multiple"
-          className="bg-background rounded-md border p-2"
-        >
-          <AccordionItem value="item-1" className="">
-            <AccordionTrigger className="text-sm py-1 items-center gap-2">
-              <div className="flex gap-2 items-center">
-                <FunctionSquare
-                  size={18}
-                  strokeWidth={1.4}
-                  className="text-muted-foreground"
-                />{" "}
-                Show {message.name}{" "}
-                {message.name === "tool" ? "output" : "function"}
-              </div>
-            </AccordionTrigger>
-            <AccordionContent>
-              <RecursiveUI documentField={toJson(message.content)} />
-            </AccordionContent>
-          </AccordionItem>
-        </Accordion>
-      </div>
+      <ToolContent
+        name={message.name}
+        label={isResult ? "output" : "function"}
+        content={message.content}
+      />
     );
   }
 
   return null;
 };
 
+const ToolContent = (props: {
+  name: string;
+  label: string;
+  content: string;
+}) => {
+  return (
+    <div className="py-3">
+      <Accordion type="multiple" className="bg-background rounded-md border p-2">
+        <AccordionItem value="item-1" className="">
+          <AccordionTrigger className="text-sm py-1 items-center gap-2">
+            <div className="flex gap-2 items-center">
+              <FunctionSquare
+                size={18}
+                strokeWidth={1.4}
+                className="text-muted-foreground"
+              />{" "}
+              Show {props.name} {props.label}
+            </div>
+          </AccordionTrigger>
+          <AccordionContent>
+            <RecursiveUI
+              documentField={toJson(unwrapUntrustedContent(props.content))}
+            />
+          </AccordionContent>
+        </AccordionItem>
+      </Accordion>
+    </div>
+  );
+};
+
+// Queries the documents were searched with, after rewriting the question
+const SearchQueries = (props: { queries: Array<string> }) => {
+  return (
+    <div className="flex flex-col py-3">
+      <Accordion type="multiple" className="bg-background rounded-md border p-2">
+        <AccordionItem value="item-1" className="">
+          <AccordionTrigger className="text-sm py-1 items-center gap-2">
+            <div className="flex gap-2 items-center">
+              <Search
+                size={18}
+                strokeWidth={1.4}
+                className="text-muted-foreground"
+              />{" "}
+              Searched for
+            </div>
+          </AccordionTrigger>
+          <AccordionContent>
+            <ul className="flex flex-col gap-1 text-sm text-muted-foreground">
+              {props.queries.map((query, index) => (
+                <li key={index} className="line-clamp-3 whitespace-pre-wrap">
+                  {query}
+                </li>
+              ))}
+            </ul>
+          </AccordionContent>
+        </AccordionItem>
+      </Accordion>
+    </div>
+  );
+};
+
+const ContentFilterNotice = (props: {
+  results: Array<ContentFilterResult>;
+}) => {
+  const describe = (results: Array<ContentFilterResult>) =>
+    results
+      .map((r) => `${r.category.replaceAll("_", " ")} (${r.severity})`)
+      .join(", ");
+
+  const prompt = describe(
+    props.results.filter((r) => r.source === "prompt" && r.filtered)
+  );
+  const completion = describe(
+    props.results.filter((r) => r.source === "completion" && r.filtered)
+  );
+
+  let explanation = `The content filter flagged this conversation: ${describe(
+    props.results
+  )}.`;
+
+  if (prompt) {
+    explanation = `Your message was blocked by the content filter because of ${prompt}. Please rephrase it and try again.`;
+  } else if (completion) {
+    explanation = `The answer was stopped by the content filter because of ${completion}.`;
+  }
+
+  return (
+    <div className="my-3 flex gap-2 items-start rounded-md border p-3 text-sm text-muted-foreground">
+      <ShieldAlert size={18} strokeWidth={1.4} className="shrink-0" />
+      <span>{explanation}</span>
+    </div>
+  );
+};
+
 const toJson = (value: string) => {
   try {
     return JSON.parse(value);
@@ -2,7 +2,16 @@
 import { revalidatePath } from "next/cache";
 import { redirect } from "next/navigation";
 
-type Page = "extensions" | "persona" | "prompt" | "chat" | "settings";
+type Page =
+  | "extensions"
+  | "persona"
+  | "knowledge"
+  | "prompt"
+  | "chat"
+  | "settings"
+  | "models"
+  | "usage"
+  | "profile";
 
 export const RevalidateCache = (props: {
   page: Page;
@@ -32,13 +32,14 @@ export const GetCredential = () => {
   return credential;
 }
 
-export const AzureAISearchInstance = <T extends object>() => {
+// name defaults to AZURE_SEARCH_INDEX_NAME, migrated indexes are named after it
+export const AzureAISearchInstance = <T extends object>(name?: string) => {
   console.log("Creating Azure AI Search Client Instance");
   const credential = GetCredential();
 
   const searchClient = new SearchClient<T>(
     endpoint,
-    indexName,
+    name || indexName,
     credential
   );
 
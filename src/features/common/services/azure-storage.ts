@@ -108,3 +108,77 @@ export const GetBlob = async (
     };
   }
 };
+
+export const DownloadBlob = async (
+  containerName: string,
+  blobPath: string
+): Promise<ServerActionResponse<Buffer>> => {
+  const blobServiceClient = InitBlobServiceClient();
+
+  const containerClient = blobServiceClient.getContainerClient(containerName);
+  const blockBlobClient = containerClient.getBlockBlobClient(blobPath);
+
+  try {
+    return {
+      status: "OK",
+      response: await blockBlobClient.downloadToBuffer(),
+    };
+  } catch (error) {
+    if (error instanceof RestError && error.statusCode === 404) {
+      return {
+        status: "NOT_FOUND",
+        errors: [
+          {
+            message: `Blob not found: ${blobPath}`,
+          },
+        ],
+      };
+    }
+
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `Error downloading blob: ${blobPath}`,
+        },
+      ],
+    };
+  }
+};
+
+export const DeleteBlob = async (
+  containerName: string,
+  blobPath: string
+): Promise<ServerActionResponse<boolean>> => {
+  const blobServiceClient = InitBlobServiceClient();
+
+  const containerClient = blobServiceClient.getContainerClient(containerName);
+
+  try {
+    const response = await containerClient.deleteBlob(blobPath, {
+      deleteSnapshots: "include",
+    });
+
+    return {
+      status: "OK",
+      response: response.errorCode === undefined,
+    };
+  } catch (error) {
+    // already deleted
+    if (error instanceof RestError && error.statusCode === 404) {
+      return {
+        status: "OK",
+        response: true,
+      };
+    }
+
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `Error deleting blob: ${blobPath}`,
+        },
+      ],
+    };
+  }
+};
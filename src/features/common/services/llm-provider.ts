@@ -0,0 +1,141 @@
+import { DefaultAzureCredential, getBearerTokenProvider } from "@azure/identity";
+import { AzureOpenAI, OpenAI } from "openai";
+
+export type LLMCapability = "chat" | "embedding" | "image";
+
+export type LLMProviderType = "azure" | "openai" | "openai-compatible";
+
+// A backend serving one capability. Requests carry the model in the body,
+// Azure OpenAI takes the deployment from the URL instead and ignores it.
+export interface LLMProvider {
+  type: LLMProviderType;
+  capability: LLMCapability;
+  model: string; // deployment name on Azure OpenAI, model name otherwise
+  isAvailable: boolean; // false when the capability is not configured for the provider
+  client: (model?: string) => OpenAI;
+}
+
+const USE_MANAGED_IDENTITIES = process.env.USE_MANAGED_IDENTITIES === "true";
+
+// LLM_CHAT_PROVIDER, LLM_EMBEDDING_PROVIDER and LLM_IMAGE_PROVIDER fall back to LLM_PROVIDER, which falls back to azure
+export const LLMProviderFor = (capability: LLMCapability): LLMProvider => {
+  const type =
+    process.env[`LLM_${capability.toUpperCase()}_PROVIDER`] ||
+    process.env.LLM_PROVIDER ||
+    "azure";
+
+  switch (type) {
+    case "openai":
+      return OpenAIProvider(capability);
+    case "openai-compatible":
+      return OpenAICompatibleProvider(capability);
+    case "azure":
+      return AzureOpenAIProvider(capability);
+    default:
+      throw new Error(
+        `Unknown LLM provider ${type} for ${capability}, use azure, openai or openai-compatible`
+      );
+  }
+};
+
+// DALL-E has its own resource, chat and embeddings share one
+const AzureOpenAIProvider = (capability: LLMCapability): LLMProvider => {
+  const endpointSuffix =
+    process.env.AZURE_OPENAI_API_ENDPOINT_SUFFIX || "openai.azure.com";
+
+  const config =
+    capability === "image"
+      ? {
+          instanceName: process.env.AZURE_OPENAI_DALLE_API_INSTANCE_NAME,
+          apiKey: process.env.AZURE_OPENAI_DALLE_API_KEY,
+          apiVersion:
+            process.env.AZURE_OPENAI_DALLE_API_VERSION || "2023-12-01-preview",
+          deployment: process.env.AZURE_OPENAI_DALLE_API_DEPLOYMENT_NAME,
+        }
+      : {
+          instanceName: process.env.AZURE_OPENAI_API_INSTANCE_NAME,
+          apiKey: process.env.AZURE_OPENAI_API_KEY,
+          apiVersion: process.env.AZURE_OPENAI_API_VERSION,
+          deployment:
+            capability === "embedding"
+              ? process.env.AZURE_OPENAI_API_EMBEDDINGS_DEPLOYMENT_NAME
+              : process.env.AZURE_OPENAI_API_DEPLOYMENT_NAME,
+        };
+
+  return {
+    type: "azure",
+    capability,
+    model: config.deployment ?? "",
+    isAvailable: !!config.instanceName && !!config.deployment,
+    client: (model?: string) => {
+      const deployment = model || config.deployment;
+      const baseURL = `https://${config.instanceName}.${endpointSuffix}/openai/deployments/${deployment}`;
+
+      if (USE_MANAGED_IDENTITIES) {
+        const credential = new DefaultAzureCredential();
+        const scope = "https://cognitiveservices.azure.com/.default";
+        const azureADTokenProvider = getBearerTokenProvider(credential, scope);
+        return new AzureOpenAI({
+          azureADTokenProvider,
+          deployment,
+          apiVersion: config.apiVersion,
+          baseURL,
+        });
+      }
+
+      return new OpenAI({
+        apiKey: config.apiKey,
+        baseURL,
+        defaultQuery: { "api-version": config.apiVersion },
+        defaultHeaders: { "api-key": config.apiKey },
+      });
+    },
+  };
+};
+
+const OPENAI_DEFAULT_MODELS: Record<LLMCapability, string> = {
+  chat: "gpt-4o",
+  embedding: "text-embedding-3-small",
+  image: "dall-e-3",
+};
+
+const OpenAIProvider = (capability: LLMCapability): LLMProvider => {
+  const model =
+    process.env[`OPENAI_${capability.toUpperCase()}_MODEL`] ||
+    OPENAI_DEFAULT_MODELS[capability];
+
+  return {
+    type: "openai",
+    capability,
+    model,
+    isAvailable: !!process.env.OPENAI_API_KEY,
+    client: () =>
+      new OpenAI({
+        apiKey: process.env.OPENAI_API_KEY,
+        organization: process.env.OPENAI_ORGANIZATION || null,
+      }),
+  };
+};
+
+// vLLM, Ollama, LM Studio and other servers implementing the OpenAI API.
+// A capability is only available when a model is configured for it, and can be served from its own URL.
+const OpenAICompatibleProvider = (capability: LLMCapability): LLMProvider => {
+  const name = capability.toUpperCase();
+  const model = process.env[`OPENAI_COMPATIBLE_${name}_MODEL`] ?? "";
+  const baseURL =
+    process.env[`OPENAI_COMPATIBLE_${name}_BASE_URL`] ||
+    process.env.OPENAI_COMPATIBLE_BASE_URL;
+
+  return {
+    type: "openai-compatible",
+    capability,
+    model,
+    isAvailable: !!model && !!baseURL,
+    client: () =>
+      new OpenAI({
+        // most local servers don't check the key, the SDK requires one
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || "not-needed",
+        baseURL,
+      }),
+  };
+};
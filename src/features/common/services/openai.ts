@@ -1,87 +1,33 @@
-import { OpenAI } from "openai";
-import { DefaultAzureCredential, getBearerTokenProvider } from "@azure/identity";
-import { AzureOpenAI } from "openai";
+import { LLMProviderFor } from "./llm-provider";
 
-const USE_MANAGED_IDENTITIES = process.env.USE_MANAGED_IDENTITIES === "true";
-
-export const OpenAIInstance =  () => {
-  const endpointSuffix = process.env.AZURE_OPENAI_API_ENDPOINT_SUFFIX || "openai.azure.com";
-  let token = process.env.AZURE_OPENAI_API_KEY;
-  if (USE_MANAGED_IDENTITIES) {
-    const credential = new DefaultAzureCredential();
-    const scope = "https://cognitiveservices.azure.com/.default";
-    const azureADTokenProvider = getBearerTokenProvider(credential, scope);
-    const deployment = process.env.AZURE_OPENAI_API_DEPLOYMENT_NAME;
-    const apiVersion = process.env.AZURE_OPENAI_API_VERSION;
-    const client = new AzureOpenAI({
-      azureADTokenProvider,
-      deployment,
-      apiVersion,
-      baseURL: `https://${process.env.AZURE_OPENAI_API_INSTANCE_NAME}.${endpointSuffix}/openai/deployments/${process.env.AZURE_OPENAI_API_DEPLOYMENT_NAME}`
-    });
-    return client;
-  } else {
-    const openai = new OpenAI({
-      apiKey: token,
-      baseURL: `https://${process.env.AZURE_OPENAI_API_INSTANCE_NAME}.${endpointSuffix}/openai/deployments/${process.env.AZURE_OPENAI_API_DEPLOYMENT_NAME}`,
-      defaultQuery: { "api-version": process.env.AZURE_OPENAI_API_VERSION },
-      defaultHeaders: { "api-key": process.env.AZURE_OPENAI_API_KEY },
-    });
-    return openai;
-  }
+// deploymentName overrides the configured chat model, e.g. the model selected on a chat thread
+export const OpenAIInstance = (deploymentName?: string) => {
+  return LLMProviderFor("chat").client(deploymentName);
 };
 
-export const OpenAIEmbeddingInstance =  () => {
-  const endpointSuffix = process.env.AZURE_OPENAI_API_ENDPOINT_SUFFIX || "openai.azure.com";
-  let token = process.env.AZURE_OPENAI_API_KEY;
-  if (USE_MANAGED_IDENTITIES) {
-    const credential = new DefaultAzureCredential();
-    const scope = "https://cognitiveservices.azure.com/.default";
-    const azureADTokenProvider = getBearerTokenProvider(credential, scope);
-    const deployment = process.env.AZURE_OPENAI_API_EMBEDDINGS_DEPLOYMENT_NAME;
-    const apiVersion = process.env.AZURE_OPENAI_API_VERSION;
-    const client = new AzureOpenAI({
-      azureADTokenProvider,
-      deployment,
-      apiVersion,
-      baseURL: `https://${process.env.AZURE_OPENAI_API_INSTANCE_NAME}.${endpointSuffix}/openai/deployments/${process.env.AZURE_OPENAI_API_EMBEDDINGS_DEPLOYMENT_NAME}`
-    });
-    return client;
-  } else {
-    const openai = new OpenAI({
-      apiKey: token,
-      baseURL: `https://${process.env.AZURE_OPENAI_API_INSTANCE_NAME}.${endpointSuffix}/openai/deployments/${process.env.AZURE_OPENAI_API_EMBEDDINGS_DEPLOYMENT_NAME}`,
-      defaultQuery: { "api-version": process.env.AZURE_OPENAI_API_VERSION },
-      defaultHeaders: { "api-key": token },
-    });
-    return openai;
-  }
+// model overrides the configured embedding model, e.g. the one a search index was built with
+export const OpenAIEmbeddingInstance = (model?: string) => {
+  return LLMProviderFor("embedding").client(model);
 };
 
 // A new instance definition for DALL-E image generation
-export const OpenAIDALLEInstance =  () => {
-  const endpointSuffix = process.env.AZURE_OPENAI_API_ENDPOINT_SUFFIX || "openai.azure.com";
-  let token = process.env.AZURE_OPENAI_DALLE_API_KEY;
-  if (USE_MANAGED_IDENTITIES) {
-    const credential = new DefaultAzureCredential();
-    const scope = "https://cognitiveservices.azure.com/.default";
-    const azureADTokenProvider = getBearerTokenProvider(credential, scope);
-    const deployment = process.env.AZURE_OPENAI_DALLE_API_DEPLOYMENT_NAME;
-    const apiVersion = process.env.AZURE_OPENAI_DALLE_API_VERSION || "2023-12-01-preview";
-    const client = new AzureOpenAI({
-      azureADTokenProvider,
-      deployment,
-      apiVersion,
-      baseURL: `https://${process.env.AZURE_OPENAI_DALLE_API_INSTANCE_NAME}.${endpointSuffix}/openai/deployments/${process.env.AZURE_OPENAI_DALLE_API_DEPLOYMENT_NAME}`
-    });
-    return client;
-  } else {
-    const openai = new OpenAI({
-      apiKey: token,
-      baseURL: `https://${process.env.AZURE_OPENAI_DALLE_API_INSTANCE_NAME}.${endpointSuffix}/openai/deployments/${process.env.AZURE_OPENAI_DALLE_API_DEPLOYMENT_NAME}`,
-      defaultQuery: { "api-version": process.env.AZURE_OPENAI_DALLE_API_VERSION || "2023-12-01-preview" },
-      defaultHeaders: { "api-key": token },
-    });
-    return openai;
-  }
+export const OpenAIDALLEInstance = () => {
+  return LLMProviderFor("image").client();
+};
+
+// model to send with requests and to record the usage for
+export const OpenAIChatModel = () => {
+  return LLMProviderFor("chat").model;
+};
+
+export const OpenAIEmbeddingModel = () => {
+  return LLMProviderFor("embedding").model;
+};
+
+export const OpenAIImageModel = () => {
+  return LLMProviderFor("image").model;
+};
+
+export const IsImageGenerationAvailable = () => {
+  return LLMProviderFor("image").isAvailable;
 };
@@ -0,0 +1,120 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import { FC } from "react";
+import { useFormState, useFormStatus } from "react-dom";
+import { ServerActionResponse } from "../common/server-action-response";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { LoadingIndicator } from "../ui/loading";
+import { ScrollArea } from "../ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "../ui/sheet";
+import { Switch } from "../ui/switch";
+import { Textarea } from "../ui/textarea";
+import {
+  addOrUpdateKnowledgeLibrary,
+  knowledgeStore,
+  useKnowledgeState,
+} from "./knowledge-store";
+
+export const AddNewKnowledgeLibrary: FC = () => {
+  const initialState: ServerActionResponse | undefined = undefined;
+
+  const { isOpened, library } = useKnowledgeState();
+
+  const [formState, formAction] = useFormState(
+    addOrUpdateKnowledgeLibrary,
+    initialState
+  );
+
+  const { data } = useSession();
+
+  // libraries are shared with the users of the same business unit
+  const ShareSwitch = () => {
+    const businessUnit = library.group || data?.user?.businessUnit;
+
+    if (!businessUnit) return null;
+
+    return (
+      <div className="flex items-center space-x-2">
+        <Switch name="isShared" defaultChecked={library.sharing === "group"} />
+        <Label htmlFor="isShared">Share with {businessUnit}</Label>
+      </div>
+    );
+  };
+
+  return (
+    <Sheet
+      open={isOpened}
+      onOpenChange={(value) => {
+        knowledgeStore.updateOpened(value);
+      }}
+    >
+      <SheetContent className="min-w-[480px] sm:w-[540px] flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Knowledge library</SheetTitle>
+        </SheetHeader>
+        <form action={formAction} className="flex-1 flex flex-col">
+          <ScrollArea
+            className="flex-1 -mx-6 flex max-h-[calc(100vh-140px)]"
+            type="always"
+          >
+            <div className="pb-6 px-6 flex gap-8 flex-col  flex-1">
+              <input type="hidden" name="id" defaultValue={library.id} />
+              {formState && formState.status === "OK" ? null : (
+                <>
+                  {formState &&
+                    formState.errors.map((error, index) => (
+                      <div key={index} className="text-red-500">
+                        {error.message}
+                      </div>
+                    ))}
+                </>
+              )}
+              <div className="grid gap-2">
+                <Label>Name</Label>
+                <Input
+                  type="text"
+                  required
+                  name="name"
+                  defaultValue={library.name}
+                  placeholder="Name of your knowledge library"
+                />
+              </div>
+              <div className="grid gap-2 flex-1 ">
+                <Label htmlFor="description">Description</Label>
+                <Textarea
+                  className="min-h-[150px]"
+                  required
+                  defaultValue={library.description}
+                  name="description"
+                  placeholder="What the documents of the library are about"
+                />
+              </div>
+            </div>
+          </ScrollArea>
+          <SheetFooter className="py-2 flex sm:justify-between flex-row">
+            <ShareSwitch /> <Submit />
+          </SheetFooter>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+function Submit() {
+  const status = useFormStatus();
+  return (
+    <Button disabled={status.pending} className="gap-2">
+      <LoadingIndicator isLoading={status.pending} />
+      Save
+    </Button>
+  );
+}
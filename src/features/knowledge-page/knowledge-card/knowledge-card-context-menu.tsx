@@ -0,0 +1,86 @@
+"use client";
+
+import { DropdownMenuItemWithIcon } from "@/features/chat-page/chat-menu/chat-menu-item";
+import { showError } from "@/features/globals/global-message-store";
+import { LoadingIndicator } from "@/features/ui/loading";
+import { MoreVertical, Pencil, Trash } from "lucide-react";
+import { FC, useState } from "react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "../../ui/dropdown-menu";
+import { DeleteKnowledgeLibrary } from "../knowledge-services/knowledge-service";
+import { KnowledgeLibraryModel } from "../knowledge-services/models";
+import { knowledgeStore } from "../knowledge-store";
+
+interface Props {
+  library: KnowledgeLibraryModel;
+}
+
+type DropdownAction = "edit" | "delete";
+
+export const KnowledgeCardContextMenu: FC<Props> = (props) => {
+  const { isLoading, handleAction } = useDropdownAction({
+    library: props.library,
+  });
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger>
+          {isLoading ? (
+            <LoadingIndicator isLoading={isLoading} />
+          ) : (
+            <MoreVertical size={18} />
+          )}
+        </DropdownMenuTrigger>
+        <DropdownMenuContent>
+          <DropdownMenuItemWithIcon
+            onClick={() => knowledgeStore.updateLibrary(props.library)}
+          >
+            <Pencil size={18} />
+            <span>Edit</span>
+          </DropdownMenuItemWithIcon>
+          <DropdownMenuItemWithIcon
+            onClick={async () => await handleAction("delete")}
+          >
+            <Trash size={18} />
+            <span>Delete</span>
+          </DropdownMenuItemWithIcon>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </>
+  );
+};
+
+const useDropdownAction = (props: { library: KnowledgeLibraryModel }) => {
+  const { library } = props;
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleAction = async (action: DropdownAction) => {
+    setIsLoading(true);
+    switch (action) {
+      case "delete":
+        if (
+          window.confirm(
+            `Are you sure you want to delete ${library.name} and its documents?`
+          )
+        ) {
+          const response = await DeleteKnowledgeLibrary(library.id);
+
+          if (response.status !== "OK") {
+            showError(response.errors.map((e) => e.message).join("\n"));
+          }
+        }
+
+        break;
+    }
+    setIsLoading(false);
+  };
+
+  return {
+    isLoading,
+    handleAction,
+  };
+};
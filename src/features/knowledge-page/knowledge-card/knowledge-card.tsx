@@ -0,0 +1,56 @@
+import { ChatDocumentModel } from "@/features/chat-page/chat-services/models";
+import { Lock, Users } from "lucide-react";
+import { FC } from "react";
+import {
+  Card,
+  CardContent,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "../../ui/card";
+import { KnowledgeLibraryModel } from "../knowledge-services/models";
+import { KnowledgeCardContextMenu } from "./knowledge-card-context-menu";
+import { KnowledgeDocuments } from "./knowledge-documents";
+
+interface Props {
+  library: KnowledgeLibraryModel;
+  documents: Array<ChatDocumentModel>;
+  canEdit: boolean; // the owner of the library and admins
+}
+
+export const KnowledgeCard: FC<Props> = (props) => {
+  const { library } = props;
+  return (
+    <Card key={library.id} className="flex flex-col">
+      <CardHeader className="flex flex-row">
+        <CardTitle className="flex-1">{library.name}</CardTitle>
+        {props.canEdit && (
+          <div>
+            <KnowledgeCardContextMenu library={library} />
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="text-muted-foreground flex-1">
+        {library.description}
+      </CardContent>
+      <CardFooter className="gap-2 justify-between">
+        <span className="text-sm text-muted-foreground flex gap-1 items-center">
+          {library.sharing === "group" ? (
+            <>
+              <Users size={14} /> {library.group}
+            </>
+          ) : (
+            <>
+              <Lock size={14} /> Personal
+            </>
+          )}
+        </span>
+        <KnowledgeDocuments
+          library={library}
+          documents={props.documents}
+          canEdit={props.canEdit}
+        />
+      </CardFooter>
+    </Card>
+  );
+};
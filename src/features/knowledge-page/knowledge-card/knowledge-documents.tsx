@@ -0,0 +1,83 @@
+"use client";
+
+import { DocumentList } from "@/features/chat-page/chat-header/document-list";
+import {
+  fileStore,
+  useFileStore,
+} from "@/features/chat-page/chat-input/file/file-store";
+import {
+  ChatDocumentModel,
+  DOCUMENT_ACCEPT,
+} from "@/features/chat-page/chat-services/models";
+import { Button } from "@/features/ui/button";
+import { AttachFile } from "@/features/ui/chat/chat-input-area/attach-file";
+import { ScrollArea } from "@/features/ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/features/ui/sheet";
+import { File } from "lucide-react";
+import { FC, useEffect } from "react";
+import { KnowledgeLibraryModel } from "../knowledge-services/models";
+
+interface Props {
+  library: KnowledgeLibraryModel;
+  documents: Array<ChatDocumentModel>;
+  canEdit: boolean;
+}
+
+export const KnowledgeDocuments: FC<Props> = (props) => {
+  const { uploadButtonLabel } = useFileStore();
+  const isProcessing = props.documents.some((d) => d.status === "processing");
+
+  // keeps track of files still being indexed, e.g. after a page reload
+  useEffect(() => {
+    if (isProcessing) {
+      fileStore.watchProgress({ libraryId: props.library.id });
+    }
+  }, [isProcessing, props.library.id]);
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button
+          variant={"outline"}
+          className="gap-2"
+          aria-label="Knowledge Library Documents Menu"
+        >
+          <File size={16} /> {props.documents.length}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="min-w-[480px] sm:w-[540px] flex flex-col">
+        <SheetHeader>
+          <SheetTitle>{props.library.name}</SheetTitle>
+        </SheetHeader>
+        {props.canEdit && (
+          <div className="flex gap-2 items-center text-sm text-muted-foreground">
+            <AttachFile
+              accept={DOCUMENT_ACCEPT}
+              onClick={(formData) =>
+                fileStore.onFileChange({
+                  formData,
+                  libraryId: props.library.id,
+                })
+              }
+            />
+            {uploadButtonLabel || "Add a document to the library"}
+          </div>
+        )}
+        <ScrollArea className="flex-1 -mx-6 flex" type="always">
+          <div className="pb-6 px-6 flex gap-4 flex-col  flex-1">
+            <DocumentList
+              documents={props.documents}
+              readOnly={!props.canEdit}
+            />
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,43 @@
+"use client";
+import { Hero, HeroButton } from "@/features/ui/hero";
+import { Library, Users } from "lucide-react";
+import { knowledgeStore } from "../knowledge-store";
+
+export const KnowledgeHero = () => {
+  return (
+    <Hero
+      title={
+        <>
+          <Library size={36} strokeWidth={1.5} /> Knowledge
+        </>
+      }
+      description={`  Knowledge libraries keep documents indexed once so that any chat or
+    persona can search them.`}
+    >
+      <HeroButton
+        title="New Library"
+        description="Create a personal library for the documents you use in many chats."
+        icon={<Library />}
+        onClick={() =>
+          knowledgeStore.newLibraryAndOpen({
+            name: "",
+            description: "",
+            sharing: "personal",
+          })
+        }
+      />
+      <HeroButton
+        title="Team Library"
+        description="Create a library shared with the users of your business unit."
+        icon={<Users />}
+        onClick={() =>
+          knowledgeStore.newLibraryAndOpen({
+            name: "",
+            description: "",
+            sharing: "group",
+          })
+        }
+      />
+    </Hero>
+  );
+};
@@ -0,0 +1,40 @@
+import { FC } from "react";
+import { ChatDocumentModel } from "../chat-page/chat-services/models";
+import { ScrollArea } from "../ui/scroll-area";
+import { AddNewKnowledgeLibrary } from "./add-new-knowledge-library";
+import { KnowledgeCard } from "./knowledge-card/knowledge-card";
+import { KnowledgeHero } from "./knowledge-hero/knowledge-hero";
+import { KnowledgeLibraryModel } from "./knowledge-services/models";
+
+interface KnowledgePageProps {
+  libraries: Array<KnowledgeLibraryModel>;
+  documents: Array<ChatDocumentModel>;
+  editableLibraryIds: Array<string>;
+}
+
+export const KnowledgePage: FC<KnowledgePageProps> = (props) => {
+  return (
+    <ScrollArea className="flex-1">
+      <main className="flex flex-1 flex-col">
+        <KnowledgeHero />
+        <div className="container max-w-4xl py-3">
+          <div className="grid grid-cols-3 gap-3">
+            {props.libraries.map((library) => {
+              return (
+                <KnowledgeCard
+                  library={library}
+                  documents={props.documents.filter(
+                    (d) => d.libraryId === library.id
+                  )}
+                  canEdit={props.editableLibraryIds.includes(library.id)}
+                  key={library.id}
+                />
+              );
+            })}
+          </div>
+        </div>
+        <AddNewKnowledgeLibrary />
+      </main>
+    </ScrollArea>
+  );
+};
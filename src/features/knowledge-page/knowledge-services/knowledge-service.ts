@@ -0,0 +1,434 @@
+"use server";
+import "server-only";
+
+import { getCurrentUser, userHashedId } from "@/features/auth-page/helpers";
+import { DeleteLibraryDocuments } from "@/features/chat-page/chat-services/azure-ai-search/azure-ai-search";
+import {
+  DOCUMENT_CONTAINER_NAME,
+  DocumentBlobPath,
+  FindIngestionJobsForLibrary,
+} from "@/features/chat-page/chat-services/document-ingestion";
+import {
+  CHAT_DOCUMENT_ATTRIBUTE,
+  ChatDocumentModel,
+} from "@/features/chat-page/chat-services/models";
+import { RevalidateCache } from "@/features/common/navigation-helpers";
+import {
+  ServerActionResponse,
+  zodErrorsToServerActionErrors,
+} from "@/features/common/server-action-response";
+import { DeleteBlob } from "@/features/common/services/azure-storage";
+import { HistoryContainer } from "@/features/common/services/cosmos";
+import { uniqueId } from "@/features/common/util";
+import { SqlQuerySpec } from "@azure/cosmos";
+import {
+  KNOWLEDGE_LIBRARY_ATTRIBUTE,
+  KnowledgeLibraryModel,
+  KnowledgeLibraryModelSchema,
+} from "./models";
+
+interface KnowledgeLibraryInput {
+  name: string;
+  description: string;
+  sharing: KnowledgeLibraryModel["sharing"];
+}
+
+// Libraries the current user owns or that are shared with their business unit
+export const FindKnowledgeLibraryByID = async (
+  id: string
+): Promise<ServerActionResponse<KnowledgeLibraryModel>> => {
+  try {
+    const response = await FindReadableLibraries([id]);
+
+    if (response.length === 0) {
+      return {
+        status: "NOT_FOUND",
+        errors: [
+          {
+            message: "Knowledge library not found",
+          },
+        ],
+      };
+    }
+
+    return {
+      status: "OK",
+      response: response[0],
+    };
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `Error finding knowledge library: ${error}`,
+        },
+      ],
+    };
+  }
+};
+
+export const FindAllKnowledgeLibrariesForCurrentUser = async (): Promise<
+  ServerActionResponse<Array<KnowledgeLibraryModel>>
+> => {
+  try {
+    return {
+      status: "OK",
+      response: await FindReadableLibraries(),
+    };
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `Error finding knowledge libraries: ${error}`,
+        },
+      ],
+    };
+  }
+};
+
+export const CreateKnowledgeLibrary = async (
+  props: KnowledgeLibraryInput
+): Promise<ServerActionResponse<KnowledgeLibraryModel>> => {
+  try {
+    const user = await getCurrentUser();
+
+    const modelToSave: KnowledgeLibraryModel = {
+      id: uniqueId(),
+      name: props.name,
+      description: props.description,
+      sharing: props.sharing,
+      group: props.sharing === "group" ? user.businessUnit ?? "" : "",
+      userId: await userHashedId(),
+      createdAt: new Date(),
+      type: KNOWLEDGE_LIBRARY_ATTRIBUTE,
+    };
+
+    const valid = ValidateSchema(modelToSave);
+
+    if (valid.status !== "OK") {
+      return valid;
+    }
+
+    const { resource } =
+      await HistoryContainer().items.create<KnowledgeLibraryModel>(
+        modelToSave
+      );
+
+    if (resource) {
+      RevalidateCache({ page: "knowledge" });
+      return {
+        status: "OK",
+        response: resource,
+      };
+    }
+
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: "Error creating knowledge library",
+        },
+      ],
+    };
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `Error creating knowledge library: ${error}`,
+        },
+      ],
+    };
+  }
+};
+
+// Only the owner and admins change a library, users of the group only read it
+export const EnsureKnowledgeLibraryOperation = async (
+  libraryId: string
+): Promise<ServerActionResponse<KnowledgeLibraryModel>> => {
+  const libraryResponse = await FindKnowledgeLibraryByID(libraryId);
+  const currentUser = await getCurrentUser();
+  const hashedId = await userHashedId();
+
+  if (libraryResponse.status === "OK") {
+    if (currentUser.isAdmin || libraryResponse.response.userId === hashedId) {
+      return libraryResponse;
+    }
+  }
+
+  return {
+    status: "UNAUTHORIZED",
+    errors: [
+      {
+        message: `Knowledge library not found with id: ${libraryId}`,
+      },
+    ],
+  };
+};
+
+export const UpsertKnowledgeLibrary = async (
+  libraryInput: KnowledgeLibraryModel
+): Promise<ServerActionResponse<KnowledgeLibraryModel>> => {
+  try {
+    const libraryResponse = await EnsureKnowledgeLibraryOperation(
+      libraryInput.id
+    );
+
+    if (libraryResponse.status !== "OK") {
+      return libraryResponse;
+    }
+
+    const { response: library } = libraryResponse;
+    const user = await getCurrentUser();
+
+    // a shared library stays with its group when an admin edits it
+    const group =
+      libraryInput.sharing === "personal"
+        ? ""
+        : library.group || (user.businessUnit ?? "");
+
+    const modelToUpdate: KnowledgeLibraryModel = {
+      ...library,
+      name: libraryInput.name,
+      description: libraryInput.description,
+      sharing: libraryInput.sharing,
+      group,
+    };
+
+    const validationResponse = ValidateSchema(modelToUpdate);
+    if (validationResponse.status !== "OK") {
+      return validationResponse;
+    }
+
+    const { resource } =
+      await HistoryContainer().items.upsert<KnowledgeLibraryModel>(
+        modelToUpdate
+      );
+
+    if (resource) {
+      RevalidateCache({ page: "knowledge" });
+      return {
+        status: "OK",
+        response: resource,
+      };
+    }
+
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: "Error updating knowledge library",
+        },
+      ],
+    };
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `Error updating knowledge library: ${error}`,
+        },
+      ],
+    };
+  }
+};
+
+// Removes the library with its documents, their chunks and their stored files
+export const DeleteKnowledgeLibrary = async (
+  libraryId: string
+): Promise<ServerActionResponse<KnowledgeLibraryModel>> => {
+  try {
+    const libraryResponse = await EnsureKnowledgeLibraryOperation(libraryId);
+
+    if (libraryResponse.status !== "OK") {
+      return libraryResponse;
+    }
+
+    const jobs = await FindIngestionJobsForLibrary(libraryId);
+    await Promise.all(
+      jobs.map((job) => HistoryContainer().item(job.id, job.userId).delete())
+    );
+
+    const documents = await FindLibraryDocuments([libraryId]);
+    const blobResponses = await Promise.all(
+      documents.map((document) =>
+        DeleteBlob(DOCUMENT_CONTAINER_NAME, DocumentBlobPath(document))
+      )
+    );
+
+    const deleteResponses = await DeleteLibraryDocuments(libraryId);
+
+    const errors = [...blobResponses, ...deleteResponses].flatMap((r) =>
+      r.status === "OK" ? [] : r.errors
+    );
+
+    if (errors.length > 0) {
+      return {
+        status: "ERROR",
+        errors,
+      };
+    }
+
+    await Promise.all(
+      documents.map((document) =>
+        HistoryContainer().items.upsert<ChatDocumentModel>({
+          ...document,
+          isDeleted: true,
+        })
+      )
+    );
+
+    const { resource: deletedLibrary } = await HistoryContainer()
+      .item(libraryId, libraryResponse.response.userId)
+      .delete();
+
+    RevalidateCache({ page: "knowledge" });
+
+    return {
+      status: "OK",
+      response: deletedLibrary,
+    };
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `Error deleting knowledge library: ${error}`,
+        },
+      ],
+    };
+  }
+};
+
+// Documents of the libraries the current user can read, others are left out
+export const FindAllKnowledgeLibraryDocuments = async (
+  libraryIds: Array<string>
+): Promise<ServerActionResponse<Array<ChatDocumentModel>>> => {
+  try {
+    if (libraryIds.length === 0) {
+      return {
+        status: "OK",
+        response: [],
+      };
+    }
+
+    const libraries = await FindReadableLibraries(libraryIds);
+
+    return {
+      status: "OK",
+      response: await FindLibraryDocuments(libraries.map((l) => l.id)),
+    };
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `Error finding knowledge library documents: ${error}`,
+        },
+      ],
+    };
+  }
+};
+
+const FindReadableLibraries = async (
+  libraryIds?: Array<string>
+): Promise<Array<KnowledgeLibraryModel>> => {
+  const user = await getCurrentUser();
+
+  const querySpec: SqlQuerySpec = {
+    query: `SELECT * FROM root r WHERE r.type=@type AND (r.userId=@userId OR (r.sharing=@sharing AND r.group=@group))${
+      libraryIds ? " AND ARRAY_CONTAINS(@libraryIds, r.id)" : ""
+    } ORDER BY r.createdAt DESC`,
+    parameters: [
+      {
+        name: "@type",
+        value: KNOWLEDGE_LIBRARY_ATTRIBUTE,
+      },
+      {
+        name: "@userId",
+        value: await userHashedId(),
+      },
+      {
+        name: "@sharing",
+        value: "group",
+      },
+      {
+        // users without a business unit only see their own libraries
+        name: "@group",
+        value: user.businessUnit || uniqueId(),
+      },
+      {
+        name: "@libraryIds",
+        value: libraryIds ?? [],
+      },
+    ],
+  };
+
+  const { resources } = await HistoryContainer()
+    .items.query<KnowledgeLibraryModel>(querySpec)
+    .fetchAll();
+
+  return resources;
+};
+
+const FindLibraryDocuments = async (
+  libraryIds: Array<string>
+): Promise<Array<ChatDocumentModel>> => {
+  if (libraryIds.length === 0) {
+    return [];
+  }
+
+  const querySpec: SqlQuerySpec = {
+    query:
+      "SELECT * FROM root r WHERE r.type=@type AND ARRAY_CONTAINS(@libraryIds, r.libraryId) AND r.isDeleted=@isDeleted",
+    parameters: [
+      {
+        name: "@type",
+        value: CHAT_DOCUMENT_ATTRIBUTE,
+      },
+      {
+        name: "@libraryIds",
+        value: libraryIds,
+      },
+      {
+        name: "@isDeleted",
+        value: false,
+      },
+    ],
+  };
+
+  const { resources } = await HistoryContainer()
+    .items.query<ChatDocumentModel>(querySpec)
+    .fetchAll();
+
+  return resources;
+};
+
+const ValidateSchema = (model: KnowledgeLibraryModel): ServerActionResponse => {
+  const validatedFields = KnowledgeLibraryModelSchema.safeParse(model);
+
+  if (!validatedFields.success) {
+    return {
+      status: "ERROR",
+      errors: zodErrorsToServerActionErrors(validatedFields.error.errors),
+    };
+  }
+
+  if (model.sharing === "group" && !model.group) {
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message:
+            "Your account has no business unit to share the library with",
+        },
+      ],
+    };
+  }
+
+  return {
+    status: "OK",
+    response: model,
+  };
+};
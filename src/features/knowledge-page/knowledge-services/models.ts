@@ -0,0 +1,28 @@
+import { refineFromEmpty } from "@/features/common/schema-validation";
+import { z } from "zod";
+
+export const KNOWLEDGE_LIBRARY_ATTRIBUTE = "KNOWLEDGE_LIBRARY";
+export type KnowledgeLibraryModel = z.infer<typeof KnowledgeLibraryModelSchema>;
+
+export const KnowledgeLibraryModelSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  name: z
+    .string({
+      invalid_type_error: "Invalid name",
+    })
+    .min(1)
+    .refine(refineFromEmpty, "Name cannot be empty"),
+  description: z
+    .string({
+      invalid_type_error: "Invalid description",
+    })
+    .min(1)
+    .refine(refineFromEmpty, "Description cannot be empty"),
+  // personal libraries are only seen by their owner, group libraries by the
+  // users of the owner's business unit
+  sharing: z.enum(["personal", "group"]),
+  group: z.string(), // business unit of a group library, empty when personal
+  type: z.literal(KNOWLEDGE_LIBRARY_ATTRIBUTE),
+  createdAt: z.date(),
+});
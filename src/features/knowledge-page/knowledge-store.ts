@@ -0,0 +1,94 @@
+import { proxy, useSnapshot } from "valtio";
+import {
+  KNOWLEDGE_LIBRARY_ATTRIBUTE,
+  KnowledgeLibraryModel,
+} from "./knowledge-services/models";
+import {
+  CreateKnowledgeLibrary,
+  UpsertKnowledgeLibrary,
+} from "./knowledge-services/knowledge-service";
+
+class KnowledgeState {
+  private defaultModel: KnowledgeLibraryModel = {
+    id: "",
+    name: "",
+    description: "",
+    sharing: "personal",
+    group: "",
+    createdAt: new Date(),
+    type: KNOWLEDGE_LIBRARY_ATTRIBUTE,
+    userId: "",
+  };
+
+  public isOpened: boolean = false;
+  public errors: string[] = [];
+  public library: KnowledgeLibraryModel = { ...this.defaultModel };
+
+  public updateOpened(value: boolean) {
+    this.isOpened = value;
+  }
+
+  public updateLibrary(library: KnowledgeLibraryModel) {
+    this.library = {
+      ...library,
+    };
+    this.isOpened = true;
+  }
+
+  public newLibraryAndOpen(library: {
+    name: string;
+    description: string;
+    sharing: KnowledgeLibraryModel["sharing"];
+  }) {
+    this.library = {
+      ...this.defaultModel,
+      ...library,
+    };
+    this.isOpened = true;
+  }
+
+  public updateErrors(errors: string[]) {
+    this.errors = errors;
+  }
+}
+
+export const knowledgeStore = proxy(new KnowledgeState());
+
+export const useKnowledgeState = () => {
+  return useSnapshot(knowledgeStore);
+};
+
+export const addOrUpdateKnowledgeLibrary = async (
+  previous: any,
+  formData: FormData
+) => {
+  knowledgeStore.updateErrors([]);
+
+  const model = FormDataToKnowledgeLibraryModel(formData);
+  const response =
+    model.id && model.id !== ""
+      ? await UpsertKnowledgeLibrary(model)
+      : await CreateKnowledgeLibrary(model);
+
+  if (response.status === "OK") {
+    knowledgeStore.updateOpened(false);
+  } else {
+    knowledgeStore.updateErrors(response.errors.map((e) => e.message));
+  }
+  return response;
+};
+
+export const FormDataToKnowledgeLibraryModel = (
+  formData: FormData
+): KnowledgeLibraryModel => {
+  return {
+    id: formData.get("id") as string,
+    name: formData.get("name") as string,
+    description: formData.get("description") as string,
+    sharing: formData.get("isShared") === "on" ? "group" : "personal",
+    group: "", // the group is set on the server from the business unit of the user
+    userId: "", // the user id is set on the server once the user is authenticated
+    createdAt: new Date(),
+    type: KNOWLEDGE_LIBRARY_ATTRIBUTE,
+  };
+};
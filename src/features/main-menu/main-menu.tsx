@@ -8,7 +8,10 @@ import {
 } from "@/ui/menu";
 import {
   Book,
+  Cpu,
+  Gauge,
   Home,
+  Library,
   MessageCircle,
   PocketKnife,
   Sheet,
@@ -43,6 +46,11 @@ export const MainMenu = async () => {
               <VenetianMask {...menuIconProps} />
             </MenuLink>
           </MenuItem>
+          <MenuItem tooltip="knowledge">
+            <MenuLink href="/knowledge" ariaLabel="Go to the Knowledge libraries page">
+              <Library {...menuIconProps} />
+            </MenuLink>
+          </MenuItem>
           <MenuItem tooltip="extensions">
             <MenuLink href="/extensions" ariaLabel="Go to the Extensions configuration page">
               <PocketKnife {...menuIconProps} />
@@ -60,6 +68,16 @@ export const MainMenu = async () => {
                   <Sheet {...menuIconProps} />
                 </MenuLink>
               </MenuItem>
+              <MenuItem tooltip="models">
+                <MenuLink href="/models" ariaLabel="Go to the Model configuration page">
+                  <Cpu {...menuIconProps} />
+                </MenuLink>
+              </MenuItem>
+              <MenuItem tooltip="usage">
+                <MenuLink href="/usage" ariaLabel="Go to the Usage and quota page">
+                  <Gauge {...menuIconProps} />
+                </MenuLink>
+              </MenuItem>
             </>
           )}
         </MenuItemContainer>
@@ -9,8 +9,9 @@ import {
   DropdownMenuTrigger,
 } from "@/ui/dropdown-menu";
 import { menuIconProps } from "@/ui/menu";
-import { CircleUserRound, LogOut } from "lucide-react";
+import { CircleUserRound, KeyRound, LogOut } from "lucide-react";
 import { signOut, useSession } from "next-auth/react";
+import Link from "next/link";
 import { Avatar, AvatarImage } from "../ui/avatar";
 import { ThemeToggle } from "./theme-toggle";
 
@@ -53,6 +54,12 @@ export const UserProfile = () => {
           </div>
         </DropdownMenuLabel>
         <DropdownMenuSeparator />
+        <DropdownMenuItem className="flex gap-2" asChild>
+          <Link href="/profile">
+            <KeyRound {...menuIconProps} size={18} />
+            <span>API keys</span>
+          </Link>
+        </DropdownMenuItem>
         <DropdownMenuItem
           className="flex gap-2"
           onClick={() => signOut({ callbackUrl: "/" })}
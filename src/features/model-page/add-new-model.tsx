@@ -0,0 +1,152 @@
+"use client";
+
+import { FC } from "react";
+import { useFormState, useFormStatus } from "react-dom";
+import { ServerActionResponse } from "../common/server-action-response";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { LoadingIndicator } from "../ui/loading";
+import { ScrollArea } from "../ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "../ui/sheet";
+import { Switch } from "../ui/switch";
+import { Textarea } from "../ui/textarea";
+import { addOrUpdateModel, modelStore, useModelState } from "./model-store";
+
+interface Props {}
+
+export const AddNewModel: FC<Props> = (props) => {
+  const initialState: ServerActionResponse | undefined = undefined;
+
+  const { isOpened, model } = useModelState();
+
+  const [formState, formAction] = useFormState(addOrUpdateModel, initialState);
+
+  return (
+    <Sheet
+      open={isOpened}
+      onOpenChange={(value) => {
+        modelStore.updateOpened(value);
+      }}
+    >
+      <SheetContent className="min-w-[480px] sm:w-[540px] flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Model</SheetTitle>
+        </SheetHeader>
+        <form action={formAction} className="flex-1 flex flex-col">
+          <ScrollArea
+            className="flex-1 -mx-6 flex max-h-[calc(100vh-140px)]"
+            type="always"
+          >
+            <div className="pb-6 px-6 flex gap-8 flex-col  flex-1">
+              <input type="hidden" name="id" defaultValue={model.id} />
+              {formState && formState.status === "OK" ? null : (
+                <>
+                  {formState &&
+                    formState.errors.map((error, index) => (
+                      <div key={index} className="text-red-500">
+                        {error.message}
+                      </div>
+                    ))}
+                </>
+              )}
+              <div className="grid gap-2">
+                <Label>Name</Label>
+                <Input
+                  type="text"
+                  required
+                  name="name"
+                  defaultValue={model.name}
+                  placeholder="Name shown to users"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label>Deployment name</Label>
+                <Input
+                  type="text"
+                  required
+                  name="deploymentName"
+                  defaultValue={model.deploymentName}
+                  placeholder="Deployment name from Azure OpenAI studio"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="description">Short description</Label>
+                <Textarea
+                  defaultValue={model.description}
+                  name="description"
+                  placeholder="eg: Fast and cheap, good for quick questions"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label>Context window (tokens)</Label>
+                <Input
+                  type="number"
+                  required
+                  min={1}
+                  name="contextWindow"
+                  defaultValue={model.contextWindow}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="grid gap-2">
+                  <Label>Input cost (USD / 1K tokens)</Label>
+                  <Input
+                    type="number"
+                    required
+                    min={0}
+                    step="any"
+                    name="inputCost"
+                    defaultValue={model.inputCost}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label>Output cost (USD / 1K tokens)</Label>
+                  <Input
+                    type="number"
+                    required
+                    min={0}
+                    step="any"
+                    name="outputCost"
+                    defaultValue={model.outputCost}
+                  />
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch name="vision" defaultChecked={model.vision} />
+                <Label>Supports images (vision)</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch name="tools" defaultChecked={model.tools} />
+                <Label>Supports tools (extensions)</Label>
+              </div>
+            </div>
+          </ScrollArea>
+          <SheetFooter className="py-2 flex sm:justify-between flex-row">
+            <div className="flex items-center space-x-2">
+              <Switch name="isDefault" defaultChecked={model.isDefault} />
+              <Label>Default</Label>
+            </div>
+            <Submit />
+          </SheetFooter>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+function Submit() {
+  const status = useFormStatus();
+  return (
+    <Button disabled={status.pending} className="gap-2">
+      <LoadingIndicator isLoading={status.pending} />
+      Save
+    </Button>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { MoreVertical, Pencil, Trash } from "lucide-react";
+import { FC, useState } from "react";
+import { DropdownMenuItemWithIcon } from "../../chat-page/chat-menu/chat-menu-item";
+import { RevalidateCache } from "../../common/navigation-helpers";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "../../ui/dropdown-menu";
+import { LoadingIndicator } from "../../ui/loading";
+import { DeleteModelDeployment } from "../model-services/model-service";
+import { ModelDeploymentModel } from "../model-services/models";
+import { modelStore } from "../model-store";
+
+interface Props {
+  model: ModelDeploymentModel;
+}
+
+type DropdownAction = "delete";
+
+export const ModelCardContextMenu: FC<Props> = (props) => {
+  const { isLoading, handleAction } = useDropdownAction({
+    model: props.model,
+  });
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger>
+          {isLoading ? (
+            <LoadingIndicator isLoading={isLoading} />
+          ) : (
+            <MoreVertical size={18} />
+          )}
+        </DropdownMenuTrigger>
+        <DropdownMenuContent>
+          <DropdownMenuItemWithIcon
+            onClick={() => modelStore.updateModel(props.model)}
+          >
+            <Pencil size={18} />
+            <span>Edit</span>
+          </DropdownMenuItemWithIcon>
+          <DropdownMenuItemWithIcon
+            onClick={async () => await handleAction("delete")}
+          >
+            <Trash size={18} />
+            <span>Delete</span>
+          </DropdownMenuItemWithIcon>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </>
+  );
+};
+
+const useDropdownAction = (props: { model: ModelDeploymentModel }) => {
+  const { model } = props;
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleAction = async (action: DropdownAction) => {
+    setIsLoading(true);
+    switch (action) {
+      case "delete":
+        if (window.confirm(`Are you sure you want to delete ${model.name}?`)) {
+          await DeleteModelDeployment(model.id);
+          RevalidateCache({
+            page: "models",
+          });
+        }
+
+        break;
+    }
+    setIsLoading(false);
+  };
+
+  return {
+    isLoading,
+    handleAction,
+  };
+};
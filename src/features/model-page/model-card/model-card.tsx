@@ -0,0 +1,48 @@
+import { Eye, PocketKnife, Star } from "lucide-react";
+import { FC } from "react";
+import {
+  Card,
+  CardContent,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "../../ui/card";
+import { ModelDeploymentModel } from "../model-services/models";
+import { ModelCardContextMenu } from "./model-card-context-menu";
+
+interface Props {
+  model: ModelDeploymentModel;
+}
+
+export const ModelCard: FC<Props> = (props) => {
+  const { model } = props;
+  return (
+    <Card key={model.id} className="flex flex-col">
+      <CardHeader className="flex flex-row">
+        <CardTitle className="flex-1 flex gap-2 items-center">
+          {model.name}
+          {model.isDefault && <Star size={16} aria-label="Default model" />}
+        </CardTitle>
+        <div>
+          <ModelCardContextMenu model={model} />
+        </div>
+      </CardHeader>
+      <CardContent className="text-muted-foreground flex-1 flex flex-col gap-2">
+        <div>{model.deploymentName}</div>
+        <div>
+          {model.description.length > 100
+            ? model.description.slice(0, 100).concat("...")
+            : model.description}
+        </div>
+      </CardContent>
+      <CardFooter className="text-sm text-muted-foreground flex gap-3 items-center">
+        {model.vision && <Eye size={16} aria-label="Vision" />}
+        {model.tools && <PocketKnife size={16} aria-label="Tools" />}
+        <span>{(model.contextWindow / 1000).toLocaleString()}K</span>
+        <span>
+          ${model.inputCost} / ${model.outputCost}
+        </span>
+      </CardFooter>
+    </Card>
+  );
+};
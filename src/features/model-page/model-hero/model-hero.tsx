@@ -0,0 +1,70 @@
+"use client";
+import { Hero, HeroButton } from "@/features/ui/hero";
+import { Cpu, Eye, Zap } from "lucide-react";
+import { modelStore } from "../model-store";
+
+export const ModelHero = () => {
+  return (
+    <Hero
+      title={
+        <>
+          <Cpu size={36} strokeWidth={1.5} /> Models
+        </>
+      }
+      description={
+        "Register the Azure OpenAI deployments users can pick from in a chat. Each model describes its capabilities and cost so users can choose between quick answers and deeper analysis."
+      }
+    >
+      <HeroButton
+        title="Add New Model"
+        description="Register an Azure OpenAI deployment"
+        icon={<Cpu />}
+        onClick={() => modelStore.newModel()}
+      />
+      <HeroButton
+        title="Fast model"
+        description="Cheap model for quick questions"
+        icon={<Zap />}
+        onClick={() =>
+          modelStore.updateModel({
+            id: "",
+            name: "GPT-4o mini",
+            description: "Fast and cheap, good for quick questions.",
+            deploymentName: "gpt-4o-mini",
+            vision: true,
+            tools: true,
+            contextWindow: 128000,
+            inputCost: 0.00015,
+            outputCost: 0.0006,
+            isDefault: false,
+            createdAt: new Date(),
+            type: "MODEL_DEPLOYMENT",
+            userId: "",
+          })
+        }
+      />
+      <HeroButton
+        title="Analysis model"
+        description="Stronger model for lease analysis"
+        icon={<Eye />}
+        onClick={() =>
+          modelStore.updateModel({
+            id: "",
+            name: "GPT-4o",
+            description: "Stronger reasoning for lease and document analysis.",
+            deploymentName: "gpt-4o",
+            vision: true,
+            tools: true,
+            contextWindow: 128000,
+            inputCost: 0.0025,
+            outputCost: 0.01,
+            isDefault: false,
+            createdAt: new Date(),
+            type: "MODEL_DEPLOYMENT",
+            userId: "",
+          })
+        }
+      />
+    </Hero>
+  );
+};
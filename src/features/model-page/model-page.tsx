@@ -0,0 +1,108 @@
+import { FC } from "react";
+
+import { DisplayError } from "../ui/error/display-error";
+import { ScrollArea } from "../ui/scroll-area";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+import { AddNewModel } from "./add-new-model";
+import { ModelCard } from "./model-card/model-card";
+import { ModelHero } from "./model-hero/model-hero";
+import { EditRetrievalSettings } from "./model-retrieval/edit-retrieval-settings";
+import { RetrievalEditButton } from "./model-retrieval/retrieval-edit-button";
+import { SearchIndexTable } from "./model-retrieval/search-index-table";
+import { FindAllModelDeployments } from "./model-services/model-service";
+import {
+  FindRetrievalSettings,
+  FindSearchIndexStatus,
+} from "./model-services/retrieval-service";
+
+interface ModelPageProps {}
+
+export const ModelPage: FC<ModelPageProps> = async (props) => {
+  const [modelsResponse, retrievalResponse, searchIndexResponse] =
+    await Promise.all([
+      FindAllModelDeployments(),
+      FindRetrievalSettings(),
+      FindSearchIndexStatus(),
+    ]);
+
+  if (modelsResponse.status !== "OK") {
+    return <DisplayError errors={modelsResponse.errors} />;
+  }
+
+  if (retrievalResponse.status !== "OK") {
+    return <DisplayError errors={retrievalResponse.errors} />;
+  }
+
+  if (searchIndexResponse.status !== "OK") {
+    return <DisplayError errors={searchIndexResponse.errors} />;
+  }
+
+  const retrieval = retrievalResponse.response;
+
+  return (
+    <ScrollArea className="flex-1">
+      <main className="flex flex-1 flex-col">
+        <ModelHero />
+        <div className="container max-w-4xl py-3 flex flex-col gap-8">
+          <div className="grid grid-cols-3 gap-3">
+            {modelsResponse.response.map((model) => {
+              return <ModelCard model={model} key={model.id} />;
+            })}
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Document search</TableHead>
+                <TableHead className="text-right">Top k</TableHead>
+                <TableHead className="text-right">Keyword / vector</TableHead>
+                <TableHead className="text-right">Min score</TableHead>
+                <TableHead className="text-right">Diversity</TableHead>
+                <TableHead className="w-[50px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              <TableRow>
+                <TableCell>
+                  {[
+                    "Hybrid",
+                    retrieval.semanticRanking && "semantic ranking",
+                    retrieval.queryRewriting && "query rewriting",
+                    retrieval.hyde && "HyDE",
+                  ]
+                    .filter((d) => d)
+                    .join(", ")}
+                  {!retrieval.id && (
+                    <span className="text-muted-foreground"> (default)</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">{retrieval.topK}</TableCell>
+                <TableCell className="text-right">
+                  {retrieval.keywordWeight} / {retrieval.vectorWeight}
+                </TableCell>
+                <TableCell className="text-right">
+                  {retrieval.minScore}
+                </TableCell>
+                <TableCell className="text-right">
+                  {retrieval.diversity}
+                </TableCell>
+                <TableCell>
+                  <RetrievalEditButton settings={retrieval} />
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+          <SearchIndexTable status={searchIndexResponse.response} />
+        </div>
+        <AddNewModel />
+        <EditRetrievalSettings />
+      </main>
+    </ScrollArea>
+  );
+};
@@ -0,0 +1,193 @@
+"use client";
+
+import { FC } from "react";
+import { useFormState, useFormStatus } from "react-dom";
+import { ServerActionResponse } from "../../common/server-action-response";
+import { Button } from "../../ui/button";
+import { Input } from "../../ui/input";
+import { Label } from "../../ui/label";
+import { LoadingIndicator } from "../../ui/loading";
+import { ScrollArea } from "../../ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "../../ui/sheet";
+import { Switch } from "../../ui/switch";
+import {
+  modelStore,
+  updateRetrievalSettings,
+  useModelState,
+} from "../model-store";
+
+interface Props {}
+
+export const EditRetrievalSettings: FC<Props> = (props) => {
+  const initialState: ServerActionResponse | undefined = undefined;
+
+  const { isRetrievalOpened, retrievalSettings } = useModelState();
+
+  const [formState, formAction] = useFormState(
+    updateRetrievalSettings,
+    initialState
+  );
+
+  return (
+    <Sheet
+      open={isRetrievalOpened}
+      onOpenChange={(value) => {
+        modelStore.updateRetrievalOpened(value);
+      }}
+    >
+      <SheetContent className="min-w-[480px] sm:w-[540px] flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Document search</SheetTitle>
+        </SheetHeader>
+        {retrievalSettings && (
+          <form
+            // recreated after every save so that the default values are applied
+            key={retrievalSettings.createdAt.toString()}
+            action={formAction}
+            className="flex-1 flex flex-col"
+          >
+            <ScrollArea
+              className="flex-1 -mx-6 flex max-h-[calc(100vh-140px)]"
+              type="always"
+            >
+              <div className="pb-6 px-6 flex gap-8 flex-col  flex-1">
+                <input
+                  type="hidden"
+                  name="id"
+                  defaultValue={retrievalSettings.id}
+                />
+                {formState && formState.status === "OK" ? null : (
+                  <>
+                    {formState &&
+                      formState.errors.map((error, index) => (
+                        <div key={index} className="text-red-500">
+                          {error.message}
+                        </div>
+                      ))}
+                  </>
+                )}
+                <div className="grid gap-2">
+                  <Label>Chunks given to the model (top k)</Label>
+                  <Input
+                    type="number"
+                    required
+                    min={1}
+                    max={50}
+                    step={1}
+                    name="topK"
+                    defaultValue={retrievalSettings.topK}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label>Keyword weight (0 turns keyword search off)</Label>
+                  <Input
+                    type="number"
+                    required
+                    min={0}
+                    step="any"
+                    name="keywordWeight"
+                    defaultValue={retrievalSettings.keywordWeight}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label>Vector weight (0 turns vector search off)</Label>
+                  <Input
+                    type="number"
+                    required
+                    min={0}
+                    step="any"
+                    name="vectorWeight"
+                    defaultValue={retrievalSettings.vectorWeight}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label>Minimum score</Label>
+                  <Input
+                    type="number"
+                    required
+                    min={0}
+                    max={4}
+                    step="any"
+                    name="minScore"
+                    defaultValue={retrievalSettings.minScore}
+                  />
+                  <div className="text-sm text-muted-foreground">
+                    Reranker score from 0 to 4 with semantic ranking, otherwise
+                    similarity to the question from 0 to 1
+                  </div>
+                </div>
+                <div className="grid gap-2">
+                  <Label>Diversity (0 to 1)</Label>
+                  <Input
+                    type="number"
+                    required
+                    min={0}
+                    max={1}
+                    step="any"
+                    name="diversity"
+                    defaultValue={retrievalSettings.diversity}
+                  />
+                  <div className="text-sm text-muted-foreground">
+                    Higher values prefer chunks that differ from each other
+                  </div>
+                </div>
+                <div className="grid gap-2">
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      name="queryRewriting"
+                      defaultChecked={retrievalSettings.queryRewriting}
+                    />
+                    <Label>Rewrite follow-up questions</Label>
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    Turns the question into standalone search queries with the
+                    recent messages of the chat
+                  </div>
+                </div>
+                <div className="grid gap-2">
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      name="hyde"
+                      defaultChecked={retrievalSettings.hyde}
+                    />
+                    <Label>Search with a hypothetical answer</Label>
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    Also searches with an answer drafted by the model, which
+                    reads more like the documents than the question
+                  </div>
+                </div>
+              </div>
+            </ScrollArea>
+            <SheetFooter className="py-2 flex sm:justify-between flex-row">
+              <div className="flex items-center space-x-2">
+                <Switch
+                  name="semanticRanking"
+                  defaultChecked={retrievalSettings.semanticRanking}
+                />
+                <Label>Semantic ranking</Label>
+              </div>
+              <Submit />
+            </SheetFooter>
+          </form>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+function Submit() {
+  const status = useFormStatus();
+  return (
+    <Button disabled={status.pending} className="gap-2">
+      <LoadingIndicator isLoading={status.pending} />
+      Save
+    </Button>
+  );
+}
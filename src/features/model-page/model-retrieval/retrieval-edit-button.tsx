@@ -0,0 +1,24 @@
+"use client";
+
+import { Pencil } from "lucide-react";
+import { FC } from "react";
+import { Button } from "../../ui/button";
+import { RetrievalSettingsModel } from "../model-services/models";
+import { modelStore } from "../model-store";
+
+interface Props {
+  settings: RetrievalSettingsModel;
+}
+
+export const RetrievalEditButton: FC<Props> = (props) => {
+  return (
+    <Button
+      size={"icon"}
+      variant={"ghost"}
+      aria-label="Edit document search settings"
+      onClick={() => modelStore.updateRetrievalSettings(props.settings)}
+    >
+      <Pencil size={18} />
+    </Button>
+  );
+};
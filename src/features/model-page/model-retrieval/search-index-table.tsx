@@ -0,0 +1,71 @@
+import { FC } from "react";
+import { SearchIndexStateModel } from "../../chat-page/chat-services/models";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../../ui/table";
+
+interface Props {
+  status: Pick<SearchIndexStateModel, "active" | "migration" | "previous">;
+}
+
+// Index the searches read, the index its chunks are migrated to and the
+// index that was replaced
+export const SearchIndexTable: FC<Props> = (props) => {
+  const { active, migration, previous } = props.status;
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Search index</TableHead>
+          <TableHead className="text-right">Schema</TableHead>
+          <TableHead className="text-right">Dimensions</TableHead>
+          <TableHead>Embedding model</TableHead>
+          <TableHead>Status</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        <TableRow>
+          <TableCell>{active.name}</TableCell>
+          <TableCell className="text-right">v{active.schemaVersion}</TableCell>
+          <TableCell className="text-right">{active.dimensions}</TableCell>
+          <TableCell>{active.embeddingModel || "Unknown"}</TableCell>
+          <TableCell>Searched</TableCell>
+        </TableRow>
+        {migration && (
+          <TableRow>
+            <TableCell>{migration.target.name}</TableCell>
+            <TableCell className="text-right">
+              v{migration.target.schemaVersion}
+            </TableCell>
+            <TableCell className="text-right">
+              {migration.target.dimensions}
+            </TableCell>
+            <TableCell>{migration.target.embeddingModel}</TableCell>
+            <TableCell>
+              {migration.status === "failed"
+                ? `Migration failed, tried again with the next upload: ${migration.error}`
+                : `Migrating, ${migration.migratedChunks} chunks copied`}
+            </TableCell>
+          </TableRow>
+        )}
+        {previous && (
+          <TableRow className="text-muted-foreground">
+            <TableCell>{previous.name}</TableCell>
+            <TableCell className="text-right">
+              v{previous.schemaVersion}
+            </TableCell>
+            <TableCell className="text-right">{previous.dimensions}</TableCell>
+            <TableCell>{previous.embeddingModel || "Unknown"}</TableCell>
+            <TableCell>Replaced, can be deleted</TableCell>
+          </TableRow>
+        )}
+      </TableBody>
+    </Table>
+  );
+};
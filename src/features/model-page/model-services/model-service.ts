@@ -0,0 +1,375 @@
+"use server";
+import "server-only";
+
+import { getCurrentUser, userHashedId } from "@/features/auth-page/helpers";
+import {
+  ServerActionResponse,
+  zodErrorsToServerActionErrors,
+} from "@/features/common/server-action-response";
+import { ConfigContainer } from "@/features/common/services/cosmos";
+import { OpenAIChatModel } from "@/features/common/services/openai";
+import { uniqueId } from "@/features/common/util";
+import { SqlQuerySpec } from "@azure/cosmos";
+import {
+  MODEL_DEPLOYMENT_ATTRIBUTE,
+  ModelDeploymentModel,
+  ModelDeploymentModelSchema,
+} from "./models";
+
+// used when no deployment is registered or the selected one was removed
+const DEFAULT_CONTEXT_WINDOW = 128000;
+
+export const CreateModelDeployment = async (
+  props: ModelDeploymentModel
+): Promise<ServerActionResponse<ModelDeploymentModel>> => {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user.isAdmin) {
+      return {
+        status: "UNAUTHORIZED",
+        errors: [
+          {
+            message: `Unable to create model - admin role required.`,
+          },
+        ],
+      };
+    }
+
+    const modelToSave: ModelDeploymentModel = {
+      id: uniqueId(),
+      name: props.name,
+      description: props.description,
+      deploymentName: props.deploymentName,
+      vision: props.vision,
+      tools: props.tools,
+      contextWindow: props.contextWindow,
+      inputCost: props.inputCost,
+      outputCost: props.outputCost,
+      isDefault: props.isDefault,
+      userId: await userHashedId(),
+      createdAt: new Date(),
+      type: MODEL_DEPLOYMENT_ATTRIBUTE,
+    };
+
+    const valid = ValidateSchema(modelToSave);
+
+    if (valid.status !== "OK") {
+      return valid;
+    }
+
+    if (modelToSave.isDefault) {
+      await ClearDefaultModelDeployment(modelToSave.id);
+    }
+
+    const { resource } =
+      await ConfigContainer().items.create<ModelDeploymentModel>(modelToSave);
+
+    if (resource) {
+      return {
+        status: "OK",
+        response: resource,
+      };
+    }
+
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: "Error creating model",
+        },
+      ],
+    };
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `Error creating model: ${error}`,
+        },
+      ],
+    };
+  }
+};
+
+export const FindAllModelDeployments = async (): Promise<
+  ServerActionResponse<Array<ModelDeploymentModel>>
+> => {
+  try {
+    const querySpec: SqlQuerySpec = {
+      query: "SELECT * FROM root r WHERE r.type=@type ORDER BY r.name ASC",
+      parameters: [
+        {
+          name: "@type",
+          value: MODEL_DEPLOYMENT_ATTRIBUTE,
+        },
+      ],
+    };
+
+    const { resources } = await ConfigContainer()
+      .items.query<ModelDeploymentModel>(querySpec)
+      .fetchAll();
+
+    return {
+      status: "OK",
+      response: resources,
+    };
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `Error retrieving models: ${error}`,
+        },
+      ],
+    };
+  }
+};
+
+export const FindModelDeploymentByID = async (
+  id: string
+): Promise<ServerActionResponse<ModelDeploymentModel>> => {
+  try {
+    const querySpec: SqlQuerySpec = {
+      query: "SELECT * FROM root r WHERE r.type=@type AND r.id=@id",
+      parameters: [
+        {
+          name: "@type",
+          value: MODEL_DEPLOYMENT_ATTRIBUTE,
+        },
+        {
+          name: "@id",
+          value: id,
+        },
+      ],
+    };
+
+    const { resources } = await ConfigContainer()
+      .items.query<ModelDeploymentModel>(querySpec)
+      .fetchAll();
+
+    if (resources.length === 0) {
+      return {
+        status: "NOT_FOUND",
+        errors: [
+          {
+            message: "Model not found",
+          },
+        ],
+      };
+    }
+
+    return {
+      status: "OK",
+      response: resources[0],
+    };
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `Error finding model: ${error}`,
+        },
+      ],
+    };
+  }
+};
+
+export const EnsureModelDeploymentOperation = async (
+  id: string
+): Promise<ServerActionResponse<ModelDeploymentModel>> => {
+  const modelResponse = await FindModelDeploymentByID(id);
+  const currentUser = await getCurrentUser();
+
+  if (modelResponse.status === "OK") {
+    if (currentUser.isAdmin) {
+      return modelResponse;
+    }
+  }
+
+  return {
+    status: "UNAUTHORIZED",
+    errors: [
+      {
+        message: `Model not found with id: ${id}`,
+      },
+    ],
+  };
+};
+
+export const DeleteModelDeployment = async (
+  id: string
+): Promise<ServerActionResponse<ModelDeploymentModel>> => {
+  try {
+    const modelResponse = await EnsureModelDeploymentOperation(id);
+
+    if (modelResponse.status === "OK") {
+      const { resource: deletedModel } = await ConfigContainer()
+        .item(id, modelResponse.response.userId)
+        .delete();
+
+      return {
+        status: "OK",
+        response: deletedModel,
+      };
+    }
+
+    return modelResponse;
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `Error deleting model: ${error}`,
+        },
+      ],
+    };
+  }
+};
+
+export const UpsertModelDeployment = async (
+  modelInput: ModelDeploymentModel
+): Promise<ServerActionResponse<ModelDeploymentModel>> => {
+  try {
+    const modelResponse = await EnsureModelDeploymentOperation(modelInput.id);
+
+    if (modelResponse.status === "OK") {
+      const { response: model } = modelResponse;
+
+      const modelToUpdate: ModelDeploymentModel = {
+        ...model,
+        name: modelInput.name,
+        description: modelInput.description,
+        deploymentName: modelInput.deploymentName,
+        vision: modelInput.vision,
+        tools: modelInput.tools,
+        contextWindow: modelInput.contextWindow,
+        inputCost: modelInput.inputCost,
+        outputCost: modelInput.outputCost,
+        isDefault: modelInput.isDefault,
+        createdAt: new Date(),
+      };
+
+      const validationResponse = ValidateSchema(modelToUpdate);
+      if (validationResponse.status !== "OK") {
+        return validationResponse;
+      }
+
+      if (modelToUpdate.isDefault) {
+        await ClearDefaultModelDeployment(modelToUpdate.id);
+      }
+
+      const { resource } =
+        await ConfigContainer().items.upsert<ModelDeploymentModel>(
+          modelToUpdate
+        );
+
+      if (resource) {
+        return {
+          status: "OK",
+          response: resource,
+        };
+      }
+
+      return {
+        status: "ERROR",
+        errors: [
+          {
+            message: "Error updating model",
+          },
+        ],
+      };
+    }
+
+    return modelResponse;
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `Error updating model: ${error}`,
+        },
+      ],
+    };
+  }
+};
+
+// Resolves the deployment a chat should run against.
+// The selected model is used when it exists and supports the required capability,
+// otherwise the admin default (or the first capable model) is used.
+// When the registry is empty the chat model of the configured LLM provider is returned.
+export const ResolveChatModel = async (
+  modelId?: string,
+  requirement?: "vision" | "tools"
+): Promise<ModelDeploymentModel> => {
+  const modelsResponse = await FindAllModelDeployments();
+
+  if (modelsResponse.status !== "OK") {
+    console.error("🔴 Error on getting models:", modelsResponse.errors);
+    return EnvironmentModelDeployment();
+  }
+
+  const capable = modelsResponse.response.filter(
+    (m) => requirement === undefined || m[requirement]
+  );
+
+  const selected =
+    capable.find((m) => m.id === modelId) ??
+    capable.find((m) => m.isDefault) ??
+    capable[0];
+
+  return selected ?? EnvironmentModelDeployment();
+};
+
+const EnvironmentModelDeployment = (): ModelDeploymentModel => {
+  const deploymentName = OpenAIChatModel();
+  return {
+    id: "",
+    name: deploymentName,
+    description: "",
+    deploymentName: deploymentName,
+    vision: true,
+    tools: true,
+    contextWindow: DEFAULT_CONTEXT_WINDOW,
+    inputCost: 0,
+    outputCost: 0,
+    isDefault: true,
+    userId: "",
+    createdAt: new Date(),
+    type: MODEL_DEPLOYMENT_ATTRIBUTE,
+  };
+};
+
+// only one deployment can be the default
+const ClearDefaultModelDeployment = async (exceptId: string) => {
+  const modelsResponse = await FindAllModelDeployments();
+
+  if (modelsResponse.status === "OK") {
+    const defaults = modelsResponse.response.filter(
+      (m) => m.isDefault && m.id !== exceptId
+    );
+
+    for (const model of defaults) {
+      await ConfigContainer().items.upsert<ModelDeploymentModel>({
+        ...model,
+        isDefault: false,
+      });
+    }
+  }
+};
+
+const ValidateSchema = (model: ModelDeploymentModel): ServerActionResponse => {
+  const validatedFields = ModelDeploymentModelSchema.safeParse(model);
+
+  if (!validatedFields.success) {
+    return {
+      status: "ERROR",
+      errors: zodErrorsToServerActionErrors(validatedFields.error.errors),
+    };
+  }
+
+  return {
+    status: "OK",
+    response: model,
+  };
+};
@@ -0,0 +1,124 @@
+import { refineFromEmpty } from "@/features/common/schema-validation";
+import { z } from "zod";
+
+export const MODEL_DEPLOYMENT_ATTRIBUTE = "MODEL_DEPLOYMENT";
+export type ModelDeploymentModel = z.infer<typeof ModelDeploymentModelSchema>;
+
+export const ModelDeploymentModelSchema = z.object({
+  id: z.string(),
+  name: z
+    .string()
+    .min(1, {
+      message: "Name cannot be empty",
+    })
+    .refine(refineFromEmpty, "Name cannot be empty"),
+  description: z.string(),
+  // the Azure OpenAI deployment name, not the model name
+  deploymentName: z
+    .string()
+    .min(1, {
+      message: "Deployment name cannot be empty",
+    })
+    .refine(refineFromEmpty, "Deployment name cannot be empty"),
+  vision: z.boolean(),
+  tools: z.boolean(),
+  contextWindow: z
+    .number({
+      invalid_type_error: "Context window must be a number",
+    })
+    .int()
+    .positive("Context window must be greater than 0"),
+  // cost in USD per 1,000 tokens
+  inputCost: z
+    .number({
+      invalid_type_error: "Input cost must be a number",
+    })
+    .nonnegative("Input cost cannot be negative"),
+  outputCost: z
+    .number({
+      invalid_type_error: "Output cost must be a number",
+    })
+    .nonnegative("Output cost cannot be negative"),
+  isDefault: z.boolean(),
+  userId: z.string(),
+  createdAt: z.date(),
+  type: z.literal(MODEL_DEPLOYMENT_ATTRIBUTE),
+});
+
+export const RETRIEVAL_SETTINGS_ATTRIBUTE = "RETRIEVAL_SETTINGS";
+export type RetrievalOptions = z.infer<typeof RetrievalOptionsSchema>;
+
+// How the documents of a chat are searched. The settings of the admin apply to every chat,
+// a persona can override some of them for the chats started from it.
+export const RetrievalOptionsSchema = z.object({
+  // chunks given to the model
+  topK: z
+    .number({
+      invalid_type_error: "Top k must be a number",
+    })
+    .int()
+    .min(1, "Top k must be at least 1")
+    .max(50, "Top k cannot be more than 50"),
+  // weights of the keyword and vector rankings when they are fused, 0 turns a ranking off
+  keywordWeight: z
+    .number({
+      invalid_type_error: "Keyword weight must be a number",
+    })
+    .nonnegative("Keyword weight cannot be negative"),
+  vectorWeight: z
+    .number({
+      invalid_type_error: "Vector weight must be a number",
+    })
+    .nonnegative("Vector weight cannot be negative"),
+  // reranks the fused results with the Azure AI Search semantic ranker
+  semanticRanking: z.boolean(),
+  // compared with the reranker score (0 to 4) when semantic ranking is on,
+  // otherwise with the similarity of the chunk to the question (0 to 1)
+  minScore: z
+    .number({
+      invalid_type_error: "Minimum score must be a number",
+    })
+    .min(0, "Minimum score cannot be negative")
+    .max(4, "Minimum score cannot be more than 4"),
+  // 0 keeps the most relevant chunks, higher values prefer chunks that differ from each other (MMR)
+  diversity: z
+    .number({
+      invalid_type_error: "Diversity must be a number",
+    })
+    .min(0, "Diversity cannot be negative")
+    .max(1, "Diversity cannot be more than 1"),
+  // rewrites the question into standalone search queries with the recent
+  // messages, so that a follow-up question finds what it refers to
+  queryRewriting: z.boolean(),
+  // also searches with a hypothetical answer to the question (HyDE), which
+  // reads more like the documents than the question does
+  hyde: z.boolean(),
+});
+
+export type RetrievalOverrides = z.infer<typeof RetrievalOverridesSchema>;
+
+export const RetrievalOverridesSchema = RetrievalOptionsSchema.partial();
+
+export type RetrievalSettingsModel = z.infer<typeof RetrievalSettingsModelSchema>;
+
+export const RetrievalSettingsModelSchema = RetrievalOptionsSchema.extend({
+  id: z.string(),
+  userId: z.string(),
+  createdAt: z.date(),
+  type: z.literal(RETRIEVAL_SETTINGS_ATTRIBUTE),
+}).refine(
+  (settings) => settings.keywordWeight + settings.vectorWeight > 0,
+  "The keyword or the vector weight must be greater than 0"
+);
+
+// hybrid search of the 10 most relevant chunks, as before the settings existed
+export const DEFAULT_RETRIEVAL_OPTIONS: RetrievalOptions = {
+  topK: 10,
+  keywordWeight: 1,
+  vectorWeight: 1,
+  semanticRanking: false,
+  minScore: 0,
+  diversity: 0,
+  queryRewriting: true,
+  hyde: false,
+};
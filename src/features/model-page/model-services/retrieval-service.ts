@@ -0,0 +1,181 @@
+"use server";
+import "server-only";
+
+import { getCurrentUser, userHashedId } from "@/features/auth-page/helpers";
+import {
+  ActiveSearchIndex,
+  FindSearchIndexState,
+} from "@/features/chat-page/chat-services/azure-ai-search/search-index-state";
+import { SearchIndexStateModel } from "@/features/chat-page/chat-services/models";
+import {
+  ServerActionResponse,
+  zodErrorsToServerActionErrors,
+} from "@/features/common/server-action-response";
+import { ConfigContainer } from "@/features/common/services/cosmos";
+import { uniqueId } from "@/features/common/util";
+import { SqlQuerySpec } from "@azure/cosmos";
+import {
+  DEFAULT_RETRIEVAL_OPTIONS,
+  RETRIEVAL_SETTINGS_ATTRIBUTE,
+  RetrievalSettingsModel,
+  RetrievalSettingsModelSchema,
+} from "./models";
+
+// Returns the retrieval settings of the admin, the defaults when they were never saved
+export const FindRetrievalSettings = async (): Promise<
+  ServerActionResponse<RetrievalSettingsModel>
+> => {
+  try {
+    const querySpec: SqlQuerySpec = {
+      query: "SELECT * FROM root r WHERE r.type=@type",
+      parameters: [
+        {
+          name: "@type",
+          value: RETRIEVAL_SETTINGS_ATTRIBUTE,
+        },
+      ],
+    };
+
+    const { resources } = await ConfigContainer()
+      .items.query<RetrievalSettingsModel>(querySpec)
+      .fetchAll();
+
+    // settings saved before an option existed take its default value
+    return {
+      status: "OK",
+      response: { ...DefaultRetrievalSettings(), ...resources[0] },
+    };
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `Error retrieving retrieval settings: ${error}`,
+        },
+      ],
+    };
+  }
+};
+
+export const UpsertRetrievalSettings = async (
+  settingsInput: RetrievalSettingsModel
+): Promise<ServerActionResponse<RetrievalSettingsModel>> => {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user.isAdmin) {
+      return {
+        status: "UNAUTHORIZED",
+        errors: [
+          {
+            message: `Unable to update retrieval settings - admin role required.`,
+          },
+        ],
+      };
+    }
+
+    const settingsResponse = await FindRetrievalSettings();
+
+    if (settingsResponse.status !== "OK") {
+      return settingsResponse;
+    }
+
+    const existing = settingsResponse.response;
+
+    const settingsToSave: RetrievalSettingsModel = {
+      id: existing.id || uniqueId(),
+      topK: settingsInput.topK,
+      keywordWeight: settingsInput.keywordWeight,
+      vectorWeight: settingsInput.vectorWeight,
+      semanticRanking: settingsInput.semanticRanking,
+      minScore: settingsInput.minScore,
+      diversity: settingsInput.diversity,
+      queryRewriting: settingsInput.queryRewriting,
+      hyde: settingsInput.hyde,
+      userId: existing.userId || (await userHashedId()),
+      createdAt: new Date(),
+      type: RETRIEVAL_SETTINGS_ATTRIBUTE,
+    };
+
+    const validatedFields =
+      RetrievalSettingsModelSchema.safeParse(settingsToSave);
+
+    if (!validatedFields.success) {
+      return {
+        status: "ERROR",
+        errors: zodErrorsToServerActionErrors(validatedFields.error.errors),
+      };
+    }
+
+    const { resource } =
+      await ConfigContainer().items.upsert<RetrievalSettingsModel>(
+        settingsToSave
+      );
+
+    if (resource) {
+      return {
+        status: "OK",
+        response: resource,
+      };
+    }
+
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: "Error updating retrieval settings",
+        },
+      ],
+    };
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `Error updating retrieval settings: ${error}`,
+        },
+      ],
+    };
+  }
+};
+
+// Index the searches read and the migration to a new one, before the first
+// upload the index of AZURE_SEARCH_INDEX_NAME
+export const FindSearchIndexStatus = async (): Promise<
+  ServerActionResponse<
+    Pick<SearchIndexStateModel, "active" | "migration" | "previous">
+  >
+> => {
+  try {
+    const state = await FindSearchIndexState();
+
+    return {
+      status: "OK",
+      response: {
+        active: state?.active ?? (await ActiveSearchIndex()),
+        migration: state?.migration,
+        previous: state?.previous,
+      },
+    };
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `Error retrieving the search index: ${error}`,
+        },
+      ],
+    };
+  }
+};
+
+// the defaults are not stored, an empty id and user id mark settings that were never saved
+const DefaultRetrievalSettings = (): RetrievalSettingsModel => {
+  return {
+    id: "",
+    ...DEFAULT_RETRIEVAL_OPTIONS,
+    userId: "",
+    createdAt: new Date(),
+    type: RETRIEVAL_SETTINGS_ATTRIBUTE,
+  };
+};
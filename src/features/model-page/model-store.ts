@@ -0,0 +1,160 @@
+import { proxy, useSnapshot } from "valtio";
+import { RevalidateCache } from "../common/navigation-helpers";
+import { ServerActionResponse } from "../common/server-action-response";
+import {
+  CreateModelDeployment,
+  UpsertModelDeployment,
+} from "./model-services/model-service";
+import {
+  MODEL_DEPLOYMENT_ATTRIBUTE,
+  ModelDeploymentModel,
+  RETRIEVAL_SETTINGS_ATTRIBUTE,
+  RetrievalSettingsModel,
+} from "./model-services/models";
+import { UpsertRetrievalSettings } from "./model-services/retrieval-service";
+
+class ModelState {
+  private defaultModel: ModelDeploymentModel = {
+    id: "",
+    name: "",
+    description: "",
+    deploymentName: "",
+    vision: false,
+    tools: true,
+    contextWindow: 128000,
+    inputCost: 0,
+    outputCost: 0,
+    isDefault: false,
+    createdAt: new Date(),
+    type: MODEL_DEPLOYMENT_ATTRIBUTE,
+    userId: "",
+  };
+
+  public errors: string[] = [];
+  public model: ModelDeploymentModel = { ...this.defaultModel };
+  public isOpened: boolean = false;
+  public retrievalSettings: RetrievalSettingsModel | undefined = undefined;
+  public isRetrievalOpened: boolean = false;
+
+  public newModel() {
+    this.model = {
+      ...this.defaultModel,
+    };
+    this.isOpened = true;
+  }
+
+  public updateOpened(value: boolean) {
+    this.isOpened = value;
+  }
+
+  public updateModel(model: ModelDeploymentModel) {
+    this.model = {
+      ...model,
+    };
+    this.isOpened = true;
+  }
+
+  public updateRetrievalSettings(settings: RetrievalSettingsModel) {
+    this.retrievalSettings = {
+      ...settings,
+    };
+    this.isRetrievalOpened = true;
+  }
+
+  public updateRetrievalOpened(value: boolean) {
+    this.isRetrievalOpened = value;
+  }
+
+  public updateErrors(errors: string[]) {
+    this.errors = errors;
+  }
+}
+
+export const modelStore = proxy(new ModelState());
+
+export const useModelState = () => {
+  return useSnapshot(modelStore, {
+    sync: true,
+  });
+};
+
+export const addOrUpdateModel = async (
+  previous: any,
+  formData: FormData
+): Promise<ServerActionResponse<ModelDeploymentModel>> => {
+  modelStore.updateErrors([]);
+
+  const model = FormDataToModelDeployment(formData);
+
+  const response =
+    model.id && model.id !== ""
+      ? await UpsertModelDeployment(model)
+      : await CreateModelDeployment(model);
+
+  if (response.status === "OK") {
+    modelStore.updateOpened(false);
+    RevalidateCache({
+      page: "models",
+    });
+  } else {
+    modelStore.updateErrors(response.errors.map((e) => e.message));
+  }
+  return response;
+};
+
+export const FormDataToModelDeployment = (
+  formData: FormData
+): ModelDeploymentModel => {
+  return {
+    id: formData.get("id") as string,
+    name: formData.get("name") as string,
+    description: formData.get("description") as string,
+    deploymentName: formData.get("deploymentName") as string,
+    vision: formData.get("vision") === "on" ? true : false,
+    tools: formData.get("tools") === "on" ? true : false,
+    contextWindow: Number(formData.get("contextWindow")),
+    inputCost: Number(formData.get("inputCost")),
+    outputCost: Number(formData.get("outputCost")),
+    isDefault: formData.get("isDefault") === "on" ? true : false,
+    userId: "", // the user id is set on the server once the user is authenticated
+    createdAt: new Date(),
+    type: MODEL_DEPLOYMENT_ATTRIBUTE,
+  };
+};
+
+export const updateRetrievalSettings = async (
+  previous: any,
+  formData: FormData
+): Promise<ServerActionResponse<RetrievalSettingsModel>> => {
+  const response = await UpsertRetrievalSettings(
+    FormDataToRetrievalSettings(formData)
+  );
+
+  if (response.status === "OK") {
+    modelStore.updateRetrievalOpened(false);
+    RevalidateCache({
+      page: "models",
+    });
+  }
+
+  return response;
+};
+
+export const FormDataToRetrievalSettings = (
+  formData: FormData
+): RetrievalSettingsModel => {
+  return {
+    id: formData.get("id") as string,
+    topK: Number(formData.get("topK")),
+    keywordWeight: Number(formData.get("keywordWeight")),
+    vectorWeight: Number(formData.get("vectorWeight")),
+    semanticRanking: formData.get("semanticRanking") === "on",
+    minScore: Number(formData.get("minScore")),
+    diversity: Number(formData.get("diversity")),
+    queryRewriting: formData.get("queryRewriting") === "on",
+    hyde: formData.get("hyde") === "on",
+    userId: "", // the user id is set on the server once the user is authenticated
+    createdAt: new Date(),
+    type: RETRIEVAL_SETTINGS_ATTRIBUTE,
+  };
+};
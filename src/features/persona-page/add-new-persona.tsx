@@ -4,11 +4,20 @@ import { useSession } from "next-auth/react";
 import { FC } from "react";
 import { useFormState, useFormStatus } from "react-dom";
 import { ServerActionResponse } from "../common/server-action-response";
+import { ExtensionModel } from "../extensions-page/extension-services/models";
+import { KnowledgeLibraryModel } from "../knowledge-page/knowledge-services/models";
 import { Button } from "../ui/button";
 import { Input } from "../ui/input";
 import { Label } from "../ui/label";
 import { LoadingIndicator } from "../ui/loading";
 import { ScrollArea } from "../ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
 import {
   Sheet,
   SheetContent,
@@ -24,7 +33,10 @@ import {
   usePersonaState,
 } from "./persona-store";
 
-interface Props {}
+interface Props {
+  extensions: Array<ExtensionModel>;
+  libraries: Array<KnowledgeLibraryModel>;
+}
 
 export const AddNewPersona: FC<Props> = (props) => {
   const initialState: ServerActionResponse | undefined = undefined;
@@ -109,6 +121,47 @@ export const AddNewPersona: FC<Props> = (props) => {
                   placeholder="Personality of your persona"
                 />
               </div>
+              {props.extensions.length > 0 && (
+                <div className="grid gap-2">
+                  <Label>Extensions</Label>
+                  {props.extensions.map((extension) => (
+                    <div
+                      key={extension.id}
+                      className="flex items-center space-x-2"
+                    >
+                      <Switch
+                        name="extensionIds"
+                        value={extension.id}
+                        defaultChecked={persona.extensionIds?.includes(
+                          extension.id
+                        )}
+                      />
+                      <Label>{extension.name}</Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {props.libraries.length > 0 && (
+                <div className="grid gap-2">
+                  <Label>Knowledge libraries</Label>
+                  {props.libraries.map((library) => (
+                    <div
+                      key={library.id}
+                      className="flex items-center space-x-2"
+                    >
+                      <Switch
+                        name="libraryIds"
+                        value={library.id}
+                        defaultChecked={persona.libraryIds?.includes(
+                          library.id
+                        )}
+                      />
+                      <Label>{library.name}</Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <RetrievalSettings />
             </div>
           </ScrollArea>
           <SheetFooter className="py-2 flex sm:justify-between flex-row">
@@ -120,6 +173,97 @@ export const AddNewPersona: FC<Props> = (props) => {
   );
 };
 
+// Settings of the admin changed for the chats started from the persona
+const RetrievalSettings = () => {
+  const { persona } = usePersonaState();
+  const retrieval = persona.retrieval ?? {};
+  const semanticRanking =
+    retrieval.semanticRanking === undefined
+      ? "default"
+      : retrieval.semanticRanking
+      ? "on"
+      : "off";
+
+  return (
+    <div className="grid gap-4">
+      <div className="grid gap-1">
+        <Label>Document search</Label>
+        <div className="text-sm text-muted-foreground">
+          Leave a field empty to use the setting of your administrator
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="grid gap-2">
+          <Label htmlFor="topK">Chunks given to the model</Label>
+          <Input
+            type="number"
+            min={1}
+            max={50}
+            step={1}
+            name="topK"
+            defaultValue={retrieval.topK}
+          />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="semanticRanking">Semantic ranking</Label>
+          <Select name="semanticRanking" defaultValue={semanticRanking}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="default">Default</SelectItem>
+              <SelectItem value="on">On</SelectItem>
+              <SelectItem value="off">Off</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="keywordWeight">Keyword weight</Label>
+          <Input
+            type="number"
+            min={0}
+            step="any"
+            name="keywordWeight"
+            defaultValue={retrieval.keywordWeight}
+          />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="vectorWeight">Vector weight</Label>
+          <Input
+            type="number"
+            min={0}
+            step="any"
+            name="vectorWeight"
+            defaultValue={retrieval.vectorWeight}
+          />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="minScore">Minimum score</Label>
+          <Input
+            type="number"
+            min={0}
+            max={4}
+            step="any"
+            name="minScore"
+            defaultValue={retrieval.minScore}
+          />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="diversity">Diversity</Label>
+          <Input
+            type="number"
+            min={0}
+            max={1}
+            step="any"
+            name="diversity"
+            defaultValue={retrieval.diversity}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
 function Submit() {
   const status = useFormStatus();
   return (
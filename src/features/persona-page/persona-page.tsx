@@ -1,4 +1,6 @@
 import { FC } from "react";
+import { ExtensionModel } from "../extensions-page/extension-services/models";
+import { KnowledgeLibraryModel } from "../knowledge-page/knowledge-services/models";
 import { ScrollArea } from "../ui/scroll-area";
 import { AddNewPersona } from "./add-new-persona";
 import { PersonaCard } from "./persona-card/persona-card";
@@ -7,6 +9,8 @@ import { PersonaModel } from "./persona-services/models";
 
 interface ChatPersonaProps {
   personas: PersonaModel[];
+  extensions: ExtensionModel[];
+  libraries: KnowledgeLibraryModel[];
 }
 
 export const ChatPersonaPage: FC<ChatPersonaProps> = (props) => {
@@ -27,7 +31,10 @@ export const ChatPersonaPage: FC<ChatPersonaProps> = (props) => {
             })}
           </div>
         </div>
-        <AddNewPersona />
+        <AddNewPersona
+          extensions={props.extensions}
+          libraries={props.libraries}
+        />
       </main>
     </ScrollArea>
   );
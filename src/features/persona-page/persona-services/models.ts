@@ -1,4 +1,5 @@
 import { refineFromEmpty } from "@/features/common/schema-validation";
+import { RetrievalOverridesSchema } from "@/features/model-page/model-services/models";
 import { z } from "zod";
 
 export const PERSONA_ATTRIBUTE = "PERSONA";
@@ -26,6 +27,13 @@ export const PersonaModelSchema = z.object({
     .min(1)
     .refine(refineFromEmpty, "System message cannot be empty"),
   isPublished: z.boolean(),
+  // extensions enabled in the chats started from the persona
+  extensionIds: z.array(z.string()).optional(),
+  // knowledge libraries searched in the chats started from the persona
+  libraryIds: z.array(z.string()).optional(),
+  // retrieval settings of the admin changed for the chats started from the
+  // persona, the missing ones keep the value of the admin
+  retrieval: RetrievalOverridesSchema.optional(),
   type: z.literal(PERSONA_ATTRIBUTE),
   createdAt: z.date(),
 });
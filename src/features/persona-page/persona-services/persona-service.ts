@@ -13,6 +13,7 @@ import {
 } from "@/features/common/server-action-response";
 import { HistoryContainer } from "@/features/common/services/cosmos";
 import { uniqueId } from "@/features/common/util";
+import { RetrievalOverrides } from "@/features/model-page/model-services/models";
 import { SqlQuerySpec } from "@azure/cosmos";
 import { PERSONA_ATTRIBUTE, PersonaModel, PersonaModelSchema } from "./models";
 
@@ -21,6 +22,9 @@ interface PersonaInput {
   description: string;
   personaMessage: string;
   isPublished: boolean;
+  extensionIds?: Array<string>;
+  libraryIds?: Array<string>;
+  retrieval?: RetrievalOverrides;
 }
 
 export const FindPersonaByID = async (
@@ -84,6 +88,9 @@ export const CreatePersona = async (
       description: props.description,
       personaMessage: props.personaMessage,
       isPublished: user.isAdmin ? props.isPublished : false,
+      extensionIds: props.extensionIds ?? [],
+      libraryIds: props.libraryIds ?? [],
+      retrieval: props.retrieval ?? {},
       userId: await userHashedId(),
       createdAt: new Date(),
       type: "PERSONA",
@@ -197,6 +204,9 @@ export const UpsertPersona = async (
         isPublished: user.isAdmin
           ? personaInput.isPublished
           : persona.isPublished,
+        extensionIds: personaInput.extensionIds ?? [],
+        libraryIds: personaInput.libraryIds ?? [],
+        retrieval: personaInput.retrieval ?? {},
         createdAt: new Date(),
       };
 
@@ -303,7 +313,9 @@ export const CreatePersonaChat = async (
       type: CHAT_THREAD_ATTRIBUTE,
       personaMessage: persona.personaMessage,
       personaMessageTitle: persona.name,
-      extension: [],
+      extension: persona.extensionIds ?? [],
+      libraryIds: persona.libraryIds ?? [],
+      retrieval: persona.retrieval ?? {},
     });
 
     return response;
@@ -1,5 +1,6 @@
 import { proxy, useSnapshot } from "valtio";
 import { RevalidateCache } from "../common/navigation-helpers";
+import { RetrievalOverrides } from "../model-page/model-services/models";
 import { PERSONA_ATTRIBUTE, PersonaModel } from "./persona-services/models";
 import {
   CreatePersona,
@@ -14,6 +15,9 @@ class PersonaState {
     personaMessage: "",
     createdAt: new Date(),
     isPublished: false,
+    extensionIds: [],
+    libraryIds: [],
+    retrieval: {},
     type: "PERSONA",
     userId: "",
   };
@@ -92,8 +96,29 @@ export const FormDataToPersonaModel = (formData: FormData): PersonaModel => {
     description: formData.get("description") as string,
     personaMessage: formData.get("personaMessage") as string,
     isPublished: formData.get("isPublished") === "on" ? true : false,
+    extensionIds: formData.getAll("extensionIds") as Array<string>,
+    libraryIds: formData.getAll("libraryIds") as Array<string>,
+    retrieval: FormDataToRetrievalOverrides(formData),
     userId: "", // the user id is set on the server once the user is authenticated
     createdAt: new Date(),
     type: PERSONA_ATTRIBUTE,
   };
 };
+
+// Empty fields keep the setting of the admin
+const FormDataToRetrievalOverrides = (
+  formData: FormData
+): RetrievalOverrides => {
+  const overrides: RetrievalOverrides = {};
+
+  (["topK", "keywordWeight", "vectorWeight", "minScore", "diversity"] as const)
+    .filter((key) => formData.get(key))
+    .forEach((key) => (overrides[key] = Number(formData.get(key))));
+
+  const semanticRanking = formData.get("semanticRanking");
+  if (semanticRanking === "on" || semanticRanking === "off") {
+    overrides.semanticRanking = semanticRanking === "on";
+  }
+
+  return overrides;
+};
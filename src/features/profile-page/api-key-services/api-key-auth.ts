@@ -0,0 +1,66 @@
+import "server-only";
+
+import { UserModel, hashValue } from "@/features/auth-page/helpers";
+import { HistoryContainer } from "@/features/common/services/cosmos";
+import { SqlQuerySpec } from "@azure/cosmos";
+import { API_KEY_ATTRIBUTE, API_KEY_PREFIX, ApiKeyModel } from "./models";
+
+// Finds the owner of the API key of a request, sent as a bearer token like the OpenAI SDKs do
+// or in the api-key header like the Azure OpenAI SDKs do.
+// Users of API keys are never admins, admin actions need a session.
+export const AuthenticateApiKey = async (
+  request: Request
+): Promise<UserModel | undefined> => {
+  const authorization = request.headers.get("authorization") ?? "";
+  const key = authorization.toLowerCase().startsWith("bearer ")
+    ? authorization.slice("bearer ".length).trim()
+    : request.headers.get("api-key")?.trim() ?? "";
+
+  if (!key.startsWith(API_KEY_PREFIX)) {
+    return undefined;
+  }
+
+  try {
+    const querySpec: SqlQuerySpec = {
+      query: "SELECT * FROM root r WHERE r.type=@type AND r.keyHash=@keyHash",
+      parameters: [
+        {
+          name: "@type",
+          value: API_KEY_ATTRIBUTE,
+        },
+        {
+          name: "@keyHash",
+          value: hashValue(key),
+        },
+      ],
+    };
+
+    const { resources } = await HistoryContainer()
+      .items.query<ApiKeyModel>(querySpec)
+      .fetchAll();
+
+    const apiKey = resources[0];
+
+    if (!apiKey) {
+      return undefined;
+    }
+
+    // the last use is informational, it does not hold up the request
+    HistoryContainer()
+      .items.upsert<ApiKeyModel>({ ...apiKey, lastUsedAt: new Date() })
+      .catch((error) =>
+        console.error("🔴 Error on updating API key usage:", error)
+      );
+
+    return {
+      name: apiKey.userName,
+      email: apiKey.email,
+      image: "",
+      isAdmin: false,
+      businessUnit: apiKey.businessUnit,
+    };
+  } catch (error) {
+    console.error("🔴 Error on authenticating API key:", error);
+    return undefined;
+  }
+};
@@ -0,0 +1,164 @@
+"use server";
+import "server-only";
+
+import {
+  getCurrentUser,
+  hashValue,
+  userHashedId,
+} from "@/features/auth-page/helpers";
+import {
+  ServerActionResponse,
+  zodErrorsToServerActionErrors,
+} from "@/features/common/server-action-response";
+import { HistoryContainer } from "@/features/common/services/cosmos";
+import { uniqueId } from "@/features/common/util";
+import { SqlQuerySpec } from "@azure/cosmos";
+import { randomBytes } from "crypto";
+import {
+  API_KEY_ATTRIBUTE,
+  API_KEY_PREFIX,
+  ApiKeyModel,
+  ApiKeyModelSchema,
+  ApiKeySummary,
+} from "./models";
+
+export const FindAllApiKeysForCurrentUser = async (): Promise<
+  ServerActionResponse<Array<ApiKeySummary>>
+> => {
+  try {
+    const querySpec: SqlQuerySpec = {
+      query:
+        "SELECT r.id, r.name, r.keyPreview, r.userId, r.userName, r.email, r.businessUnit, r.lastUsedAt, r.createdAt, r.type FROM root r WHERE r.type=@type AND r.userId=@userId ORDER BY r.createdAt DESC",
+      parameters: [
+        {
+          name: "@type",
+          value: API_KEY_ATTRIBUTE,
+        },
+        {
+          name: "@userId",
+          value: await userHashedId(),
+        },
+      ],
+    };
+
+    const { resources } = await HistoryContainer()
+      .items.query<ApiKeySummary>(querySpec)
+      .fetchAll();
+
+    return {
+      status: "OK",
+      response: resources,
+    };
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `Error retrieving API keys: ${error}`,
+        },
+      ],
+    };
+  }
+};
+
+// Returns the key itself together with the saved model, it can't be read again afterwards
+export const CreateApiKey = async (
+  name: string
+): Promise<ServerActionResponse<{ apiKey: ApiKeySummary; key: string }>> => {
+  try {
+    const user = await getCurrentUser();
+    const key = API_KEY_PREFIX + randomBytes(32).toString("base64url");
+
+    const modelToSave: ApiKeyModel = {
+      id: uniqueId(),
+      name: name,
+      keyHash: hashValue(key),
+      keyPreview: key.slice(0, API_KEY_PREFIX.length + 4),
+      userId: await userHashedId(),
+      userName: user.name,
+      email: user.email,
+      businessUnit: user.businessUnit,
+      createdAt: new Date(),
+      type: API_KEY_ATTRIBUTE,
+    };
+
+    const validatedFields = ApiKeyModelSchema.safeParse(modelToSave);
+
+    if (!validatedFields.success) {
+      return {
+        status: "ERROR",
+        errors: zodErrorsToServerActionErrors(validatedFields.error.errors),
+      };
+    }
+
+    const { resource } =
+      await HistoryContainer().items.create<ApiKeyModel>(modelToSave);
+
+    if (resource) {
+      const { keyHash, ...apiKey } = resource;
+      return {
+        status: "OK",
+        response: { apiKey, key },
+      };
+    }
+
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: "Error creating API key",
+        },
+      ],
+    };
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `Error creating API key: ${error}`,
+        },
+      ],
+    };
+  }
+};
+
+export const DeleteApiKey = async (
+  id: string
+): Promise<ServerActionResponse<ApiKeySummary>> => {
+  try {
+    const keysResponse = await FindAllApiKeysForCurrentUser();
+
+    if (keysResponse.status !== "OK") {
+      return keysResponse;
+    }
+
+    const apiKey = keysResponse.response.find((k) => k.id === id);
+
+    if (!apiKey) {
+      return {
+        status: "NOT_FOUND",
+        errors: [
+          {
+            message: `API key not found with id: ${id}`,
+          },
+        ],
+      };
+    }
+
+    await HistoryContainer().item(id, apiKey.userId).delete();
+
+    return {
+      status: "OK",
+      response: apiKey,
+    };
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `Error deleting API key: ${error}`,
+        },
+      ],
+    };
+  }
+};
@@ -0,0 +1,32 @@
+import { refineFromEmpty } from "@/features/common/schema-validation";
+import { z } from "zod";
+
+export const API_KEY_ATTRIBUTE = "API_KEY";
+
+// keys are shown once when they are created, only a hash is stored
+export const API_KEY_PREFIX = "azc-";
+
+export type ApiKeyModel = z.infer<typeof ApiKeyModelSchema>;
+
+export const ApiKeyModelSchema = z.object({
+  id: z.string(),
+  name: z
+    .string({
+      invalid_type_error: "Invalid name",
+    })
+    .min(1)
+    .refine(refineFromEmpty, "Name cannot be empty"),
+  keyHash: z.string(),
+  keyPreview: z.string(), // first characters of the key so the owner can tell keys apart
+  userId: z.string(),
+  // the profile of the owner, requests made with the key run as this user
+  userName: z.string(),
+  email: z.string(),
+  businessUnit: z.string().optional(),
+  lastUsedAt: z.date().optional(),
+  createdAt: z.date(),
+  type: z.literal(API_KEY_ATTRIBUTE),
+});
+
+// what the owner sees of a key
+export type ApiKeySummary = Omit<ApiKeyModel, "keyHash">;
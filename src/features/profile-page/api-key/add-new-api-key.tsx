@@ -0,0 +1,109 @@
+"use client";
+
+import { Check, Copy } from "lucide-react";
+import { FC, useState } from "react";
+import { useFormState, useFormStatus } from "react-dom";
+import { ServerActionResponse } from "../../common/server-action-response";
+import { Button } from "../../ui/button";
+import { Input } from "../../ui/input";
+import { Label } from "../../ui/label";
+import { LoadingIndicator } from "../../ui/loading";
+import {
+  Sheet,
+  SheetContent,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "../../ui/sheet";
+import { addApiKey, profileStore, useProfileState } from "../profile-store";
+
+interface Props {}
+
+export const AddNewApiKey: FC<Props> = (props) => {
+  const initialState: ServerActionResponse | undefined = undefined;
+
+  const { isOpened, createdKey } = useProfileState();
+  const [formState, formAction] = useFormState(addApiKey, initialState);
+
+  return (
+    <Sheet
+      open={isOpened}
+      onOpenChange={(value) => {
+        profileStore.updateOpened(value);
+      }}
+    >
+      <SheetContent className="min-w-[480px] sm:w-[540px] flex flex-col">
+        <SheetHeader>
+          <SheetTitle>API key</SheetTitle>
+        </SheetHeader>
+        {createdKey ? (
+          <CreatedKey apiKey={createdKey} />
+        ) : (
+          <form action={formAction} className="flex-1 flex flex-col">
+            <div className="pb-6 flex gap-8 flex-col flex-1">
+              {formState && formState.status === "OK" ? null : (
+                <>
+                  {formState &&
+                    formState.errors.map((error, index) => (
+                      <div key={index} className="text-red-500">
+                        {error.message}
+                      </div>
+                    ))}
+                </>
+              )}
+              <div className="grid gap-2">
+                <Label>Name</Label>
+                <Input
+                  type="text"
+                  required
+                  name="name"
+                  placeholder="eg: CRM integration"
+                />
+              </div>
+            </div>
+            <SheetFooter className="py-2 flex sm:justify-end flex-row">
+              <Submit />
+            </SheetFooter>
+          </form>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+const CreatedKey = (props: { apiKey: string }) => {
+  const [copied, setCopied] = useState(false);
+
+  return (
+    <div className="flex gap-4 flex-col">
+      <p className="text-muted-foreground text-sm">
+        Copy the key now, it will not be shown again. Requests made with it run
+        as you and count towards your usage.
+      </p>
+      <div className="flex gap-2">
+        <Input readOnly value={props.apiKey} className="font-mono" />
+        <Button
+          size={"icon"}
+          variant={"outline"}
+          aria-label="Copy API key"
+          onClick={() => {
+            navigator.clipboard.writeText(props.apiKey);
+            setCopied(true);
+          }}
+        >
+          {copied ? <Check size={18} /> : <Copy size={18} />}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+function Submit() {
+  const status = useFormStatus();
+  return (
+    <Button disabled={status.pending} className="gap-2">
+      <LoadingIndicator isLoading={status.pending} />
+      Create
+    </Button>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { MoreVertical, Trash } from "lucide-react";
+import { FC, useState } from "react";
+import { DropdownMenuItemWithIcon } from "../../chat-page/chat-menu/chat-menu-item";
+import { RevalidateCache } from "../../common/navigation-helpers";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "../../ui/dropdown-menu";
+import { LoadingIndicator } from "../../ui/loading";
+import { DeleteApiKey } from "../api-key-services/api-key-service";
+import { ApiKeySummary } from "../api-key-services/models";
+
+interface Props {
+  apiKey: ApiKeySummary;
+}
+
+type DropdownAction = "delete";
+
+export const ApiKeyContextMenu: FC<Props> = (props) => {
+  const { isLoading, handleAction } = useDropdownAction({
+    apiKey: props.apiKey,
+  });
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger>
+          {isLoading ? (
+            <LoadingIndicator isLoading={isLoading} />
+          ) : (
+            <MoreVertical size={18} />
+          )}
+        </DropdownMenuTrigger>
+        <DropdownMenuContent>
+          <DropdownMenuItemWithIcon
+            onClick={async () => await handleAction("delete")}
+          >
+            <Trash size={18} />
+            <span>Delete</span>
+          </DropdownMenuItemWithIcon>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </>
+  );
+};
+
+const useDropdownAction = (props: { apiKey: ApiKeySummary }) => {
+  const { apiKey } = props;
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleAction = async (action: DropdownAction) => {
+    setIsLoading(true);
+    switch (action) {
+      case "delete":
+        if (
+          window.confirm(
+            `Are you sure you want to delete the API key ${apiKey.name}? Tools using it will stop working.`
+          )
+        ) {
+          await DeleteApiKey(apiKey.id);
+          RevalidateCache({
+            page: "profile",
+          });
+        }
+
+        break;
+    }
+    setIsLoading(false);
+  };
+
+  return {
+    isLoading,
+    handleAction,
+  };
+};
@@ -0,0 +1,26 @@
+"use client";
+import { Hero, HeroButton } from "@/features/ui/hero";
+import { KeyRound, UserRound } from "lucide-react";
+import { profileStore } from "../profile-store";
+
+export const ProfileHero = () => {
+  return (
+    <Hero
+      title={
+        <>
+          <UserRound size={36} strokeWidth={1.5} /> Profile
+        </>
+      }
+      description={
+        "API keys let your tools use personas through the OpenAI compatible endpoint at /api/v1/chat/completions. Pass the id of a persona as the model."
+      }
+    >
+      <HeroButton
+        title="New API key"
+        description="Create a key for a tool or script"
+        icon={<KeyRound />}
+        onClick={() => profileStore.newApiKey()}
+      />
+    </Hero>
+  );
+};
@@ -0,0 +1,64 @@
+import { FC } from "react";
+import { ScrollArea } from "../ui/scroll-area";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+import { AddNewApiKey } from "./api-key/add-new-api-key";
+import { ApiKeyContextMenu } from "./api-key/api-key-context-menu";
+import { ApiKeySummary } from "./api-key-services/models";
+import { ProfileHero } from "./profile-hero/profile-hero";
+
+interface ProfilePageProps {
+  apiKeys: Array<ApiKeySummary>;
+}
+
+export const ProfilePage: FC<ProfilePageProps> = (props) => {
+  return (
+    <ScrollArea className="flex-1">
+      <main className="flex flex-1 flex-col">
+        <ProfileHero />
+        <div className="container max-w-4xl py-3">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>API key</TableHead>
+                <TableHead className="w-[150px]">Created</TableHead>
+                <TableHead className="w-[150px]">Last used</TableHead>
+                <TableHead className="w-[50px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {props.apiKeys.map((apiKey) => (
+                <TableRow key={apiKey.id}>
+                  <TableCell>
+                    <div>{apiKey.name}</div>
+                    <div className="text-muted-foreground text-xs font-mono">
+                      {apiKey.keyPreview}…
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {new Date(apiKey.createdAt).toLocaleDateString()}
+                  </TableCell>
+                  <TableCell>
+                    {apiKey.lastUsedAt
+                      ? new Date(apiKey.lastUsedAt).toLocaleDateString()
+                      : "Never"}
+                  </TableCell>
+                  <TableCell>
+                    <ApiKeyContextMenu apiKey={apiKey} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        <AddNewApiKey />
+      </main>
+    </ScrollArea>
+  );
+};
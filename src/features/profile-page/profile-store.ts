@@ -0,0 +1,48 @@
+import { proxy, useSnapshot } from "valtio";
+import { RevalidateCache } from "../common/navigation-helpers";
+import { ServerActionResponse } from "../common/server-action-response";
+import { CreateApiKey } from "./api-key-services/api-key-service";
+import { ApiKeySummary } from "./api-key-services/models";
+
+class ProfileState {
+  public isOpened: boolean = false;
+  public createdKey: string = ""; // shown once after the key is created
+
+  public newApiKey() {
+    this.createdKey = "";
+    this.isOpened = true;
+  }
+
+  public updateOpened(value: boolean) {
+    this.isOpened = value;
+    if (!value) {
+      this.createdKey = "";
+    }
+  }
+
+  public updateCreatedKey(key: string) {
+    this.createdKey = key;
+  }
+}
+
+export const profileStore = proxy(new ProfileState());
+
+export const useProfileState = () => {
+  return useSnapshot(profileStore);
+};
+
+export const addApiKey = async (
+  previous: any,
+  formData: FormData
+): Promise<ServerActionResponse<{ apiKey: ApiKeySummary; key: string }>> => {
+  const response = await CreateApiKey(formData.get("name") as string);
+
+  if (response.status === "OK") {
+    profileStore.updateCreatedKey(response.response.key);
+    RevalidateCache({
+      page: "profile",
+    });
+  }
+
+  return response;
+};
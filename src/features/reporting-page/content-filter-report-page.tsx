@@ -0,0 +1,95 @@
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import Link from "next/link";
+import { FC, Suspense } from "react";
+import { Button } from "../ui/button";
+import { DisplayError } from "../ui/error/display-error";
+import { PageLoader } from "../ui/page-loader";
+import { ScrollArea } from "../ui/scroll-area";
+import {
+  Table,
+  TableBody,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+import ContentFilterRow from "./content-filter-row";
+import { ReportingHero } from "./reporting-hero";
+import { FindContentFilteredMessagesForAdmin } from "./reporting-services/reporting-service";
+
+const SEARCH_PAGE_SIZE = 100;
+
+interface ContentFilterReportingProps {
+  page: number;
+}
+
+export const ContentFilterReportingPage: FC<
+  ContentFilterReportingProps
+> = async (props) => {
+  return (
+    <ScrollArea className="flex-1">
+      <main className="flex flex-1 flex-col">
+        <ReportingHero />
+        <Suspense fallback={<PageLoader />} key={props.page}>
+          <ReportingContent {...props} />
+        </Suspense>
+      </main>
+    </ScrollArea>
+  );
+};
+
+async function ReportingContent(props: ContentFilterReportingProps) {
+  let pageNumber = props.page < 0 ? 0 : props.page;
+  let nextPage = pageNumber + 1;
+  let previousPage = pageNumber - 1;
+
+  const filteredResponse = await FindContentFilteredMessagesForAdmin(
+    SEARCH_PAGE_SIZE,
+    pageNumber * SEARCH_PAGE_SIZE
+  );
+
+  if (filteredResponse.status !== "OK") {
+    return <DisplayError errors={filteredResponse.errors} />;
+  }
+
+  const items = filteredResponse.response;
+  const hasMoreResults = items.length === SEARCH_PAGE_SIZE;
+  return (
+    <div className="container max-w-4xl py-3">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Conversation</TableHead>
+            <TableHead className="w-[200px]">User</TableHead>
+            <TableHead className="w-[250px]">Categories</TableHead>
+            <TableHead className="w-[100px]">Date</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {items.map((item) => (
+            <ContentFilterRow key={item.message.id} {...item} />
+          ))}
+        </TableBody>
+      </Table>
+      <div className="flex gap-2 p-2 justify-end">
+        {previousPage >= 0 && (
+          <Button asChild size={"icon"} variant={"outline"}>
+            <Link
+              href={"/reporting/content-filter?pageNumber=" + previousPage}
+            >
+              <ChevronLeft />
+            </Link>
+          </Button>
+        )}
+        {hasMoreResults && (
+          <Button asChild size={"icon"} variant={"outline"}>
+            <Link
+              href={"/reporting/content-filter?pageNumber=" + nextPage}
+            >
+              <ChevronRight />
+            </Link>
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
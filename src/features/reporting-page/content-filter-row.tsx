@@ -0,0 +1,39 @@
+"use client";
+import { useRouter } from "next/navigation";
+import { TableCell, TableRow } from "../ui/table";
+import { ContentFilterReportItem } from "./reporting-services/reporting-service";
+
+interface ContentFilterRowProps extends ContentFilterReportItem {}
+
+const ContentFilterRow: React.FC<ContentFilterRowProps> = (props) => {
+  const { message, chatThread } = props;
+
+  const router = useRouter();
+
+  return (
+    <TableRow
+      className="cursor-pointer"
+      onClick={() => {
+        router.push("/reporting/chat/" + message.threadId);
+      }}
+    >
+      <TableCell className="font-medium">
+        {chatThread?.name ?? message.threadId}
+      </TableCell>
+      <TableCell>{chatThread?.useName}</TableCell>
+      <TableCell>
+        {message.contentFilter?.map((result) => (
+          <div key={`${result.source}-${result.category}`}>
+            {`${result.source}: ${result.category.replaceAll("_", " ")} (${
+              result.severity
+            })`}
+            {result.filtered && " - blocked"}
+          </div>
+        ))}
+      </TableCell>
+      <TableCell>{new Date(message.createdAt).toLocaleDateString()}</TableCell>
+    </TableRow>
+  );
+};
+
+export default ContentFilterRow;
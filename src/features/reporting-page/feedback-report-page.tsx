@@ -0,0 +1,212 @@
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import Link from "next/link";
+import { FC, Suspense } from "react";
+import { Button } from "../ui/button";
+import { DisplayError } from "../ui/error/display-error";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { PageLoader } from "../ui/page-loader";
+import { ScrollArea } from "../ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import {
+  Table,
+  TableBody,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+import FeedbackRow from "./feedback-row";
+import { ReportingHero } from "./reporting-hero";
+import {
+  FeedbackReportFilter,
+  FindChatFeedbackForAdmin,
+  FindFeedbackPersonasForAdmin,
+} from "./reporting-services/reporting-service";
+
+const SEARCH_PAGE_SIZE = 100;
+
+// select items can't have an empty value
+const ALL = "all";
+
+interface FeedbackReportingProps {
+  page: number;
+  filter: FeedbackReportFilter;
+}
+
+export const FeedbackReportingPage: FC<FeedbackReportingProps> = async (
+  props
+) => {
+  return (
+    <ScrollArea className="flex-1">
+      <main className="flex flex-1 flex-col">
+        <ReportingHero />
+        <Suspense
+          fallback={<PageLoader />}
+          key={`${props.page}-${FilterQuery(props.filter)}`}
+        >
+          <ReportingContent {...props} />
+        </Suspense>
+      </main>
+    </ScrollArea>
+  );
+};
+
+async function ReportingContent(props: FeedbackReportingProps) {
+  let pageNumber = props.page < 0 ? 0 : props.page;
+  let nextPage = pageNumber + 1;
+  let previousPage = pageNumber - 1;
+
+  const [feedbackResponse, personasResponse] = await Promise.all([
+    FindChatFeedbackForAdmin(
+      props.filter,
+      SEARCH_PAGE_SIZE,
+      pageNumber * SEARCH_PAGE_SIZE
+    ),
+    FindFeedbackPersonasForAdmin(),
+  ]);
+
+  if (feedbackResponse.status !== "OK") {
+    return <DisplayError errors={feedbackResponse.errors} />;
+  }
+
+  if (personasResponse.status !== "OK") {
+    return <DisplayError errors={personasResponse.errors} />;
+  }
+
+  const items = feedbackResponse.response;
+  const hasMoreResults = items.length === SEARCH_PAGE_SIZE;
+  const query = FilterQuery(props.filter);
+
+  return (
+    <div className="container max-w-4xl py-3 flex flex-col gap-4">
+      <FeedbackFilter
+        filter={props.filter}
+        personas={personasResponse.response}
+      />
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-[60px]">Rating</TableHead>
+            <TableHead>Conversation</TableHead>
+            <TableHead className="w-[120px]">Reason</TableHead>
+            <TableHead className="w-[150px]">Persona</TableHead>
+            <TableHead className="w-[150px]">User</TableHead>
+            <TableHead className="w-[100px]">Date</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {items.map((item) => (
+            <FeedbackRow key={item.feedback.id} {...item} />
+          ))}
+        </TableBody>
+      </Table>
+      <div className="flex gap-2 p-2 justify-end">
+        {previousPage >= 0 && (
+          <Button asChild size={"icon"} variant={"outline"}>
+            <Link
+              href={`/reporting/feedback?pageNumber=${previousPage}${query}`}
+            >
+              <ChevronLeft />
+            </Link>
+          </Button>
+        )}
+        {hasMoreResults && (
+          <Button asChild size={"icon"} variant={"outline"}>
+            <Link href={`/reporting/feedback?pageNumber=${nextPage}${query}`}>
+              <ChevronRight />
+            </Link>
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// submitted as a GET request, so the filter is part of the url like the page number
+const FeedbackFilter = (props: {
+  filter: FeedbackReportFilter;
+  personas: Array<string>;
+}) => {
+  const { filter, personas } = props;
+
+  return (
+    <form
+      action="/reporting/feedback"
+      method="get"
+      className="flex flex-wrap gap-4 items-end"
+    >
+      <div className="grid gap-2">
+        <Label>Rating</Label>
+        <Select name="rating" defaultValue={filter.rating ?? ALL}>
+          <SelectTrigger className="w-[140px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All ratings</SelectItem>
+            <SelectItem value="up">Thumbs up</SelectItem>
+            <SelectItem value="down">Thumbs down</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="grid gap-2">
+        <Label>Persona</Label>
+        <Select name="persona" defaultValue={filter.persona ?? ALL}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All personas</SelectItem>
+            {personas.map((persona) => (
+              <SelectItem key={persona} value={persona}>
+                {persona}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="grid gap-2">
+        <Label>From</Label>
+        <Input type="date" name="from" defaultValue={filter.from} />
+      </div>
+      <div className="grid gap-2">
+        <Label>To</Label>
+        <Input type="date" name="to" defaultValue={filter.to} />
+      </div>
+      <Button type="submit" variant={"outline"}>
+        Filter
+      </Button>
+    </form>
+  );
+};
+
+const FilterQuery = (filter: FeedbackReportFilter) => {
+  return Object.entries(filter)
+    .filter(([, value]) => value)
+    .map(([key, value]) => `&${key}=${encodeURIComponent(value)}`)
+    .join("");
+};
+
+const DATE_FORMAT = /^\d{4}-\d{2}-\d{2}$/;
+
+// Reads the filter from the search parameters of the page, ignoring values that are not valid
+export const ParseFeedbackFilter = (searchParams: {
+  rating?: string;
+  persona?: string;
+  from?: string;
+  to?: string;
+}): FeedbackReportFilter => {
+  const { rating, persona, from, to } = searchParams;
+
+  return {
+    rating: rating === "up" || rating === "down" ? rating : undefined,
+    persona: persona && persona !== ALL ? persona : undefined,
+    from: from && DATE_FORMAT.test(from) ? from : undefined,
+    to: to && DATE_FORMAT.test(to) ? to : undefined,
+  };
+};
@@ -0,0 +1,49 @@
+"use client";
+import { ThumbsDown, ThumbsUp } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { FEEDBACK_REASONS } from "../chat-page/chat-services/models";
+import { TableCell, TableRow } from "../ui/table";
+import { FeedbackReportItem } from "./reporting-services/reporting-service";
+
+interface FeedbackRowProps extends FeedbackReportItem {}
+
+const FeedbackRow: React.FC<FeedbackRowProps> = (props) => {
+  const { feedback, message, chatThread } = props;
+
+  const router = useRouter();
+
+  const reason = FEEDBACK_REASONS[feedback.rating].find(
+    (r) => r.value === feedback.reason
+  );
+
+  return (
+    <TableRow
+      className="cursor-pointer"
+      onClick={() => {
+        router.push("/reporting/chat/" + feedback.threadId);
+      }}
+    >
+      <TableCell>
+        {feedback.rating === "up" ? (
+          <ThumbsUp size={16} className="text-green-600" />
+        ) : (
+          <ThumbsDown size={16} className="text-red-500" />
+        )}
+      </TableCell>
+      <TableCell>
+        <div className="font-medium">
+          {chatThread?.name ?? feedback.threadId}
+        </div>
+        <div className="text-muted-foreground line-clamp-2">
+          {feedback.comment || message?.content}
+        </div>
+      </TableCell>
+      <TableCell>{reason?.label}</TableCell>
+      <TableCell>{feedback.personaMessageTitle}</TableCell>
+      <TableCell>{feedback.useName}</TableCell>
+      <TableCell>{new Date(feedback.createdAt).toLocaleDateString()}</TableCell>
+    </TableRow>
+  );
+};
+
+export default FeedbackRow;
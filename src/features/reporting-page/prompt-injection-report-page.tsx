@@ -0,0 +1,96 @@
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import Link from "next/link";
+import { FC, Suspense } from "react";
+import { Button } from "../ui/button";
+import { DisplayError } from "../ui/error/display-error";
+import { PageLoader } from "../ui/page-loader";
+import { ScrollArea } from "../ui/scroll-area";
+import {
+  Table,
+  TableBody,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+import PromptInjectionRow from "./prompt-injection-row";
+import { ReportingHero } from "./reporting-hero";
+import { FindPromptInjectionsForAdmin } from "./reporting-services/reporting-service";
+
+const SEARCH_PAGE_SIZE = 100;
+
+interface PromptInjectionReportingProps {
+  page: number;
+}
+
+export const PromptInjectionReportingPage: FC<
+  PromptInjectionReportingProps
+> = async (props) => {
+  return (
+    <ScrollArea className="flex-1">
+      <main className="flex flex-1 flex-col">
+        <ReportingHero />
+        <Suspense fallback={<PageLoader />} key={props.page}>
+          <ReportingContent {...props} />
+        </Suspense>
+      </main>
+    </ScrollArea>
+  );
+};
+
+async function ReportingContent(props: PromptInjectionReportingProps) {
+  let pageNumber = props.page < 0 ? 0 : props.page;
+  let nextPage = pageNumber + 1;
+  let previousPage = pageNumber - 1;
+
+  const promptInjectionsResponse = await FindPromptInjectionsForAdmin(
+    SEARCH_PAGE_SIZE,
+    pageNumber * SEARCH_PAGE_SIZE
+  );
+
+  if (promptInjectionsResponse.status !== "OK") {
+    return <DisplayError errors={promptInjectionsResponse.errors} />;
+  }
+
+  const items = promptInjectionsResponse.response;
+  const hasMoreResults = items.length === SEARCH_PAGE_SIZE;
+  return (
+    <div className="container max-w-4xl py-3">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Content</TableHead>
+            <TableHead className="w-[150px]">User</TableHead>
+            <TableHead className="w-[150px]">Detection</TableHead>
+            <TableHead className="w-[100px]">Action</TableHead>
+            <TableHead className="w-[100px]">Date</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {items.map((item) => (
+            <PromptInjectionRow key={item.promptInjection.id} {...item} />
+          ))}
+        </TableBody>
+      </Table>
+      <div className="flex gap-2 p-2 justify-end">
+        {previousPage >= 0 && (
+          <Button asChild size={"icon"} variant={"outline"}>
+            <Link
+              href={"/reporting/prompt-injection?pageNumber=" + previousPage}
+            >
+              <ChevronLeft />
+            </Link>
+          </Button>
+        )}
+        {hasMoreResults && (
+          <Button asChild size={"icon"} variant={"outline"}>
+            <Link
+              href={"/reporting/prompt-injection?pageNumber=" + nextPage}
+            >
+              <ChevronRight />
+            </Link>
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
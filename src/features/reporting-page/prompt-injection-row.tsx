@@ -0,0 +1,55 @@
+"use client";
+import { useRouter } from "next/navigation";
+import { TableCell, TableRow } from "../ui/table";
+import { PromptInjectionReportItem } from "./reporting-services/reporting-service";
+
+interface PromptInjectionRowProps extends PromptInjectionReportItem {}
+
+const PromptInjectionRow: React.FC<PromptInjectionRowProps> = (props) => {
+  const { promptInjection, chatThread } = props;
+
+  const router = useRouter();
+
+  return (
+    <TableRow
+      className="cursor-pointer"
+      onClick={() => {
+        router.push("/reporting/chat/" + promptInjection.threadId);
+      }}
+    >
+      <TableCell>
+        <div className="font-medium">
+          {chatThread?.name ?? promptInjection.threadId}
+        </div>
+        <div className="text-muted-foreground">
+          {`${promptInjection.source}: ${promptInjection.name}`}
+        </div>
+        {promptInjection.content && (
+          <div
+            className="text-muted-foreground line-clamp-3 whitespace-pre-wrap"
+            title={promptInjection.content}
+          >
+            {promptInjection.content}
+          </div>
+        )}
+      </TableCell>
+      <TableCell>{chatThread?.useName ?? promptInjection.useName}</TableCell>
+      <TableCell>
+        <div>{promptInjection.detector}</div>
+        {promptInjection.reasons.map((reason) => (
+          <div key={reason} className="text-muted-foreground">
+            {reason}
+          </div>
+        ))}
+      </TableCell>
+      <TableCell>
+        {promptInjection.action === "quarantine" ? "Quarantined" : "Dropped"}
+      </TableCell>
+      <TableCell>
+        {new Date(promptInjection.createdAt).toLocaleDateString()}
+      </TableCell>
+    </TableRow>
+  );
+};
+
+export default PromptInjectionRow;
@@ -3,15 +3,18 @@
 import {
   ChatDocumentModel,
   ChatMessageModel,
+  RetrievalDiagnosticsModel,
 } from "@/features/chat-page/chat-services/models";
 import { ChatMessageArea } from "@/features/ui/chat/chat-message-area/chat-message-area";
 import ChatMessageContainer from "@/features/ui/chat/chat-message-area/chat-message-container";
 import ChatMessageContentArea from "@/features/ui/chat/chat-message-area/chat-message-content";
 import MessageContent from "../chat-page/message-content";
+import { RetrievalDiagnostics } from "./retrieval-diagnostics";
 
 interface ReportingChatPageProps {
   messages: Array<ChatMessageModel>;
   chatDocuments: Array<ChatDocumentModel>;
+  retrievalDiagnostics: Array<RetrievalDiagnosticsModel>;
 }
 
 export default function ReportingChatPage(props: ReportingChatPageProps) {
@@ -36,6 +39,9 @@ export default function ReportingChatPage(props: ReportingChatPageProps) {
               </ChatMessageArea>
             );
           })}
+          {props.retrievalDiagnostics.length > 0 && (
+            <RetrievalDiagnostics diagnostics={props.retrievalDiagnostics} />
+          )}
         </ChatMessageContentArea>
       </ChatMessageContainer>
     </main>
@@ -1,8 +1,17 @@
 "use client";
-import { Hero } from "@/features/ui/hero";
-import { Sheet } from "lucide-react";
+import { Hero, HeroButton } from "@/features/ui/hero";
+import {
+  FileWarning,
+  MessageSquare,
+  Sheet,
+  ShieldAlert,
+  ThumbsUp,
+} from "lucide-react";
+import { useRouter } from "next/navigation";
 
 export const ReportingHero = () => {
+  const router = useRouter();
+
   return (
     <Hero
       title={
@@ -14,6 +23,31 @@ export const ReportingHero = () => {
       description={
         "Administration view for monitoring conversation history for all users"
       }
-    ></Hero>
+    >
+      <HeroButton
+        title="Conversations"
+        description="Chat history of all users"
+        icon={<MessageSquare />}
+        onClick={() => router.push("/reporting")}
+      />
+      <HeroButton
+        title="Content filter"
+        description="Messages blocked or flagged by the content filter"
+        icon={<ShieldAlert />}
+        onClick={() => router.push("/reporting/content-filter")}
+      />
+      <HeroButton
+        title="Prompt injection"
+        description="Document content and tool results flagged as prompt injections"
+        icon={<FileWarning />}
+        onClick={() => router.push("/reporting/prompt-injection")}
+      />
+      <HeroButton
+        title="Feedback"
+        description="Ratings and comments users left on answers"
+        icon={<ThumbsUp />}
+        onClick={() => router.push("/reporting/feedback")}
+      />
+    </Hero>
   );
 };
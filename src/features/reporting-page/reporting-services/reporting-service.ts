@@ -1,9 +1,16 @@
 import { getCurrentUser } from "@/features/auth-page/helpers";
 import {
+  CHAT_FEEDBACK_ATTRIBUTE,
   CHAT_THREAD_ATTRIBUTE,
+  ChatFeedbackModel,
   ChatMessageModel,
   ChatThreadModel,
+  FeedbackRating,
   MESSAGE_ATTRIBUTE,
+  PROMPT_INJECTION_ATTRIBUTE,
+  PromptInjectionModel,
+  RETRIEVAL_DIAGNOSTICS_ATTRIBUTE,
+  RetrievalDiagnosticsModel,
 } from "@/features/chat-page/chat-services/models";
 import { ServerActionResponse } from "@/features/common/server-action-response";
 import { HistoryContainer } from "@/features/common/services/cosmos";
@@ -104,3 +111,388 @@ export const FindAllChatMessagesForAdmin = async (
     };
   }
 };
+
+// Document searches of the chat with the scores and ranks of their candidates
+export const FindRetrievalDiagnosticsForAdmin = async (
+  chatThreadID: string
+): Promise<ServerActionResponse<Array<RetrievalDiagnosticsModel>>> => {
+  const user = await getCurrentUser();
+
+  if (!user.isAdmin) {
+    return {
+      status: "ERROR",
+      errors: [{ message: "You are not authorized to perform this action" }],
+    };
+  }
+
+  try {
+    const querySpec: SqlQuerySpec = {
+      query:
+        "SELECT * FROM root r WHERE r.type=@type AND r.threadId = @threadId ORDER BY r.createdAt ASC",
+      parameters: [
+        {
+          name: "@type",
+          value: RETRIEVAL_DIAGNOSTICS_ATTRIBUTE,
+        },
+        {
+          name: "@threadId",
+          value: chatThreadID,
+        },
+      ],
+    };
+
+    const { resources } = await HistoryContainer()
+      .items.query<RetrievalDiagnosticsModel>(querySpec)
+      .fetchAll();
+
+    return {
+      status: "OK",
+      response: resources,
+    };
+  } catch (e) {
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `${e}`,
+        },
+      ],
+    };
+  }
+};
+
+export interface ContentFilterReportItem {
+  message: ChatMessageModel;
+  chatThread?: ChatThreadModel; // missing when the thread was removed
+}
+
+// Messages the content filter blocked or annotated, newest first
+export const FindContentFilteredMessagesForAdmin = async (
+  limit: number,
+  offset: number
+): Promise<ServerActionResponse<Array<ContentFilterReportItem>>> => {
+  const user = await getCurrentUser();
+
+  if (!user.isAdmin) {
+    return {
+      status: "ERROR",
+      errors: [{ message: "You are not authorized to perform this action" }],
+    };
+  }
+
+  try {
+    const querySpec: SqlQuerySpec = {
+      query:
+        "SELECT * FROM root r WHERE r.type=@type AND ARRAY_LENGTH(r.contentFilter) > 0 ORDER BY r.createdAt DESC OFFSET @offset LIMIT @limit",
+      parameters: [
+        {
+          name: "@type",
+          value: MESSAGE_ATTRIBUTE,
+        },
+        {
+          name: "@offset",
+          value: offset,
+        },
+        {
+          name: "@limit",
+          value: limit,
+        },
+      ],
+    };
+
+    const { resources: messages } = await HistoryContainer()
+      .items.query<ChatMessageModel>(querySpec)
+      .fetchAll();
+
+    const threadsQuerySpec: SqlQuerySpec = {
+      query:
+        "SELECT * FROM root r WHERE r.type=@type AND ARRAY_CONTAINS(@ids, r.id)",
+      parameters: [
+        {
+          name: "@type",
+          value: CHAT_THREAD_ATTRIBUTE,
+        },
+        {
+          name: "@ids",
+          value: Array.from(new Set(messages.map((m) => m.threadId))),
+        },
+      ],
+    };
+
+    const { resources: chatThreads } = await HistoryContainer()
+      .items.query<ChatThreadModel>(threadsQuerySpec)
+      .fetchAll();
+
+    return {
+      status: "OK",
+      response: messages.map((message) => ({
+        message,
+        chatThread: chatThreads.find((t) => t.id === message.threadId),
+      })),
+    };
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [{ message: `${error}` }],
+    };
+  }
+};
+
+export interface FeedbackReportFilter {
+  rating?: FeedbackRating;
+  persona?: string; // personaMessageTitle of the thread
+  from?: string; // yyyy-mm-dd, inclusive
+  to?: string; // yyyy-mm-dd, inclusive
+}
+
+export interface FeedbackReportItem {
+  feedback: ChatFeedbackModel;
+  message?: ChatMessageModel; // missing when the message was removed
+  chatThread?: ChatThreadModel;
+}
+
+// Feedback of all users matching the filter, newest first
+export const FindChatFeedbackForAdmin = async (
+  filter: FeedbackReportFilter,
+  limit: number,
+  offset: number
+): Promise<ServerActionResponse<Array<FeedbackReportItem>>> => {
+  const user = await getCurrentUser();
+
+  if (!user.isAdmin) {
+    return {
+      status: "ERROR",
+      errors: [{ message: "You are not authorized to perform this action" }],
+    };
+  }
+
+  try {
+    const conditions = ["r.type=@type"];
+    const parameters: SqlQuerySpec["parameters"] = [
+      {
+        name: "@type",
+        value: CHAT_FEEDBACK_ATTRIBUTE,
+      },
+      {
+        name: "@offset",
+        value: offset,
+      },
+      {
+        name: "@limit",
+        value: limit,
+      },
+    ];
+
+    if (filter.rating) {
+      conditions.push("r.rating=@rating");
+      parameters.push({ name: "@rating", value: filter.rating });
+    }
+
+    if (filter.persona) {
+      conditions.push("r.personaMessageTitle=@persona");
+      parameters.push({ name: "@persona", value: filter.persona });
+    }
+
+    // createdAt is stored as an ISO string, so dates compare as text
+    if (filter.from) {
+      conditions.push("r.createdAt >= @from");
+      parameters.push({ name: "@from", value: filter.from });
+    }
+
+    if (filter.to) {
+      conditions.push("r.createdAt < @to");
+      parameters.push({ name: "@to", value: NextDay(filter.to) });
+    }
+
+    const querySpec: SqlQuerySpec = {
+      query: `SELECT * FROM root r WHERE ${conditions.join(
+        " AND "
+      )} ORDER BY r.createdAt DESC OFFSET @offset LIMIT @limit`,
+      parameters,
+    };
+
+    const { resources: feedback } = await HistoryContainer()
+      .items.query<ChatFeedbackModel>(querySpec)
+      .fetchAll();
+
+    const messagesQuerySpec: SqlQuerySpec = {
+      query:
+        "SELECT * FROM root r WHERE r.type=@type AND ARRAY_CONTAINS(@ids, r.id)",
+      parameters: [
+        {
+          name: "@type",
+          value: MESSAGE_ATTRIBUTE,
+        },
+        {
+          name: "@ids",
+          value: feedback.map((f) => f.messageId),
+        },
+      ],
+    };
+
+    const threadsQuerySpec: SqlQuerySpec = {
+      query:
+        "SELECT * FROM root r WHERE r.type=@type AND ARRAY_CONTAINS(@ids, r.id)",
+      parameters: [
+        {
+          name: "@type",
+          value: CHAT_THREAD_ATTRIBUTE,
+        },
+        {
+          name: "@ids",
+          value: Array.from(new Set(feedback.map((f) => f.threadId))),
+        },
+      ],
+    };
+
+    const [{ resources: messages }, { resources: chatThreads }] =
+      await Promise.all([
+        HistoryContainer()
+          .items.query<ChatMessageModel>(messagesQuerySpec)
+          .fetchAll(),
+        HistoryContainer()
+          .items.query<ChatThreadModel>(threadsQuerySpec)
+          .fetchAll(),
+      ]);
+
+    return {
+      status: "OK",
+      response: feedback.map((f) => ({
+        feedback: f,
+        message: messages.find((m) => m.id === f.messageId),
+        chatThread: chatThreads.find((t) => t.id === f.threadId),
+      })),
+    };
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [{ message: `${error}` }],
+    };
+  }
+};
+
+// personas that received feedback, for the persona filter of the report
+export const FindFeedbackPersonasForAdmin = async (): Promise<
+  ServerActionResponse<Array<string>>
+> => {
+  const user = await getCurrentUser();
+
+  if (!user.isAdmin) {
+    return {
+      status: "ERROR",
+      errors: [{ message: "You are not authorized to perform this action" }],
+    };
+  }
+
+  try {
+    const querySpec: SqlQuerySpec = {
+      query:
+        "SELECT DISTINCT VALUE r.personaMessageTitle FROM root r WHERE r.type=@type",
+      parameters: [
+        {
+          name: "@type",
+          value: CHAT_FEEDBACK_ATTRIBUTE,
+        },
+      ],
+    };
+
+    const { resources } = await HistoryContainer()
+      .items.query<string>(querySpec)
+      .fetchAll();
+
+    return {
+      status: "OK",
+      response: resources.filter((p) => p).sort(),
+    };
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [{ message: `${error}` }],
+    };
+  }
+};
+
+export interface PromptInjectionReportItem {
+  promptInjection: PromptInjectionModel;
+  chatThread?: ChatThreadModel;
+}
+
+// Document content and tool results the prompt guard flagged, newest first
+export const FindPromptInjectionsForAdmin = async (
+  limit: number,
+  offset: number
+): Promise<ServerActionResponse<Array<PromptInjectionReportItem>>> => {
+  const user = await getCurrentUser();
+
+  if (!user.isAdmin) {
+    return {
+      status: "ERROR",
+      errors: [{ message: "You are not authorized to perform this action" }],
+    };
+  }
+
+  try {
+    const querySpec: SqlQuerySpec = {
+      query:
+        "SELECT * FROM root r WHERE r.type=@type ORDER BY r.createdAt DESC OFFSET @offset LIMIT @limit",
+      parameters: [
+        {
+          name: "@type",
+          value: PROMPT_INJECTION_ATTRIBUTE,
+        },
+        {
+          name: "@offset",
+          value: offset,
+        },
+        {
+          name: "@limit",
+          value: limit,
+        },
+      ],
+    };
+
+    const { resources: promptInjections } = await HistoryContainer()
+      .items.query<PromptInjectionModel>(querySpec)
+      .fetchAll();
+
+    const threadsQuerySpec: SqlQuerySpec = {
+      query:
+        "SELECT * FROM root r WHERE r.type=@type AND ARRAY_CONTAINS(@ids, r.id)",
+      parameters: [
+        {
+          name: "@type",
+          value: CHAT_THREAD_ATTRIBUTE,
+        },
+        {
+          name: "@ids",
+          value: Array.from(new Set(promptInjections.map((p) => p.threadId))),
+        },
+      ],
+    };
+
+    const { resources: chatThreads } = await HistoryContainer()
+      .items.query<ChatThreadModel>(threadsQuerySpec)
+      .fetchAll();
+
+    return {
+      status: "OK",
+      response: promptInjections.map((promptInjection) => ({
+        promptInjection,
+        chatThread: chatThreads.find(
+          (t) => t.id === promptInjection.threadId
+        ),
+      })),
+    };
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [{ message: `${error}` }],
+    };
+  }
+};
+
+const NextDay = (date: string) => {
+  const next = new Date(date);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+};
@@ -0,0 +1,121 @@
+"use client";
+
+import { Search } from "lucide-react";
+import { FC } from "react";
+import {
+  RetrievalCandidate,
+  RetrievalDiagnosticsModel,
+} from "../chat-page/chat-services/models";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "../ui/accordion";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+
+interface Props {
+  diagnostics: Array<RetrievalDiagnosticsModel>;
+}
+
+const OUTCOME_LABELS: Record<RetrievalCandidate["outcome"], string> = {
+  selected: "Selected",
+  "below-min-score": "Below min score",
+  "not-selected": "Not selected",
+};
+
+// Document searches of the chat, every candidate with its scores and ranks
+export const RetrievalDiagnostics: FC<Props> = (props) => {
+  return (
+    <Accordion type="multiple" className="bg-background rounded-md border p-2">
+      {props.diagnostics.map((diagnostics) => (
+        <AccordionItem value={diagnostics.id} key={diagnostics.id}>
+          <AccordionTrigger className="text-sm py-1 items-center gap-2">
+            <div className="flex gap-2 items-center text-left">
+              <Search
+                size={18}
+                strokeWidth={1.4}
+                className="text-muted-foreground shrink-0"
+              />
+              {diagnostics.query}
+            </div>
+          </AccordionTrigger>
+          <AccordionContent className="flex flex-col gap-2">
+            <div className="text-muted-foreground">
+              {DescribeOptions(diagnostics)}
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Rank</TableHead>
+                  <TableHead>Chunk</TableHead>
+                  <TableHead className="text-right">Keyword</TableHead>
+                  <TableHead className="text-right">Vector</TableHead>
+                  <TableHead className="text-right">Fused</TableHead>
+                  <TableHead className="text-right">Similarity</TableHead>
+                  <TableHead className="text-right">Reranker</TableHead>
+                  <TableHead>Outcome</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {diagnostics.candidates.map((candidate) => (
+                  <TableRow key={candidate.chunkId}>
+                    <TableCell>{candidate.rank ?? "-"}</TableCell>
+                    <TableCell>
+                      {candidate.fileName}
+                      {candidate.pageStart !== undefined &&
+                        ` p. ${candidate.pageStart}`}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {candidate.keywordRank ?? "-"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {candidate.vectorRank ?? "-"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {candidate.fusedScore.toFixed(4)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {candidate.similarity.toFixed(3)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {candidate.rerankerScore?.toFixed(2) ?? "-"}
+                    </TableCell>
+                    <TableCell>{OUTCOME_LABELS[candidate.outcome]}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </AccordionContent>
+        </AccordionItem>
+      ))}
+    </Accordion>
+  );
+};
+
+const DescribeOptions = (diagnostics: RetrievalDiagnosticsModel) => {
+  const { options } = diagnostics;
+
+  return [
+    `Top ${options.topK}`,
+    `keyword / vector weight ${options.keywordWeight} / ${options.vectorWeight}`,
+    options.semanticRanking &&
+      (diagnostics.semanticRanked
+        ? "semantic ranking"
+        : "semantic ranking unavailable"),
+    `min score ${options.minScore}`,
+    `diversity ${options.diversity}`,
+    options.queryRewriting && "query rewriting",
+    options.hyde && "HyDE",
+    new Date(diagnostics.createdAt).toLocaleString(),
+  ]
+    .filter((d) => d)
+    .join(" · ");
+};
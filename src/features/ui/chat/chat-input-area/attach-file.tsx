@@ -4,6 +4,7 @@ import { Button } from "../../button";
 
 export const AttachFile = (props: {
   onClick: (formData: FormData) => void;
+  accept?: string;
 }) => {
   const fileInputRef = useRef<HTMLInputElement | null>(null);
 
@@ -32,6 +33,7 @@ export const AttachFile = (props: {
       <input
         type="file"
         ref={fileInputRef}
+        accept={props.accept}
         style={{ display: "none" }}
         onChange={handleFileChange}
       />
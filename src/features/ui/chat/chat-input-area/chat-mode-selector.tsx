@@ -0,0 +1,70 @@
+import { ChatMode } from "@/features/chat-page/chat-services/models";
+import {
+  FileText,
+  MessageSquare,
+  PocketKnife,
+  Sparkles,
+} from "lucide-react";
+import { Button } from "../../button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "../../dropdown-menu";
+
+const modes: Array<{
+  value: ChatMode;
+  label: string;
+  icon: typeof Sparkles;
+}> = [
+  { value: "auto", label: "Automatic", icon: Sparkles },
+  { value: "documents", label: "Documents only", icon: FileText },
+  { value: "tools", label: "Extensions only", icon: PocketKnife },
+  { value: "chat", label: "Plain chat", icon: MessageSquare },
+];
+
+export const ChatModeSelector = (props: {
+  chatMode: ChatMode;
+  onChange: (value: ChatMode) => void;
+}) => {
+  const current = modes.find((m) => m.value === props.chatMode) ?? modes[0];
+  const Icon = current.icon;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          size="icon"
+          type="button"
+          variant={"ghost"}
+          title={current.label}
+          aria-label="Select how the assistant answers"
+        >
+          <Icon size={16} />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent>
+        <DropdownMenuLabel>Answer using</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup
+          value={props.chatMode}
+          onValueChange={(value) => props.onChange(value as ChatMode)}
+        >
+          {modes.map((mode) => (
+            <DropdownMenuRadioItem
+              value={mode.value}
+              key={mode.value}
+              className="gap-2"
+            >
+              <mode.icon size={16} /> {mode.label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,21 @@
+"use client";
+
+import { X } from "lucide-react";
+import { Button } from "../../button";
+
+export const EditingMessage = (props: { onCancel: () => void }) => {
+  return (
+    <div className="flex items-center justify-between px-3 pt-1 text-sm text-muted-foreground">
+      Editing message
+      <Button
+        type="button"
+        variant={"ghost"}
+        size={"sm"}
+        title="Cancel editing"
+        onClick={props.onCancel}
+      >
+        <X size={16} />
+      </Button>
+    </div>
+  );
+};
@@ -2,8 +2,14 @@
 import { cn } from "@/ui/lib";
 import {
   CheckIcon,
+  ChevronLeft,
+  ChevronRight,
   ClipboardIcon,
+  Pencil,
   PocketKnife,
+  RefreshCw,
+  ThumbsDown,
+  ThumbsUp,
   UserCircle,
 } from "lucide-react";
 import { useEffect, useState } from "react";
@@ -16,6 +22,10 @@ export const ChatMessageArea = (props: {
   profileName?: string;
   role: "function" | "user" | "assistant" | "system" | "tool";
   onCopy: () => void;
+  onEdit?: () => void;
+  onRegenerate?: () => void;
+  branch?: ChatMessageBranch;
+  feedback?: ChatMessageFeedback;
 }) => {
   const [isIconChecked, setIsIconChecked] = useState(false);
 
@@ -84,7 +94,29 @@ export const ChatMessageArea = (props: {
           </div>
         </div>
         <div className=" h-7 flex items-center justify-between">
-          <div>
+          <div className="flex items-center">
+            {props.branch && <BranchNavigation {...props.branch} />}
+            {props.onEdit && (
+              <Button
+                variant={"ghost"}
+                size={"sm"}
+                title="Edit message"
+                onClick={props.onEdit}
+              >
+                <Pencil size={16} />
+              </Button>
+            )}
+            {props.feedback && <FeedbackButtons {...props.feedback} />}
+            {props.onRegenerate && (
+              <Button
+                variant={"ghost"}
+                size={"sm"}
+                title="Regenerate response"
+                onClick={props.onRegenerate}
+              >
+                <RefreshCw size={16} />
+              </Button>
+            )}
             <Button
               variant={"ghost"}
               size={"sm"}
@@ -109,3 +141,72 @@ export const ChatMessageArea = (props: {
     </div>
   );
 };
+
+interface ChatMessageBranch {
+  index: number;
+  count: number;
+  onPrevious: () => void;
+  onNext: () => void;
+}
+
+const BranchNavigation = (props: ChatMessageBranch) => {
+  return (
+    <div className="flex items-center text-sm text-muted-foreground">
+      <Button
+        variant={"ghost"}
+        size={"sm"}
+        title="Previous version"
+        disabled={props.index === 0}
+        onClick={props.onPrevious}
+      >
+        <ChevronLeft size={16} />
+      </Button>
+      <span>
+        {props.index + 1}/{props.count}
+      </span>
+      <Button
+        variant={"ghost"}
+        size={"sm"}
+        title="Next version"
+        disabled={props.index === props.count - 1}
+        onClick={props.onNext}
+      >
+        <ChevronRight size={16} />
+      </Button>
+    </div>
+  );
+};
+
+interface ChatMessageFeedback {
+  rating?: "up" | "down";
+  onRate: (rating: "up" | "down") => void;
+}
+
+const FeedbackButtons = (props: ChatMessageFeedback) => {
+  return (
+    <>
+      <Button
+        variant={"ghost"}
+        size={"sm"}
+        title="Good response"
+        onClick={() => props.onRate("up")}
+      >
+        <ThumbsUp
+          size={16}
+          className={cn(props.rating === "up" && "fill-current")}
+        />
+      </Button>
+      <Button
+        variant={"ghost"}
+        size={"sm"}
+        title="Bad response"
+        onClick={() => props.onRate("down")}
+      >
+        <ThumbsDown
+          size={16}
+          className={cn(props.rating === "down" && "fill-current")}
+        />
+      </Button>
+    </>
+  );
+};
@@ -0,0 +1,27 @@
+import { MessageCircleQuestion } from "lucide-react";
+import { FC } from "react";
+import { Button } from "../../button";
+
+interface FollowUpQuestionsProps {
+  questions: ReadonlyArray<string>;
+  onSelect: (question: string) => void;
+}
+
+export const FollowUpQuestions: FC<FollowUpQuestionsProps> = (props) => {
+  return (
+    <div className="flex flex-wrap gap-2 pt-2">
+      {props.questions.map((question) => (
+        <Button
+          key={question}
+          variant={"outline"}
+          size={"sm"}
+          className="rounded-full h-auto py-1 gap-2 text-start whitespace-normal"
+          onClick={() => props.onSelect(question)}
+        >
+          <MessageCircleQuestion size={14} className="shrink-0" />
+          {question}
+        </Button>
+      ))}
+    </div>
+  );
+};
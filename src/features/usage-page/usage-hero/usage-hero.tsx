@@ -0,0 +1,38 @@
+"use client";
+import { Hero, HeroButton } from "@/features/ui/hero";
+import { Building2, Gauge, User, Users } from "lucide-react";
+import { usageStore } from "../usage-store";
+
+export const UsageHero = () => {
+  return (
+    <Hero
+      title={
+        <>
+          <Gauge size={36} strokeWidth={1.5} /> Usage
+        </>
+      }
+      description={
+        "Monthly token and image usage per business unit and user for charge back. Quotas limit how much a user can use each month, a quota for a user overrides the one of their business unit, which overrides the default."
+      }
+    >
+      <HeroButton
+        title="Default quota"
+        description="Monthly limit for everyone"
+        icon={<Users />}
+        onClick={() => usageStore.newQuota("default")}
+      />
+      <HeroButton
+        title="Business unit quota"
+        description="Monthly limit for a department"
+        icon={<Building2 />}
+        onClick={() => usageStore.newQuota("businessUnit")}
+      />
+      <HeroButton
+        title="User quota"
+        description="Monthly limit for a single user"
+        icon={<User />}
+        onClick={() => usageStore.newQuota("user")}
+      />
+    </Hero>
+  );
+};
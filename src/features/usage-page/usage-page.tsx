@@ -0,0 +1,238 @@
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import Link from "next/link";
+import { FC } from "react";
+import { Button } from "../ui/button";
+import { DisplayError } from "../ui/error/display-error";
+import { ScrollArea } from "../ui/scroll-area";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+import { AddNewQuota } from "./usage-quota/add-new-quota";
+import { QuotaContextMenu } from "./usage-quota/quota-context-menu";
+import { UsageHero } from "./usage-hero/usage-hero";
+import { EditRateLimit } from "./usage-rate-limit/edit-rate-limit";
+import { RateLimitEditButton } from "./usage-rate-limit/rate-limit-edit-button";
+import {
+  UsageMonth,
+  UsageQuotaModel,
+  UsageTotals,
+} from "./usage-services/models";
+import { FindAllRateLimits } from "./usage-services/rate-limit-service";
+import {
+  FindAllUsageQuotas,
+  FindUsageByBusinessUnitForAdmin,
+  FindUsageByUserForAdmin,
+} from "./usage-services/usage-service";
+
+interface UsagePageProps {
+  month: string; // yyyy-mm
+}
+
+export const UsagePage: FC<UsagePageProps> = async (props) => {
+  const [
+    businessUnitsResponse,
+    usersResponse,
+    quotasResponse,
+    rateLimitsResponse,
+  ] = await Promise.all([
+    FindUsageByBusinessUnitForAdmin(props.month),
+    FindUsageByUserForAdmin(props.month),
+    FindAllUsageQuotas(),
+    FindAllRateLimits(),
+  ]);
+
+  if (businessUnitsResponse.status !== "OK") {
+    return <DisplayError errors={businessUnitsResponse.errors} />;
+  }
+
+  if (usersResponse.status !== "OK") {
+    return <DisplayError errors={usersResponse.errors} />;
+  }
+
+  if (quotasResponse.status !== "OK") {
+    return <DisplayError errors={quotasResponse.errors} />;
+  }
+
+  if (rateLimitsResponse.status !== "OK") {
+    return <DisplayError errors={rateLimitsResponse.errors} />;
+  }
+
+  const date = new Date(`${props.month}-01T00:00:00Z`);
+  const previousMonth = UsageMonth(
+    new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() - 1, 1))
+  );
+  const nextMonth = UsageMonth(
+    new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1))
+  );
+
+  return (
+    <ScrollArea className="flex-1">
+      <main className="flex flex-1 flex-col">
+        <UsageHero />
+        <div className="container max-w-4xl py-3 flex flex-col gap-8">
+          <div className="flex gap-2 items-center justify-between">
+            <Button asChild size={"icon"} variant={"outline"}>
+              <Link href={"/usage?month=" + previousMonth}>
+                <ChevronLeft />
+              </Link>
+            </Button>
+            <h2 className="text-xl">{props.month}</h2>
+            <Button asChild size={"icon"} variant={"outline"}>
+              <Link href={"/usage?month=" + nextMonth}>
+                <ChevronRight />
+              </Link>
+            </Button>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Business unit</TableHead>
+                <UsageHeadCells />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {businessUnitsResponse.response.map((usage) => (
+                <TableRow key={usage.businessUnit}>
+                  <TableCell>{usage.businessUnit}</TableCell>
+                  <UsageCells usage={usage} />
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>User</TableHead>
+                <UsageHeadCells />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {usersResponse.response.map((usage) => (
+                <TableRow key={usage.userId}>
+                  <TableCell>
+                    <div>{usage.userName}</div>
+                    <div className="text-muted-foreground text-xs">
+                      {usage.email} · {usage.businessUnit}
+                    </div>
+                  </TableCell>
+                  <UsageCells usage={usage} />
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Quota</TableHead>
+                <TableHead className="text-right">Tokens / month</TableHead>
+                <TableHead className="text-right">Images / month</TableHead>
+                <TableHead className="w-[50px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {quotasResponse.response.map((quota) => (
+                <TableRow key={quota.id}>
+                  <TableCell>{describeQuota(quota)}</TableCell>
+                  <TableCell className="text-right">
+                    {formatLimit(quota.monthlyTokens)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatLimit(quota.monthlyImages)}
+                  </TableCell>
+                  <TableCell>
+                    <QuotaContextMenu quota={quota} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rate limit (per user)</TableHead>
+                <TableHead className="text-right">Burst</TableHead>
+                <TableHead className="text-right">Refill / minute</TableHead>
+                <TableHead className="w-[50px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rateLimitsResponse.response.map((rateLimit) => (
+                <TableRow key={rateLimit.route}>
+                  <TableCell className="capitalize">
+                    {rateLimit.route}
+                    {!rateLimit.enabled && (
+                      <span className="text-muted-foreground"> (disabled)</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {rateLimit.capacity.toLocaleString()}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {rateLimit.refillPerMinute.toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    <RateLimitEditButton rateLimit={rateLimit} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        <AddNewQuota />
+        <EditRateLimit />
+      </main>
+    </ScrollArea>
+  );
+};
+
+const UsageHeadCells = () => {
+  return (
+    <>
+      <TableHead className="text-right">Prompt tokens</TableHead>
+      <TableHead className="text-right">Completion tokens</TableHead>
+      <TableHead className="text-right">Embedding tokens</TableHead>
+      <TableHead className="text-right">Images</TableHead>
+      <TableHead className="text-right">Cost (USD)</TableHead>
+    </>
+  );
+};
+
+const UsageCells = (props: { usage: UsageTotals }) => {
+  const { usage } = props;
+  return (
+    <>
+      <TableCell className="text-right">
+        {usage.promptTokens.toLocaleString()}
+      </TableCell>
+      <TableCell className="text-right">
+        {usage.completionTokens.toLocaleString()}
+      </TableCell>
+      <TableCell className="text-right">
+        {usage.embeddingTokens.toLocaleString()}
+      </TableCell>
+      <TableCell className="text-right">
+        {usage.images.toLocaleString()}
+      </TableCell>
+      <TableCell className="text-right">{usage.cost.toFixed(2)}</TableCell>
+    </>
+  );
+};
+
+const formatLimit = (value: number) =>
+  value > 0 ? value.toLocaleString() : "No limit";
+
+const describeQuota = (quota: UsageQuotaModel) => {
+  switch (quota.scope) {
+    case "user":
+      return `User: ${quota.target}`;
+    case "businessUnit":
+      return `Business unit: ${quota.target}`;
+    default:
+      return "Everyone";
+  }
+};
@@ -0,0 +1,144 @@
+"use client";
+
+import { FC, useEffect, useState } from "react";
+import { useFormState, useFormStatus } from "react-dom";
+import { ServerActionResponse } from "../../common/server-action-response";
+import { Button } from "../../ui/button";
+import { Input } from "../../ui/input";
+import { Label } from "../../ui/label";
+import { LoadingIndicator } from "../../ui/loading";
+import { ScrollArea } from "../../ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "../../ui/sheet";
+import { UsageQuotaScope } from "../usage-services/models";
+import { addOrUpdateQuota, usageStore, useUsageState } from "../usage-store";
+
+interface Props {}
+
+export const AddNewQuota: FC<Props> = (props) => {
+  const initialState: ServerActionResponse | undefined = undefined;
+
+  const { isOpened, quota } = useUsageState();
+  const [scope, setScope] = useState<UsageQuotaScope>(quota.scope);
+
+  useEffect(() => {
+    setScope(quota.scope);
+  }, [quota]);
+
+  const [formState, formAction] = useFormState(addOrUpdateQuota, initialState);
+
+  return (
+    <Sheet
+      open={isOpened}
+      onOpenChange={(value) => {
+        usageStore.updateOpened(value);
+      }}
+    >
+      <SheetContent className="min-w-[480px] sm:w-[540px] flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Quota</SheetTitle>
+        </SheetHeader>
+        <form action={formAction} className="flex-1 flex flex-col">
+          <ScrollArea
+            className="flex-1 -mx-6 flex max-h-[calc(100vh-140px)]"
+            type="always"
+          >
+            <div className="pb-6 px-6 flex gap-8 flex-col  flex-1">
+              <input type="hidden" name="id" defaultValue={quota.id} />
+              {formState && formState.status === "OK" ? null : (
+                <>
+                  {formState &&
+                    formState.errors.map((error, index) => (
+                      <div key={index} className="text-red-500">
+                        {error.message}
+                      </div>
+                    ))}
+                </>
+              )}
+              <div className="grid gap-2">
+                <Label>Applies to</Label>
+                <Select
+                  name="scope"
+                  value={scope}
+                  onValueChange={(value) => setScope(value as UsageQuotaScope)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">Everyone</SelectItem>
+                    <SelectItem value="businessUnit">Business unit</SelectItem>
+                    <SelectItem value="user">User</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {scope !== "default" && (
+                <div className="grid gap-2">
+                  <Label>
+                    {scope === "user" ? "Email" : "Business unit"}
+                  </Label>
+                  <Input
+                    type="text"
+                    required
+                    name="target"
+                    defaultValue={quota.target}
+                    placeholder={
+                      scope === "user"
+                        ? "eg: jane.doe@contoso.com"
+                        : "Department as shown in Entra ID"
+                    }
+                  />
+                </div>
+              )}
+              <div className="grid gap-2">
+                <Label>Tokens per month (0 for no limit)</Label>
+                <Input
+                  type="number"
+                  required
+                  min={0}
+                  name="monthlyTokens"
+                  defaultValue={quota.monthlyTokens}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label>Images per month (0 for no limit)</Label>
+                <Input
+                  type="number"
+                  required
+                  min={0}
+                  name="monthlyImages"
+                  defaultValue={quota.monthlyImages}
+                />
+              </div>
+            </div>
+          </ScrollArea>
+          <SheetFooter className="py-2 flex sm:justify-end flex-row">
+            <Submit />
+          </SheetFooter>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+function Submit() {
+  const status = useFormStatus();
+  return (
+    <Button disabled={status.pending} className="gap-2">
+      <LoadingIndicator isLoading={status.pending} />
+      Save
+    </Button>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { MoreVertical, Pencil, Trash } from "lucide-react";
+import { FC, useState } from "react";
+import { DropdownMenuItemWithIcon } from "../../chat-page/chat-menu/chat-menu-item";
+import { RevalidateCache } from "../../common/navigation-helpers";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "../../ui/dropdown-menu";
+import { LoadingIndicator } from "../../ui/loading";
+import { UsageQuotaModel } from "../usage-services/models";
+import { DeleteUsageQuota } from "../usage-services/usage-service";
+import { usageStore } from "../usage-store";
+
+interface Props {
+  quota: UsageQuotaModel;
+}
+
+type DropdownAction = "delete";
+
+export const QuotaContextMenu: FC<Props> = (props) => {
+  const { isLoading, handleAction } = useDropdownAction({
+    quota: props.quota,
+  });
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger>
+          {isLoading ? (
+            <LoadingIndicator isLoading={isLoading} />
+          ) : (
+            <MoreVertical size={18} />
+          )}
+        </DropdownMenuTrigger>
+        <DropdownMenuContent>
+          <DropdownMenuItemWithIcon
+            onClick={() => usageStore.updateQuota(props.quota)}
+          >
+            <Pencil size={18} />
+            <span>Edit</span>
+          </DropdownMenuItemWithIcon>
+          <DropdownMenuItemWithIcon
+            onClick={async () => await handleAction("delete")}
+          >
+            <Trash size={18} />
+            <span>Delete</span>
+          </DropdownMenuItemWithIcon>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </>
+  );
+};
+
+const useDropdownAction = (props: { quota: UsageQuotaModel }) => {
+  const { quota } = props;
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleAction = async (action: DropdownAction) => {
+    setIsLoading(true);
+    switch (action) {
+      case "delete":
+        if (window.confirm(`Are you sure you want to delete this quota?`)) {
+          await DeleteUsageQuota(quota.id);
+          RevalidateCache({
+            page: "usage",
+          });
+        }
+
+        break;
+    }
+    setIsLoading(false);
+  };
+
+  return {
+    isLoading,
+    handleAction,
+  };
+};
@@ -0,0 +1,114 @@
+"use client";
+
+import { FC } from "react";
+import { useFormState, useFormStatus } from "react-dom";
+import { ServerActionResponse } from "../../common/server-action-response";
+import { Button } from "../../ui/button";
+import { Input } from "../../ui/input";
+import { Label } from "../../ui/label";
+import { LoadingIndicator } from "../../ui/loading";
+import { ScrollArea } from "../../ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "../../ui/sheet";
+import { Switch } from "../../ui/switch";
+import { updateRateLimit, usageStore, useUsageState } from "../usage-store";
+
+interface Props {}
+
+export const EditRateLimit: FC<Props> = (props) => {
+  const initialState: ServerActionResponse | undefined = undefined;
+
+  const { isRateLimitOpened, rateLimit } = useUsageState();
+
+  const [formState, formAction] = useFormState(updateRateLimit, initialState);
+
+  return (
+    <Sheet
+      open={isRateLimitOpened}
+      onOpenChange={(value) => {
+        usageStore.updateRateLimitOpened(value);
+      }}
+    >
+      <SheetContent className="min-w-[480px] sm:w-[540px] flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Rate limit: {rateLimit?.route}</SheetTitle>
+        </SheetHeader>
+        {rateLimit && (
+          <form
+            // the form is recreated for every limit so that the default values are applied
+            key={rateLimit.route}
+            action={formAction}
+            className="flex-1 flex flex-col"
+          >
+            <ScrollArea
+              className="flex-1 -mx-6 flex max-h-[calc(100vh-140px)]"
+              type="always"
+            >
+              <div className="pb-6 px-6 flex gap-8 flex-col  flex-1">
+                <input type="hidden" name="id" defaultValue={rateLimit.id} />
+                <input
+                  type="hidden"
+                  name="route"
+                  defaultValue={rateLimit.route}
+                />
+                {formState && formState.status === "OK" ? null : (
+                  <>
+                    {formState &&
+                      formState.errors.map((error, index) => (
+                        <div key={index} className="text-red-500">
+                          {error.message}
+                        </div>
+                      ))}
+                  </>
+                )}
+                <div className="grid gap-2">
+                  <Label>Burst capacity (requests per user)</Label>
+                  <Input
+                    type="number"
+                    required
+                    min={1}
+                    name="capacity"
+                    defaultValue={rateLimit.capacity}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label>Refill per minute</Label>
+                  <Input
+                    type="number"
+                    required
+                    min={0}
+                    step="any"
+                    name="refillPerMinute"
+                    defaultValue={rateLimit.refillPerMinute}
+                  />
+                </div>
+              </div>
+            </ScrollArea>
+            <SheetFooter className="py-2 flex sm:justify-between flex-row">
+              <div className="flex items-center space-x-2">
+                <Switch name="enabled" defaultChecked={rateLimit.enabled} />
+                <Label>Enabled</Label>
+              </div>
+              <Submit />
+            </SheetFooter>
+          </form>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+function Submit() {
+  const status = useFormStatus();
+  return (
+    <Button disabled={status.pending} className="gap-2">
+      <LoadingIndicator isLoading={status.pending} />
+      Save
+    </Button>
+  );
+}
@@ -0,0 +1,24 @@
+"use client";
+
+import { Pencil } from "lucide-react";
+import { FC } from "react";
+import { Button } from "../../ui/button";
+import { RateLimitModel } from "../usage-services/models";
+import { usageStore } from "../usage-store";
+
+interface Props {
+  rateLimit: RateLimitModel;
+}
+
+export const RateLimitEditButton: FC<Props> = (props) => {
+  return (
+    <Button
+      size={"icon"}
+      variant={"ghost"}
+      aria-label="Edit rate limit"
+      onClick={() => usageStore.updateRateLimit(props.rateLimit)}
+    >
+      <Pencil size={18} />
+    </Button>
+  );
+};
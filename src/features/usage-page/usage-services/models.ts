@@ -0,0 +1,148 @@
+import { z } from "zod";
+
+export const USAGE_ATTRIBUTE = "USAGE";
+export const USAGE_QUOTA_ATTRIBUTE = "USAGE_QUOTA";
+
+// business unit used when the identity provider does not return a department
+export const UNASSIGNED_BUSINESS_UNIT = "Unassigned";
+
+// chat is the answer, title and follow-ups are generated after it, the search
+// queries, the hypothetical answer of HyDE and the history summary before it
+export type UsageKind =
+  | "chat"
+  | "summary"
+  | "title"
+  | "follow-ups"
+  | "query-rewrite"
+  | "hyde"
+  | "image"
+  | "embedding";
+
+// one entry of the usage ledger, stored in the history container next to the messages of the user
+export interface UsageModel {
+  id: string;
+  userId: string;
+  userName: string;
+  email: string;
+  businessUnit: string;
+  threadId: string;
+  // assistant message the usage belongs to, the prompt of an answer stopped
+  // before it started, empty for embeddings and images
+  messageId: string;
+  kind: UsageKind;
+  model: string; // deployment name
+  promptTokens: number;
+  completionTokens: number;
+  embeddingTokens: number;
+  images: number;
+  cost: number; // USD, based on the cost of the model deployment at the time of the request
+  month: string; // yyyy-mm, the period quotas and charge back are calculated for
+  createdAt: Date;
+  type: typeof USAGE_ATTRIBUTE;
+}
+
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  embeddingTokens: number;
+  images: number;
+  cost: number;
+}
+
+export interface UserUsageTotals extends UsageTotals {
+  userId: string;
+  userName: string;
+  email: string;
+  businessUnit: string;
+}
+
+export interface BusinessUnitUsageTotals extends UsageTotals {
+  businessUnit: string;
+}
+
+export type UsageQuotaScope = "default" | "businessUnit" | "user";
+
+export type UsageQuotaModel = z.infer<typeof UsageQuotaModelSchema>;
+
+export const UsageQuotaModelSchema = z
+  .object({
+    id: z.string(),
+    scope: z.enum(["default", "businessUnit", "user"]),
+    // email of the user or name of the business unit, empty for the default quota
+    target: z.string(),
+    // 0 means no limit
+    monthlyTokens: z
+      .number({
+        invalid_type_error: "Monthly tokens must be a number",
+      })
+      .int()
+      .nonnegative("Monthly tokens cannot be negative"),
+    monthlyImages: z
+      .number({
+        invalid_type_error: "Monthly images must be a number",
+      })
+      .int()
+      .nonnegative("Monthly images cannot be negative"),
+    userId: z.string(),
+    createdAt: z.date(),
+    type: z.literal(USAGE_QUOTA_ATTRIBUTE),
+  })
+  .refine(
+    (quota) => quota.scope === "default" || quota.target.trim() !== "",
+    "A user or business unit quota needs a target"
+  );
+
+export const UsageMonth = (date: Date = new Date()) =>
+  date.toISOString().slice(0, 7);
+
+export const RATE_LIMIT_ATTRIBUTE = "RATE_LIMIT";
+export const RATE_LIMIT_BUCKET_ATTRIBUTE = "RATE_LIMIT_BUCKET";
+
+// chat and images count requests, documents counts uploads and embeddings counts indexed chunks
+export type RateLimitRoute = "chat" | "images" | "documents" | "embeddings";
+
+export const RATE_LIMIT_ROUTES: Array<RateLimitRoute> = [
+  "chat",
+  "images",
+  "documents",
+  "embeddings",
+];
+
+export type RateLimitModel = z.infer<typeof RateLimitModelSchema>;
+
+// token bucket per user and route, a user can burst up to capacity and gets refillPerMinute back every minute
+export const RateLimitModelSchema = z.object({
+  id: z.string(),
+  route: z.enum(["chat", "images", "documents", "embeddings"]),
+  capacity: z
+    .number({
+      invalid_type_error: "Capacity must be a number",
+    })
+    .int()
+    .positive("Capacity must be greater than 0"),
+  refillPerMinute: z
+    .number({
+      invalid_type_error: "Refill per minute must be a number",
+    })
+    .positive("Refill per minute must be greater than 0"),
+  enabled: z.boolean(),
+  userId: z.string(),
+  createdAt: z.date(),
+  type: z.literal(RATE_LIMIT_ATTRIBUTE),
+});
+
+// used for the routes an admin has not configured
+export const DEFAULT_RATE_LIMITS: Record<
+  RateLimitRoute,
+  { capacity: number; refillPerMinute: number }
+> = {
+  chat: { capacity: 20, refillPerMinute: 10 },
+  images: { capacity: 120, refillPerMinute: 120 },
+  documents: { capacity: 5, refillPerMinute: 2 },
+  embeddings: { capacity: 1000, refillPerMinute: 500 },
+};
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfter: number; // seconds until the request would be allowed
+}
@@ -0,0 +1,146 @@
+"use server";
+import "server-only";
+
+import { getCurrentUser, userHashedId } from "@/features/auth-page/helpers";
+import {
+  ServerActionResponse,
+  zodErrorsToServerActionErrors,
+} from "@/features/common/server-action-response";
+import { ConfigContainer } from "@/features/common/services/cosmos";
+import { uniqueId } from "@/features/common/util";
+import { SqlQuerySpec } from "@azure/cosmos";
+import {
+  DEFAULT_RATE_LIMITS,
+  RATE_LIMIT_ATTRIBUTE,
+  RATE_LIMIT_ROUTES,
+  RateLimitModel,
+  RateLimitModelSchema,
+} from "./models";
+
+// Returns a limit for every route, the routes an admin has not configured get the default limits
+export const FindAllRateLimits = async (): Promise<
+  ServerActionResponse<Array<RateLimitModel>>
+> => {
+  try {
+    const querySpec: SqlQuerySpec = {
+      query: "SELECT * FROM root r WHERE r.type=@type",
+      parameters: [
+        {
+          name: "@type",
+          value: RATE_LIMIT_ATTRIBUTE,
+        },
+      ],
+    };
+
+    const { resources } = await ConfigContainer()
+      .items.query<RateLimitModel>(querySpec)
+      .fetchAll();
+
+    return {
+      status: "OK",
+      response: RATE_LIMIT_ROUTES.map(
+        (route) =>
+          resources.find((r) => r.route === route) ?? DefaultRateLimit(route)
+      ),
+    };
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `Error retrieving rate limits: ${error}`,
+        },
+      ],
+    };
+  }
+};
+
+export const UpsertRateLimit = async (
+  limitInput: RateLimitModel
+): Promise<ServerActionResponse<RateLimitModel>> => {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user.isAdmin) {
+      return {
+        status: "UNAUTHORIZED",
+        errors: [
+          {
+            message: `Unable to update rate limit - admin role required.`,
+          },
+        ],
+      };
+    }
+
+    const limitsResponse = await FindAllRateLimits();
+
+    if (limitsResponse.status !== "OK") {
+      return limitsResponse;
+    }
+
+    const existing = limitsResponse.response.find(
+      (l) => l.route === limitInput.route
+    );
+
+    const limitToSave: RateLimitModel = {
+      id: existing?.id || uniqueId(),
+      route: limitInput.route,
+      capacity: limitInput.capacity,
+      refillPerMinute: limitInput.refillPerMinute,
+      enabled: limitInput.enabled,
+      userId: existing?.userId || (await userHashedId()),
+      createdAt: new Date(),
+      type: RATE_LIMIT_ATTRIBUTE,
+    };
+
+    const validatedFields = RateLimitModelSchema.safeParse(limitToSave);
+
+    if (!validatedFields.success) {
+      return {
+        status: "ERROR",
+        errors: zodErrorsToServerActionErrors(validatedFields.error.errors),
+      };
+    }
+
+    const { resource } =
+      await ConfigContainer().items.upsert<RateLimitModel>(limitToSave);
+
+    if (resource) {
+      return {
+        status: "OK",
+        response: resource,
+      };
+    }
+
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: "Error updating rate limit",
+        },
+      ],
+    };
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `Error updating rate limit: ${error}`,
+        },
+      ],
+    };
+  }
+};
+
+// the defaults are not stored, an empty id and user id mark a limit that was never saved
+const DefaultRateLimit = (route: RateLimitModel["route"]): RateLimitModel => {
+  return {
+    id: "",
+    route,
+    ...DEFAULT_RATE_LIMITS[route],
+    enabled: true,
+    userId: "",
+    createdAt: new Date(),
+    type: RATE_LIMIT_ATTRIBUTE,
+  };
+};
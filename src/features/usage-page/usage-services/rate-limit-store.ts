@@ -0,0 +1,131 @@
+import "server-only";
+
+import { HistoryContainer } from "@/features/common/services/cosmos";
+import { ErrorResponse } from "@azure/cosmos";
+import {
+  RATE_LIMIT_BUCKET_ATTRIBUTE,
+  RateLimitModel,
+  RateLimitResult,
+} from "./models";
+
+// number of attempts when another instance updates the same bucket at the same time
+const MAX_CONCURRENCY_RETRIES = 5;
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number; // epoch milliseconds
+}
+
+interface TokenBucketDocument extends TokenBucket {
+  id: string;
+  userId: string;
+  route: string;
+  type: typeof RATE_LIMIT_BUCKET_ATTRIBUTE;
+}
+
+// Keeps the token buckets of the rate limiter.
+// The memory store only works for a single instance, scaled out deployments need the Cosmos store.
+export interface RateLimitStore {
+  take(props: {
+    userId: string;
+    limit: RateLimitModel;
+    cost: number;
+  }): Promise<RateLimitResult>;
+}
+
+const buckets = new Map<string, TokenBucket>();
+
+export const MemoryRateLimitStore = (): RateLimitStore => {
+  return {
+    take: async ({ userId, limit, cost }) => {
+      const key = `${limit.route}:${userId}`;
+      const { bucket, result } = TakeFromBucket(buckets.get(key), limit, cost);
+      buckets.set(key, bucket);
+      return result;
+    },
+  };
+};
+
+// buckets are stored next to the user data and updated with optimistic concurrency
+export const CosmosRateLimitStore = (): RateLimitStore => {
+  return {
+    take: async ({ userId, limit, cost }) => {
+      const container = HistoryContainer();
+      const id = `${RATE_LIMIT_BUCKET_ATTRIBUTE}-${limit.route}-${userId}`;
+
+      for (let attempt = 0; attempt < MAX_CONCURRENCY_RETRIES; attempt++) {
+        try {
+          const { resource, etag } = await container
+            .item(id, userId)
+            .read<TokenBucketDocument>();
+
+          const { bucket, result } = TakeFromBucket(resource, limit, cost);
+
+          const document: TokenBucketDocument = {
+            id,
+            userId,
+            route: limit.route,
+            type: RATE_LIMIT_BUCKET_ATTRIBUTE,
+            ...bucket,
+          };
+
+          if (resource) {
+            await container.item(id, userId).replace(document, {
+              accessCondition: { type: "IfMatch", condition: etag },
+            });
+          } else {
+            await container.items.create(document);
+          }
+
+          return result;
+        } catch (error) {
+          const code = (error as ErrorResponse).code;
+          // 412: updated by someone else, 409: created by someone else
+          if (code !== 412 && code !== 409) {
+            throw error;
+          }
+        }
+      }
+
+      // under heavy contention the request is let through rather than failed
+      return { allowed: true, retryAfter: 0 };
+    },
+  };
+};
+
+export const RateLimitStoreInstance = (): RateLimitStore => {
+  return process.env.RATE_LIMIT_STORE === "cosmos"
+    ? CosmosRateLimitStore()
+    : MemoryRateLimitStore();
+};
+
+const TakeFromBucket = (
+  current: TokenBucket | undefined,
+  limit: RateLimitModel,
+  cost: number
+): { bucket: TokenBucket; result: RateLimitResult } => {
+  const now = Date.now();
+  const refillPerMs = limit.refillPerMinute / 60000;
+
+  const tokens = current
+    ? Math.min(
+        limit.capacity,
+        current.tokens + (now - current.updatedAt) * refillPerMs
+      )
+    : limit.capacity;
+
+  if (tokens >= cost) {
+    return {
+      bucket: { tokens: tokens - cost, updatedAt: now },
+      result: { allowed: true, retryAfter: 0 },
+    };
+  }
+
+  return {
+    bucket: { tokens, updatedAt: now },
+    result: {
+      allowed: false,
+      retryAfter: Math.ceil((cost - tokens) / refillPerMs / 1000),
+    },
+  };
+};
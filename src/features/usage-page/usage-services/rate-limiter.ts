@@ -0,0 +1,61 @@
+import "server-only";
+
+import { userHashedId } from "@/features/auth-page/helpers";
+import { RateLimitModel, RateLimitResult, RateLimitRoute } from "./models";
+import { FindAllRateLimits } from "./rate-limit-service";
+import { RateLimitStoreInstance } from "./rate-limit-store";
+
+// the limits are read from the config at most once a minute per server instance
+const CONFIG_CACHE_MS = 60 * 1000;
+
+let cachedLimits: { limits: Array<RateLimitModel>; expiresAt: number } = {
+  limits: [],
+  expiresAt: 0,
+};
+
+// Takes cost tokens from the bucket of the current user for the route.
+// Requests are let through when the limits or the store can't be read.
+export const CheckRateLimit = async (
+  route: RateLimitRoute,
+  cost: number = 1
+): Promise<RateLimitResult> => {
+  try {
+    const limit = (await RateLimits()).find((l) => l.route === route);
+
+    if (!limit || !limit.enabled) {
+      return { allowed: true, retryAfter: 0 };
+    }
+
+    return await RateLimitStoreInstance().take({
+      userId: await userHashedId(),
+      limit,
+      // a request bigger than the bucket would never be allowed
+      cost: Math.min(cost, limit.capacity),
+    });
+  } catch (error) {
+    console.error("🔴 Error on checking rate limit:", error);
+    return { allowed: true, retryAfter: 0 };
+  }
+};
+
+export const RateLimitMessage = (result: RateLimitResult) =>
+  `You are sending requests too quickly. Please try again in ${result.retryAfter} second${result.retryAfter === 1 ? "" : "s"}.`;
+
+const RateLimits = async () => {
+  if (cachedLimits.expiresAt > Date.now()) {
+    return cachedLimits.limits;
+  }
+
+  const response = await FindAllRateLimits();
+
+  if (response.status !== "OK") {
+    return cachedLimits.limits;
+  }
+
+  cachedLimits = {
+    limits: response.response,
+    expiresAt: Date.now() + CONFIG_CACHE_MS,
+  };
+
+  return cachedLimits.limits;
+};
@@ -0,0 +1,173 @@
+import "server-only";
+
+import { getCurrentUser, userHashedId } from "@/features/auth-page/helpers";
+import { ServerActionResponse } from "@/features/common/server-action-response";
+import { HistoryContainer } from "@/features/common/services/cosmos";
+import { uniqueId } from "@/features/common/util";
+import { ModelDeploymentModel } from "@/features/model-page/model-services/models";
+import { CompletionUsage } from "openai/resources/completions";
+import {
+  UNASSIGNED_BUSINESS_UNIT,
+  USAGE_ATTRIBUTE,
+  UsageKind,
+  UsageModel,
+  UsageMonth,
+  UsageQuotaModel,
+  UsageTotals,
+} from "./models";
+import {
+  FindAllUsageQuotas,
+  FindUsageTotalsForCurrentUser,
+} from "./usage-service";
+
+// Adds an entry to the usage ledger of the current user.
+// Failing to record usage never fails the request it belongs to.
+export const RecordUsage = async (props: {
+  threadId: string;
+  messageId?: string;
+  kind: UsageKind;
+  model: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  embeddingTokens?: number;
+  images?: number;
+  cost?: number;
+}) => {
+  try {
+    const user = await getCurrentUser();
+    const now = new Date();
+
+    const usage: UsageModel = {
+      id: uniqueId(),
+      userId: await userHashedId(),
+      userName: user.name,
+      email: user.email,
+      businessUnit: user.businessUnit || UNASSIGNED_BUSINESS_UNIT,
+      threadId: props.threadId,
+      messageId: props.messageId ?? "",
+      kind: props.kind,
+      model: props.model,
+      promptTokens: props.promptTokens ?? 0,
+      completionTokens: props.completionTokens ?? 0,
+      embeddingTokens: props.embeddingTokens ?? 0,
+      images: props.images ?? 0,
+      cost: props.cost ?? 0,
+      month: UsageMonth(now),
+      createdAt: now,
+      type: USAGE_ATTRIBUTE,
+    };
+
+    await HistoryContainer().items.create<UsageModel>(usage);
+  } catch (error) {
+    console.error("🔴 Error on recording usage:", error);
+  }
+};
+
+// Records a completion made next to the answer, priced with the costs of the
+// model deployment. Deployments that don't return usage record nothing.
+export const RecordCompletionUsage = async (props: {
+  threadId: string;
+  messageId?: string;
+  kind: UsageKind;
+  model: ModelDeploymentModel;
+  usage?: CompletionUsage;
+}) => {
+  const { model, usage } = props;
+
+  if (!usage) {
+    return;
+  }
+
+  await RecordUsage({
+    threadId: props.threadId,
+    messageId: props.messageId,
+    kind: props.kind,
+    model: model.deploymentName,
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    cost:
+      (usage.prompt_tokens / 1000) * model.inputCost +
+      (usage.completion_tokens / 1000) * model.outputCost,
+  });
+};
+
+// Checks the usage of the current user for this month against the most specific quota:
+// a quota for the user, then for the business unit, then the default quota.
+export const CheckUsageQuota = async (): Promise<
+  ServerActionResponse<UsageTotals>
+> => {
+  const [user, quotasResponse, usageResponse] = await Promise.all([
+    getCurrentUser(),
+    FindAllUsageQuotas(),
+    FindUsageTotalsForCurrentUser(UsageMonth()),
+  ]);
+
+  // usage is not blocked when the quotas can't be read
+  if (quotasResponse.status !== "OK" || usageResponse.status !== "OK") {
+    return {
+      status: "OK",
+      response:
+        usageResponse.status === "OK" ? usageResponse.response : EMPTY_TOTALS,
+    };
+  }
+
+  const quotas = quotasResponse.response;
+  const quota =
+    findQuota(quotas, "user", user.email.toLowerCase()) ??
+    findQuota(quotas, "businessUnit", user.businessUnit) ??
+    findQuota(quotas, "default", "");
+
+  const usage = usageResponse.response;
+
+  if (quota) {
+    const tokens =
+      usage.promptTokens + usage.completionTokens + usage.embeddingTokens;
+
+    if (quota.monthlyTokens > 0 && tokens >= quota.monthlyTokens) {
+      return {
+        status: "ERROR",
+        errors: [
+          {
+            message: `You have used your monthly allowance of ${quota.monthlyTokens.toLocaleString()} tokens. It resets at the start of next month, please contact your administrator if you need more.`,
+          },
+        ],
+      };
+    }
+
+    if (quota.monthlyImages > 0 && usage.images >= quota.monthlyImages) {
+      return {
+        status: "ERROR",
+        errors: [
+          {
+            message: `You have created your monthly allowance of ${quota.monthlyImages} images. It resets at the start of next month, please contact your administrator if you need more.`,
+          },
+        ],
+      };
+    }
+  }
+
+  return {
+    status: "OK",
+    response: usage,
+  };
+};
+
+const findQuota = (
+  quotas: Array<UsageQuotaModel>,
+  scope: UsageQuotaModel["scope"],
+  target?: string
+) => {
+  if (target === undefined) {
+    return undefined;
+  }
+
+  return quotas.find((q) => q.scope === scope && q.target === target);
+};
+
+const EMPTY_TOTALS: UsageTotals = {
+  promptTokens: 0,
+  completionTokens: 0,
+  embeddingTokens: 0,
+  images: 0,
+  cost: 0,
+};
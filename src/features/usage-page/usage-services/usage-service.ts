@@ -0,0 +1,413 @@
+"use server";
+import "server-only";
+
+import { getCurrentUser, userHashedId } from "@/features/auth-page/helpers";
+import {
+  ServerActionResponse,
+  zodErrorsToServerActionErrors,
+} from "@/features/common/server-action-response";
+import {
+  ConfigContainer,
+  HistoryContainer,
+} from "@/features/common/services/cosmos";
+import { uniqueId } from "@/features/common/util";
+import { SqlQuerySpec } from "@azure/cosmos";
+import {
+  BusinessUnitUsageTotals,
+  USAGE_ATTRIBUTE,
+  USAGE_QUOTA_ATTRIBUTE,
+  UsageQuotaModel,
+  UsageQuotaModelSchema,
+  UsageTotals,
+  UserUsageTotals,
+} from "./models";
+
+const TOTALS_SELECT =
+  "SUM(r.promptTokens) AS promptTokens, SUM(r.completionTokens) AS completionTokens, SUM(r.embeddingTokens) AS embeddingTokens, SUM(r.images) AS images, SUM(r.cost) AS cost";
+
+export const FindUsageTotalsForCurrentUser = async (
+  month: string
+): Promise<ServerActionResponse<UsageTotals>> => {
+  try {
+    const querySpec: SqlQuerySpec = {
+      query: `SELECT ${TOTALS_SELECT} FROM root r WHERE r.type=@type AND r.userId=@userId AND r.month=@month`,
+      parameters: [
+        {
+          name: "@type",
+          value: USAGE_ATTRIBUTE,
+        },
+        {
+          name: "@userId",
+          value: await userHashedId(),
+        },
+        {
+          name: "@month",
+          value: month,
+        },
+      ],
+    };
+
+    const { resources } = await HistoryContainer()
+      .items.query<Partial<UsageTotals>>(querySpec)
+      .fetchAll();
+
+    return {
+      status: "OK",
+      response: ToUsageTotals(resources[0] ?? {}),
+    };
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `Error retrieving usage: ${error}`,
+        },
+      ],
+    };
+  }
+};
+
+export const FindUsageByUserForAdmin = async (
+  month: string
+): Promise<ServerActionResponse<Array<UserUsageTotals>>> => {
+  const user = await getCurrentUser();
+
+  if (!user.isAdmin) {
+    return {
+      status: "UNAUTHORIZED",
+      errors: [{ message: "You are not authorized to perform this action" }],
+    };
+  }
+
+  try {
+    const querySpec: SqlQuerySpec = {
+      query: `SELECT r.userId, r.userName, r.email, r.businessUnit, ${TOTALS_SELECT} FROM root r WHERE r.type=@type AND r.month=@month GROUP BY r.userId, r.userName, r.email, r.businessUnit`,
+      parameters: [
+        {
+          name: "@type",
+          value: USAGE_ATTRIBUTE,
+        },
+        {
+          name: "@month",
+          value: month,
+        },
+      ],
+    };
+
+    const { resources } = await HistoryContainer()
+      .items.query<UserUsageTotals>(querySpec)
+      .fetchAll();
+
+    return {
+      status: "OK",
+      response: resources
+        .map((r) => ({ ...r, ...ToUsageTotals(r) }))
+        .sort((a, b) => b.cost - a.cost),
+    };
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `Error retrieving usage: ${error}`,
+        },
+      ],
+    };
+  }
+};
+
+export const FindUsageByBusinessUnitForAdmin = async (
+  month: string
+): Promise<ServerActionResponse<Array<BusinessUnitUsageTotals>>> => {
+  const user = await getCurrentUser();
+
+  if (!user.isAdmin) {
+    return {
+      status: "UNAUTHORIZED",
+      errors: [{ message: "You are not authorized to perform this action" }],
+    };
+  }
+
+  try {
+    const querySpec: SqlQuerySpec = {
+      query: `SELECT r.businessUnit, ${TOTALS_SELECT} FROM root r WHERE r.type=@type AND r.month=@month GROUP BY r.businessUnit`,
+      parameters: [
+        {
+          name: "@type",
+          value: USAGE_ATTRIBUTE,
+        },
+        {
+          name: "@month",
+          value: month,
+        },
+      ],
+    };
+
+    const { resources } = await HistoryContainer()
+      .items.query<BusinessUnitUsageTotals>(querySpec)
+      .fetchAll();
+
+    return {
+      status: "OK",
+      response: resources
+        .map((r) => ({ ...r, ...ToUsageTotals(r) }))
+        .sort((a, b) => b.cost - a.cost),
+    };
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `Error retrieving usage: ${error}`,
+        },
+      ],
+    };
+  }
+};
+
+export const FindAllUsageQuotas = async (): Promise<
+  ServerActionResponse<Array<UsageQuotaModel>>
+> => {
+  try {
+    const querySpec: SqlQuerySpec = {
+      query: "SELECT * FROM root r WHERE r.type=@type ORDER BY r.scope ASC",
+      parameters: [
+        {
+          name: "@type",
+          value: USAGE_QUOTA_ATTRIBUTE,
+        },
+      ],
+    };
+
+    const { resources } = await ConfigContainer()
+      .items.query<UsageQuotaModel>(querySpec)
+      .fetchAll();
+
+    return {
+      status: "OK",
+      response: resources,
+    };
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `Error retrieving quotas: ${error}`,
+        },
+      ],
+    };
+  }
+};
+
+export const CreateUsageQuota = async (
+  props: UsageQuotaModel
+): Promise<ServerActionResponse<UsageQuotaModel>> => {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user.isAdmin) {
+      return {
+        status: "UNAUTHORIZED",
+        errors: [
+          {
+            message: `Unable to create quota - admin role required.`,
+          },
+        ],
+      };
+    }
+
+    const quotaToSave: UsageQuotaModel = {
+      id: uniqueId(),
+      scope: props.scope,
+      target: NormalizeTarget(props),
+      monthlyTokens: props.monthlyTokens,
+      monthlyImages: props.monthlyImages,
+      userId: await userHashedId(),
+      createdAt: new Date(),
+      type: USAGE_QUOTA_ATTRIBUTE,
+    };
+
+    const valid = ValidateSchema(quotaToSave);
+
+    if (valid.status !== "OK") {
+      return valid;
+    }
+
+    const { resource } =
+      await ConfigContainer().items.create<UsageQuotaModel>(quotaToSave);
+
+    if (resource) {
+      return {
+        status: "OK",
+        response: resource,
+      };
+    }
+
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: "Error creating quota",
+        },
+      ],
+    };
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `Error creating quota: ${error}`,
+        },
+      ],
+    };
+  }
+};
+
+export const EnsureUsageQuotaOperation = async (
+  id: string
+): Promise<ServerActionResponse<UsageQuotaModel>> => {
+  const currentUser = await getCurrentUser();
+  const quotasResponse = await FindAllUsageQuotas();
+
+  if (quotasResponse.status === "OK" && currentUser.isAdmin) {
+    const quota = quotasResponse.response.find((q) => q.id === id);
+    if (quota) {
+      return {
+        status: "OK",
+        response: quota,
+      };
+    }
+  }
+
+  return {
+    status: "UNAUTHORIZED",
+    errors: [
+      {
+        message: `Quota not found with id: ${id}`,
+      },
+    ],
+  };
+};
+
+export const UpsertUsageQuota = async (
+  quotaInput: UsageQuotaModel
+): Promise<ServerActionResponse<UsageQuotaModel>> => {
+  try {
+    const quotaResponse = await EnsureUsageQuotaOperation(quotaInput.id);
+
+    if (quotaResponse.status === "OK") {
+      const quotaToUpdate: UsageQuotaModel = {
+        ...quotaResponse.response,
+        scope: quotaInput.scope,
+        target: NormalizeTarget(quotaInput),
+        monthlyTokens: quotaInput.monthlyTokens,
+        monthlyImages: quotaInput.monthlyImages,
+        createdAt: new Date(),
+      };
+
+      const validationResponse = ValidateSchema(quotaToUpdate);
+      if (validationResponse.status !== "OK") {
+        return validationResponse;
+      }
+
+      const { resource } =
+        await ConfigContainer().items.upsert<UsageQuotaModel>(quotaToUpdate);
+
+      if (resource) {
+        return {
+          status: "OK",
+          response: resource,
+        };
+      }
+
+      return {
+        status: "ERROR",
+        errors: [
+          {
+            message: "Error updating quota",
+          },
+        ],
+      };
+    }
+
+    return quotaResponse;
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `Error updating quota: ${error}`,
+        },
+      ],
+    };
+  }
+};
+
+export const DeleteUsageQuota = async (
+  id: string
+): Promise<ServerActionResponse<UsageQuotaModel>> => {
+  try {
+    const quotaResponse = await EnsureUsageQuotaOperation(id);
+
+    if (quotaResponse.status === "OK") {
+      const { resource: deletedQuota } = await ConfigContainer()
+        .item(id, quotaResponse.response.userId)
+        .delete();
+
+      return {
+        status: "OK",
+        response: deletedQuota,
+      };
+    }
+
+    return quotaResponse;
+  } catch (error) {
+    return {
+      status: "ERROR",
+      errors: [
+        {
+          message: `Error deleting quota: ${error}`,
+        },
+      ],
+    };
+  }
+};
+
+// emails are compared case insensitive, the default quota has no target
+const NormalizeTarget = (quota: UsageQuotaModel) => {
+  switch (quota.scope) {
+    case "default":
+      return "";
+    case "user":
+      return quota.target.trim().toLowerCase();
+    default:
+      return quota.target.trim();
+  }
+};
+
+// SUM returns nothing when there is no usage for the period
+const ToUsageTotals = (totals: Partial<UsageTotals>): UsageTotals => {
+  return {
+    promptTokens: totals.promptTokens ?? 0,
+    completionTokens: totals.completionTokens ?? 0,
+    embeddingTokens: totals.embeddingTokens ?? 0,
+    images: totals.images ?? 0,
+    cost: totals.cost ?? 0,
+  };
+};
+
+const ValidateSchema = (quota: UsageQuotaModel): ServerActionResponse => {
+  const validatedFields = UsageQuotaModelSchema.safeParse(quota);
+
+  if (!validatedFields.success) {
+    return {
+      status: "ERROR",
+      errors: zodErrorsToServerActionErrors(validatedFields.error.errors),
+    };
+  }
+
+  return {
+    status: "OK",
+    response: quota,
+  };
+};
@@ -0,0 +1,143 @@
+import { proxy, useSnapshot } from "valtio";
+import { RevalidateCache } from "../common/navigation-helpers";
+import { ServerActionResponse } from "../common/server-action-response";
+import {
+  RATE_LIMIT_ATTRIBUTE,
+  RateLimitModel,
+  RateLimitRoute,
+  USAGE_QUOTA_ATTRIBUTE,
+  UsageQuotaModel,
+  UsageQuotaScope,
+} from "./usage-services/models";
+import { UpsertRateLimit } from "./usage-services/rate-limit-service";
+import {
+  CreateUsageQuota,
+  UpsertUsageQuota,
+} from "./usage-services/usage-service";
+
+class UsageState {
+  private defaultQuota: UsageQuotaModel = {
+    id: "",
+    scope: "default",
+    target: "",
+    monthlyTokens: 0,
+    monthlyImages: 0,
+    userId: "",
+    createdAt: new Date(),
+    type: USAGE_QUOTA_ATTRIBUTE,
+  };
+
+  public errors: string[] = [];
+  public quota: UsageQuotaModel = { ...this.defaultQuota };
+  public isOpened: boolean = false;
+  public rateLimit: RateLimitModel | undefined = undefined;
+  public isRateLimitOpened: boolean = false;
+
+  public newQuota(scope: UsageQuotaScope) {
+    this.quota = {
+      ...this.defaultQuota,
+      scope,
+    };
+    this.isOpened = true;
+  }
+
+  public updateOpened(value: boolean) {
+    this.isOpened = value;
+  }
+
+  public updateQuota(quota: UsageQuotaModel) {
+    this.quota = {
+      ...quota,
+    };
+    this.isOpened = true;
+  }
+
+  public updateRateLimit(rateLimit: RateLimitModel) {
+    this.rateLimit = {
+      ...rateLimit,
+    };
+    this.isRateLimitOpened = true;
+  }
+
+  public updateRateLimitOpened(value: boolean) {
+    this.isRateLimitOpened = value;
+  }
+
+  public updateErrors(errors: string[]) {
+    this.errors = errors;
+  }
+}
+
+export const usageStore = proxy(new UsageState());
+
+export const useUsageState = () => {
+  return useSnapshot(usageStore, {
+    sync: true,
+  });
+};
+
+export const addOrUpdateQuota = async (
+  previous: any,
+  formData: FormData
+): Promise<ServerActionResponse<UsageQuotaModel>> => {
+  usageStore.updateErrors([]);
+
+  const quota = FormDataToUsageQuota(formData);
+
+  const response =
+    quota.id && quota.id !== ""
+      ? await UpsertUsageQuota(quota)
+      : await CreateUsageQuota(quota);
+
+  if (response.status === "OK") {
+    usageStore.updateOpened(false);
+    RevalidateCache({
+      page: "usage",
+    });
+  } else {
+    usageStore.updateErrors(response.errors.map((e) => e.message));
+  }
+  return response;
+};
+
+export const FormDataToUsageQuota = (formData: FormData): UsageQuotaModel => {
+  return {
+    id: formData.get("id") as string,
+    scope: formData.get("scope") as UsageQuotaScope,
+    target: (formData.get("target") as string) ?? "",
+    monthlyTokens: Number(formData.get("monthlyTokens")),
+    monthlyImages: Number(formData.get("monthlyImages")),
+    userId: "", // the user id is set on the server once the user is authenticated
+    createdAt: new Date(),
+    type: USAGE_QUOTA_ATTRIBUTE,
+  };
+};
+
+export const updateRateLimit = async (
+  previous: any,
+  formData: FormData
+): Promise<ServerActionResponse<RateLimitModel>> => {
+  const response = await UpsertRateLimit(FormDataToRateLimit(formData));
+
+  if (response.status === "OK") {
+    usageStore.updateRateLimitOpened(false);
+    RevalidateCache({
+      page: "usage",
+    });
+  }
+
+  return response;
+};
+
+export const FormDataToRateLimit = (formData: FormData): RateLimitModel => {
+  return {
+    id: formData.get("id") as string,
+    route: formData.get("route") as RateLimitRoute,
+    capacity: Number(formData.get("capacity")),
+    refillPerMinute: Number(formData.get("refillPerMinute")),
+    enabled: formData.get("enabled") === "on",
+    userId: "", // the user id is set on the server once the user is authenticated
+    createdAt: new Date(),
+    type: RATE_LIMIT_ATTRIBUTE,
+  };
+};
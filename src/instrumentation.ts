@@ -0,0 +1,11 @@
+// Runs once when a server instance starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    // jobs queued or leased before a restart are picked up right away instead
+    // of waiting for a page that polls their progress
+    const { StartIngestionWorker } = await import(
+      "@/features/chat-page/chat-services/document-ingestion"
+    );
+    StartIngestionWorker();
+  }
+}
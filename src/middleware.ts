@@ -7,9 +7,14 @@ const requireAuth: string[] = [
   "/reporting",
   "/unauthorized",
   "/persona",
-  "/prompt"
+  "/knowledge",
+  "/prompt",
+  "/models",
+  "/usage",
+  "/profile",
+  "/citation",
 ];
-const requireAdmin: string[] = ["/reporting"];
+const requireAdmin: string[] = ["/reporting", "/models", "/usage"];
 
 export async function middleware(request: NextRequest) {
   const res = NextResponse.next();
@@ -39,12 +44,17 @@ export async function middleware(request: NextRequest) {
 }
 
 // note that middleware is not applied to api/auth as this is required to logon (i.e. requires anon access)
+// and to api/v1, which authenticates with API keys instead of a session
 export const config = {
   matcher: [
     "/unauthorized/:path*",
     "/reporting/:path*",
+    "/models/:path*",
+    "/usage/:path*",
+    "/profile/:path*",
     "/api/chat:path*",
     "/api/images:path*",
+    "/api/knowledge:path*",
     "/chat/:path*",
   ],
 };
@@ -3,6 +3,19 @@ const nextConfig = {
   output: "standalone",
   experimental: {
     serverComponentsExternalPackages: ["@azure/storage-blob"],
+    // instrumentation.ts starts the ingestion worker with the server
+    instrumentationHook: true,
+  },
+  webpack: (config, { isServer, nextRuntime }) => {
+    // the hook is bundled outside the server layer, where the "server-only"
+    // modules it starts can't be imported
+    if (isServer && nextRuntime === "nodejs") {
+      config.module.rules.unshift({
+        test: /[\\/]instrumentation\.ts$/,
+        layer: "rsc",
+      });
+    }
+    return config;
   },
 };
 
@@ -6,14 +6,17 @@ declare module "next-auth" {
   interface Session {
     user: {
       isAdmin: boolean;
+      businessUnit?: string;
     } & DefaultSession["user"];
   }
 
   interface Token {
     isAdmin: boolean;
+    businessUnit?: string;
   }
 
   interface User {
     isAdmin: boolean;
+    businessUnit?: string;
   }
 }